@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './routes/ProtectedRoutes';
 import LoginPage from './pages/LoginPage';
+import AcceptInvitePage from './pages/AcceptInvitePage';
 import AppRoutes from './routes/AppRoutes';
 
 const App = () => (
@@ -9,6 +10,7 @@ const App = () => (
     <BrowserRouter>
       <Routes>
         <Route path="/login" element={<LoginPage />} />
+        <Route path="/accept-invite/:token" element={<AcceptInvitePage />} />
 
         {/* Protected routes - sadece authentication kontrolü */}
         <Route
@@ -0,0 +1,242 @@
+// src/components/AvailabilityDialog.tsx - Weekly teaching hours and time off for one trainer
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  TextField,
+  MenuItem,
+  IconButton,
+  CircularProgress,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { DatePicker, TimePicker } from '@mui/x-date-pickers';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { AvailabilityWindow, TimeOffPeriod } from '../types/staff';
+import { getStaffAvailability, updateStaffAvailability } from '../services/availabilityService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface AvailabilityDialogProps {
+  open: boolean;
+  staffId: string;
+  staffName: string;
+  onClose: () => void;
+}
+
+const weekDays = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' },
+];
+
+const toTimeValue = (time: string) => (time ? new Date(`2000-01-01T${time}`) : null);
+
+const AvailabilityDialog: React.FC<AvailabilityDialogProps> = ({ open, staffId, staffName, onClose }) => {
+  const [weekly, setWeekly] = useState<AvailabilityWindow[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOffPeriod[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open || !staffId) return;
+    setError(null);
+    setLoading(true);
+    getStaffAvailability(staffId)
+      .then(availability => {
+        setWeekly(availability.weekly);
+        setTimeOff(availability.timeOff);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [open, staffId]);
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWeekly(prev => prev.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const updateTimeOff = (index: number, changes: Partial<TimeOffPeriod>) => {
+    setTimeOff(prev => prev.map((period, i) => (i === index ? { ...period, ...changes } : period)));
+  };
+
+  const addWindow = () => {
+    setWeekly(prev => [...prev, { dayOfWeek: 1, startTime: '09:00', endTime: '17:00' }]);
+  };
+
+  const addTimeOff = () => {
+    const today = new Date();
+    setTimeOff(prev => [...prev, { id: `off_${Date.now()}`, startDate: today, endDate: today, reason: '' }]);
+  };
+
+  const handleSave = async () => {
+    if (!userData) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await updateStaffAvailability(staffId, weekly, timeOff, userData.uid);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog
+        open={open}
+        onClose={() => !saving && onClose()}
+        fullWidth
+        maxWidth="sm"
+        fullScreen={isMobile}
+      >
+        <DialogTitle>
+          <Typography variant="h6" component="div" fontWeight={600}>
+            Availability: {staffName}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Classes scheduled outside these hours or during time off get a warning.
+          </Typography>
+        </DialogTitle>
+        <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+                Weekly Hours
+              </Typography>
+              {weekly.length === 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  No weekly hours set. Any time is treated as available.
+                </Typography>
+              )}
+              {weekly.map((window, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1.5 }}>
+                  <TextField
+                    select
+                    label="Day"
+                    size="small"
+                    value={window.dayOfWeek}
+                    onChange={(e) => updateWindow(index, { dayOfWeek: Number(e.target.value) })}
+                    disabled={saving}
+                    sx={{ minWidth: 130 }}
+                  >
+                    {weekDays.map(day => (
+                      <MenuItem key={day.value} value={day.value}>{day.label}</MenuItem>
+                    ))}
+                  </TextField>
+                  <TimePicker
+                    label="From"
+                    value={toTimeValue(window.startTime)}
+                    onChange={(newValue) => newValue && updateWindow(index, { startTime: newValue.toTimeString().slice(0, 5) })}
+                    disabled={saving}
+                    slotProps={{ textField: { size: 'small' } }}
+                  />
+                  <TimePicker
+                    label="To"
+                    value={toTimeValue(window.endTime)}
+                    onChange={(newValue) => newValue && updateWindow(index, { endTime: newValue.toTimeString().slice(0, 5) })}
+                    disabled={saving}
+                    slotProps={{ textField: { size: 'small' } }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setWeekly(prev => prev.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    aria-label="Remove hours"
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button startIcon={<AddIcon />} size="small" onClick={addWindow} disabled={saving}>
+                Add Hours
+              </Button>
+
+              <Divider sx={{ my: 2 }} />
+
+              <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+                Time Off
+              </Typography>
+              {timeOff.map((period, index) => (
+                <Box key={period.id} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 1.5 }}>
+                  <DatePicker
+                    label="From"
+                    value={period.startDate}
+                    onChange={(newValue) => newValue && updateTimeOff(index, { startDate: newValue })}
+                    disabled={saving}
+                    slotProps={{ textField: { size: 'small', sx: { width: 160 } } }}
+                  />
+                  <DatePicker
+                    label="To"
+                    value={period.endDate}
+                    onChange={(newValue) => newValue && updateTimeOff(index, { endDate: newValue })}
+                    disabled={saving}
+                    slotProps={{ textField: { size: 'small', sx: { width: 160 } } }}
+                  />
+                  <TextField
+                    label="Reason"
+                    size="small"
+                    value={period.reason || ''}
+                    onChange={(e) => updateTimeOff(index, { reason: e.target.value })}
+                    disabled={saving}
+                    sx={{ flex: 1, minWidth: 120 }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setTimeOff(prev => prev.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    aria-label="Remove time off"
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button startIcon={<AddIcon />} size="small" onClick={addTimeOff} disabled={saving}>
+                Add Time Off
+              </Button>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => onClose()} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default AvailabilityDialog;
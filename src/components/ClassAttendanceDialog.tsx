@@ -0,0 +1,296 @@
+// src/components/ClassAttendanceDialog.tsx - Instructor attendance for a single class or session
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemButton,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  InputAdornment,
+  Paper,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import PersonAddIcon from '@mui/icons-material/PersonAdd';
+import { format } from 'date-fns';
+import { ClassRecord } from '../services/classService';
+import { AttendanceStatus, ClassEnrollment, MemberRecord } from '../types/members';
+import { searchMembers } from '../services/memberService';
+import {
+  getClassRoster,
+  markAttendance,
+  addWalkIn,
+} from '../services/enrollmentService';
+import { getBookingBlockReason } from '../services/entitlementService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface ClassAttendanceDialogProps {
+  open: boolean;
+  classRecord: ClassRecord | null;
+  onClose: (changed: boolean) => void;
+}
+
+const MAX_SEARCH_RESULTS = 6;
+
+const ATTENDANCE_OPTIONS: { value: AttendanceStatus; label: string; color: 'success' | 'warning' | 'error' }[] = [
+  { value: 'present', label: 'Present', color: 'success' },
+  { value: 'late', label: 'Late', color: 'warning' },
+  { value: 'no_show', label: 'No-show', color: 'error' },
+];
+
+const ClassAttendanceDialog: React.FC<ClassAttendanceDialogProps> = ({ open, classRecord, onClose }) => {
+  const [roster, setRoster] = useState<ClassEnrollment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showWalkIn, setShowWalkIn] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<MemberRecord[]>([]);
+  const [changed, setChanged] = useState(false);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  const loadRoster = useCallback(async () => {
+    if (!classRecord) return;
+    try {
+      setLoading(true);
+      const enrollments = await getClassRoster(classRecord.id);
+      setRoster(enrollments.filter(e => e.status === 'Enrolled'));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [classRecord]);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setShowWalkIn(false);
+    setSearchTerm('');
+    setResults([]);
+    setChanged(false);
+    loadRoster();
+  }, [open, loadRoster]);
+
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchMembers(searchTerm)
+      .then(members => {
+        if (!cancelled) {
+          setResults(members.filter(m => m.isActive).slice(0, MAX_SEARCH_RESULTS));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm]);
+
+  if (!classRecord) return null;
+
+  const rosterIds = new Set(roster.map(e => e.memberId));
+  const markedCount = roster.filter(e => e.attendance).length;
+  const attendedCount = roster.filter(e => e.attendance === 'present' || e.attendance === 'late').length;
+
+  const handleMark = async (enrollment: ClassEnrollment, attendance: AttendanceStatus | null) => {
+    if (!userData || !attendance || attendance === enrollment.attendance) return;
+    try {
+      setWorking(enrollment.id);
+      setError(null);
+      const updated = await markAttendance(enrollment.id, attendance, userData.uid, userData.fullName);
+      setRoster(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+      setChanged(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleWalkIn = async (member: MemberRecord) => {
+    if (!userData) return;
+    try {
+      setWorking(member.id);
+      setError(null);
+      await addWalkIn(classRecord.id, member.id, 'present', userData.uid, userData.fullName);
+      setSearchTerm('');
+      setShowWalkIn(false);
+      setChanged(true);
+      await loadRoster();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !working && onClose(changed)}
+      fullWidth
+      maxWidth="sm"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          Attendance: {classRecord.title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {format(classRecord.date.toDate(), 'EEE, MMM dd')} • {classRecord.startTime} - {classRecord.endTime}
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            {attendedCount} attended • {markedCount}/{roster.length} marked
+          </Typography>
+          <Button
+            size="small"
+            startIcon={<PersonAddIcon />}
+            onClick={() => setShowWalkIn(prev => !prev)}
+          >
+            Add Walk-in
+          </Button>
+        </Box>
+
+        {showWalkIn && (
+          <Box sx={{ mb: 2 }}>
+            <TextField
+              fullWidth
+              size="small"
+              autoFocus
+              placeholder="Search member by name, email or phone..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+            {results.length > 0 && (
+              <Paper variant="outlined" sx={{ mt: 1 }}>
+                <List dense disablePadding>
+                  {results.map(member => {
+                    const blockReason = rosterIds.has(member.id)
+                      ? 'Already on the roster'
+                      : getBookingBlockReason(member);
+                    return (
+                      <ListItemButton
+                        key={member.id}
+                        onClick={() => handleWalkIn(member)}
+                        disabled={!!blockReason || !!working}
+                      >
+                        <ListItemText
+                          primary={`${member.firstName} ${member.lastName}`}
+                          secondary={blockReason || member.email}
+                          secondaryTypographyProps={{ color: blockReason ? 'error' : 'text.secondary' }}
+                        />
+                        {working === member.id && <CircularProgress size={18} />}
+                      </ListItemButton>
+                    );
+                  })}
+                </List>
+              </Paper>
+            )}
+          </Box>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : roster.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Nobody is booked into this class. Use "Add Walk-in" for members who turned up.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {roster.map(enrollment => (
+              <ListItem
+                key={enrollment.id}
+                divider
+                sx={{
+                  flexDirection: { xs: 'column', sm: 'row' },
+                  alignItems: { xs: 'flex-start', sm: 'center' },
+                  gap: 1,
+                }}
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {enrollment.memberName}
+                      {enrollment.walkIn && <Chip label="Walk-in" size="small" variant="outlined" />}
+                    </Box>
+                  }
+                  secondary={enrollment.checkInId ? 'Checked in' : undefined}
+                />
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {working === enrollment.id && <CircularProgress size={18} />}
+                  <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={enrollment.attendance || null}
+                    onChange={(_, value) => handleMark(enrollment, value)}
+                    disabled={!!working}
+                  >
+                    {ATTENDANCE_OPTIONS.map(option => (
+                      <ToggleButton
+                        key={option.value}
+                        value={option.value}
+                        color={option.color}
+                        disabled={option.value === 'no_show' && !!enrollment.checkInId}
+                      >
+                        {option.label}
+                      </ToggleButton>
+                    ))}
+                  </ToggleButtonGroup>
+                </Box>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => onClose(changed)} disabled={!!working}>
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClassAttendanceDialog;
@@ -57,6 +57,10 @@ import {
   OptimizedImageResult
 } from '../utils/imageUtils';
 import { useRoleControl } from '../hooks/useRoleControl';
+import { SPORT_CATEGORIES } from '../services/membershipPackageService';
+import { checkScheduleConflicts } from '../services/availabilityService';
+import { ScheduleConflict, ScheduleSlot } from '../utils/scheduleConflicts';
+import ScheduleConflictAlert from './ScheduleConflictAlert';
 
 interface ClassFormProps {
   open: boolean;
@@ -104,6 +108,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
     instructorName: '',
     price: 0,
     isActive: true,
+    sportCategory: '',
   });
 
   const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>({
@@ -133,10 +138,13 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { isAdmin } = useRoleControl();
+  const { hasPermission } = useRoleControl();
+  const canManageClasses = hasPermission('classes.manage');
 
   useEffect(() => {
     if (open) {
@@ -156,6 +164,12 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
     }
   }, [open, editData]);
 
+  // Conflicts only hold for the times, place and instructor they were checked against
+  useEffect(() => {
+    setConflicts([]);
+    setOverrideConflicts(false);
+  }, [formData.date, formData.startTime, formData.endTime, formData.location, formData.instructorId, scheduleSettings]);
+
   const loadInstructors = async () => {
     try {
       const instructorList = await getInstructors();
@@ -318,6 +332,20 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
     return dates;
   };
 
+  const getProposedSlots = (): ScheduleSlot[] => {
+    const dates = editData ? [formData.date] : generateClassDates();
+    return dates.map(date => ({
+      id: editData?.id,
+      title: formData.title,
+      date,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      location: formData.location,
+      instructorId: formData.instructorId,
+      instructorName: formData.instructorName,
+    }));
+  };
+
   const handleSubmit = async () => {
     // Validation
     if (!formData.title.trim() || !formData.location.trim() || !formData.instructorId) {
@@ -355,6 +383,15 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
     setError(null);
 
     try {
+      // Warn about clashes first; saving needs an explicit override
+      if (!overrideConflicts) {
+        const found = await checkScheduleConflicts(getProposedSlots());
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
       const imageFile = optimizedImage?.file || undefined;
 
       if (editData) {
@@ -385,6 +422,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
             packagePrice: packagePrice,
             totalSessions: classDates.length,
             isActive: formData.isActive,
+            sportCategory: formData.sportCategory,
             daysOfWeek: scheduleSettings.daysOfWeek,
             startDate: scheduleSettings.startDate,
             endDate: calculateEndDate(),
@@ -399,7 +437,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
       handleClose();
     } catch (err: any) {
       console.error('Error saving class:', err);
-      setError('An error occurred while saving the class');
+      setError(err.message || 'An error occurred while saving the class');
     } finally {
       setLoading(false);
     }
@@ -420,6 +458,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
       instructorName: '',
       price: 0,
       isActive: true,
+      sportCategory: '',
     });
     setScheduleSettings({
       scheduleType: 'single',
@@ -439,6 +478,8 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
     setDiscountCode('');
     setDiscountValidation(null);
     setShowDiscountSection(false);
+    setConflicts([]);
+    setOverrideConflicts(false);
   };
 
   return (
@@ -479,6 +520,13 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
             </Alert>
           )}
 
+          <ScheduleConflictAlert
+            conflicts={conflicts}
+            override={overrideConflicts}
+            onOverrideChange={setOverrideConflicts}
+            disabled={loading}
+          />
+
           <Box sx={{
             display: 'grid',
             gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(3, 1fr)' },
@@ -918,10 +966,29 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
                 helperText={scheduleSettings.scheduleType === 'recurring' ? 'Per session' : 'Total capacity'}
               />
             </Box>
+
+            {/* Sport Category */}
+            <Box>
+              <FormControl fullWidth size={isMobile ? "small" : "medium"}>
+                <InputLabel>Sport Category</InputLabel>
+                <Select
+                  value={formData.sportCategory || ''}
+                  label="Sport Category"
+                  onChange={(e) => handleInputChange('sportCategory', e.target.value)}
+                >
+                  <MenuItem value="">None (open to all packages)</MenuItem>
+                  {SPORT_CATEGORIES.filter(category => category.id !== 'all').map((category) => (
+                    <MenuItem key={category.id} value={category.id}>
+                      {category.icon} {category.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
           </Box>
 
-          {/* Discount Section - Only for Admin */}
-          {isAdmin && (
+          {/* Discount Section - Only for class managers */}
+          {canManageClasses && (
             <Paper sx={{ mt: 3, p: 2 }}>
               <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
                 <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -1058,7 +1125,7 @@ const ClassForm: React.FC<ClassFormProps> = ({ open, onClose, editData }) => {
           <Button
             onClick={handleSubmit}
             variant="contained"
-            disabled={loading || imageProcessing}
+            disabled={loading || imageProcessing || (conflicts.length > 0 && !overrideConflicts)}
             size={isMobile ? "medium" : "medium"}
           >
             {loading ? (editData ? 'Updating...' : 'Creating...') : (
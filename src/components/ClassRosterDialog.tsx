@@ -0,0 +1,424 @@
+// src/components/ClassRosterDialog.tsx - Who is booked into a class, plus its waitlist
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemButton,
+  ListItemAvatar,
+  Avatar,
+  IconButton,
+  Tooltip,
+  LinearProgress,
+  CircularProgress,
+  InputAdornment,
+  Paper,
+  Collapse,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import PersonRemoveIcon from '@mui/icons-material/PersonRemove';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import CloseIcon from '@mui/icons-material/Close';
+import { format } from 'date-fns';
+import { ClassRecord } from '../services/classService';
+import { ClassEnrollment, ClassWaitlistEntry, MemberRecord } from '../types/members';
+import { searchMembers } from '../services/memberService';
+import {
+  getClassRoster,
+  enrollMember,
+  cancelEnrollment,
+  getClassWaitlist,
+  joinWaitlist,
+  removeFromWaitlist,
+  moveWaitlistEntry,
+} from '../services/enrollmentService';
+import { getBookingBlockReason } from '../services/entitlementService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface ClassRosterDialogProps {
+  open: boolean;
+  classRecord: ClassRecord | null;
+  canManage: boolean;
+  // counts lets callers holding a local copy of the class patch it without refetching
+  onClose: (changed: boolean, counts?: { currentEnrollment: number; waitlistCount: number }) => void;
+}
+
+const MAX_SEARCH_RESULTS = 6;
+
+const ClassRosterDialog: React.FC<ClassRosterDialogProps> = ({ open, classRecord, canManage, onClose }) => {
+  const [roster, setRoster] = useState<ClassEnrollment[]>([]);
+  const [waitlist, setWaitlist] = useState<ClassWaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<MemberRecord[]>([]);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  const loadRoster = useCallback(async () => {
+    if (!classRecord) return;
+    try {
+      setLoading(true);
+      const [enrollments, entries] = await Promise.all([
+        getClassRoster(classRecord.id),
+        getClassWaitlist(classRecord.id),
+      ]);
+      setRoster(enrollments);
+      setWaitlist(entries);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [classRecord]);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setNotice(null);
+    setSearchTerm('');
+    setResults([]);
+    setShowCancelled(false);
+    setChanged(false);
+    loadRoster();
+  }, [open, loadRoster]);
+
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchMembers(searchTerm)
+      .then(members => {
+        if (!cancelled) {
+          setResults(members.filter(m => m.isActive).slice(0, MAX_SEARCH_RESULTS));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm]);
+
+  if (!classRecord) return null;
+
+  const enrolled = roster.filter(e => e.status === 'Enrolled');
+  const cancelledBookings = roster.filter(e => e.status === 'Cancelled');
+  const enrolledIds = new Set(enrolled.map(e => e.memberId));
+  const waitlistedIds = new Set(waitlist.map(e => e.memberId));
+  const isFull = enrolled.length >= classRecord.capacity;
+
+  const handleClose = () => {
+    onClose(changed, { currentEnrollment: enrolled.length, waitlistCount: waitlist.length });
+  };
+
+  // Runs a roster mutation, then reloads both lists
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    try {
+      setWorking(key);
+      setError(null);
+      setNotice(null);
+      await action();
+      setChanged(true);
+      await loadRoster();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleAdd = (member: MemberRecord) => {
+    if (!userData) return;
+    runAction(member.id, async () => {
+      if (isFull) {
+        await joinWaitlist(classRecord.id, member.id, userData.uid, userData.fullName);
+        setNotice(`${member.firstName} ${member.lastName} added to the waitlist`);
+      } else {
+        await enrollMember(classRecord.id, member.id, userData.uid, userData.fullName);
+      }
+      setSearchTerm('');
+    });
+  };
+
+  const handleCancel = (enrollment: ClassEnrollment) => {
+    if (!userData) return;
+    runAction(enrollment.id, async () => {
+      const promoted = await cancelEnrollment(enrollment.id, userData.uid, userData.fullName);
+      if (promoted) {
+        setNotice(`${promoted.memberName} was promoted from the waitlist`);
+      }
+    });
+  };
+
+  const handleRemoveFromWaitlist = (entry: ClassWaitlistEntry) => {
+    runAction(entry.id, () => removeFromWaitlist(entry.id));
+  };
+
+  const handleMove = (entry: ClassWaitlistEntry, direction: 'up' | 'down') => {
+    runAction(entry.id, () => moveWaitlistEntry(classRecord.id, entry.id, direction));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !working && handleClose()}
+      fullWidth
+      maxWidth="sm"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          {classRecord.title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {format(classRecord.date.toDate(), 'EEE, MMM dd, yyyy')} • {classRecord.startTime} - {classRecord.endTime} • {classRecord.instructorName}
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {notice && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
+        <Box sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {enrolled.length} / {classRecord.capacity} enrolled
+            </Typography>
+            {isFull && (
+              <Typography variant="body2" color="error.main" fontWeight={600}>
+                Full{waitlist.length > 0 ? ` • ${waitlist.length} waiting` : ''}
+              </Typography>
+            )}
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, (enrolled.length / Math.max(1, classRecord.capacity)) * 100)}
+            color={isFull ? 'error' : 'primary'}
+            sx={{ height: 8, borderRadius: 4 }}
+          />
+        </Box>
+
+        {canManage && (
+          <Box sx={{ mb: 2 }}>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder={isFull ? 'Class is full — search members to waitlist...' : 'Search members to book...'}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon />
+                  </InputAdornment>
+                ),
+              }}
+            />
+            {results.length > 0 && (
+              <Paper variant="outlined" sx={{ mt: 1 }}>
+                <List dense disablePadding>
+                  {results.map(member => {
+                    const blockReason = enrolledIds.has(member.id)
+                      ? 'Already enrolled'
+                      : waitlistedIds.has(member.id)
+                        ? 'Already on the waitlist'
+                        : getBookingBlockReason(member);
+                    return (
+                      <ListItemButton
+                        key={member.id}
+                        onClick={() => handleAdd(member)}
+                        disabled={!!blockReason || !!working}
+                      >
+                        <ListItemText
+                          primary={`${member.firstName} ${member.lastName}`}
+                          secondary={blockReason || member.email}
+                          secondaryTypographyProps={{ color: blockReason ? 'error' : 'text.secondary' }}
+                        />
+                        {working === member.id ? (
+                          <CircularProgress size={18} />
+                        ) : !blockReason && isFull && (
+                          <Typography variant="caption" color="warning.main" fontWeight={600}>
+                            Waitlist
+                          </Typography>
+                        )}
+                      </ListItemButton>
+                    );
+                  })}
+                </List>
+              </Paper>
+            )}
+          </Box>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : enrolled.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Nobody is booked into this class yet.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {enrolled.map(enrollment => (
+              <ListItem
+                key={enrollment.id}
+                divider
+                secondaryAction={canManage && (
+                  <Tooltip title="Cancel booking">
+                    <span>
+                      <IconButton
+                        edge="end"
+                        color="error"
+                        onClick={() => handleCancel(enrollment)}
+                        disabled={!!working}
+                      >
+                        {working === enrollment.id ? <CircularProgress size={20} /> : <PersonRemoveIcon />}
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                )}
+              >
+                <ListItemAvatar>
+                  <Avatar sx={{ bgcolor: 'primary.main' }}>
+                    {enrollment.memberName.charAt(0).toUpperCase() || '?'}
+                  </Avatar>
+                </ListItemAvatar>
+                <ListItemText
+                  primary={enrollment.memberName}
+                  secondary={`Booked ${format(enrollment.enrolledAt.toDate(), 'MMM dd, h:mm a')} by ${enrollment.enrolledByName}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {waitlist.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="subtitle2" fontWeight={700} sx={{ mb: 1 }}>
+              Waitlist ({waitlist.length})
+            </Typography>
+            <List disablePadding>
+              {waitlist.map((entry, index) => (
+                <ListItem
+                  key={entry.id}
+                  divider
+                  secondaryAction={canManage && (
+                    <Box sx={{ display: 'flex' }}>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleMove(entry, 'up')}
+                        disabled={!!working || index === 0}
+                      >
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleMove(entry, 'down')}
+                        disabled={!!working || index === waitlist.length - 1}
+                      >
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                      <Tooltip title="Remove from waitlist">
+                        <span>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleRemoveFromWaitlist(entry)}
+                            disabled={!!working}
+                          >
+                            {working === entry.id ? <CircularProgress size={18} /> : <CloseIcon fontSize="small" />}
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Box>
+                  )}
+                  sx={{ pr: canManage ? 16 : 2 }}
+                >
+                  <ListItemAvatar>
+                    <Avatar sx={{ bgcolor: 'warning.main', width: 32, height: 32, fontSize: '0.9rem' }}>
+                      {index + 1}
+                    </Avatar>
+                  </ListItemAvatar>
+                  <ListItemText
+                    primary={entry.memberName}
+                    secondary={`Joined ${format(entry.joinedAt.toDate(), 'MMM dd, h:mm a')}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+
+        {cancelledBookings.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Button
+              size="small"
+              onClick={() => setShowCancelled(prev => !prev)}
+              startIcon={showCancelled ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            >
+              {cancelledBookings.length} cancelled
+            </Button>
+            <Collapse in={showCancelled}>
+              <List dense disablePadding>
+                {cancelledBookings.map(enrollment => (
+                  <ListItem key={enrollment.id}>
+                    <ListItemText
+                      primary={enrollment.memberName}
+                      secondary={
+                        enrollment.cancelledAt
+                          ? `Cancelled ${format(enrollment.cancelledAt.toDate(), 'MMM dd, h:mm a')}${enrollment.cancelledByName ? ` by ${enrollment.cancelledByName}` : ''}`
+                          : 'Cancelled'
+                      }
+                      sx={{ color: 'text.disabled' }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Collapse>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={!!working}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClassRosterDialog;
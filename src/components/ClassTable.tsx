@@ -30,6 +30,7 @@ import {
   AccordionDetails,
   Divider,
   Collapse,
+  Tooltip,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
@@ -43,10 +44,12 @@ import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import PackageIcon from '@mui/icons-material/Inventory';
 import ScheduleIcon from '@mui/icons-material/Schedule';
 import SettingsIcon from '@mui/icons-material/Settings';
+import PeopleIcon from '@mui/icons-material/People';
 import { getAllClasses, getAllPackages, deleteClass, deletePackage, ClassRecord, PackageRecord } from '../services/classService';
 import { format } from 'date-fns';
 import { useRoleControl } from '../hooks/useRoleControl';
 import PackageSessionManager from './PackageSessionManager';
+import ClassRosterDialog from './ClassRosterDialog';
 
 interface ClassTableProps {
   refreshTrigger?: number;
@@ -66,10 +69,12 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
   const [expandedPackages, setExpandedPackages] = useState<Set<string>>(new Set());
   const [sessionManagerOpen, setSessionManagerOpen] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<PackageRecord | null>(null);
+  const [rosterClass, setRosterClass] = useState<ClassRecord | null>(null);
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const { isAdmin } = useRoleControl();
+  const { isStaff, hasPermission } = useRoleControl();
+  const canManageClasses = hasPermission('classes.manage');
 
   const fetchData = async () => {
     try {
@@ -174,6 +179,11 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
     fetchData(); // Refresh data after session changes
   };
 
+  const handleRosterClose = (changed: boolean) => {
+    setRosterClass(null);
+    if (changed) fetchData(); // Enrollment counts changed
+  };
+
   const togglePackageExpanded = (packageId: string) => {
     setExpandedPackages(prev => {
       const newSet = new Set(prev);
@@ -186,6 +196,12 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
     });
   };
 
+  // Covered classes show who is teaching and who they are covering for
+  const getInstructorLabel = (item: ClassRecord | PackageRecord) =>
+    'originalInstructorName' in item && item.originalInstructorName
+      ? `${item.instructorName} (sub for ${item.originalInstructorName})`
+      : item.instructorName;
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'workshop':
@@ -339,7 +355,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                         <PersonIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
                         <Typography variant="body2" color="text.secondary">
-                          {item.instructorName}
+                          {getInstructorLabel(item)}
                         </Typography>
                       </Box>
                       
@@ -348,7 +364,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                           {item.totalSessions} sessions • {item.capacity} per session
                         </Typography>
                         
-                        {isAdmin && (
+                        {canManageClasses && (
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                             <AttachMoneyIcon sx={{ fontSize: 16, color: 'success.main' }} />
                             <Typography variant="body2" color="success.main" fontWeight={600}>
@@ -371,7 +387,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                         >
                           {expandedPackages.has(item.id) ? 'Hide' : 'View'} Sessions ({(item as PackageRecord).sessions?.length || 0})
                         </Button>
-                        {isAdmin && (
+                        {canManageClasses && (
                           <Button
                             onClick={() => handleSessionManager(item as PackageRecord)}
                             startIcon={<SettingsIcon />}
@@ -408,9 +424,15 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                                     {formatSessionDate(session.date)} • {session.startTime}-{session.endTime}
                                   </Typography>
                                 </Box>
-                                <Typography variant="caption" color="text.secondary">
+                                <Button
+                                  size="small"
+                                  startIcon={<PeopleIcon />}
+                                  onClick={() => setRosterClass(session)}
+                                  sx={{ fontSize: '0.75rem', minWidth: 0 }}
+                                >
                                   {session.currentEnrollment}/{session.capacity}
-                                </Typography>
+                                  {!!session.waitlistCount && ` +${session.waitlistCount}`}
+                                </Button>
                               </Box>
                             </Box>
                           ))}
@@ -470,7 +492,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                         <PersonIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
                         <Typography variant="body2" color="text.secondary">
-                          {item.instructorName}
+                          {getInstructorLabel(item)}
                         </Typography>
                       </Box>
                       
@@ -480,9 +502,19 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                           <Typography variant="body2" color="text.secondary">
                             {item.currentEnrollment}/{item.capacity}
                           </Typography>
+                          {!!item.waitlistCount && (
+                            <Chip label={`${item.waitlistCount} waiting`} size="small" color="warning" variant="outlined" />
+                          )}
+                          <Button
+                            size="small"
+                            onClick={() => setRosterClass(item as ClassRecord)}
+                            sx={{ fontSize: '0.75rem', minWidth: 0 }}
+                          >
+                            Roster
+                          </Button>
                         </Box>
                         
-                        {isAdmin && item.price > 0 && (
+                        {canManageClasses && item.price > 0 && (
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                             <AttachMoneyIcon sx={{ fontSize: 16, color: 'success.main' }} />
                             <Typography variant="body2" color="success.main" fontWeight={600}>
@@ -496,8 +528,8 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                 </Box>
               )}
               
-              {/* Admin Actions */}
-              {isAdmin && (
+              {/* Management Actions */}
+              {canManageClasses && (
                 <CardActions sx={{ justifyContent: 'flex-end', pt: 0 }}>
                   {type === 'class' && (
                     <IconButton
@@ -527,7 +559,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
         </Box>
 
         {/* Delete Confirmation Dialog */}
-        {isAdmin && (
+        {canManageClasses && (
           <Dialog open={deleteDialogOpen} onClose={handleDeleteCancel}>
             <DialogTitle>
               Delete {itemToDelete?.type === 'package' ? 'Package' : 'Class'}
@@ -556,7 +588,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
         )}
 
         {/* Package Session Manager */}
-        {isAdmin && (
+        {canManageClasses && (
           <PackageSessionManager
             open={sessionManagerOpen}
             onClose={handleSessionManagerClose}
@@ -564,6 +596,13 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
             onUpdate={handleSessionManagerUpdate}
           />
         )}
+
+        <ClassRosterDialog
+          open={!!rosterClass}
+          classRecord={rosterClass}
+          canManage={canManageClasses || isStaff}
+          onClose={handleRosterClose}
+        />
       </>
     );
   }
@@ -590,12 +629,12 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
               <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
                 Capacity
               </TableCell>
-              {isAdmin && (
+              {canManageClasses && (
                 <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
                   Price
                 </TableCell>
               )}
-              {isAdmin && (
+              {canManageClasses && (
                 <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem', width: 120 }}>
                   Actions
                 </TableCell>
@@ -653,7 +692,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                             >
                               {expandedPackages.has(item.id) ? 'Hide' : 'Show'} Sessions
                             </Button>
-                            {isAdmin && (
+                            {canManageClasses && (
                               <Button
                                 onClick={() => handleSessionManager(item as PackageRecord)}
                                 startIcon={<SettingsIcon />}
@@ -698,7 +737,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                     {item.location}
                   </TableCell>
                   <TableCell sx={{ fontSize: '0.9rem' }}>
-                    {item.instructorName}
+                    {getInstructorLabel(item)}
                   </TableCell>
                   <TableCell sx={{ fontSize: '0.9rem' }}>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -709,9 +748,24 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                           : `${item.currentEnrollment}/${item.capacity}`
                         }
                       </Typography>
+                      {type === 'class' && (
+                        <Tooltip title="View roster">
+                          <IconButton size="small" onClick={() => setRosterClass(item as ClassRecord)}>
+                            <PeopleIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {type === 'class' && !!(item as ClassRecord).waitlistCount && (
+                        <Chip
+                          label={`${(item as ClassRecord).waitlistCount} waiting`}
+                          size="small"
+                          color="warning"
+                          variant="outlined"
+                        />
+                      )}
                     </Box>
                   </TableCell>
-                  {isAdmin && (
+                  {canManageClasses && (
                     <TableCell sx={{ fontSize: '0.9rem' }}>
                       {type === 'package' ? (
                         <Box>
@@ -729,7 +783,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                       )}
                     </TableCell>
                   )}
-                  {isAdmin && (
+                  {canManageClasses && (
                     <TableCell>
                       <Box sx={{ display: 'flex', gap: 0.5 }}>
                         {type === 'class' && (
@@ -761,7 +815,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                 {/* Package Sessions Rows */}
                 {type === 'package' && expandedPackages.has(item.id) && (
                   <TableRow>
-                    <TableCell colSpan={isAdmin ? 7 : 5} sx={{ py: 0, borderBottom: 'none' }}>
+                    <TableCell colSpan={canManageClasses ? 7 : 5} sx={{ py: 0, borderBottom: 'none' }}>
                       <Collapse in={expandedPackages.has(item.id)}>
                         <Box sx={{ py: 2, pl: 4, pr: 2 }}>
                           <Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 600, color: 'primary.main' }}>
@@ -788,9 +842,15 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
                                       {formatDateTime(session.date)} • {session.startTime}-{session.endTime}
                                     </Typography>
                                   </Box>
-                                  <Typography variant="caption" color="text.secondary">
+                                  <Button
+                                    size="small"
+                                    startIcon={<PeopleIcon />}
+                                    onClick={() => setRosterClass(session)}
+                                    sx={{ fontSize: '0.75rem' }}
+                                  >
                                     {session.currentEnrollment}/{session.capacity} enrolled
-                                  </Typography>
+                                    {!!session.waitlistCount && ` • ${session.waitlistCount} waiting`}
+                                  </Button>
                                 </Box>
                               </Box>
                             ))}
@@ -807,7 +867,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
       </TableContainer>
 
       {/* Delete Confirmation Dialog */}
-      {isAdmin && (
+      {canManageClasses && (
         <Dialog open={deleteDialogOpen} onClose={handleDeleteCancel}>
           <DialogTitle>
             Delete {itemToDelete?.type === 'package' ? 'Package' : 'Class'}
@@ -836,7 +896,7 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
       )}
 
       {/* Package Session Manager */}
-      {isAdmin && (
+      {canManageClasses && (
         <PackageSessionManager
           open={sessionManagerOpen}
           onClose={handleSessionManagerClose}
@@ -844,6 +904,13 @@ const ClassTable: React.FC<ClassTableProps> = ({ refreshTrigger, onEdit, filter,
           onUpdate={handleSessionManagerUpdate}
         />
       )}
+
+      <ClassRosterDialog
+        open={!!rosterClass}
+        classRecord={rosterClass}
+        canManage={canManageClasses || isStaff}
+        onClose={handleRosterClose}
+      />
     </>
   );
 };
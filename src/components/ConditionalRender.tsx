@@ -2,11 +2,13 @@
 import React from 'react';
 import { usePermissions } from '../hooks/usePermisions';
 import { UserRole } from '../hooks/useRoleControl';
+import { Permission } from '../types/permissions';
 
 interface ConditionalRenderProps {
   children: React.ReactNode;
   allowedRoles?: UserRole[];
   requiredPermission?: keyof ReturnType<typeof usePermissions>;
+  permission?: Permission;
   fallback?: React.ReactNode;
 }
 
@@ -14,6 +16,7 @@ const ConditionalRender: React.FC<ConditionalRenderProps> = ({
   children, 
   allowedRoles,
   requiredPermission,
+  permission,
   fallback = null 
 }) => {
   const permissions = usePermissions();
@@ -24,6 +27,11 @@ const ConditionalRender: React.FC<ConditionalRenderProps> = ({
     return hasAccess ? <>{children}</> : <>{fallback}</>;
   }
 
+  // Check named permission
+  if (permission) {
+    return permissions.hasPermission(permission) ? <>{children}</> : <>{fallback}</>;
+  }
+
   // Check specific permission
   if (requiredPermission) {
     const hasPermission = permissions[requiredPermission];
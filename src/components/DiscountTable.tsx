@@ -98,7 +98,8 @@ const DiscountTable: React.FC<DiscountTableProps> = ({
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const { isAdmin, userData } = useRoleControl();
+  const { userData, hasPermission } = useRoleControl();
+  const canManageDiscounts = hasPermission('discounts.manage');
 
   const fetchDiscounts = async () => {
     try {
@@ -430,7 +431,7 @@ const DiscountTable: React.FC<DiscountTableProps> = ({
                       color={getStatusColor(discount.status) as any}
                       size="small"
                     />
-                    {isAdmin && (
+                    {canManageDiscounts && (
                       <IconButton
                         onClick={(e) => handleMenuClick(e, discount)}
                         size="small"
@@ -623,7 +624,7 @@ const DiscountTable: React.FC<DiscountTableProps> = ({
               <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
                 Status
               </TableCell>
-              {isAdmin && (
+              {canManageDiscounts && (
                 <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem', width: 100 }}>
                   Actions
                 </TableCell>
@@ -724,7 +725,7 @@ const DiscountTable: React.FC<DiscountTableProps> = ({
                   />
                 </TableCell>
                 
-                {isAdmin && (
+                {canManageDiscounts && (
                   <TableCell>
                     <IconButton
                       onClick={(e) => handleMenuClick(e, discount)}
@@ -0,0 +1,252 @@
+// src/components/LeadConvertDialog.tsx - Turn a lead into a member with a package subscription
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Alert,
+  Typography,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+  Paper,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { MembershipPackageRecord, PackageInquiry } from '../types/membershipPackages';
+import { MemberFormData } from '../types/members';
+import { convertInquiry, markInquiryConverted, LeadConversionResult } from '../services/leadService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface LeadConvertDialogProps {
+  open: boolean;
+  inquiry: PackageInquiry | null;
+  pkg?: MembershipPackageRecord;
+  onClose: (converted: boolean) => void;
+}
+
+interface ConvertFormState {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  emergencyName: string;
+  emergencyPhone: string;
+  emergencyRelationship: string;
+  waiverSigned: boolean;
+}
+
+const splitName = (fullName: string) => {
+  const parts = fullName.trim().split(/\s+/);
+  return {
+    firstName: parts[0] || '',
+    lastName: parts.slice(1).join(' '),
+  };
+};
+
+const LeadConvertDialog: React.FC<LeadConvertDialogProps> = ({ open, inquiry, pkg, onClose }) => {
+  const [form, setForm] = useState<ConvertFormState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<LeadConversionResult | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open || !inquiry) return;
+    setError(null);
+    setResult(null);
+    setForm({
+      ...splitName(inquiry.name),
+      email: inquiry.email,
+      phone: inquiry.phone || '',
+      emergencyName: '',
+      emergencyPhone: '',
+      emergencyRelationship: '',
+      waiverSigned: false,
+    });
+  }, [open, inquiry]);
+
+  if (!inquiry || !form) return null;
+
+  const handleChange = (field: keyof ConvertFormState, value: any) => {
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+    if (error) setError(null);
+  };
+
+  // Retries linking the lead to the member that was already created, so the
+  // lead is not converted a second time
+  const handleMarkConverted = async () => {
+    if (!result) return;
+    try {
+      setLoading(true);
+      await markInquiryConverted(inquiry.id, result.memberRecord.id, result.subscription?.id);
+      setResult({ ...result, inquiryUpdateError: undefined });
+    } catch (err: any) {
+      setResult({ ...result, inquiryUpdateError: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConvert = async () => {
+    if (!userData) return;
+    if (!form.firstName.trim() || !form.lastName.trim()) {
+      setError('First and last name are required');
+      return;
+    }
+    if (!form.phone.trim()) {
+      setError('Phone number is required');
+      return;
+    }
+    if (!form.emergencyName.trim() || !form.emergencyPhone.trim()) {
+      setError('Emergency contact name and phone are required');
+      return;
+    }
+
+    // Monthly auto-renewing packages bill like recurring memberships; everything else is paid up front
+    const isRecurring = pkg?.durationType === 'months' && pkg.autoRenewal;
+
+    const memberFormData: MemberFormData = {
+      firstName: form.firstName.trim(),
+      lastName: form.lastName.trim(),
+      email: form.email.trim().toLowerCase(),
+      phone: form.phone.trim(),
+      emergencyContact: {
+        name: form.emergencyName.trim(),
+        phone: form.emergencyPhone.trim(),
+        relationship: form.emergencyRelationship.trim() || 'Other',
+      },
+      membershipType: isRecurring ? 'Recurring' : 'Prepaid',
+      monthlyAmount: isRecurring ? pkg?.price : undefined,
+      totalAmount: isRecurring ? undefined : pkg?.price,
+      autoRenew: !!pkg?.autoRenewal,
+      waiverSigned: form.waiverSigned,
+      notes: inquiry.notes,
+      tags: ['converted-lead'],
+    };
+
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await convertInquiry(inquiry, memberFormData, userData.uid, userData.fullName));
+    } catch (err: any) {
+      setError(err.message || 'Failed to convert lead');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !loading && onClose(!!result)}
+      fullWidth
+      maxWidth="sm"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>{result ? 'Lead Converted!' : `Convert ${inquiry.name}`}</DialogTitle>
+      <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+        {result ? (
+          <Box sx={{ textAlign: 'center', py: 2 }}>
+            <CheckCircleIcon sx={{ fontSize: 60, color: 'success.main', mb: 2 }} />
+            <Typography gutterBottom>
+              {result.memberRecord.firstName} {result.memberRecord.lastName} is now a member
+              {result.subscription ? ` subscribed to ${result.subscription.packageName}` : ''}.
+            </Typography>
+            {result.subscriptionError && (
+              <Alert severity="warning" sx={{ my: 2, textAlign: 'left' }}>
+                The package subscription could not be created: {result.subscriptionError}
+              </Alert>
+            )}
+            {result.inquiryUpdateError && (
+              <Alert
+                severity="warning"
+                sx={{ my: 2, textAlign: 'left' }}
+                action={
+                  <Button color="inherit" size="small" onClick={handleMarkConverted} disabled={loading}>
+                    Mark Converted
+                  </Button>
+                }
+              >
+                {result.inquiryUpdateError}
+              </Alert>
+            )}
+            <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                Customer portal password
+              </Typography>
+              <Typography variant="h6" sx={{ fontFamily: 'monospace' }}>
+                {result.password}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                Share this with the member now — it will not be shown again.
+              </Typography>
+            </Paper>
+          </Box>
+        ) : (
+          <>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Creates a member account and subscribes them to <strong>{inquiry.packageName}</strong>.
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+              <TextField label="First Name" value={form.firstName} onChange={(e) => handleChange('firstName', e.target.value)} required />
+              <TextField label="Last Name" value={form.lastName} onChange={(e) => handleChange('lastName', e.target.value)} required />
+              <TextField label="Email" value={form.email} onChange={(e) => handleChange('email', e.target.value)} required />
+              <TextField label="Phone" value={form.phone} onChange={(e) => handleChange('phone', e.target.value)} required />
+              <TextField label="Emergency Contact" value={form.emergencyName} onChange={(e) => handleChange('emergencyName', e.target.value)} required />
+              <TextField label="Emergency Phone" value={form.emergencyPhone} onChange={(e) => handleChange('emergencyPhone', e.target.value)} required />
+              <TextField label="Relationship" value={form.emergencyRelationship} onChange={(e) => handleChange('emergencyRelationship', e.target.value)} />
+            </Box>
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={
+                <Checkbox
+                  checked={form.waiverSigned}
+                  onChange={(e) => handleChange('waiverSigned', e.target.checked)}
+                />
+              }
+              label="Waiver signed"
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {result ? (
+          <Button variant="contained" onClick={() => onClose(true)}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={() => onClose(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              color="success"
+              onClick={handleConvert}
+              disabled={loading}
+              startIcon={loading ? <CircularProgress size={16} /> : undefined}
+            >
+              {loading ? 'Converting...' : 'Convert to Member'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LeadConvertDialog;
@@ -0,0 +1,253 @@
+// src/components/LeadForm.tsx - Create or edit a package inquiry
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Box,
+  Alert,
+  CircularProgress,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import {
+  InquirySource,
+  MembershipPackageRecord,
+  PackageInquiry,
+  PackageInquiryFormData,
+} from '../types/membershipPackages';
+import { StaffRecord } from '../services/staffService';
+import { createInquiry, updateInquiry } from '../services/leadService';
+
+interface LeadFormProps {
+  open: boolean;
+  onClose: (saved: boolean) => void;
+  packages: MembershipPackageRecord[];
+  staff: StaffRecord[];
+  editData?: PackageInquiry;
+}
+
+export const INQUIRY_SOURCES: { value: InquirySource; label: string }[] = [
+  { value: 'walkin', label: 'Walk-in' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'email', label: 'Email' },
+  { value: 'website', label: 'Website' },
+  { value: 'referral', label: 'Referral' },
+  { value: 'social', label: 'Social media' },
+];
+
+const emptyForm: PackageInquiryFormData = {
+  packageId: '',
+  packageName: '',
+  name: '',
+  email: '',
+  phone: '',
+  source: 'walkin',
+  notes: '',
+};
+
+const LeadForm: React.FC<LeadFormProps> = ({ open, onClose, packages, staff, editData }) => {
+  const [formData, setFormData] = useState<PackageInquiryFormData>(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setFormData(editData ? {
+      packageId: editData.packageId,
+      packageName: editData.packageName,
+      name: editData.name,
+      email: editData.email,
+      phone: editData.phone || '',
+      source: editData.source,
+      followUpDate: editData.followUpDate,
+      assignedTo: editData.assignedTo,
+      assignedToName: editData.assignedToName,
+      notes: editData.notes || '',
+    } : emptyForm);
+  }, [open, editData]);
+
+  const handleChange = (field: keyof PackageInquiryFormData, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const handlePackageChange = (packageId: string) => {
+    const pkg = packages.find(p => p.id === packageId);
+    setFormData(prev => ({ ...prev, packageId, packageName: pkg?.name || '' }));
+  };
+
+  const handleStaffChange = (staffId: string) => {
+    const member = staff.find(s => s.id === staffId);
+    setFormData(prev => ({
+      ...prev,
+      assignedTo: member?.id,
+      assignedToName: member?.fullName,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!formData.email.trim() || !/\S+@\S+\.\S+/.test(formData.email)) {
+      setError('A valid email is required');
+      return;
+    }
+    if (!formData.packageId) {
+      setError('Please select the package they are interested in');
+      return;
+    }
+
+    const data: PackageInquiryFormData = {
+      ...formData,
+      name: formData.name.trim(),
+      email: formData.email.trim().toLowerCase(),
+      phone: formData.phone?.trim() || undefined,
+      notes: formData.notes?.trim() || undefined,
+    };
+
+    try {
+      setLoading(true);
+      if (editData) {
+        await updateInquiry(editData.id, data);
+      } else {
+        await createInquiry(data);
+      }
+      onClose(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save lead');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog
+        open={open}
+        onClose={() => !loading && onClose(false)}
+        fullWidth
+        maxWidth="sm"
+        fullScreen={isMobile}
+      >
+        <DialogTitle>{editData ? 'Edit Lead' : 'Add Lead'}</DialogTitle>
+        <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              required
+              fullWidth
+            />
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+              <TextField
+                label="Email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => handleChange('email', e.target.value)}
+                required
+                fullWidth
+              />
+              <TextField
+                label="Phone"
+                value={formData.phone}
+                onChange={(e) => handleChange('phone', e.target.value)}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              select
+              label="Interested In"
+              value={formData.packageId}
+              onChange={(e) => handlePackageChange(e.target.value)}
+              required
+              fullWidth
+            >
+              {packages.map(pkg => (
+                <MenuItem key={pkg.id} value={pkg.id}>{pkg.name}</MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+              <TextField
+                select
+                label="Source"
+                value={formData.source}
+                onChange={(e) => handleChange('source', e.target.value as InquirySource)}
+                fullWidth
+              >
+                {INQUIRY_SOURCES.map(source => (
+                  <MenuItem key={source.value} value={source.value}>{source.label}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Assigned To"
+                value={formData.assignedTo || ''}
+                onChange={(e) => handleStaffChange(e.target.value)}
+                fullWidth
+              >
+                <MenuItem value="">Unassigned</MenuItem>
+                {staff.map(member => (
+                  <MenuItem key={member.id} value={member.id}>{member.fullName}</MenuItem>
+                ))}
+              </TextField>
+            </Box>
+            <DatePicker
+              label="Follow-up Date"
+              value={formData.followUpDate || null}
+              onChange={(newValue) => handleChange('followUpDate', newValue || undefined)}
+              slotProps={{
+                textField: {
+                  fullWidth: true,
+                },
+                field: { clearable: true },
+              }}
+            />
+            <TextField
+              label="Notes"
+              value={formData.notes}
+              onChange={(e) => handleChange('notes', e.target.value)}
+              multiline
+              rows={3}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => onClose(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={loading}
+            startIcon={loading ? <CircularProgress size={16} /> : undefined}
+          >
+            {loading ? 'Saving...' : editData ? 'Save Changes' : 'Add Lead'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default LeadForm;
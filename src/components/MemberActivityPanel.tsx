@@ -0,0 +1,233 @@
+// src/components/MemberActivityPanel.tsx - Chronological activity timeline and staff notes for a single member
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import LoginIcon from '@mui/icons-material/Login';
+import PaymentIcon from '@mui/icons-material/Payment';
+import CardMembershipIcon from '@mui/icons-material/CardMembership';
+import MilitaryTechIcon from '@mui/icons-material/MilitaryTech';
+import StarIcon from '@mui/icons-material/Star';
+import NoteIcon from '@mui/icons-material/StickyNote2';
+import LockResetIcon from '@mui/icons-material/LockReset';
+import EventIcon from '@mui/icons-material/Event';
+import { format } from 'date-fns';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { MemberActivity, MemberRecord } from '../types/members';
+import { getMemberActivities, addMemberNote } from '../services/memberService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+type ActivityType = MemberActivity['type'];
+
+const PAGE_SIZE = 20;
+
+const ACTIVITY_TYPES: { type: ActivityType; label: string; icon: React.ReactElement }[] = [
+  { type: 'check_in', label: 'Check-ins', icon: <LoginIcon fontSize="small" /> },
+  { type: 'payment', label: 'Payments', icon: <PaymentIcon fontSize="small" /> },
+  { type: 'membership_change', label: 'Membership', icon: <CardMembershipIcon fontSize="small" /> },
+  { type: 'class_booking', label: 'Bookings', icon: <EventIcon fontSize="small" /> },
+  { type: 'belt_award', label: 'Belts', icon: <MilitaryTechIcon fontSize="small" /> },
+  { type: 'level_award', label: 'Levels', icon: <StarIcon fontSize="small" /> },
+  { type: 'note_added', label: 'Notes', icon: <NoteIcon fontSize="small" /> },
+  { type: 'password_reset', label: 'Password', icon: <LockResetIcon fontSize="small" /> },
+];
+
+const getActivityMeta = (type: ActivityType) =>
+  ACTIVITY_TYPES.find(item => item.type === type) || ACTIVITY_TYPES[ACTIVITY_TYPES.length - 1];
+
+interface MemberActivityPanelProps {
+  member: MemberRecord;
+}
+
+const MemberActivityPanel: React.FC<MemberActivityPanelProps> = ({ member }) => {
+  const [activities, setActivities] = useState<MemberActivity[]>([]);
+  const [selectedTypes, setSelectedTypes] = useState<ActivityType[]>([]);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { userData, hasPermission } = useRoleControl();
+  const canAddNotes = hasPermission('members.edit');
+
+  const loadFirstPage = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await getMemberActivities(member.id, selectedTypes, PAGE_SIZE);
+      setActivities(page.activities);
+      setLastDoc(page.lastDoc);
+      setHasMore(page.hasMore);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [member.id, selectedTypes]);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const handleLoadMore = async () => {
+    try {
+      setLoadingMore(true);
+      const page = await getMemberActivities(member.id, selectedTypes, PAGE_SIZE, lastDoc);
+      setActivities(prev => [...prev, ...page.activities]);
+      setLastDoc(page.lastDoc);
+      setHasMore(page.hasMore);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load activity');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleType = (type: ActivityType) => {
+    setSelectedTypes(prev => (
+      prev.includes(type) ? prev.filter(item => item !== type) : [...prev, type]
+    ));
+  };
+
+  const handleAddNote = async () => {
+    if (!userData) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const activity = await addMemberNote(member.id, note, userData.uid, userData.fullName);
+      setNote('');
+      if (selectedTypes.length === 0 || selectedTypes.includes('note_added')) {
+        setActivities(prev => [activity, ...prev]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {canAddNotes && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <TextField
+            label="Add a note"
+            placeholder="e.g. Asked about switching to the family plan"
+            fullWidth
+            multiline
+            minRows={2}
+            size="small"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={saving}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleAddNote}
+              disabled={saving || !note.trim()}
+            >
+              {saving ? 'Saving...' : 'Add Note'}
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <Chip
+          label="All"
+          size="small"
+          color={selectedTypes.length === 0 ? 'primary' : 'default'}
+          onClick={() => setSelectedTypes([])}
+        />
+        {ACTIVITY_TYPES.map(item => (
+          <Chip
+            key={item.type}
+            label={item.label}
+            size="small"
+            icon={item.icon}
+            color={selectedTypes.includes(item.type) ? 'primary' : 'default'}
+            variant={selectedTypes.includes(item.type) ? 'filled' : 'outlined'}
+            onClick={() => toggleType(item.type)}
+          />
+        ))}
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : activities.length === 0 ? (
+        <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+          No activity recorded yet.
+        </Typography>
+      ) : (
+        <Box>
+          {activities.map((activity, index) => {
+            const meta = getActivityMeta(activity.type);
+            const isLast = index === activities.length - 1;
+            return (
+              <Box key={activity.id} sx={{ display: 'flex', gap: 2 }}>
+                <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                  <Box
+                    sx={{
+                      width: 32,
+                      height: 32,
+                      borderRadius: '50%',
+                      bgcolor: activity.type === 'note_added' ? 'warning.light' : 'action.selected',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      flexShrink: 0,
+                    }}
+                  >
+                    {meta.icon}
+                  </Box>
+                  {!isLast && <Box sx={{ width: 2, flexGrow: 1, bgcolor: 'divider', my: 0.5 }} />}
+                </Box>
+                <Box sx={{ pb: isLast ? 0 : 2, minWidth: 0 }}>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {activity.description}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {format(activity.timestamp.toDate(), 'MMM d, yyyy h:mm a')}
+                    {activity.performedByName && ` • ${activity.performedByName}`}
+                  </Typography>
+                </Box>
+              </Box>
+            );
+          })}
+
+          {hasMore && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+              <Button onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </Button>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MemberActivityPanel;
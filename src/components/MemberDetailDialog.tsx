@@ -0,0 +1,124 @@
+// src/components/MemberDetailDialog.tsx - Member profile with overview, subscription, payments and activity
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Avatar,
+  Tabs,
+  Tab,
+  IconButton,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import { useNavigate } from 'react-router-dom';
+import { MemberRecord } from '../types/members';
+import { getMemberById } from '../services/memberService';
+import MemberActivityPanel from './MemberActivityPanel';
+import MemberOverviewPanel from './MemberOverviewPanel';
+import MemberPaymentsPanel from './MemberPaymentsPanel';
+import MemberSubscriptionPanel from './MemberSubscriptionPanel';
+
+interface MemberDetailDialogProps {
+  open: boolean;
+  member: MemberRecord | null;
+  onClose: () => void;
+  onMemberUpdated?: (member: MemberRecord) => void;
+}
+
+const MemberDetailDialog: React.FC<MemberDetailDialogProps> = ({
+  open,
+  member: initialMember,
+  onClose,
+  onMemberUpdated,
+}) => {
+  const [member, setMember] = useState<MemberRecord | null>(initialMember);
+  const [tabValue, setTabValue] = useState(0);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    setMember(initialMember);
+    setTabValue(0);
+  }, [initialMember]);
+
+  // Payments and subscription changes update the member record, so re-read it afterwards
+  const refreshMember = async () => {
+    if (!member) return;
+    try {
+      const updated = await getMemberById(member.id, false);
+      if (updated) {
+        setMember(updated);
+        onMemberUpdated?.(updated);
+      }
+    } catch (error) {
+      console.error('Error refreshing member:', error);
+    }
+  };
+
+  if (!member) return null;
+
+  const fullName = `${member.firstName || ''} ${member.lastName || ''}`.trim();
+  const initials = `${member.firstName?.charAt(0) || ''}${member.lastName?.charAt(0) || ''}`.toUpperCase();
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      fullWidth
+      maxWidth="md"
+      fullScreen={isMobile}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 2, pb: 0 }}>
+        <Avatar sx={{ bgcolor: 'primary.main' }}>{initials || '?'}</Avatar>
+        <Box sx={{ flexGrow: 1 }}>
+          <Typography variant="h6" fontWeight={600}>
+            {fullName || 'Unknown Member'}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {member.email}
+          </Typography>
+        </Box>
+        <IconButton onClick={onClose} size="small">
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', px: 3 }}>
+        <Tabs value={tabValue} onChange={(_, value) => setTabValue(value)}>
+          <Tab label="Overview" />
+          <Tab label="Subscription" />
+          <Tab label="Payments" />
+          <Tab label="Activity" />
+        </Tabs>
+      </Box>
+
+      <DialogContent sx={{ px: { xs: 2, sm: 3 }, py: 2, minHeight: 360 }}>
+        {tabValue === 0 && <MemberOverviewPanel member={member} />}
+        {tabValue === 1 && <MemberSubscriptionPanel member={member} onChanged={refreshMember} />}
+        {tabValue === 2 && (
+          <MemberPaymentsPanel member={member} onPaymentRecorded={refreshMember} />
+        )}
+        {tabValue === 3 && <MemberActivityPanel member={member} />}
+      </DialogContent>
+
+      <DialogActions>
+        <Button startIcon={<OpenInNewIcon />} onClick={() => navigate(`/members/${member.id}`)}>
+          Full Profile
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MemberDetailDialog;
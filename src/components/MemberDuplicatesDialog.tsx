@@ -0,0 +1,214 @@
+// src/components/MemberDuplicatesDialog.tsx - Likely duplicate members with a merge into the record to keep
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Radio,
+  Alert,
+  CircularProgress,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import MergeIcon from '@mui/icons-material/MergeType';
+import { format } from 'date-fns';
+import { DuplicateMemberPair, MemberRecord } from '../types/members';
+import { getAllMembers, mergeMembers } from '../services/memberService';
+import { DUPLICATE_REASON_LABELS, findDuplicateMembers } from '../utils/memberDuplicates';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface MemberDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+const pairKey = (pair: DuplicateMemberPair) => `${pair.members[0].id}|${pair.members[1].id}`;
+
+const MemberDuplicatesDialog: React.FC<MemberDuplicatesDialogProps> = ({ open, onClose, onMerged }) => {
+  const [pairs, setPairs] = useState<DuplicateMemberPair[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [confirmKey, setConfirmKey] = useState<string | null>(null);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+    setConfirmKey(null);
+    setMergedCount(0);
+    getAllMembers(false)
+      .then(members => {
+        const found = findDuplicateMembers(members);
+        setPairs(found);
+        // Keep the older record by default
+        setSurvivors(Object.fromEntries(found.map(pair => [pairKey(pair), pair.members[0].id])));
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleClose = () => {
+    if (mergingKey) return;
+    if (mergedCount > 0) onMerged?.();
+    onClose();
+  };
+
+  const handleMerge = async (pair: DuplicateMemberPair) => {
+    if (!userData) return;
+
+    const key = pairKey(pair);
+    const survivorId = survivors[key];
+    const duplicate = pair.members.find(member => member.id !== survivorId)!;
+
+    try {
+      setMergingKey(key);
+      setError(null);
+      setSuccess(null);
+      const moved = await mergeMembers(survivorId, duplicate.id, userData.uid, userData.fullName);
+      // The duplicate is now inactive, so any other pair that includes it is gone too
+      setPairs(prev => prev.filter(item => !item.members.some(member => member.id === duplicate.id)));
+      setMergedCount(prev => prev + 1);
+      setSuccess(`Merged ${duplicate.firstName} ${duplicate.lastName} (${duplicate.email}); ${moved} records moved`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setMergingKey(null);
+      setConfirmKey(null);
+    }
+  };
+
+  const renderMember = (pair: DuplicateMemberPair, member: MemberRecord) => {
+    const key = pairKey(pair);
+    const selected = survivors[key] === member.id;
+    return (
+      <Paper
+        key={member.id}
+        variant="outlined"
+        onClick={() => setSurvivors(prev => ({ ...prev, [key]: member.id }))}
+        sx={{
+          p: 1.5,
+          flex: 1,
+          cursor: 'pointer',
+          borderColor: selected ? 'primary.main' : undefined,
+          borderWidth: selected ? 2 : 1,
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Radio size="small" checked={selected} sx={{ p: 0.5 }} />
+          <Typography variant="subtitle2" fontWeight={600}>
+            {member.firstName} {member.lastName}
+          </Typography>
+          {selected && <Chip label="Keep" size="small" color="primary" sx={{ ml: 'auto' }} />}
+        </Box>
+        <Typography variant="body2" color="text.secondary">{member.email}</Typography>
+        <Typography variant="body2" color="text.secondary">{member.phone || 'No phone'}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Born {member.dateOfBirth ? format(member.dateOfBirth.toDate(), 'MMM d, yyyy') : '—'}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {member.membership?.status || 'No Membership'} • {member.totalVisits || 0} visits
+          {member.joinDate && ` • joined ${format(member.joinDate.toDate(), 'MMM yyyy')}`}
+        </Typography>
+      </Paper>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="md" fullScreen={isMobile}>
+      <DialogTitle>Possible Duplicate Members</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Members matching on at least two of name, phone and date of birth. Pick the record to keep;
+          payments, check-ins, awards, subscriptions and activity move to it and the other record is deactivated.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : pairs.length === 0 ? (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            No likely duplicates found.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {pairs.map(pair => {
+              const key = pairKey(pair);
+              const busy = mergingKey === key;
+              return (
+                <Paper key={key} sx={{ p: 2 }}>
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1.5 }}>
+                    {pair.reasons.map(reason => (
+                      <Chip key={reason} label={DUPLICATE_REASON_LABELS[reason]} size="small" color="warning" variant="outlined" />
+                    ))}
+                  </Box>
+                  <Box sx={{ display: 'flex', flexDirection: { xs: 'column', sm: 'row' }, gap: 1.5 }}>
+                    {pair.members.map(member => renderMember(pair, member))}
+                  </Box>
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1.5 }}>
+                    {confirmKey === key ? (
+                      <>
+                        <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center', mr: 'auto' }}>
+                          This cannot be undone.
+                        </Typography>
+                        <Button size="small" onClick={() => setConfirmKey(null)} disabled={busy}>
+                          Cancel
+                        </Button>
+                        <Button size="small" variant="contained" color="warning" onClick={() => handleMerge(pair)} disabled={busy}>
+                          {busy ? 'Merging...' : 'Confirm Merge'}
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<MergeIcon />}
+                        onClick={() => setConfirmKey(key)}
+                        disabled={!!mergingKey}
+                      >
+                        Merge
+                      </Button>
+                    )}
+                  </Box>
+                </Paper>
+              );
+            })}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={!!mergingKey}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MemberDuplicatesDialog;
@@ -0,0 +1,325 @@
+// src/components/MemberHouseholdPanel.tsx - A member's household: linked members, primary billing contact and shared payments
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Paper,
+  Chip,
+  IconButton,
+  Tooltip,
+  Link,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import StarIcon from '@mui/icons-material/Star';
+import PersonRemoveIcon from '@mui/icons-material/PersonRemove';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Household, MemberPayment, MemberRecord } from '../types/members';
+import {
+  getHousehold,
+  getAllHouseholds,
+  getHouseholdMembers,
+  createHousehold,
+  addHouseholdMember,
+  removeHouseholdMember,
+  setHouseholdPrimary,
+} from '../services/householdService';
+import { getAllMembers } from '../services/memberService';
+import { getHouseholdPayments } from '../services/paymentService';
+import { suggestHouseholdName } from '../utils/household';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface MemberHouseholdPanelProps {
+  member: MemberRecord;
+}
+
+const MemberHouseholdPanel: React.FC<MemberHouseholdPanelProps> = ({ member }) => {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [householdMembers, setHouseholdMembers] = useState<MemberRecord[]>([]);
+  const [payments, setPayments] = useState<MemberPayment[]>([]);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [candidates, setCandidates] = useState<MemberRecord[]>([]);
+  const [newName, setNewName] = useState('');
+  const [joinId, setJoinId] = useState('');
+  const [addMember, setAddMember] = useState<MemberRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+  const { userData, hasPermission } = useRoleControl();
+  const canEdit = hasPermission('members.edit');
+
+  const loadHousehold = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      if (!member.householdId) {
+        setHousehold(null);
+        setHouseholdMembers([]);
+        setPayments([]);
+        setNewName(suggestHouseholdName(member));
+        if (canEdit) setHouseholds(await getAllHouseholds());
+        return;
+      }
+
+      const [found, linked] = await Promise.all([
+        getHousehold(member.householdId),
+        getHouseholdMembers(member.householdId),
+      ]);
+      setHousehold(found);
+      setHouseholdMembers(linked);
+      setPayments(await getHouseholdPayments(linked.map(linkedMember => linkedMember.id)));
+      if (canEdit) {
+        const members = await getAllMembers();
+        setCandidates(members.filter(candidate => candidate.isActive && !candidate.householdId));
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+    // The member document is live, so only reload when the household link changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [member.id, member.householdId, canEdit]);
+
+  useEffect(() => {
+    loadHousehold();
+  }, [loadHousehold]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      setAddMember(null);
+      setJoinId('');
+      await loadHousehold();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const errorAlert = error && (
+    <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+      {error}
+    </Alert>
+  );
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  if (!household) {
+    return (
+      <Box>
+        {errorAlert}
+        <Paper variant="outlined" sx={{ p: 3 }}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            No Household
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: canEdit ? 2 : 0 }}>
+            Households link family members under one primary billing contact and unlock family pricing.
+          </Typography>
+
+          {canEdit && userData && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, maxWidth: 480 }}>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <TextField
+                  label="Household Name"
+                  size="small"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  fullWidth
+                />
+                <Button
+                  variant="contained"
+                  onClick={() => runAction(() => createHousehold(newName, member.id, userData.uid))}
+                  disabled={saving || !newName.trim()}
+                  sx={{ whiteSpace: 'nowrap' }}
+                >
+                  Create
+                </Button>
+              </Box>
+
+              {households.length > 0 && (
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    select
+                    label="Join Existing Household"
+                    size="small"
+                    value={joinId}
+                    onChange={(e) => setJoinId(e.target.value)}
+                    fullWidth
+                  >
+                    {households.map(option => (
+                      <MenuItem key={option.id} value={option.id}>
+                        {option.name} ({option.primaryMemberName})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <Button
+                    variant="outlined"
+                    onClick={() => runAction(() => addHouseholdMember(joinId, member.id))}
+                    disabled={saving || !joinId}
+                  >
+                    Join
+                  </Button>
+                </Box>
+              )}
+            </Box>
+          )}
+        </Paper>
+      </Box>
+    );
+  }
+
+  const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+
+  return (
+    <Box>
+      {errorAlert}
+
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {household.name}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Primary billing contact: {household.primaryMemberName}
+        </Typography>
+      </Box>
+
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Member</TableCell>
+              <TableCell>Membership</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {householdMembers.map(linked => {
+              const isPrimary = linked.id === household.primaryMemberId;
+              return (
+                <TableRow key={linked.id} hover>
+                  <TableCell>
+                    <Link component="button" variant="body2" onClick={() => navigate(`/members/${linked.id}`)}>
+                      {linked.firstName} {linked.lastName}
+                    </Link>
+                    {isPrimary && <Chip label="Primary" size="small" color="primary" sx={{ ml: 1 }} />}
+                  </TableCell>
+                  <TableCell>{linked.membership?.status || 'No Membership'}</TableCell>
+                  <TableCell align="right">
+                    {canEdit && !isPrimary && (
+                      <Tooltip title="Make primary billing contact">
+                        <IconButton
+                          size="small"
+                          onClick={() => runAction(() => setHouseholdPrimary(household.id, linked))}
+                          disabled={saving}
+                        >
+                          <StarIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {canEdit && (!isPrimary || householdMembers.length === 1) && (
+                      <Tooltip title="Remove from household">
+                        <IconButton
+                          size="small"
+                          onClick={() => runAction(() => removeHouseholdMember(household.id, linked.id))}
+                          disabled={saving}
+                        >
+                          <PersonRemoveIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {canEdit && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 3, maxWidth: 480 }}>
+          <Autocomplete
+            options={candidates}
+            value={addMember}
+            onChange={(_, value) => setAddMember(value)}
+            getOptionLabel={(option) => `${option.firstName} ${option.lastName} (${option.email})`}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            renderInput={(params) => <TextField {...params} label="Add Member" size="small" />}
+            size="small"
+            fullWidth
+          />
+          <Button
+            variant="outlined"
+            onClick={() => addMember && runAction(() => addHouseholdMember(household.id, addMember.id))}
+            disabled={saving || !addMember}
+          >
+            Add
+          </Button>
+        </Box>
+      )}
+
+      <Typography variant="subtitle1" fontWeight={600}>
+        Household Payments
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {payments.length} payment{payments.length === 1 ? '' : 's'} · ${totalPaid.toFixed(2)} total
+      </Typography>
+      {payments.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="text.secondary">No household payments recorded yet</Typography>
+        </Paper>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Receipt #</TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Member</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Method</TableCell>
+                <TableCell align="right">Amount</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {payments.map(payment => (
+                <TableRow key={payment.id} hover>
+                  <TableCell>{payment.receiptNumber || '—'}</TableCell>
+                  <TableCell>{format(payment.paymentDate.toDate(), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>{payment.memberName}</TableCell>
+                  <TableCell>{payment.description}</TableCell>
+                  <TableCell>{payment.paymentMethod}</TableCell>
+                  <TableCell align="right">${payment.amount.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default MemberHouseholdPanel;
@@ -0,0 +1,382 @@
+// src/components/MemberImportDialog.tsx - CSV import wizard: upload, map columns, dry run, then create members
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stepper,
+  Step,
+  StepLabel,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Paper,
+  Chip,
+  Alert,
+  LinearProgress,
+  FormControlLabel,
+  Switch,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import { format } from 'date-fns';
+import { MemberImportMapping, MemberImportResult, MemberImportRow } from '../types/members';
+import { getAllMembers, importMembers } from '../services/memberService';
+import {
+  MEMBER_IMPORT_FIELDS,
+  buildImportResultsCsv,
+  guessColumnMapping,
+  parseCsv,
+  validateImportRows,
+} from '../utils/memberImport';
+import { downloadCsv, toCsv } from '../utils/csvUtils';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface MemberImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const STEPS = ['Upload', 'Map Columns', 'Dry Run', 'Import'];
+
+const MemberImportDialog: React.FC<MemberImportDialogProps> = ({ open, onClose, onImported }) => {
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<MemberImportMapping>({});
+  const [reviewRows, setReviewRows] = useState<MemberImportRow[]>([]);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<MemberImportResult[] | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  const readyCount = reviewRows.filter(row => row.errors.length === 0).length;
+  const skippedCount = reviewRows.length - readyCount;
+  const warningCount = reviewRows.filter(row => row.errors.length === 0 && row.warnings.length > 0).length;
+  const missingRequired = MEMBER_IMPORT_FIELDS.filter(field => field.required && mapping[field.field] === undefined);
+
+  const visibleRows = useMemo(() => (
+    problemsOnly
+      ? reviewRows.filter(row => row.errors.length > 0 || row.warnings.length > 0)
+      : reviewRows
+  ), [reviewRows, problemsOnly]);
+
+  const resetState = () => {
+    setActiveStep(0);
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setReviewRows([]);
+    setProblemsOnly(false);
+    setProgress(0);
+    setResults(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (working) return;
+    if (results?.some(result => result.status === 'created')) {
+      onImported?.();
+    }
+    resetState();
+    onClose();
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv(
+      'member-import-template.csv',
+      toCsv(
+        MEMBER_IMPORT_FIELDS.map(field => field.label),
+        [['Jane', 'Doe', 'jane@example.com', '(808) 555-0100', '1990-04-12', 'John Doe', 'Spouse', '(808) 555-0101', 'Recurring', '150', '', '', 'Credit Card', 'yes', '', '', 'adult;bjj']]
+      )
+    );
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setError('The file needs a header row and at least one member');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setActiveStep(1);
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read that file. Please upload a CSV.');
+    }
+  };
+
+  const handleMappingChange = (field: keyof MemberImportMapping, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleDryRun = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      const existingMembers = await getAllMembers(false);
+      setReviewRows(validateImportRows(dataRows, mapping, existingMembers));
+      setActiveStep(2);
+    } catch (err: any) {
+      setError(err.message || 'Failed to check for duplicates');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!userData) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setProgress(0);
+      setActiveStep(3);
+      const importResults = await importMembers(reviewRows, userData.uid, (processed, total) => {
+        setProgress(Math.round((processed / total) * 100));
+      });
+      setResults(importResults);
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownloadResults = () => {
+    if (!results) return;
+    downloadCsv(
+      `member-import-results-${format(new Date(), 'yyyy-MM-dd-HHmm')}.csv`,
+      buildImportResultsCsv(results)
+    );
+  };
+
+  const renderUpload = () => (
+    <Box sx={{ textAlign: 'center', py: 3 }}>
+      <Typography variant="body1" sx={{ mb: 2 }}>
+        Upload a CSV with one member per row and a header row. Columns are matched on the next step.
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', flexWrap: 'wrap' }}>
+        <Button variant="contained" component="label" startIcon={<UploadFileIcon />}>
+          Choose CSV File
+          <input hidden type="file" accept=".csv,text/csv" onChange={handleFileSelected} />
+        </Button>
+        <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleDownloadTemplate}>
+          Download Template
+        </Button>
+      </Box>
+    </Box>
+  );
+
+  const renderMapping = () => (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {fileName} • {dataRows.length} rows. Match each field to a column from your file.
+      </Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+        {MEMBER_IMPORT_FIELDS.map(definition => (
+          <TextField
+            key={definition.field}
+            select
+            size="small"
+            label={definition.required ? `${definition.label} *` : definition.label}
+            value={mapping[definition.field] ?? ''}
+            onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+          >
+            <MenuItem value="">— Not in file —</MenuItem>
+            {headers.map((header, index) => (
+              <MenuItem key={`${header}-${index}`} value={index}>
+                {header || `Column ${index + 1}`}
+              </MenuItem>
+            ))}
+          </TextField>
+        ))}
+      </Box>
+      {missingRequired.length > 0 && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          Map {missingRequired.map(field => field.label).join(', ')} to continue.
+        </Alert>
+      )}
+    </Box>
+  );
+
+  const renderDryRun = () => (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+        <Chip label={`${readyCount} ready`} color="success" variant="outlined" />
+        {warningCount > 0 && <Chip label={`${warningCount} with warnings`} color="warning" variant="outlined" />}
+        {skippedCount > 0 && <Chip label={`${skippedCount} will be skipped`} color="error" variant="outlined" />}
+        <Box sx={{ flexGrow: 1 }} />
+        <FormControlLabel
+          control={<Switch checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />}
+          label="Only rows with issues"
+        />
+      </Box>
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 400 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Row</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Name</TableCell>
+              {!isMobile && <TableCell sx={{ fontWeight: 600 }}>Email</TableCell>}
+              <TableCell sx={{ fontWeight: 600 }}>Issues</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.map(row => (
+              <TableRow key={row.rowNumber}>
+                <TableCell>{row.rowNumber}</TableCell>
+                <TableCell>{`${row.data.firstName} ${row.data.lastName}`.trim() || '—'}</TableCell>
+                {!isMobile && <TableCell>{row.data.email || '—'}</TableCell>}
+                <TableCell>
+                  {row.errors.length === 0 && row.warnings.length === 0 && (
+                    <Typography variant="body2" color="success.main">OK</Typography>
+                  )}
+                  {row.errors.map(message => (
+                    <Typography key={message} variant="body2" color="error.main">{message}</Typography>
+                  ))}
+                  {row.warnings.map(message => (
+                    <Typography key={message} variant="body2" color="warning.main">{message}</Typography>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+
+  const renderImport = () => {
+    if (!results) {
+      return (
+        <Box sx={{ py: 4 }}>
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            Creating members... please keep this window open.
+          </Typography>
+          <LinearProgress variant="determinate" value={progress} />
+        </Box>
+      );
+    }
+
+    const created = results.filter(result => result.status === 'created').length;
+    const failed = results.filter(result => result.status === 'failed');
+    const skipped = results.filter(result => result.status === 'skipped').length;
+
+    return (
+      <Box sx={{ py: 2 }}>
+        <Alert severity={failed.length > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+          {created} created, {skipped} skipped, {failed.length} failed.
+        </Alert>
+        {failed.map(result => (
+          <Typography key={result.rowNumber} variant="body2" color="error.main">
+            Row {result.rowNumber} ({result.email}): {result.message}
+          </Typography>
+        ))}
+        <Alert severity="info" sx={{ mt: 2 }}>
+          The results file lists each member's generated portal password. It is not stored anywhere else,
+          so download it now and keep it somewhere safe.
+        </Alert>
+        <Button
+          variant="contained"
+          startIcon={<DownloadIcon />}
+          onClick={handleDownloadResults}
+          sx={{ mt: 2 }}
+        >
+          Download Results
+        </Button>
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="md" fullScreen={isMobile}>
+      <DialogTitle>Import Members</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 3, mt: 1 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {activeStep === 0 && renderUpload()}
+        {activeStep === 1 && renderMapping()}
+        {activeStep === 2 && renderDryRun()}
+        {activeStep === 3 && renderImport()}
+      </DialogContent>
+
+      <DialogActions>
+        {activeStep === 1 && (
+          <>
+            <Button onClick={resetState}>Back</Button>
+            <Button
+              variant="contained"
+              onClick={handleDryRun}
+              disabled={working || missingRequired.length > 0}
+            >
+              {working ? 'Checking...' : 'Run Dry Run'}
+            </Button>
+          </>
+        )}
+        {activeStep === 2 && (
+          <>
+            <Button onClick={() => setActiveStep(1)}>Back</Button>
+            <Button variant="contained" onClick={handleImport} disabled={readyCount === 0}>
+              Import {readyCount} {readyCount === 1 ? 'Member' : 'Members'}
+            </Button>
+          </>
+        )}
+        <Button onClick={handleClose} disabled={working}>
+          {results ? 'Done' : 'Cancel'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MemberImportDialog;
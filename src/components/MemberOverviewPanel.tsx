@@ -0,0 +1,165 @@
+// src/components/MemberOverviewPanel.tsx - Contact and membership summary for a single member
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Divider,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { MemberRecord, MemberStatus } from '../types/members';
+
+interface MemberOverviewPanelProps {
+  member: MemberRecord;
+}
+
+export const getMemberStatusColor = (status: MemberStatus) => {
+  switch (status) {
+    case 'Active':
+      return 'success';
+    case 'Paused':
+      return 'warning';
+    case 'Overdue':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+const formatDate = (date?: Timestamp) => {
+  if (!date) return '—';
+  try {
+    return format(date.toDate(), 'MMM dd, yyyy');
+  } catch (error) {
+    return '—';
+  }
+};
+
+const DetailRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, py: 0.75 }}>
+    <Typography variant="body2" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="body2" sx={{ textAlign: 'right', wordBreak: 'break-word' }}>
+      {value}
+    </Typography>
+  </Box>
+);
+
+const MemberOverviewPanel: React.FC<MemberOverviewPanelProps> = ({ member }) => {
+  const membership = member.membership;
+  const status = membership?.status || 'No Membership';
+
+  return (
+    <Box sx={{
+      display: 'grid',
+      gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+      gap: 2,
+    }}>
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+          Contact
+        </Typography>
+        <DetailRow label="Email" value={member.email || '—'} />
+        <DetailRow label="Phone" value={member.phone || '—'} />
+        <DetailRow label="Date of Birth" value={formatDate(member.dateOfBirth)} />
+        <Divider sx={{ my: 1 }} />
+        <Typography variant="body2" fontWeight={600} sx={{ mb: 0.5 }}>
+          Emergency Contact
+        </Typography>
+        <DetailRow
+          label={member.emergencyContact?.relationship || 'Contact'}
+          value={member.emergencyContact?.name || '—'}
+        />
+        <DetailRow label="Phone" value={member.emergencyContact?.phone || '—'} />
+      </Paper>
+
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Membership
+          </Typography>
+          <Chip label={status} size="small" color={getMemberStatusColor(status) as any} />
+        </Box>
+        <DetailRow label="Type" value={membership?.type || '—'} />
+        {member.activePackageName && (
+          <DetailRow label="Package" value={member.activePackageName} />
+        )}
+        {membership?.endDate && (
+          <DetailRow label="Ends" value={formatDate(membership.endDate)} />
+        )}
+        {membership?.type === 'Recurring' && (
+          <>
+            <DetailRow
+              label="Monthly Amount"
+              value={membership.monthlyAmount !== undefined ? `$${membership.monthlyAmount}` : '—'}
+            />
+            <DetailRow label="Next Payment" value={formatDate(membership.nextPaymentDate)} />
+          </>
+        )}
+        {membership?.type === 'Prepaid' && (
+          <DetailRow
+            label="Credits"
+            value={`${membership.remainingCredits ?? 0} of ${membership.totalCredits ?? 0} remaining`}
+          />
+        )}
+        <DetailRow label="Payment Method" value={membership?.paymentMethod || '—'} />
+        <DetailRow label="Last Payment" value={formatDate(membership?.lastPaymentDate)} />
+        {status === 'Overdue' && (
+          <DetailRow label="Overdue Since" value={formatDate(membership?.overdueDate)} />
+        )}
+        {status === 'Paused' && membership?.pauseReason && (
+          <DetailRow label="Pause Reason" value={membership.pauseReason} />
+        )}
+      </Paper>
+
+      <Paper variant="outlined" sx={{ p: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+          Attendance
+        </Typography>
+        <DetailRow label="Member Since" value={formatDate(member.joinDate)} />
+        <DetailRow label="Total Visits" value={member.totalVisits || 0} />
+        <DetailRow label="Last Visit" value={formatDate(member.lastVisit)} />
+        {member.currentBeltLevel && (
+          <DetailRow
+            label="Belt"
+            value={`${member.currentBeltLevel.name} (${member.currentBeltLevel.style})`}
+          />
+        )}
+        {member.currentStudentLevel && (
+          <DetailRow label="Level" value={member.currentStudentLevel.name} />
+        )}
+      </Paper>
+
+      {(member.notes || member.medicalNotes || (member.tags && member.tags.length > 0)) && (
+        <Paper variant="outlined" sx={{ p: 2 }}>
+          <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+            Notes
+          </Typography>
+          {member.medicalNotes && (
+            <Typography variant="body2" color="error.main" sx={{ mb: 1 }}>
+              Medical: {member.medicalNotes}
+            </Typography>
+          )}
+          {member.notes && (
+            <Typography variant="body2" sx={{ mb: 1, whiteSpace: 'pre-wrap' }}>
+              {member.notes}
+            </Typography>
+          )}
+          {member.tags && member.tags.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {member.tags.map(tag => (
+                <Chip key={tag} label={tag} size="small" variant="outlined" color="primary" />
+              ))}
+            </Box>
+          )}
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default MemberOverviewPanel;
@@ -0,0 +1,335 @@
+// src/components/MemberPaymentsPanel.tsx - Payment ledger for a single member
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Paper,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Card,
+  CardContent,
+  FormControlLabel,
+  Checkbox,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import PrintIcon from '@mui/icons-material/Print';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import { format } from 'date-fns';
+import { MemberPayment, MemberRecord, PaymentMethod } from '../types/members';
+import { getMemberPayments, recordPayment, PAYMENT_METHODS } from '../services/paymentService';
+import { printReceipt } from '../utils/receiptUtils';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface MemberPaymentsPanelProps {
+  member: MemberRecord;
+  onPaymentRecorded?: (payment: MemberPayment) => void;
+}
+
+interface PaymentFormState {
+  amount: string;
+  paymentMethod: PaymentMethod;
+  description: string;
+  creditsAdded: string;
+  isDues: boolean;
+  notes: string;
+}
+
+const getDefaultForm = (member: MemberRecord): PaymentFormState => {
+  const isRecurring = member.membership?.type === 'Recurring';
+  return {
+    amount: isRecurring && member.membership.monthlyAmount ? String(member.membership.monthlyAmount) : '',
+    paymentMethod: member.membership?.paymentMethod || 'Cash',
+    description: isRecurring ? 'Monthly membership' : 'Class credits',
+    creditsAdded: '',
+    isDues: isRecurring,
+    notes: '',
+  };
+};
+
+const MemberPaymentsPanel: React.FC<MemberPaymentsPanelProps> = ({ member, onPaymentRecorded }) => {
+  const [payments, setPayments] = useState<MemberPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<PaymentFormState>(() => getDefaultForm(member));
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { userData, hasPermission } = useRoleControl();
+
+  const isPrepaid = member.membership?.type === 'Prepaid';
+  const isRecurring = member.membership?.type === 'Recurring';
+
+  const loadPayments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPayments(await getMemberPayments(member.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  }, [member.id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const handleOpenForm = () => {
+    setForm(getDefaultForm(member));
+    setError(null);
+    setFormOpen(true);
+  };
+
+  const handlePrint = (payment: MemberPayment) => {
+    if (!printReceipt(payment)) {
+      setError('Unable to open the receipt. Please allow popups for this site.');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!userData) return;
+
+    const amount = parseFloat(form.amount);
+    if (!amount || amount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+    if (!form.description.trim()) {
+      setError('Please enter a description');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const payment = await recordPayment(
+        member.id,
+        {
+          amount,
+          paymentMethod: form.paymentMethod,
+          description: form.description.trim(),
+          creditsAdded: form.creditsAdded ? parseInt(form.creditsAdded, 10) : undefined,
+          isDues: isRecurring && form.isDues,
+          notes: form.notes.trim() || undefined,
+        },
+        userData.uid,
+        userData.fullName
+      );
+
+      setPayments(prev => [payment, ...prev]);
+      setFormOpen(false);
+      onPaymentRecorded?.(payment);
+    } catch (err: any) {
+      setError(err.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Payment History
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {payments.length} payment{payments.length === 1 ? '' : 's'} · ${totalPaid.toFixed(2)} total
+          </Typography>
+        </Box>
+        {hasPermission('payments.record') && (
+          <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={handleOpenForm}>
+            Record Payment
+          </Button>
+        )}
+      </Box>
+
+      {error && !formOpen && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : payments.length === 0 ? (
+        <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+          <ReceiptIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 1 }} />
+          <Typography color="text.secondary">No payments recorded yet</Typography>
+        </Paper>
+      ) : isMobile ? (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {payments.map(payment => (
+            <Card key={payment.id} variant="outlined">
+              <CardContent sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 1.5, '&:last-child': { pb: 1.5 } }}>
+                <Box>
+                  <Typography fontWeight={600}>${payment.amount.toFixed(2)}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {format(payment.paymentDate.toDate(), 'MMM dd, yyyy')} · {payment.paymentMethod}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {payment.receiptNumber} · {payment.description}
+                  </Typography>
+                </Box>
+                <IconButton onClick={() => handlePrint(payment)}>
+                  <PrintIcon />
+                </IconButton>
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Receipt #</TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Method</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell align="right">Credits</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {payments.map(payment => (
+                <TableRow key={payment.id} hover>
+                  <TableCell>{payment.receiptNumber || '—'}</TableCell>
+                  <TableCell>{format(payment.paymentDate.toDate(), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>{payment.description}</TableCell>
+                  <TableCell>{payment.paymentMethod}</TableCell>
+                  <TableCell align="right">${payment.amount.toFixed(2)}</TableCell>
+                  <TableCell align="right">{payment.creditsAdded || '—'}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Print receipt">
+                      <IconButton size="small" onClick={() => handlePrint(payment)}>
+                        <PrintIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Record Payment Dialog */}
+      <Dialog
+        open={formOpen}
+        onClose={() => !saving && setFormOpen(false)}
+        fullWidth
+        maxWidth="xs"
+        fullScreen={isMobile}
+      >
+        <DialogTitle>Record Payment</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              label="Amount"
+              type="number"
+              value={form.amount}
+              onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+              inputProps={{ min: 0, step: '0.01' }}
+              required
+              fullWidth
+            />
+            <TextField
+              select
+              label="Payment Method"
+              value={form.paymentMethod}
+              onChange={(e) => setForm(prev => ({ ...prev, paymentMethod: e.target.value as PaymentMethod }))}
+              fullWidth
+            >
+              {PAYMENT_METHODS.map(method => (
+                <MenuItem key={method} value={method}>{method}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              required
+              fullWidth
+            />
+            {isPrepaid && (
+              <TextField
+                label="Credits Added"
+                type="number"
+                value={form.creditsAdded}
+                onChange={(e) => setForm(prev => ({ ...prev, creditsAdded: e.target.value }))}
+                inputProps={{ min: 0, step: 1 }}
+                helperText={`Currently ${member.membership.remainingCredits ?? 0} credits remaining`}
+                fullWidth
+              />
+            )}
+            {isRecurring && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={form.isDues}
+                    onChange={(e) => setForm(prev => ({ ...prev, isDues: e.target.checked }))}
+                  />
+                }
+                label="Monthly dues (moves the next payment date on a month)"
+              />
+            )}
+            <TextField
+              label="Notes"
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              multiline
+              rows={2}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={16} /> : undefined}
+          >
+            {saving ? 'Saving...' : 'Record Payment'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default MemberPaymentsPanel;
@@ -0,0 +1,426 @@
+// src/components/MemberSubscriptionPanel.tsx - Package subscription lifecycle for a single member
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import PauseCircleIcon from '@mui/icons-material/PauseCircle';
+import PlayCircleIcon from '@mui/icons-material/PlayCircle';
+import AutorenewIcon from '@mui/icons-material/Autorenew';
+import CancelIcon from '@mui/icons-material/Cancel';
+import { format } from 'date-fns';
+import { MemberRecord } from '../types/members';
+import { MembershipPackageRecord, MembershipSubscription } from '../types/membershipPackages';
+import { getActiveMembershipPackages, getMembershipPackage } from '../services/membershipPackageService';
+import {
+  getMemberSubscriptions,
+  subscribeToPackage,
+  pauseSubscription,
+  resumeSubscription,
+  cancelSubscription,
+  renewSubscription,
+  getRenewalPricing,
+  getCancellationQuote,
+  getRemainingFreezeDays,
+  CancellationQuote,
+} from '../services/subscriptionService';
+import { getPackagePriceForMember } from '../services/householdService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface MemberSubscriptionPanelProps {
+  member: MemberRecord;
+  onChanged?: () => void;
+}
+
+type DialogType = 'subscribe' | 'pause' | 'cancel' | 'renew' | null;
+
+const getSubscriptionStatusColor = (status: MembershipSubscription['status']) => {
+  switch (status) {
+    case 'Active':
+      return 'success';
+    case 'Paused':
+      return 'warning';
+    case 'Cancelled':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+const getDiscountNote = (familyDiscountPercent: number, renewalDiscountPercent: number): string | null => {
+  const discounts = [
+    familyDiscountPercent ? `${familyDiscountPercent}% family` : '',
+    renewalDiscountPercent ? `${renewalDiscountPercent}% renewal` : '',
+  ].filter(Boolean);
+  if (discounts.length === 0) return null;
+  return `Includes ${discounts.join(' and ')} discount${discounts.length > 1 ? 's' : ''}`;
+};
+
+const MemberSubscriptionPanel: React.FC<MemberSubscriptionPanelProps> = ({ member, onChanged }) => {
+  const [subscriptions, setSubscriptions] = useState<MembershipSubscription[]>([]);
+  const [currentPackage, setCurrentPackage] = useState<MembershipPackageRecord | null>(null);
+  const [packages, setPackages] = useState<MembershipPackageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<DialogType>(null);
+  const [selectedPackageId, setSelectedPackageId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [priceNote, setPriceNote] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+
+  const { userData, hasPermission } = useRoleControl();
+
+  const current = subscriptions.find(sub => sub.status === 'Active' || sub.status === 'Paused') || null;
+  const history = subscriptions.filter(sub => sub !== current);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const memberSubscriptions = await getMemberSubscriptions(member.id);
+      setSubscriptions(memberSubscriptions);
+
+      const active = memberSubscriptions.find(sub => sub.status === 'Active' || sub.status === 'Paused');
+      setCurrentPackage(active ? await getMembershipPackage(active.packageId) : null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load subscriptions');
+    } finally {
+      setLoading(false);
+    }
+  }, [member.id]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const openDialog = async (type: DialogType) => {
+    setError(null);
+    setReason('');
+    setAmount('');
+    setPriceNote(null);
+    setQuote(null);
+
+    if (type === 'subscribe' && packages.length === 0) {
+      try {
+        setPackages(await getActiveMembershipPackages());
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    }
+    if (type === 'cancel' && current && currentPackage) {
+      setQuote(getCancellationQuote(current, currentPackage));
+    }
+    if (type === 'renew' && currentPackage) {
+      try {
+        const pricing = await getRenewalPricing(member, currentPackage);
+        setAmount(pricing.price.toFixed(2));
+        setPriceNote(getDiscountNote(pricing.familyDiscountPercent, pricing.renewalDiscountPercent));
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    }
+    setDialog(type);
+  };
+
+  const handlePackageChange = async (packageId: string) => {
+    setSelectedPackageId(packageId);
+    const pkg = packages.find(p => p.id === packageId);
+    if (!pkg) return;
+
+    setAmount(String(pkg.price));
+    setPriceNote(null);
+    try {
+      const pricing = await getPackagePriceForMember(member, pkg);
+      setAmount(String(pricing.price));
+      setPriceNote(getDiscountNote(pricing.familyDiscountPercent, 0));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      setDialog(null);
+      await loadSubscriptions();
+      onChanged?.();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!userData) return;
+    const parsedAmount = amount ? parseFloat(amount) : undefined;
+
+    switch (dialog) {
+      case 'subscribe':
+        if (!selectedPackageId) {
+          setError('Please select a package');
+          return;
+        }
+        runAction(() => subscribeToPackage(
+          member.id,
+          selectedPackageId,
+          { amountPaid: parsedAmount, paymentMethod: member.membership?.paymentMethod },
+          userData.uid,
+          userData.fullName
+        ));
+        break;
+      case 'pause':
+        runAction(() => pauseSubscription(current!.id, reason.trim(), userData.uid, userData.fullName));
+        break;
+      case 'cancel':
+        runAction(() => cancelSubscription(current!.id, reason.trim(), userData.uid, userData.fullName));
+        break;
+      case 'renew':
+        runAction(() => renewSubscription(current!.id, { amountPaid: parsedAmount }, userData.uid, userData.fullName));
+        break;
+    }
+  };
+
+  const handleResume = () => {
+    if (!userData || !current) return;
+    runAction(() => resumeSubscription(current.id, userData.uid, userData.fullName));
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  const remainingFreezeDays = current && currentPackage ? getRemainingFreezeDays(current, currentPackage) : 0;
+
+  return (
+    <Box>
+      {error && !dialog && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {current ? (
+        <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 1 }}>
+            <Box>
+              <Typography variant="subtitle1" fontWeight={600}>
+                {current.packageName}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {format(current.startDate, 'MMM dd, yyyy')} – {format(current.endDate, 'MMM dd, yyyy')}
+              </Typography>
+            </Box>
+            <Chip label={current.status} size="small" color={getSubscriptionStatusColor(current.status) as any} />
+          </Box>
+
+          <Typography variant="body2" color="text.secondary">
+            Paid ${current.amountPaid?.toFixed(2)} · {current.classesAttended} classes attended
+            {current.isAutoRenewal && ' · Auto-renews'}
+          </Typography>
+          {current.status === 'Paused' && current.pausedAt && (
+            <Typography variant="body2" color="warning.main">
+              Frozen since {format(current.pausedAt, 'MMM dd, yyyy')}{current.pauseReason ? ` – ${current.pauseReason}` : ''}
+            </Typography>
+          )}
+          {currentPackage?.allowFreeze && currentPackage.maxFreezeMonths && (
+            <Typography variant="caption" color="text.secondary">
+              {remainingFreezeDays} freeze day{remainingFreezeDays === 1 ? '' : 's'} remaining
+            </Typography>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+            {hasPermission('subscriptions.manage') && (current.status === 'Active' ? (
+              <Button
+                size="small"
+                startIcon={<PauseCircleIcon />}
+                onClick={() => openDialog('pause')}
+                disabled={!currentPackage?.allowFreeze || remainingFreezeDays <= 0}
+              >
+                Freeze
+              </Button>
+            ) : (
+              <Button size="small" startIcon={<PlayCircleIcon />} onClick={handleResume} disabled={saving}>
+                Resume
+              </Button>
+            ))}
+            {hasPermission('packages.sell') && (
+              <Button
+                size="small"
+                startIcon={<AutorenewIcon />}
+                onClick={() => openDialog('renew')}
+                disabled={current.status !== 'Active'}
+              >
+                Renew
+              </Button>
+            )}
+            {hasPermission('payments.refund') && (
+              <Button size="small" color="error" startIcon={<CancelIcon />} onClick={() => openDialog('cancel')}>
+                Cancel
+              </Button>
+            )}
+          </Box>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ p: 3, mb: 3, textAlign: 'center' }}>
+          <Typography color="text.secondary" sx={{ mb: 2 }}>
+            No current package subscription
+          </Typography>
+          {hasPermission('packages.sell') && (
+            <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={() => openDialog('subscribe')}>
+              Subscribe to Package
+            </Button>
+          )}
+        </Paper>
+      )}
+
+      {history.length > 0 && (
+        <>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            History
+          </Typography>
+          <List dense disablePadding>
+            {history.map((sub, index) => (
+              <React.Fragment key={sub.id}>
+                {index > 0 && <Divider component="li" />}
+                <ListItem
+                  secondaryAction={
+                    <Chip label={sub.status} size="small" color={getSubscriptionStatusColor(sub.status) as any} />
+                  }
+                >
+                  <ListItemText
+                    primary={sub.packageName}
+                    secondary={`${format(sub.startDate, 'MMM dd, yyyy')} – ${format(sub.cancelledAt || sub.endDate, 'MMM dd, yyyy')}${sub.refundAmount ? ` · Refunded $${sub.refundAmount.toFixed(2)}` : ''}`}
+                  />
+                </ListItem>
+              </React.Fragment>
+            ))}
+          </List>
+        </>
+      )}
+
+      {/* Action Dialog */}
+      <Dialog open={!!dialog} onClose={() => !saving && setDialog(null)} fullWidth maxWidth="xs">
+        <DialogTitle>
+          {dialog === 'subscribe' && 'Subscribe to Package'}
+          {dialog === 'pause' && 'Freeze Subscription'}
+          {dialog === 'cancel' && 'Cancel Subscription'}
+          {dialog === 'renew' && 'Renew Subscription'}
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            {dialog === 'subscribe' && (
+              <TextField
+                select
+                label="Package"
+                value={selectedPackageId}
+                onChange={(e) => handlePackageChange(e.target.value)}
+                fullWidth
+              >
+                {packages.map(pkg => (
+                  <MenuItem key={pkg.id} value={pkg.id}>
+                    {pkg.name} – ${pkg.price}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
+            {(dialog === 'subscribe' || dialog === 'renew') && (
+              <TextField
+                label="Amount Paid"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                inputProps={{ min: 0, step: '0.01' }}
+                helperText={priceNote || undefined}
+                fullWidth
+              />
+            )}
+
+            {dialog === 'pause' && currentPackage && (
+              <Typography variant="body2" color="text.secondary">
+                The end date is extended by the time frozen
+                {currentPackage.minFreezeWeeks ? ` (minimum ${currentPackage.minFreezeWeeks} week${currentPackage.minFreezeWeeks === 1 ? '' : 's'})` : ''}
+                {currentPackage.maxFreezeMonths ? `, up to ${remainingFreezeDays} more days` : ''}.
+              </Typography>
+            )}
+
+            {dialog === 'cancel' && quote && (
+              <Paper variant="outlined" sx={{ p: 1.5 }}>
+                <Typography variant="body2">
+                  Unused: {quote.unusedDays} of {quote.totalDays} days (${quote.proratedRefund.toFixed(2)})
+                </Typography>
+                {quote.withinCommitment && (
+                  <Typography variant="body2" color="error.main">
+                    Early termination fee: -${quote.earlyTerminationFee.toFixed(2)}
+                  </Typography>
+                )}
+                <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                  Refund due: ${quote.refundAmount.toFixed(2)}
+                </Typography>
+              </Paper>
+            )}
+
+            {(dialog === 'pause' || dialog === 'cancel') && (
+              <TextField
+                label="Reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                multiline
+                rows={2}
+                fullWidth
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialog(null)} disabled={saving}>
+            Close
+          </Button>
+          <Button
+            variant="contained"
+            color={dialog === 'cancel' ? 'error' : 'primary'}
+            onClick={handleConfirm}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={16} /> : undefined}
+          >
+            {saving ? 'Saving...' : 'Confirm'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default MemberSubscriptionPanel;
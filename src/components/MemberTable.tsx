@@ -1,6 +1,7 @@
 // src/components/MemberTable.tsx - Optimized with intelligent caching and request management
 
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Table,
   TableBody,
@@ -44,6 +45,8 @@ import {
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import PersonIcon from '@mui/icons-material/Person';
 import PhoneIcon from '@mui/icons-material/Phone';
 import EmailIcon from '@mui/icons-material/Email';
@@ -81,6 +84,7 @@ import { useRoleControl } from '../hooks/useRoleControl';
 interface MemberTableProps {
   refreshTrigger?: number;
   onEdit: (memberData: MemberRecord) => void;
+  onView?: (memberData: MemberRecord) => void;
   onDataLoaded?: (data: { memberList: MemberRecord[] }) => void;
 }
 
@@ -117,8 +121,11 @@ const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 const MemberTable: React.FC<MemberTableProps> = ({ 
   refreshTrigger, 
   onEdit, 
+  onView,
   onDataLoaded 
 }) => {
+  const navigate = useNavigate();
+
   // State management
   const [memberList, setMemberList] = useState<MemberRecord[]>([]);
   const [filteredMembers, setFilteredMembers] = useState<MemberRecord[]>([]);
@@ -162,7 +169,9 @@ const MemberTable: React.FC<MemberTableProps> = ({
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-  const { isAdmin, userData } = useRoleControl();
+  const { userData, hasPermission } = useRoleControl();
+  const canViewMembers = hasPermission('members.view');
+  const canEditMembers = hasPermission('members.edit');
 
   // Memoized member stats
   const memberStats = useMemo(() => {
@@ -813,7 +822,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
                   Clear Filters
                 </Button>
                 
-                {isAdmin && (
+                {canEditMembers && (
                   <Button
                     size="small"
                     variant="outlined"
@@ -825,7 +834,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
                 )}
               </Box>
               
-              {cacheInfo && isAdmin && (
+              {cacheInfo && canEditMembers && (
                 <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
                   Cache: {cacheInfo.size} items, {cacheInfo.activeListeners} listeners
                 </Typography>
@@ -866,7 +875,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
                       color={getStatusColor(member?.membership?.status || 'No Membership') as any}
                       size="small"
                     />
-                    {isAdmin && (
+                    {canViewMembers && (
                       <IconButton
                         onClick={(e) => handleMenuClick(e, member)}
                         size="small"
@@ -945,7 +954,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
         </Box>
 
         {/* Floating Action Button for Advanced Functions */}
-        {isAdmin && (
+        {canEditMembers && (
           <Fab
             sx={{
               position: 'fixed',
@@ -1068,7 +1077,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
             Refresh
           </Button>
 
-          {isAdmin && (
+          {canEditMembers && (
             <Button
               onClick={handleClearCache}
               size="small"
@@ -1104,7 +1113,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
               Clear All Filters
             </Button>
 
-            {cacheInfo && isAdmin && (
+            {cacheInfo && canEditMembers && (
               <Typography variant="caption" color="text.secondary" sx={{ ml: 2 }}>
                 Cache: {cacheInfo.size} items, {cacheInfo.activeListeners} active listeners
               </Typography>
@@ -1133,7 +1142,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
               <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
                 Last Visit
               </TableCell>
-              {isAdmin && (
+              {canViewMembers && (
                 <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem', width: 100 }}>
                   Actions
                 </TableCell>
@@ -1167,7 +1176,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
                   <TableCell>
                     <Skeleton variant="text" width={80} height={20} />
                   </TableCell>
-                  {isAdmin && (
+                  {canViewMembers && (
                     <TableCell>
                       <Skeleton variant="circular" width={24} height={24} />
                     </TableCell>
@@ -1272,7 +1281,7 @@ const MemberTable: React.FC<MemberTableProps> = ({
                     </Box>
                   </TableCell>
                   
-                  {isAdmin && (
+                  {canViewMembers && (
                     <TableCell>
                       <IconButton
                         onClick={(e) => handleMenuClick(e, member)}
@@ -1294,8 +1303,8 @@ const MemberTable: React.FC<MemberTableProps> = ({
         </Table>
       </TableContainer>
 
-      {/* Admin Action Menu */}
-      {isAdmin && (
+      {/* Member Action Menu */}
+      {canViewMembers && (
         <Menu
           anchorEl={anchorEl}
           open={Boolean(anchorEl)}
@@ -1305,46 +1314,66 @@ const MemberTable: React.FC<MemberTableProps> = ({
         >
           {selectedMember && (
             <>
-              <MenuItemComponent onClick={() => onEdit(selectedMember)}>
-                <EditIcon sx={{ mr: 1 }} />
-                Edit Member
+              {onView && (
+                <MenuItemComponent 
+                  onClick={() => {
+                    onView(selectedMember);
+                    handleMenuClose();
+                  }}
+                >
+                  <VisibilityIcon sx={{ mr: 1 }} />
+                  View Details
+                </MenuItemComponent>
+              )}
+              <MenuItemComponent onClick={() => navigate(`/members/${selectedMember.id}`)}>
+                <OpenInNewIcon sx={{ mr: 1 }} />
+                Open Profile
               </MenuItemComponent>
               
-              <Divider />
+              {canEditMembers && (
+                <>
+                  <MenuItemComponent onClick={() => onEdit(selectedMember)}>
+                    <EditIcon sx={{ mr: 1 }} />
+                    Edit Member
+                  </MenuItemComponent>
               
-              <MenuItemComponent 
-                onClick={() => handleStatusClick(selectedMember, 'Active')}
-                disabled={selectedMember?.membership?.status === 'Active'}
-              >
-                <CheckCircleIcon sx={{ mr: 1 }} />
-                Mark Active
-              </MenuItemComponent>
+                  <Divider />
               
-              <MenuItemComponent 
-                onClick={() => handleStatusClick(selectedMember, 'Paused')}
-                disabled={selectedMember?.membership?.status === 'Paused'}
-              >
-                <PauseCircleIcon sx={{ mr: 1 }} />
-                Mark Paused
-              </MenuItemComponent>
+                  <MenuItemComponent 
+                    onClick={() => handleStatusClick(selectedMember, 'Active')}
+                    disabled={selectedMember?.membership?.status === 'Active'}
+                  >
+                    <CheckCircleIcon sx={{ mr: 1 }} />
+                    Mark Active
+                  </MenuItemComponent>
               
-              <MenuItemComponent 
-                onClick={() => handleStatusClick(selectedMember, 'Overdue')}
-                disabled={selectedMember?.membership?.status === 'Overdue'}
-              >
-                <ErrorIcon sx={{ mr: 1 }} />
-                Mark Overdue
-              </MenuItemComponent>
+                  <MenuItemComponent 
+                    onClick={() => handleStatusClick(selectedMember, 'Paused')}
+                    disabled={selectedMember?.membership?.status === 'Paused'}
+                  >
+                    <PauseCircleIcon sx={{ mr: 1 }} />
+                    Mark Paused
+                  </MenuItemComponent>
               
-              <Divider />
+                  <MenuItemComponent 
+                    onClick={() => handleStatusClick(selectedMember, 'Overdue')}
+                    disabled={selectedMember?.membership?.status === 'Overdue'}
+                  >
+                    <ErrorIcon sx={{ mr: 1 }} />
+                    Mark Overdue
+                  </MenuItemComponent>
               
-              <MenuItemComponent 
-                onClick={() => handleDeleteClick(selectedMember)}
-                sx={{ color: 'error.main' }}
-              >
-                <DeleteIcon sx={{ mr: 1 }} />
-                Deactivate
-              </MenuItemComponent>
+                  <Divider />
+              
+                  <MenuItemComponent 
+                    onClick={() => handleDeleteClick(selectedMember)}
+                    sx={{ color: 'error.main' }}
+                  >
+                    <DeleteIcon sx={{ mr: 1 }} />
+                    Deactivate
+                  </MenuItemComponent>
+                </>
+              )}
             </>
           )}
         </Menu>
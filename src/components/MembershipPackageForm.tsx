@@ -83,6 +83,7 @@ const MembershipPackageForm: React.FC<MembershipPackageFormProps> = ({
     renewalDiscountPercent: undefined,
     earlyTerminationFee: undefined,
     minimumCommitmentMonths: undefined,
+    familyDiscountPercent: undefined,
     status: 'Active',
     isPopular: false,
     displayOrder: 1,
@@ -119,6 +120,7 @@ const MembershipPackageForm: React.FC<MembershipPackageFormProps> = ({
           renewalDiscountPercent: editData.renewalDiscountPercent,
           earlyTerminationFee: editData.earlyTerminationFee,
           minimumCommitmentMonths: editData.minimumCommitmentMonths,
+          familyDiscountPercent: editData.familyDiscountPercent,
           status: editData.status,
           isPopular: editData.isPopular,
           displayOrder: editData.displayOrder,
@@ -144,6 +146,7 @@ const MembershipPackageForm: React.FC<MembershipPackageFormProps> = ({
           renewalDiscountPercent: undefined,
           earlyTerminationFee: undefined,
           minimumCommitmentMonths: undefined,
+          familyDiscountPercent: undefined,
           status: 'Active',
           isPopular: false,
           displayOrder: 1,
@@ -599,6 +602,21 @@ const MembershipPackageForm: React.FC<MembershipPackageFormProps> = ({
                 size="small"
                 sx={{ mt: 2 }}
               />
+
+              <TextField
+                label="Family Discount %"
+                type="number"
+                value={formData.familyDiscountPercent || ''}
+                onChange={(e) => handleInputChange('familyDiscountPercent', parseFloat(e.target.value) || undefined)}
+                InputProps={{
+                  inputProps: { min: 0, max: 100 },
+                  endAdornment: <InputAdornment position="end">%</InputAdornment>
+                }}
+                helperText="Off the price for each additional member of a household"
+                fullWidth
+                size="small"
+                sx={{ mt: 2 }}
+              />
             </Paper>
           </Box>
         );
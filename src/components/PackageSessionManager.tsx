@@ -35,6 +35,7 @@ import CancelIcon from '@mui/icons-material/Cancel';
 import EventIcon from '@mui/icons-material/Event';
 import ScheduleIcon from '@mui/icons-material/Schedule';
 import GroupIcon from '@mui/icons-material/Group';
+import PeopleIcon from '@mui/icons-material/People';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { DatePicker, TimePicker } from '@mui/x-date-pickers';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -48,6 +49,12 @@ import {
   createClass,
   ClassData 
 } from '../services/classService';
+import { promoteFromWaitlist } from '../services/enrollmentService';
+import { useRoleControl } from '../hooks/useRoleControl';
+import ClassRosterDialog from './ClassRosterDialog';
+import ScheduleConflictAlert from './ScheduleConflictAlert';
+import { checkScheduleConflicts } from '../services/availabilityService';
+import { ScheduleConflict } from '../utils/scheduleConflicts';
 
 interface PackageSessionManagerProps {
   open: boolean;
@@ -77,15 +84,24 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
   const [deleteLoading, setDeleteLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [rosterSession, setRosterSession] = useState<ClassRecord | null>(null);
   const [newSessionData, setNewSessionData] = useState({
     date: new Date(),
     startTime: '',
     endTime: '',
     capacity: 10,
   });
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    setConflicts([]);
+    setOverrideConflicts(false);
+  }, [newSessionData.date, newSessionData.startTime, newSessionData.endTime]);
 
   useEffect(() => {
     if (packageData && open) {
@@ -126,11 +142,29 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
       };
 
       await updateClass(editingSession.id, updateData);
+
+      // Extra capacity goes to the waitlist first
+      const original = sessions.find(session => session.id === editingSession.id);
+      let promotedCount = 0;
+      if (
+        userData &&
+        original?.waitlistCount &&
+        editingSession.capacity > original.capacity
+      ) {
+        const promoted = await promoteFromWaitlist(editingSession.id, userData.uid, userData.fullName);
+        promotedCount = promoted.length;
+      }
       
       // Update local sessions
       setSessions(prev => prev.map(session => 
         session.id === editingSession.id 
-          ? { ...session, ...updateData, date: { toDate: () => editingSession.date } as any }
+          ? {
+              ...session,
+              ...updateData,
+              date: { toDate: () => editingSession.date } as any,
+              currentEnrollment: session.currentEnrollment + promotedCount,
+              waitlistCount: Math.max(0, (session.waitlistCount || 0) - promotedCount),
+            }
           : session
       ));
 
@@ -176,6 +210,22 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
     setError(null);
 
     try {
+      if (!overrideConflicts) {
+        const found = await checkScheduleConflicts([{
+          title: packageData.title,
+          date: newSessionData.date,
+          startTime: newSessionData.startTime,
+          endTime: newSessionData.endTime,
+          location: packageData.location,
+          instructorId: packageData.instructorId,
+          instructorName: packageData.instructorName,
+        }]);
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
       const nextSessionNumber = Math.max(...sessions.map(s => s.sessionNumber || 0)) + 1;
       
       const classData: ClassData = {
@@ -191,6 +241,7 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
         instructorName: packageData.instructorName,
         price: 0,
         isActive: true,
+        sportCategory: packageData.sportCategory || '',
         // Package relation fields
         isPackage: true,
         packageId: packageData.id,
@@ -208,6 +259,8 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
       ));
 
       setShowAddForm(false);
+      setConflicts([]);
+      setOverrideConflicts(false);
       setNewSessionData({
         date: addDays(newSessionData.date, 7), // Next week by default
         startTime: packageData.startTime,
@@ -249,6 +302,16 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
     }
   };
 
+  const handleRosterClose = (changed: boolean, counts?: { currentEnrollment: number; waitlistCount: number }) => {
+    if (changed && rosterSession && counts) {
+      setSessions(prev => prev.map(session =>
+        session.id === rosterSession.id ? { ...session, ...counts } : session
+      ));
+      onUpdate();
+    }
+    setRosterSession(null);
+  };
+
   if (!packageData) return null;
 
   return (
@@ -394,12 +457,19 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
                   InputProps={{ inputProps: { min: 1 } }}
                 />
               </Box>
+
+              <ScheduleConflictAlert
+                conflicts={conflicts}
+                override={overrideConflicts}
+                onOverrideChange={setOverrideConflicts}
+                disabled={loading}
+              />
               
               <Button
                 variant="contained"
                 startIcon={<AddIcon />}
                 onClick={handleAddSession}
-                disabled={loading || !newSessionData.startTime || !newSessionData.endTime}
+                disabled={loading || !newSessionData.startTime || !newSessionData.endTime || (conflicts.length > 0 && !overrideConflicts)}
                 size="small"
               >
                 {loading ? 'Adding...' : 'Add Session'}
@@ -562,6 +632,14 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
                                       {session.currentEnrollment}/{session.capacity}
                                     </Typography>
                                   </Box>
+                                  {!!session.waitlistCount && (
+                                    <Chip
+                                      label={`${session.waitlistCount} waiting`}
+                                      size="small"
+                                      color="warning"
+                                      variant="outlined"
+                                    />
+                                  )}
                                 </Box>
                               </Box>
                               
@@ -572,6 +650,13 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
                                   size="small"
                                   variant="outlined"
                                 />
+                                <IconButton
+                                  onClick={() => setRosterSession(session)}
+                                  size="small"
+                                  title="Roster & waitlist"
+                                >
+                                  <PeopleIcon />
+                                </IconButton>
                                 <IconButton
                                   onClick={() => handleEditSession(session)}
                                   size="small"
@@ -609,6 +694,13 @@ const PackageSessionManager: React.FC<PackageSessionManagerProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      <ClassRosterDialog
+        open={!!rosterSession}
+        classRecord={rosterSession}
+        canManage
+        onClose={handleRosterClose}
+      />
     </LocalizationProvider>
   );
 };
@@ -0,0 +1,127 @@
+// src/components/PayRateDialog.tsx - Set how one staff member is paid
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  TextField,
+  MenuItem,
+  InputAdornment,
+  Typography,
+} from '@mui/material';
+import { PayRule, PayRuleType } from '../types/payroll';
+import { updatePayRate } from '../services/payrollService';
+import { PAY_RULE_LABELS } from '../utils/payroll';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface PayRateDialogProps {
+  open: boolean;
+  staffId: string;
+  staffName: string;
+  rule: PayRule | null;
+  onClose: (updated?: PayRule | null) => void;
+}
+
+const PayRateDialog: React.FC<PayRateDialogProps> = ({ open, staffId, staffName, rule, onClose }) => {
+  const [type, setType] = useState<PayRuleType>('flat');
+  const [amount, setAmount] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setType(rule?.type || 'flat');
+    setAmount(rule ? String(rule.amount) : '');
+  }, [open, rule]);
+
+  const save = async (updated: PayRule | null) => {
+    if (!userData) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await updatePayRate(staffId, updated, userData.uid);
+      onClose(updated);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (isNaN(value)) {
+      setError('Enter an amount');
+      return;
+    }
+    save({ type, amount: value });
+  };
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} fullWidth maxWidth="xs">
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          Pay Rate: {staffName}
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField
+            select
+            label="Pay Rule"
+            value={type}
+            onChange={(e) => setType(e.target.value as PayRuleType)}
+            disabled={saving}
+            fullWidth
+          >
+            {(Object.keys(PAY_RULE_LABELS) as PayRuleType[]).map(option => (
+              <MenuItem key={option} value={option}>{PAY_RULE_LABELS[option]}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label={type === 'percentage' ? 'Percentage' : 'Amount'}
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={saving}
+            fullWidth
+            InputProps={type === 'percentage'
+              ? { endAdornment: <InputAdornment position="end">%</InputAdornment>, inputProps: { min: 0, max: 100 } }
+              : { startAdornment: <InputAdornment position="start">$</InputAdornment>, inputProps: { min: 0, step: 0.01 } }}
+            helperText={type === 'percentage'
+              ? 'Of drop-in price per attendee, or the package price split across its sessions'
+              : type === 'hourly'
+                ? 'Per hour clocked in; classes taught pay nothing extra'
+                : undefined}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Button color="error" onClick={() => save(null)} disabled={saving || !rule}>
+          Clear Rate
+        </Button>
+        <Box>
+          <Button onClick={() => onClose()} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PayRateDialog;
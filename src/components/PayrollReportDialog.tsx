@@ -0,0 +1,167 @@
+// src/components/PayrollReportDialog.tsx - Amounts due per staff member for a pay period, with CSV export
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { DatePicker } from '@mui/x-date-pickers';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { PayrollReport } from '../types/payroll';
+import { getPayrollReport } from '../services/payrollService';
+import { formatPayRule, payrollReportToCsv } from '../utils/payroll';
+import { downloadCsv } from '../utils/csvUtils';
+
+interface PayrollReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const PayrollReportDialog: React.FC<PayrollReportDialogProps> = ({ open, onClose }) => {
+  const [periodStart, setPeriodStart] = useState<Date>(startOfMonth(new Date()));
+  const [periodEnd, setPeriodEnd] = useState<Date>(endOfMonth(new Date()));
+  const [report, setReport] = useState<PayrollReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  useEffect(() => {
+    if (!open) return;
+    if (periodEnd < periodStart) {
+      setError('The period must end after it starts');
+      setReport(null);
+      return;
+    }
+
+    setError(null);
+    setLoading(true);
+    getPayrollReport(periodStart, periodEnd)
+      .then(setReport)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [open, periodStart, periodEnd]);
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(
+      `payroll_${format(report.periodStart, 'yyyy-MM-dd')}_${format(report.periodEnd, 'yyyy-MM-dd')}.csv`,
+      payrollReportToCsv(report)
+    );
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog open={open} onClose={onClose} fullWidth maxWidth="md" fullScreen={isMobile}>
+        <DialogTitle>
+          <Typography variant="h6" component="div" fontWeight={600}>
+            Payroll
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Sessions taught in the period, credited to whoever taught them, plus hours on the time clock. No-shows don't count as attendees.
+          </Typography>
+        </DialogTitle>
+        <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 1, flexWrap: 'wrap' }}>
+            <DatePicker
+              label="From"
+              value={periodStart}
+              onChange={(newValue) => newValue && setPeriodStart(newValue)}
+              slotProps={{ textField: { size: 'small' } }}
+            />
+            <DatePicker
+              label="To"
+              value={periodEnd}
+              onChange={(newValue) => newValue && setPeriodEnd(newValue)}
+              slotProps={{ textField: { size: 'small' } }}
+            />
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : report && report.lines.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+              No sessions were taught and no hours were clocked in this period.
+            </Typography>
+          ) : report && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Staff Member</TableCell>
+                    {!isMobile && <TableCell sx={{ fontWeight: 600 }}>Pay Rule</TableCell>}
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>Sessions</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>Attendees</TableCell>
+                    {!isMobile && <TableCell align="right" sx={{ fontWeight: 600 }}>Revenue</TableCell>}
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>Hours</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>Amount Due</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.lines.map(line => (
+                    <TableRow key={line.instructorId} hover>
+                      <TableCell>{line.instructorName}</TableCell>
+                      {!isMobile && (
+                        <TableCell sx={{ color: line.rule ? 'text.primary' : 'warning.main' }}>
+                          {formatPayRule(line.rule)}
+                        </TableCell>
+                      )}
+                      <TableCell align="right">{line.sessions}</TableCell>
+                      <TableCell align="right">{line.attendees}</TableCell>
+                      {!isMobile && <TableCell align="right">${line.revenue.toFixed(2)}</TableCell>}
+                      <TableCell align="right">{line.hours.toFixed(2)}</TableCell>
+                      <TableCell align="right">${line.amountDue.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={isMobile ? 4 : 6} sx={{ fontWeight: 600 }}>Total</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>${report.totalDue.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Close</Button>
+          <Button
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={!report || report.lines.length === 0}
+          >
+            Export CSV
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default PayrollReportDialog;
@@ -1,11 +1,13 @@
 // src/components/ProtectedComponent.tsx
 import React from 'react';
 import { useRoleControl, UserRole } from '../hooks/useRoleControl';
+import { Permission } from '../types/permissions';
 
 interface ProtectedComponentProps {
   children: React.ReactNode;
   allowedRoles?: UserRole[];
   requiredRole?: UserRole; // Tek role için kolaylık
+  permission?: Permission; // Named permission; takes precedence over roles
   fallbackComponent?: React.ReactNode;
   showFallback?: boolean;
 }
@@ -14,15 +16,23 @@ const ProtectedComponent: React.FC<ProtectedComponentProps> = ({
   children, 
   allowedRoles, 
   requiredRole,
+  permission,
   fallbackComponent = null,
   showFallback = false
 }) => {
-  const { userData, loading } = useRoleControl();
+  const { userData, loading, hasPermission } = useRoleControl();
 
   if (loading) {
     return null;
   }
 
+  if (permission) {
+    if (!hasPermission(permission)) {
+      return showFallback ? <>{fallbackComponent}</> : null;
+    }
+    return <>{children}</>;
+  }
+
   // allowedRoles veya requiredRole'den birini kullan
   const rolesToCheck = allowedRoles || (requiredRole ? [requiredRole] : []);
 
@@ -0,0 +1,169 @@
+// src/components/RolePermissionsDialog.tsx - Edit which permissions each staff role gets
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  Checkbox,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Permission, RolePermissionMap } from '../types/permissions';
+import { StaffRole } from '../types/staff';
+import { getRolePermissions, updateRolePermissions } from '../services/permissionService';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from '../utils/permissions';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface RolePermissionsDialogProps {
+  open: boolean;
+  onClose: (changed: boolean) => void;
+}
+
+const ROLE_COLUMNS: { role: StaffRole; label: string }[] = [
+  { role: 'admin', label: 'Admin' },
+  { role: 'trainer', label: 'Trainer' },
+  { role: 'staff', label: 'Staff' },
+];
+
+const RolePermissionsDialog: React.FC<RolePermissionsDialogProps> = ({ open, onClose }) => {
+  const [roleMap, setRoleMap] = useState<RolePermissionMap>(DEFAULT_ROLE_PERMISSIONS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setLoading(true);
+    getRolePermissions()
+      .then(setRoleMap)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const togglePermission = (role: StaffRole, permission: Permission) => {
+    setRoleMap(prev => ({
+      ...prev,
+      [role]: prev[role].includes(permission)
+        ? prev[role].filter(p => p !== permission)
+        : [...prev[role], permission],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!userData) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await updateRolePermissions({ trainer: roleMap.trainer, staff: roleMap.staff }, userData.uid);
+      onClose(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !saving && onClose(false)}
+      fullWidth
+      maxWidth="md"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          Role Permissions
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Admins always have every permission. Changes take effect the next time staff sign in.
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ px: { xs: 1, sm: 3 } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Permission</TableCell>
+                {ROLE_COLUMNS.map(column => (
+                  <TableCell key={column.role} align="center" sx={{ fontWeight: 600 }}>
+                    {column.label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {PERMISSIONS.map(permission => (
+                <TableRow key={permission.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>
+                      {permission.label}
+                    </Typography>
+                    {!isMobile && (
+                      <Typography variant="caption" color="text.secondary">
+                        {permission.description}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  {ROLE_COLUMNS.map(column => (
+                    <TableCell key={column.role} align="center" padding="checkbox">
+                      <Checkbox
+                        checked={roleMap[column.role].includes(permission.id)}
+                        onChange={() => togglePermission(column.role, permission.id)}
+                        disabled={column.role === 'admin' || saving}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Button
+          onClick={() => setRoleMap(DEFAULT_ROLE_PERMISSIONS)}
+          disabled={loading || saving}
+        >
+          Restore Defaults
+        </Button>
+        <Box>
+          <Button onClick={() => onClose(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RolePermissionsDialog;
@@ -0,0 +1,68 @@
+// src/components/ScheduleConflictAlert.tsx - Lists schedule clashes with an explicit "schedule anyway" override
+import React from 'react';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Checkbox,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { ScheduleConflict } from '../utils/scheduleConflicts';
+
+interface ScheduleConflictAlertProps {
+  conflicts: ScheduleConflict[];
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+  disabled?: boolean;
+}
+
+const MAX_LISTED = 8;
+
+const ScheduleConflictAlert: React.FC<ScheduleConflictAlertProps> = ({
+  conflicts,
+  override,
+  onOverrideChange,
+  disabled = false,
+}) => {
+  if (conflicts.length === 0) return null;
+
+  const sessionCount = new Set(conflicts.map(c => c.slot.date.getTime())).size;
+
+  return (
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      <AlertTitle>
+        {sessionCount === 1 ? 'This session clashes' : `${sessionCount} sessions clash`} with the schedule
+      </AlertTitle>
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {conflicts.slice(0, MAX_LISTED).map((conflict, index) => (
+          <li key={index}>
+            <Typography variant="body2">
+              <strong>{format(conflict.slot.date, 'EEE, MMM d')}</strong>: {conflict.message}
+            </Typography>
+          </li>
+        ))}
+      </Box>
+      {conflicts.length > MAX_LISTED && (
+        <Typography variant="body2" sx={{ mt: 0.5 }}>
+          and {conflicts.length - MAX_LISTED} more
+        </Typography>
+      )}
+      <FormControlLabel
+        sx={{ mt: 1 }}
+        control={
+          <Checkbox
+            size="small"
+            checked={override}
+            onChange={(e) => onOverrideChange(e.target.checked)}
+            disabled={disabled}
+          />
+        }
+        label="Schedule anyway"
+      />
+    </Alert>
+  );
+};
+
+export default ScheduleConflictAlert;
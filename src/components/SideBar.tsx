@@ -22,6 +22,10 @@ import ListItemButton from '@mui/material/ListItemButton';
 import { Button } from '@mui/material';
 import SportsMartialArtsIcon from '@mui/icons-material/SportsMartialArts';
 import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
+import HowToRegIcon from '@mui/icons-material/HowToReg';
+import MoneyOffIcon from '@mui/icons-material/MoneyOff';
+import ContactPhoneIcon from '@mui/icons-material/ContactPhone';
+import HistoryIcon from '@mui/icons-material/History';
 import { useRoleControl } from '../hooks/useRoleControl';
 
 const drawerWidth = 240;
@@ -36,37 +40,27 @@ const Sidebar: React.FC<SidebarProps> = ({ mobileOpen, handleDrawerToggle }) =>
     const location = useLocation();
     const theme = useTheme();
     const isMobile = useMediaQuery(theme.breakpoints.down('md'));
-    const { isAdmin, isTrainer, isStaff, userData } = useRoleControl();
+    const { userData, hasPermission } = useRoleControl();
 
     const getMenuItems = () => {
         if (!userData) return [];
 
-        const items = [];
-
-        // Sadece admin için dashboard
-        if (isAdmin) {
-            items.push({ text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' });
-        }
-
-        // Herkes için classes
-        items.push({ text: 'Classes', icon: <FitnessCenterIcon />, path: '/classes' });
-
-        // Trainer/Staff için özel schedule
-        if (isTrainer || isStaff) {
-            items.push({ text: 'My Schedule', icon: <CalendarMonthIcon />, path: '/my-schedule' });
-        }
-
-        // Sadece admin için
-        if (isAdmin) {
-            items.push(
-                { text: 'Members', icon: <GroupIcon />, path: '/members' },
-                { text: 'Memberships', icon: <CardMembershipIcon />, path: '/memberships' },
-                { text: 'Discounts', icon: <DiscountIcon />, path: '/discounts' },
-                { text: 'Staff', icon: <SportsMartialArtsIcon />, path: '/staff' }
-            );
-        }
-
-        return items;
+        // Same permissions AppRoutes checks for each page
+        const items = [
+            { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard', permission: 'dashboard.view' },
+            { text: 'Classes', icon: <FitnessCenterIcon />, path: '/classes', permission: 'classes.view' },
+            { text: 'My Schedule', icon: <CalendarMonthIcon />, path: '/my-schedule', permission: 'schedule.view' },
+            { text: 'Check-In', icon: <HowToRegIcon />, path: '/check-in', permission: 'checkins.manage' },
+            { text: 'Members', icon: <GroupIcon />, path: '/members', permission: 'members.view' },
+            { text: 'Dunning', icon: <MoneyOffIcon />, path: '/dunning', permission: 'billing.manage' },
+            { text: 'Leads', icon: <ContactPhoneIcon />, path: '/leads', permission: 'leads.manage' },
+            { text: 'Memberships', icon: <CardMembershipIcon />, path: '/memberships', permission: 'packages.manage' },
+            { text: 'Discounts', icon: <DiscountIcon />, path: '/discounts', permission: 'discounts.manage' },
+            { text: 'Staff', icon: <SportsMartialArtsIcon />, path: '/staff', permission: 'staff.manage' },
+            { text: 'Audit Log', icon: <HistoryIcon />, path: '/audit-log', permission: 'audit.view' },
+        ] as const;
+
+        return items.filter(item => hasPermission(item.permission));
     };
 
     const menuItems = getMenuItems();
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -13,31 +13,45 @@ import {
   useMediaQuery,
   useTheme,
   IconButton,
-  InputAdornment,
   LinearProgress,
+  Avatar,
+  Chip,
+  Typography,
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
-import VisibilityIcon from '@mui/icons-material/Visibility';
-import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import { createStaffSecure, StaffData } from '../services/staffService';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import EmailIcon from '@mui/icons-material/Email';
+import { updateStaff, StaffData, StaffRecord } from '../services/staffService';
+import { createStaffInvite, getInviteLink, getInviteMailto, StaffInvite } from '../services/staffInviteService';
+import { SPORT_CATEGORIES } from '../services/membershipPackageService';
 import { useAuth } from '../contexts/AuthContext';
+import { useRoleControl } from '../hooks/useRoleControl';
 
 interface StaffFormProps {
   open: boolean;
   onClose: () => void;
+  editData?: Pick<StaffRecord, 'id' | 'fullName' | 'email' | 'role' | 'phone' | 'bio' | 'photoUrl' | 'sports'> | null;
 }
 
 const roles = ['staff', 'trainer', 'admin'];
 
-const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
-  const [formData, setFormData] = useState<StaffData>({
-    fullName: '',
-    email: '',
-    password: '',
-    role: 'staff',
-  });
-  const [showPassword, setShowPassword] = useState(false);
+const EMPTY_FORM: StaffData = {
+  fullName: '',
+  email: '',
+  role: 'staff',
+  phone: '',
+  bio: '',
+  sports: [],
+};
+
+const StaffForm: React.FC<StaffFormProps> = ({ open, onClose, editData }) => {
+  const [formData, setFormData] = useState<StaffData>(EMPTY_FORM);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string>('');
+  const [invite, setInvite] = useState<StaffInvite | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -45,7 +59,44 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { protectSession, unprotectSession } = useAuth();
+  const { user } = useAuth();
+  const { userData } = useRoleControl();
+  const isEdit = !!editData;
+
+  useEffect(() => {
+    if (open && editData) {
+      setFormData({
+        fullName: editData.fullName,
+        email: editData.email,
+        role: editData.role,
+        phone: editData.phone || '',
+        bio: editData.bio || '',
+        sports: editData.sports || [],
+        photoUrl: editData.photoUrl || '',
+      });
+      setPhotoPreview(editData.photoUrl || '');
+    }
+  }, [open, editData]);
+
+  const handlePhotoChange = (file?: File) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file');
+      return;
+    }
+    setPhotoFile(file);
+    setPhotoPreview(URL.createObjectURL(file));
+  };
+
+  const toggleSport = (sportId: string) => {
+    setFormData(prev => {
+      const sports = prev.sports || [];
+      return {
+        ...prev,
+        sports: sports.includes(sportId) ? sports.filter(s => s !== sportId) : [...sports, sportId],
+      };
+    });
+  };
 
   const handleInputChange = (field: keyof StaffData, value: string) => {
     setFormData(prev => ({
@@ -69,84 +120,98 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
       setError('Please enter a valid email address');
       return false;
     }
-    if (!formData.password || formData.password.length < 6) {
-      setError('Password must be at least 6 characters');
-      return false;
-    }
     return true;
   };
 
-  const handleSubmit = async () => {
+  const handleUpdate = async () => {
+    if (!editData) return;
     try {
       if (!validateForm()) return;
 
       setLoading(true);
       setError(null);
-      setStep('creating');
-      
-      console.log('Starting staff creation process...');
-      
-      // Session korumasını aktive et
-      protectSession();
-      
-      // Staff oluştur
-      const result = await createStaffSecure(formData);
-      
-      console.log('Staff created successfully:', result);
+
+      const result = await updateStaff(editData.id, formData, user?.uid || '', photoFile || undefined);
+
       setStep('success');
-      setSuccess(`${formData.fullName} has been created successfully!`);
-      
-      // Form'u temizle
-      setFormData({
-        fullName: '',
-        email: '',
-        password: '',
-        role: 'staff',
-      });
-      
-      // 2 saniye sonra kapat
+      setSuccess(
+        result.classesUpdated > 0
+          ? `${result.staff.fullName} has been updated. Instructor name changed on ${result.classesUpdated} classes.`
+          : `${result.staff.fullName} has been updated.`
+      );
+
       setTimeout(() => {
-        handleClose();
+        handleClose(true);
       }, 2000);
-      
     } catch (err: any) {
-      console.error('Error creating staff:', err);
-      setError(err.message || 'An error occurred while creating staff member');
+      console.error('Error updating staff:', err);
+      setError(err.message || 'An error occurred while updating staff member');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (isEdit) {
+      await handleUpdate();
+      return;
+    }
+    try {
+      if (!validateForm()) return;
+
+      setLoading(true);
+      setError(null);
+      setStep('creating');
+
+      // The new staff member sets their own password from the invite link
+      const created = await createStaffInvite(formData, user?.uid || '', userData?.fullName || '');
+
+      setInvite(created);
+      setStep('success');
+      setSuccess(`Invite created for ${created.fullName}. Send them this link to set their password:`);
+      setFormData(EMPTY_FORM);
+    } catch (err: any) {
+      console.error('Error creating staff invite:', err);
+      setError(err.message || 'An error occurred while creating the invite');
       setStep('form');
     } finally {
       setLoading(false);
-      // Session protection'ı kapat
-      unprotectSession();
     }
   };
 
-  const handleClose = () => {
-    if (loading) return; // Yükleme sırasında kapatmaya izin verme
+  const handleCopyLink = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.id));
+      setLinkCopied(true);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const handleClose = (force = false) => {
+    if (loading && !force) return; // Yükleme sırasında kapatmaya izin verme
     
-    setFormData({
-      fullName: '',
-      email: '',
-      password: '',
-      role: 'staff',
-    });
+    setFormData(EMPTY_FORM);
+    setPhotoFile(null);
+    setPhotoPreview('');
     setError(null);
     setSuccess(null);
     setStep('form');
-    setShowPassword(false);
+    setInvite(null);
+    setLinkCopied(false);
     onClose();
   };
 
   // Form validation
   const isFormValid = formData.fullName.trim() && 
                      formData.email.trim() && 
-                     /\S+@\S+\.\S+/.test(formData.email) &&
-                     formData.password && 
-                     formData.password.length >= 6;
+                     /\S+@\S+\.\S+/.test(formData.email);
 
   return (
     <Dialog 
       open={open} 
-      onClose={handleClose}
+      onClose={() => handleClose()}
       fullWidth 
       maxWidth="sm"
       fullScreen={isMobile}
@@ -178,9 +243,11 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
         pb: 1,
         fontSize: { xs: '1.1rem', sm: '1.25rem' }
       }}>
-        {step === 'success' ? 'Staff Member Created!' : 'Add New Staff Member'}
+        {step === 'success'
+          ? (isEdit ? 'Staff Member Updated!' : 'Invite Created!')
+          : (isEdit ? 'Edit Staff Member' : 'Invite New Staff Member')}
         {isMobile && !loading && (
-          <IconButton onClick={handleClose} size="small">
+          <IconButton onClick={() => handleClose()} size="small">
             <CloseIcon />
           </IconButton>
         )}
@@ -200,9 +267,33 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
             <Alert severity="success" sx={{ mb: 2 }}>
               {success}
             </Alert>
-            <Box sx={{ fontSize: '0.875rem', color: 'text.secondary' }}>
-              This window will close automatically...
-            </Box>
+            {invite ? (
+              <>
+                <TextField
+                  value={getInviteLink(invite.id)}
+                  fullWidth
+                  size="small"
+                  InputProps={{ readOnly: true }}
+                  helperText="The link works once and expires in 7 days"
+                  sx={{ mb: 2 }}
+                />
+                <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', flexWrap: 'wrap' }}>
+                  <Button variant="outlined" startIcon={<ContentCopyIcon />} onClick={handleCopyLink}>
+                    {linkCopied ? 'Copied' : 'Copy Link'}
+                  </Button>
+                  <Button variant="outlined" startIcon={<EmailIcon />} href={getInviteMailto(invite)}>
+                    Email Invite
+                  </Button>
+                  <Button variant="contained" onClick={() => handleClose(true)}>
+                    Done
+                  </Button>
+                </Box>
+              </>
+            ) : (
+              <Box sx={{ fontSize: '0.875rem', color: 'text.secondary' }}>
+                This window will close automatically...
+              </Box>
+            )}
           </Box>
         )}
 
@@ -218,14 +309,8 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
           }}>
             <CircularProgress size={50} sx={{ mb: 2 }} />
             <Box sx={{ fontWeight: 600, mb: 1, fontSize: '1.1rem' }}>
-              Creating Staff Member...
-            </Box>
-            <Box sx={{ fontSize: '0.875rem', color: 'text.secondary', mb: 2 }}>
-              Please wait, preserving your session...
+              Creating Invite...
             </Box>
-            <Alert severity="info" sx={{ mt: 1 }}>
-              This process may take a few seconds. Please don't close this page.
-            </Alert>
           </Box>
         )}
 
@@ -244,6 +329,29 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
               flexDirection: 'column', 
               gap: { xs: 2, sm: 2.5 }
             }}>
+              {isEdit && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <Avatar src={photoPreview || undefined} sx={{ width: 64, height: 64 }}>
+                    {formData.fullName.charAt(0).toUpperCase()}
+                  </Avatar>
+                  <Button
+                    component="label"
+                    variant="outlined"
+                    size="small"
+                    startIcon={<PhotoCameraIcon />}
+                    disabled={loading}
+                  >
+                    {photoPreview ? 'Change Photo' : 'Upload Photo'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      hidden
+                      onChange={(e) => handlePhotoChange(e.target.files?.[0])}
+                    />
+                  </Button>
+                </Box>
+              )}
+
               <TextField
                 label="Full Name"
                 fullWidth
@@ -276,45 +384,10 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
                 helperText={
                   formData.email !== '' && !/\S+@\S+\.\S+/.test(formData.email) 
                     ? 'Please enter a valid email address' 
-                    : ''
-                }
-                sx={{
-                  '& .MuiInputLabel-root': {
-                    fontSize: { xs: '0.875rem', sm: '1rem' }
-                  }
-                }}
-              />
-              
-              <TextField
-                label="Password"
-                type={showPassword ? 'text' : 'password'}
-                fullWidth
-                required
-                value={formData.password}
-                onChange={(e) => handleInputChange('password', e.target.value)}
-                disabled={loading}
-                variant="outlined"
-                size={isMobile ? "small" : "medium"}
-                error={formData.password !== '' && formData.password.length < 6}
-                helperText={
-                  formData.password !== '' && formData.password.length < 6 
-                    ? 'Password must be at least 6 characters' 
-                    : 'Choose a secure password'
+                    : isEdit
+                      ? 'Contact email on the staff record. The sign-in email is not changed.'
+                      : 'The invite is for this address; it becomes their sign-in email'
                 }
-                InputProps={{
-                  endAdornment: (
-                    <InputAdornment position="end">
-                      <IconButton
-                        onClick={() => setShowPassword(!showPassword)}
-                        edge="end"
-                        size="small"
-                        disabled={loading}
-                      >
-                        {showPassword ? <VisibilityOffIcon /> : <VisibilityIcon />}
-                      </IconButton>
-                    </InputAdornment>
-                  ),
-                }}
                 sx={{
                   '& .MuiInputLabel-root': {
                     fontSize: { xs: '0.875rem', sm: '1rem' }
@@ -347,6 +420,50 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
                   </MenuItem>
                 ))}
               </TextField>
+
+              <TextField
+                label="Phone"
+                fullWidth
+                value={formData.phone || ''}
+                onChange={(e) => handleInputChange('phone', e.target.value)}
+                disabled={loading}
+                variant="outlined"
+                size={isMobile ? "small" : "medium"}
+              />
+
+              <Box>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Sports Taught
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {SPORT_CATEGORIES.filter(category => category.id !== 'all').map(category => {
+                    const selected = (formData.sports || []).includes(category.id);
+                    return (
+                      <Chip
+                        key={category.id}
+                        label={`${category.icon} ${category.name}`}
+                        color={selected ? 'primary' : 'default'}
+                        variant={selected ? 'filled' : 'outlined'}
+                        onClick={() => toggleSport(category.id)}
+                        disabled={loading}
+                      />
+                    );
+                  })}
+                </Box>
+              </Box>
+
+              <TextField
+                label="Bio"
+                fullWidth
+                multiline
+                rows={3}
+                value={formData.bio || ''}
+                onChange={(e) => handleInputChange('bio', e.target.value)}
+                disabled={loading}
+                variant="outlined"
+                size={isMobile ? "small" : "medium"}
+                helperText="Shown to members alongside the classes they teach"
+              />
             </Box>
           </>
         )}
@@ -365,7 +482,7 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
           }
         }}>
           <Button 
-            onClick={handleClose} 
+            onClick={() => handleClose()} 
             disabled={loading}
             variant="outlined"
             size={isMobile ? "medium" : "medium"}
@@ -379,7 +496,9 @@ const StaffForm: React.FC<StaffFormProps> = ({ open, onClose }) => {
             size={isMobile ? "medium" : "medium"}
             startIcon={loading ? <CircularProgress size={20} /> : null}
           >
-            {loading ? 'Creating...' : 'Create Staff'}
+            {isEdit
+              ? (loading ? 'Saving...' : 'Save Changes')
+              : (loading ? 'Creating...' : 'Create Invite')}
           </Button>
         </DialogActions>
       )}
@@ -0,0 +1,166 @@
+// src/components/StaffInvitesPanel.tsx - Pending staff invites with copy, resend and revoke actions
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import EmailIcon from '@mui/icons-material/Email';
+import MailOutlineIcon from '@mui/icons-material/MailOutline';
+import { format } from 'date-fns';
+import {
+  StaffInvite,
+  getPendingStaffInvites,
+  resendStaffInvite,
+  revokeStaffInvite,
+  getInviteLink,
+  getInviteMailto,
+  isInviteExpired,
+} from '../services/staffInviteService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+const StaffInvitesPanel: React.FC = () => {
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const { userData } = useRoleControl();
+
+  const fetchInvites = () => {
+    getPendingStaffInvites()
+      .then(setInvites)
+      .catch(err => setError(err.message));
+  };
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  if (!userData || (invites.length === 0 && !error)) return null;
+
+  const copyLink = async (invite: StaffInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.id));
+      setSuccess(`Invite link for ${invite.fullName} copied`);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+      setError('Could not copy the link. Copy it from the browser instead.');
+    }
+  };
+
+  const handleResend = async (invite: StaffInvite) => {
+    try {
+      setBusyId(invite.id);
+      setError(null);
+      setSuccess(null);
+      const resent = await resendStaffInvite(invite.id, userData.uid, userData.fullName);
+      setInvites(prev => prev.map(item => (item.id === invite.id ? resent : item)));
+      await copyLink(resent);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invite: StaffInvite) => {
+    try {
+      setBusyId(invite.id);
+      setError(null);
+      setSuccess(null);
+      await revokeStaffInvite(invite.id, userData.uid);
+      setInvites(prev => prev.filter(item => item.id !== invite.id));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="h6" sx={{ mb: 1.5, fontWeight: 600 }}>
+        Pending Invites
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {invites.map(invite => {
+          const busy = busyId === invite.id;
+          const expired = isInviteExpired(invite);
+          return (
+            <Paper key={invite.id} sx={{ p: 2 }}>
+              <Box sx={{
+                display: 'flex',
+                flexDirection: { xs: 'column', sm: 'row' },
+                justifyContent: 'space-between',
+                alignItems: { xs: 'flex-start', sm: 'center' },
+                gap: 1.5
+              }}>
+                <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5 }}>
+                  <MailOutlineIcon color={expired ? 'disabled' : 'primary'} sx={{ mt: 0.5 }} />
+                  <Box>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Typography variant="subtitle1" fontWeight={600}>
+                        {invite.fullName}
+                      </Typography>
+                      <Chip label={invite.role} size="small" variant="outlined" />
+                      {expired && <Chip label="Expired" size="small" color="warning" />}
+                    </Box>
+                    <Typography variant="body2" color="text.secondary">
+                      {invite.email}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Invited by {invite.createdByName || 'an administrator'} on {format(invite.createdAt.toDate(), 'MMM d')}
+                      {!expired && ` • expires ${format(invite.expiresAt.toDate(), 'MMM d')}`}
+                    </Typography>
+                  </Box>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                  {!expired && (
+                    <>
+                      <Tooltip title="Copy link">
+                        <IconButton size="small" onClick={() => copyLink(invite)} disabled={busy}>
+                          <ContentCopyIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Email link">
+                        <IconButton size="small" href={getInviteMailto(invite)} disabled={busy}>
+                          <EmailIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                  <Button size="small" variant="outlined" onClick={() => handleResend(invite)} disabled={busy}>
+                    Resend
+                  </Button>
+                  <Button size="small" color="error" onClick={() => handleRevoke(invite)} disabled={busy}>
+                    Revoke
+                  </Button>
+                </Box>
+              </Box>
+            </Paper>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default StaffInvitesPanel;
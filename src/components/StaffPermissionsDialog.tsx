@@ -0,0 +1,161 @@
+// src/components/StaffPermissionsDialog.tsx - Per-staff permission overrides on top of their role
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  Checkbox,
+  Chip,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Permission, PermissionOverrides, RolePermissionMap } from '../types/permissions';
+import { StaffRecord } from '../services/staffService';
+import { updateStaffPermissionOverrides } from '../services/permissionService';
+import { PERMISSIONS, resolvePermissions } from '../utils/permissions';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface StaffPermissionsDialogProps {
+  open: boolean;
+  staff: Pick<StaffRecord, 'id' | 'fullName' | 'role' | 'permissionOverrides'> | null;
+  roleMap: RolePermissionMap;
+  onClose: (updated?: PermissionOverrides) => void;
+}
+
+const PERMISSION_GROUPS = Array.from(new Set(PERMISSIONS.map(p => p.group)));
+
+const StaffPermissionsDialog: React.FC<StaffPermissionsDialogProps> = ({ open, staff, roleMap, onClose }) => {
+  const [selected, setSelected] = useState<Permission[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open || !staff) return;
+    setError(null);
+    setSelected(resolvePermissions(staff.role, roleMap, staff.permissionOverrides));
+  }, [open, staff, roleMap]);
+
+  if (!staff) return null;
+
+  const roleDefaults = roleMap[staff.role] || [];
+
+  const togglePermission = (permission: Permission) => {
+    setSelected(prev =>
+      prev.includes(permission) ? prev.filter(p => p !== permission) : [...prev, permission]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!userData) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const overrides = await updateStaffPermissionOverrides(
+        staff.id,
+        {
+          granted: selected.filter(p => !roleDefaults.includes(p)),
+          revoked: roleDefaults.filter(p => !selected.includes(p)),
+        },
+        userData.uid
+      );
+      onClose(overrides);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !saving && onClose()}
+      fullWidth
+      maxWidth="sm"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          Permissions: {staff.fullName}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Starts from the {staff.role} role. Changes here apply to this person only.
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <List dense disablePadding>
+          {PERMISSION_GROUPS.map(group => (
+            <Box key={group}>
+              <ListSubheader disableSticky sx={{ px: 0 }}>{group}</ListSubheader>
+              {PERMISSIONS.filter(p => p.group === group).map(permission => {
+                const checked = selected.includes(permission.id);
+                const isDefault = roleDefaults.includes(permission.id);
+                return (
+                  <ListItem
+                    key={permission.id}
+                    disableGutters
+                    secondaryAction={
+                      checked !== isDefault ? (
+                        <Chip
+                          label={checked ? 'Granted' : 'Revoked'}
+                          color={checked ? 'success' : 'warning'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      ) : undefined
+                    }
+                  >
+                    <ListItemIcon sx={{ minWidth: 40 }}>
+                      <Checkbox
+                        edge="start"
+                        checked={checked}
+                        onChange={() => togglePermission(permission.id)}
+                        disabled={saving}
+                      />
+                    </ListItemIcon>
+                    <ListItemText primary={permission.label} secondary={permission.description} />
+                  </ListItem>
+                );
+              })}
+            </Box>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Button onClick={() => setSelected(roleDefaults)} disabled={saving}>
+          Reset to Role
+        </Button>
+        <Box>
+          <Button onClick={() => onClose()} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StaffPermissionsDialog;
@@ -0,0 +1,246 @@
+// src/components/StaffRemovalDialog.tsx - Deactivate or delete staff after handing off their upcoming classes
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  ListSubheader,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  TextField,
+  MenuItem,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  StaffAssignments,
+  StaffRecord,
+  getStaffAssignments,
+  reassignStaffAssignments,
+  cancelStaffAssignments,
+  setStaffActiveStatus,
+  deleteStaff,
+} from '../services/staffService';
+import { getInstructors } from '../services/classService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+export type StaffRemovalAction = 'deactivate' | 'delete';
+
+interface StaffRemovalDialogProps {
+  open: boolean;
+  staff: Pick<StaffRecord, 'id' | 'fullName'> | null;
+  action: StaffRemovalAction;
+  onClose: (done: boolean) => void;
+}
+
+const EMPTY_ASSIGNMENTS: StaffAssignments = { classes: [], packages: [] };
+
+const StaffRemovalDialog: React.FC<StaffRemovalDialogProps> = ({ open, staff, action, onClose }) => {
+  const [assignments, setAssignments] = useState<StaffAssignments>(EMPTY_ASSIGNMENTS);
+  const [instructors, setInstructors] = useState<{ id: string; name: string }[]>([]);
+  const [resolution, setResolution] = useState<'reassign' | 'cancel'>('reassign');
+  const [newInstructorId, setNewInstructorId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (!open || !staff) return;
+    setError(null);
+    setResolution('reassign');
+    setNewInstructorId('');
+    setAssignments(EMPTY_ASSIGNMENTS);
+    setLoading(true);
+    Promise.all([getStaffAssignments(staff.id), getInstructors()])
+      .then(([upcoming, instructorList]) => {
+        setAssignments(upcoming);
+        setInstructors(instructorList.filter(instructor => instructor.id !== staff.id));
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [open, staff]);
+
+  if (!staff) return null;
+
+  const hasAssignments = assignments.classes.length > 0 || assignments.packages.length > 0;
+  const bookedCount = assignments.classes.reduce((sum, c) => sum + c.currentEnrollment, 0);
+  const actionLabel = action === 'delete' ? 'Delete' : 'Deactivate';
+
+  const handleConfirm = async () => {
+    if (!userData) return;
+    if (hasAssignments && resolution === 'reassign' && !newInstructorId) {
+      setError('Choose an instructor to take over these classes');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (hasAssignments) {
+        if (resolution === 'reassign') {
+          await reassignStaffAssignments(staff.id, newInstructorId, userData.uid);
+        } else {
+          await cancelStaffAssignments(staff.id, userData.uid, userData.fullName);
+        }
+      }
+
+      if (action === 'delete') {
+        await deleteStaff(staff.id, userData.uid);
+      } else {
+        await setStaffActiveStatus(staff.id, false, userData.uid);
+      }
+      onClose(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getConfirmLabel = () => {
+    if (saving) return 'Saving...';
+    if (!hasAssignments) return actionLabel;
+    return resolution === 'reassign' ? `Reassign & ${actionLabel}` : `Cancel Classes & ${actionLabel}`;
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !saving && onClose(false)}
+      fullWidth
+      maxWidth="sm"
+      fullScreen={isMobile}
+    >
+      <DialogTitle>
+        <Typography variant="h6" component="div" fontWeight={600}>
+          {actionLabel} {staff.fullName}
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !hasAssignments ? (
+          <Typography>
+            {staff.fullName} has no upcoming classes.{' '}
+            {action === 'delete'
+              ? 'Their staff record will be removed and they will no longer be able to sign in.'
+              : 'They will no longer be able to sign in until reactivated.'}
+          </Typography>
+        ) : (
+          <>
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {staff.fullName} still teaches {assignments.classes.length} upcoming classes
+              {assignments.packages.length > 0 && ` across ${assignments.packages.length} packages`}
+              {bookedCount > 0 && ` with ${bookedCount} bookings`}. Hand them off before you continue.
+            </Alert>
+
+            <List dense disablePadding sx={{ maxHeight: 260, overflowY: 'auto', mb: 2 }}>
+              {assignments.packages.length > 0 && (
+                <ListSubheader disableSticky sx={{ px: 0 }}>Packages</ListSubheader>
+              )}
+              {assignments.packages.map(pkg => (
+                <ListItem key={pkg.id} disableGutters>
+                  <ListItemText
+                    primary={pkg.title}
+                    secondary={`${pkg.remainingSessions} sessions left, ends ${format(pkg.endDate.toDate(), 'MMM d, yyyy')}`}
+                  />
+                </ListItem>
+              ))}
+              <ListSubheader disableSticky sx={{ px: 0 }}>Classes</ListSubheader>
+              {assignments.classes.map(classItem => (
+                <ListItem
+                  key={classItem.id}
+                  disableGutters
+                  secondaryAction={
+                    classItem.packageId ? <Chip label="Package" size="small" variant="outlined" /> : undefined
+                  }
+                >
+                  <ListItemText
+                    primary={classItem.title}
+                    secondary={`${format(classItem.date.toDate(), 'EEE, MMM d')} · ${classItem.startTime}-${classItem.endTime} · ${classItem.currentEnrollment} booked`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+
+            <RadioGroup
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value as 'reassign' | 'cancel')}
+            >
+              <FormControlLabel
+                value="reassign"
+                control={<Radio />}
+                label="Reassign them to another instructor"
+                disabled={saving}
+              />
+              {resolution === 'reassign' && (
+                <TextField
+                  select
+                  label="New Instructor"
+                  value={newInstructorId}
+                  onChange={(e) => setNewInstructorId(e.target.value)}
+                  disabled={saving}
+                  size="small"
+                  sx={{ ml: 4, mb: 1 }}
+                  helperText={instructors.length === 0 ? 'No other active instructors' : undefined}
+                >
+                  {instructors.map(instructor => (
+                    <MenuItem key={instructor.id} value={instructor.id}>
+                      {instructor.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              <FormControlLabel
+                value="cancel"
+                control={<Radio />}
+                label="Cancel them and their bookings"
+                disabled={saving}
+              />
+            </RadioGroup>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => onClose(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color={action === 'delete' || resolution === 'cancel' ? 'error' : 'primary'}
+          onClick={handleConfirm}
+          disabled={loading || saving}
+        >
+          {getConfirmLabel()}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StaffRemovalDialog;
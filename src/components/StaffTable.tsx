@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -21,9 +21,31 @@ import {
   DialogActions,
   Button,
   Alert,
+  IconButton,
+  Tooltip,
+  Avatar,
 } from '@mui/material';
+import TuneIcon from '@mui/icons-material/Tune';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EventAvailableIcon from '@mui/icons-material/EventAvailable';
+import PaymentsIcon from '@mui/icons-material/Payments';
+import ListAltIcon from '@mui/icons-material/ListAlt';
 import { useAuth } from '../contexts/AuthContext';
-import { getAllStaff, setStaffActiveStatus } from '../services/staffService';
+import { getAllStaff, setStaffActiveStatus, StaffRecord } from '../services/staffService';
+import { getRolePermissions } from '../services/permissionService';
+import { PermissionOverrides, RolePermissionMap } from '../types/permissions';
+import { DEFAULT_ROLE_PERMISSIONS } from '../utils/permissions';
+import StaffPermissionsDialog from './StaffPermissionsDialog';
+import StaffForm from './StaffForm';
+import StaffRemovalDialog, { StaffRemovalAction } from './StaffRemovalDialog';
+import AvailabilityDialog from './AvailabilityDialog';
+import PayRateDialog from './PayRateDialog';
+import TimesheetDialog from './TimesheetDialog';
+import { getPayRates } from '../services/payrollService';
+import { PayRule } from '../types/payroll';
+import { formatPayRule } from '../utils/payroll';
+import { useRoleControl } from '../hooks/useRoleControl';
 import Switch from '@mui/material/Switch';
 
 interface Staff {
@@ -33,6 +55,11 @@ interface Staff {
   role: 'admin' | 'trainer' | 'staff';
   uid: string;
   isActive: boolean;
+  permissionOverrides: PermissionOverrides;
+  phone?: string;
+  bio?: string;
+  photoUrl?: string;
+  sports?: StaffRecord['sports'];
 }
 
 interface StaffTableProps {
@@ -46,16 +73,32 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [staffToToggle, setStaffToToggle] = useState<Staff | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [roleMap, setRoleMap] = useState<RolePermissionMap>(DEFAULT_ROLE_PERMISSIONS);
+  const [permissionsStaff, setPermissionsStaff] = useState<Staff | null>(null);
+  const [editStaff, setEditStaff] = useState<Staff | null>(null);
+  const [removal, setRemoval] = useState<{ staff: Staff; action: StaffRemovalAction } | null>(null);
+  const [availabilityStaff, setAvailabilityStaff] = useState<Staff | null>(null);
+  const [payRates, setPayRates] = useState<Record<string, PayRule>>({});
+  const [payRateStaff, setPayRateStaff] = useState<Staff | null>(null);
+  const [timesheetStaff, setTimesheetStaff] = useState<Staff | null>(null);
   const { user } = useAuth();
+  const { hasPermission } = useRoleControl();
+  const canManagePayroll = hasPermission('payroll.manage');
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
-  const fetchStaff = async () => {
+  const fetchStaff = useCallback(async () => {
     try {
       setLoading(true);
-      const list = await getAllStaff();
+      const [list, roles, rates] = await Promise.all([
+        getAllStaff(),
+        getRolePermissions(),
+        canManagePayroll ? getPayRates() : Promise.resolve({}),
+      ]);
       setStaffList(list);
+      setRoleMap(roles);
+      setPayRates(rates);
       setError(null);
     } catch (err) {
       console.error('Error loading staff:', err);
@@ -63,11 +106,11 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [canManagePayroll]);
 
   useEffect(() => {
     fetchStaff();
-  }, [refreshTrigger]);
+  }, [fetchStaff, refreshTrigger]);
 
   const handleToggleClick = (staff: Staff) => {
     // Kendi hesabını deaktif etmesini engelle
@@ -75,6 +118,12 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
       setError('You cannot deactivate your own account');
       return;
     }
+
+    // Deactivation first hands off any upcoming classes
+    if (staff.isActive) {
+      setRemoval({ staff, action: 'deactivate' });
+      return;
+    }
     
     setStaffToToggle(staff);
     setConfirmDialogOpen(true);
@@ -103,6 +152,172 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
     setStaffToToggle(null);
   };
 
+  const handlePermissionsClose = (updated?: PermissionOverrides) => {
+    if (updated && permissionsStaff) {
+      setStaffList(prev => prev.map(s => (
+        s.id === permissionsStaff.id ? { ...s, permissionOverrides: updated } : s
+      )));
+    }
+    setPermissionsStaff(null);
+  };
+
+  const hasOverrides = (staff: Staff) =>
+    staff.permissionOverrides.granted.length > 0 || staff.permissionOverrides.revoked.length > 0;
+
+  const renderPermissionsButton = (staff: Staff) => (
+    <Tooltip title={staff.role === 'admin' ? 'Admins have every permission' : 'Edit permissions'}>
+      <span>
+        <IconButton
+          size="small"
+          onClick={() => setPermissionsStaff(staff)}
+          disabled={staff.role === 'admin'}
+          aria-label={`Edit permissions for ${staff.fullName}`}
+        >
+          <TuneIcon fontSize="small" />
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+
+  const renderEditButton = (staff: Staff) => (
+    <Tooltip title="Edit profile">
+      <IconButton
+        size="small"
+        onClick={() => setEditStaff(staff)}
+        aria-label={`Edit ${staff.fullName}`}
+      >
+        <EditIcon fontSize="small" />
+      </IconButton>
+    </Tooltip>
+  );
+
+  // Only instructors appear in the class instructor dropdowns
+  const renderAvailabilityButton = (staff: Staff) => (
+    staff.role !== 'staff' ? (
+      <Tooltip title="Availability">
+        <IconButton
+          size="small"
+          onClick={() => setAvailabilityStaff(staff)}
+          aria-label={`Edit availability for ${staff.fullName}`}
+        >
+          <EventAvailableIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    ) : null
+  );
+
+  const handlePayRateClose = (updated?: PayRule | null) => {
+    if (updated !== undefined && payRateStaff) {
+      setPayRates(prev => {
+        const next = { ...prev };
+        if (updated) next[payRateStaff.id] = updated;
+        else delete next[payRateStaff.id];
+        return next;
+      });
+    }
+    setPayRateStaff(null);
+  };
+
+  const renderPayRateButton = (staff: Staff) => (
+    canManagePayroll ? (
+      <Tooltip title={`Pay rate: ${formatPayRule(payRates[staff.id] || null)}`}>
+        <IconButton
+          size="small"
+          onClick={() => setPayRateStaff(staff)}
+          aria-label={`Edit pay rate for ${staff.fullName}`}
+          color={payRates[staff.id] ? 'success' : 'default'}
+        >
+          <PaymentsIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    ) : null
+  );
+
+  const renderTimesheetButton = (staff: Staff) => (
+    canManagePayroll ? (
+      <Tooltip title="Timesheet">
+        <IconButton
+          size="small"
+          onClick={() => setTimesheetStaff(staff)}
+          aria-label={`View timesheet for ${staff.fullName}`}
+        >
+          <ListAltIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    ) : null
+  );
+
+  const renderDeleteButton = (staff: Staff) => (
+    <Tooltip title="Delete staff member">
+      <span>
+        <IconButton
+          size="small"
+          color="error"
+          onClick={() => setRemoval({ staff, action: 'delete' })}
+          disabled={staff.id === user?.uid}
+          aria-label={`Delete ${staff.fullName}`}
+        >
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+
+  const handleRemovalClose = (done: boolean) => {
+    setRemoval(null);
+    if (done) fetchStaff();
+  };
+
+  const getCustomPermissionsChip = (staff: Staff) => (
+    staff.role !== 'admin' && hasOverrides(staff) ? (
+      <Chip label="Custom permissions" size="small" variant="outlined" color="info" />
+    ) : null
+  );
+
+  const staffDialogs = (
+    <>
+      <StaffPermissionsDialog
+        open={!!permissionsStaff}
+        staff={permissionsStaff}
+        roleMap={roleMap}
+        onClose={handlePermissionsClose}
+      />
+      <StaffForm
+        open={!!editStaff}
+        editData={editStaff}
+        onClose={() => {
+          setEditStaff(null);
+          fetchStaff();
+        }}
+      />
+      <StaffRemovalDialog
+        open={!!removal}
+        staff={removal?.staff || null}
+        action={removal?.action || 'deactivate'}
+        onClose={handleRemovalClose}
+      />
+      <AvailabilityDialog
+        open={!!availabilityStaff}
+        staffId={availabilityStaff?.id || ''}
+        staffName={availabilityStaff?.fullName || ''}
+        onClose={() => setAvailabilityStaff(null)}
+      />
+      <PayRateDialog
+        open={!!payRateStaff}
+        staffId={payRateStaff?.id || ''}
+        staffName={payRateStaff?.fullName || ''}
+        rule={payRateStaff ? payRates[payRateStaff.id] || null : null}
+        onClose={handlePayRateClose}
+      />
+      <TimesheetDialog
+        open={!!timesheetStaff}
+        staffId={timesheetStaff?.id || ''}
+        staffName={timesheetStaff?.fullName || ''}
+        onClose={() => setTimesheetStaff(null)}
+      />
+    </>
+  );
+
   const getRoleColor = (role: string) => {
     switch (role) {
       case 'admin':
@@ -169,9 +384,14 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
               <CardContent sx={{ pb: '16px !important' }}>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 1 }}>
                   <Box sx={{ flex: 1 }}>
-                    <Typography variant="h6" component="div" sx={{ fontSize: '1.1rem', fontWeight: 600 }}>
-                      {staff.fullName}
-                    </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Avatar src={staff.photoUrl || undefined} sx={{ width: 32, height: 32 }}>
+                        {staff.fullName.charAt(0).toUpperCase()}
+                      </Avatar>
+                      <Typography variant="h6" component="div" sx={{ fontSize: '1.1rem', fontWeight: 600 }}>
+                        {staff.fullName}
+                      </Typography>
+                    </Box>
                     <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-word', mb: 1 }}>
                       {staff.email}
                     </Typography>
@@ -182,9 +402,16 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
                         size="small"
                       />
                       {getStatusChip(staff)}
+                      {getCustomPermissionsChip(staff)}
                     </Box>
                   </Box>
                   <Box sx={{ ml: 1, display: 'flex', alignItems: 'center' }}>
+                    {renderEditButton(staff)}
+                    {renderPermissionsButton(staff)}
+                    {renderAvailabilityButton(staff)}
+                    {renderPayRateButton(staff)}
+                    {renderTimesheetButton(staff)}
+                    {renderDeleteButton(staff)}
                     <Switch
                       checked={staff.isActive}
                       onChange={() => handleToggleClick(staff)}
@@ -231,6 +458,8 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
             </Button>
           </DialogActions>
         </Dialog>
+
+        {staffDialogs}
       </>
     );
   }
@@ -254,6 +483,9 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
               <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
                 Status
               </TableCell>
+              <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem' }}>
+                Actions
+              </TableCell>
               <TableCell sx={{ fontWeight: 600, fontSize: '0.95rem', width: 120 }}>
                 Active
               </TableCell>
@@ -272,7 +504,12 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
                 }}
               >
                 <TableCell sx={{ fontSize: '0.9rem' }}>
-                  {staff.fullName}
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                    <Avatar src={staff.photoUrl || undefined} sx={{ width: 32, height: 32 }}>
+                      {staff.fullName.charAt(0).toUpperCase()}
+                    </Avatar>
+                    {staff.fullName}
+                  </Box>
                 </TableCell>
                 <TableCell sx={{ fontSize: '0.9rem', wordBreak: 'break-word' }}>
                   {staff.email}
@@ -288,6 +525,17 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
                 <TableCell>
                   {getStatusChip(staff)}
                 </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {renderEditButton(staff)}
+                    {renderPermissionsButton(staff)}
+                    {renderAvailabilityButton(staff)}
+                    {renderPayRateButton(staff)}
+                    {renderTimesheetButton(staff)}
+                    {renderDeleteButton(staff)}
+                    {getCustomPermissionsChip(staff)}
+                  </Box>
+                </TableCell>
                 <TableCell>
                   <Box sx={{ display: 'flex', alignItems: 'center' }}>
                     <Switch
@@ -337,6 +585,8 @@ const StaffTable = ({ refreshTrigger }: StaffTableProps) => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {staffDialogs}
     </>
   );
 };
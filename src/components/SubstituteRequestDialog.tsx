@@ -0,0 +1,92 @@
+// src/components/SubstituteRequestDialog.tsx - Ask other trainers to cover a class
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { ClassRecord } from '../services/classService';
+import { requestSubstitute } from '../services/substituteService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface SubstituteRequestDialogProps {
+  open: boolean;
+  classRecord: ClassRecord | null;
+  onClose: (requested: boolean) => void;
+}
+
+const SubstituteRequestDialog: React.FC<SubstituteRequestDialogProps> = ({ open, classRecord, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { userData } = useRoleControl();
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setError(null);
+    }
+  }, [open]);
+
+  if (!classRecord) return null;
+
+  const handleSubmit = async () => {
+    if (!userData) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await requestSubstitute(classRecord.id, userData.uid, userData.fullName, reason);
+      onClose(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose(false)} fullWidth maxWidth="xs">
+      <DialogTitle>Request a Substitute</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" sx={{ mb: 2 }}>
+          <strong>{classRecord.title}</strong>
+          <br />
+          {format(classRecord.date.toDate(), 'EEEE, MMM d')} • {classRecord.startTime}-{classRecord.endTime}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Other trainers can claim the class. It stays yours until an admin approves the substitute.
+        </Typography>
+        <TextField
+          label="Reason (optional)"
+          fullWidth
+          multiline
+          rows={2}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={saving}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => onClose(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+          {saving ? 'Requesting...' : 'Request Sub'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SubstituteRequestDialog;
@@ -0,0 +1,157 @@
+// src/components/SubstituteRequestsPanel.tsx - Open sub requests to claim, withdraw or approve
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+} from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { format } from 'date-fns';
+import {
+  SubstituteRequest,
+  claimSubstituteRequest,
+  releaseSubstituteClaim,
+  withdrawSubstituteRequest,
+  approveSubstituteRequest,
+} from '../services/substituteService';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface SubstituteRequestsPanelProps {
+  requests: SubstituteRequest[];
+  onChanged: () => void;
+}
+
+const SubstituteRequestsPanel: React.FC<SubstituteRequestsPanelProps> = ({ requests, onChanged }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { userData, isAdmin, isTrainer, hasPermission } = useRoleControl();
+
+  if (!userData || requests.length === 0) return null;
+
+  const canCover = isAdmin || isTrainer;
+  const canApprove = hasPermission('classes.manage');
+
+  const runAction = async (requestId: string, action: () => Promise<void>) => {
+    try {
+      setBusyId(requestId);
+      setError(null);
+      await action();
+      onChanged();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderActions = (request: SubstituteRequest) => {
+    const busy = busyId === request.id;
+    const isRequester = request.requestedBy === userData.uid;
+    const isClaimer = request.claimedBy === userData.uid;
+
+    return (
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        {request.status === 'open' && canCover && !isRequester && (
+          <Button
+            size="small"
+            variant="contained"
+            disabled={busy}
+            onClick={() => runAction(request.id, () => claimSubstituteRequest(request.id, userData.uid, userData.fullName))}
+          >
+            Claim
+          </Button>
+        )}
+        {request.status === 'claimed' && canApprove && (
+          <Button
+            size="small"
+            variant="contained"
+            color="success"
+            disabled={busy}
+            onClick={() => runAction(request.id, () => approveSubstituteRequest(request.id, userData.uid, userData.fullName))}
+          >
+            Approve
+          </Button>
+        )}
+        {request.status === 'claimed' && (isClaimer || canApprove) && (
+          <Button
+            size="small"
+            disabled={busy}
+            onClick={() => runAction(request.id, () => releaseSubstituteClaim(request.id))}
+          >
+            {isClaimer ? 'Release' : 'Decline'}
+          </Button>
+        )}
+        {isRequester && (
+          <Button
+            size="small"
+            color="error"
+            disabled={busy}
+            onClick={() => runAction(request.id, () => withdrawSubstituteRequest(request.id))}
+          >
+            Withdraw
+          </Button>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h5" sx={{ mb: 2, fontWeight: 600, color: 'primary.main' }}>
+        Substitute Requests
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {requests.map(request => (
+          <Paper key={request.id} sx={{ p: 2 }}>
+            <Box sx={{
+              display: 'flex',
+              flexDirection: { xs: 'column', sm: 'row' },
+              justifyContent: 'space-between',
+              alignItems: { xs: 'flex-start', sm: 'center' },
+              gap: 1.5
+            }}>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5 }}>
+                <SwapHorizIcon color="warning" sx={{ mt: 0.5 }} />
+                <Box>
+                  <Typography variant="subtitle1" fontWeight={600}>
+                    {request.classTitle}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {format(request.classDate.toDate(), 'EEE, MMM d')} • {request.startTime}-{request.endTime}
+                    {request.location && ` • ${request.location}`}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Requested by {request.requestedByName}
+                    {request.reason && `: ${request.reason}`}
+                  </Typography>
+                  <Chip
+                    size="small"
+                    sx={{ mt: 0.5 }}
+                    color={request.status === 'claimed' ? 'info' : 'warning'}
+                    variant="outlined"
+                    label={request.status === 'claimed'
+                      ? `Claimed by ${request.claimedByName}, awaiting approval`
+                      : 'Needs a substitute'}
+                  />
+                </Box>
+              </Box>
+              {renderActions(request)}
+            </Box>
+          </Paper>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default SubstituteRequestsPanel;
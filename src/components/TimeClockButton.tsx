@@ -0,0 +1,121 @@
+// src/components/TimeClockButton.tsx - Clock in/out from the top bar for anyone paid by the hour
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Tooltip,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import ListAltIcon from '@mui/icons-material/ListAlt';
+import { TimeEntry } from '../types/payroll';
+import { getOpenTimeEntry, clockIn, clockOut } from '../services/timeClockService';
+import { useRoleControl } from '../hooks/useRoleControl';
+import TimesheetDialog from './TimesheetDialog';
+
+const formatElapsed = (since: Date, now: Date) => {
+  const minutes = Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60000));
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+const TimeClockButton: React.FC = () => {
+  const [openEntry, setOpenEntry] = useState<TimeEntry | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [busy, setBusy] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [timesheetOpen, setTimesheetOpen] = useState(false);
+  const { userData } = useRoleControl();
+
+  // Any role can be put on the hourly pay rule, so everyone gets the clock
+  const staffId = userData?.uid;
+
+  useEffect(() => {
+    if (!staffId) return;
+    setBusy(true);
+    getOpenTimeEntry(staffId)
+      .then(setOpenEntry)
+      .catch(err => setError(err.message))
+      .finally(() => setBusy(false));
+  }, [staffId]);
+
+  // Keeps the elapsed time current while clocked in
+  useEffect(() => {
+    if (!openEntry) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, [openEntry]);
+
+  if (!staffId || !userData) return null;
+
+  const handleToggle = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      if (openEntry) {
+        await clockOut(staffId);
+        setOpenEntry(null);
+      } else {
+        setOpenEntry(await clockIn(staffId, userData.fullName));
+      }
+    } catch (err: any) {
+      setError(err.message);
+      // Another tab or device may have changed the state
+      getOpenTimeEntry(staffId).then(setOpenEntry).catch(() => undefined);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <Button
+          color="inherit"
+          variant="outlined"
+          size="small"
+          startIcon={<AccessTimeIcon />}
+          onClick={handleToggle}
+          disabled={busy}
+          sx={{
+            borderColor: 'rgba(255, 255, 255, 0.5)',
+            whiteSpace: 'nowrap',
+            '&:hover': {
+              borderColor: 'white',
+              backgroundColor: 'rgba(255, 255, 255, 0.1)',
+            },
+          }}
+        >
+          {openEntry ? `Clock Out · ${formatElapsed(openEntry.clockIn.toDate(), now)}` : 'Clock In'}
+        </Button>
+        <Tooltip title="My Timesheet">
+          <IconButton color="inherit" size="small" onClick={() => setTimesheetOpen(true)}>
+            <ListAltIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <TimesheetDialog
+        open={timesheetOpen}
+        staffId={staffId}
+        staffName={userData.fullName}
+        onClose={() => setTimesheetOpen(false)}
+      />
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={6000}
+        onClose={() => setError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default TimeClockButton;
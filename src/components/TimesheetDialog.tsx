@@ -0,0 +1,328 @@
+// src/components/TimesheetDialog.tsx - Clocked shifts for one staff member, with admin corrections
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Typography,
+  TextField,
+  IconButton,
+  Chip,
+  Tooltip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import { DatePicker, TimePicker } from '@mui/x-date-pickers';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { TimeEntry } from '../types/payroll';
+import { getTimeEntries, correctTimeEntry, addManualTimeEntry } from '../services/timeClockService';
+import { getEntryHours } from '../utils/payroll';
+import { useRoleControl } from '../hooks/useRoleControl';
+
+interface TimesheetDialogProps {
+  open: boolean;
+  staffId: string;
+  staffName: string;
+  onClose: () => void;
+}
+
+interface EntryDraft {
+  entryId: string | null; // null when adding a missed shift
+  date: Date;
+  clockIn: Date;
+  clockOut: Date | null;
+  reason: string;
+}
+
+// Puts the time of day from `time` onto the calendar day of `date`
+const atTime = (date: Date, time: Date) => {
+  const combined = new Date(date);
+  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return combined;
+};
+
+const TimesheetDialog: React.FC<TimesheetDialogProps> = ({ open, staffId, staffName, onClose }) => {
+  const [periodStart, setPeriodStart] = useState<Date>(startOfMonth(new Date()));
+  const [periodEnd, setPeriodEnd] = useState<Date>(endOfMonth(new Date()));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { userData, hasPermission } = useRoleControl();
+  const canCorrect = hasPermission('payroll.manage');
+
+  const loadEntries = useCallback(() => {
+    if (periodEnd < periodStart) {
+      setError('The period must end after it starts');
+      setEntries([]);
+      return;
+    }
+
+    setError(null);
+    setLoading(true);
+    getTimeEntries(staffId, periodStart, periodEnd)
+      .then(setEntries)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [staffId, periodStart, periodEnd]);
+
+  useEffect(() => {
+    if (!open || !staffId) return;
+    setDraft(null);
+    loadEntries();
+  }, [open, staffId, loadEntries]);
+
+  const totalHours = entries.reduce(
+    (sum, entry) => sum + getEntryHours(entry.clockIn.toDate(), entry.clockOut ? entry.clockOut.toDate() : null),
+    0
+  );
+  const openCount = entries.filter(entry => !entry.clockOut).length;
+
+  const startCorrection = (entry: TimeEntry) => {
+    setDraft({
+      entryId: entry.id,
+      date: entry.clockIn.toDate(),
+      clockIn: entry.clockIn.toDate(),
+      clockOut: entry.clockOut ? entry.clockOut.toDate() : null,
+      reason: '',
+    });
+  };
+
+  const startManualEntry = () => {
+    const today = new Date();
+    setDraft({
+      entryId: null,
+      date: today,
+      clockIn: atTime(today, new Date(2000, 0, 1, 9, 0)),
+      clockOut: atTime(today, new Date(2000, 0, 1, 17, 0)),
+      reason: '',
+    });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!userData || !draft) return;
+
+    const clockIn = atTime(draft.date, draft.clockIn);
+    const clockOut = draft.clockOut ? atTime(draft.date, draft.clockOut) : null;
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (draft.entryId) {
+        await correctTimeEntry(staffId, draft.entryId, clockIn, clockOut, draft.reason, userData.uid, userData.fullName);
+      } else {
+        if (!clockOut) {
+          throw new Error('Enter a clock-out time');
+        }
+        await addManualTimeEntry(staffId, staffName, clockIn, clockOut, draft.reason, userData.uid, userData.fullName);
+      }
+      setDraft(null);
+      loadEntries();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCorrections = (entry: TimeEntry) => {
+    if (entry.corrections.length === 0) return null;
+
+    const history = entry.corrections.map(correction => {
+      const previous = correction.previousClockIn
+        ? `was ${format(correction.previousClockIn.toDate(), 'MMM d, h:mm a')}-${correction.previousClockOut ? format(correction.previousClockOut.toDate(), 'h:mm a') : 'open'}`
+        : 'added by hand';
+      return `${format(correction.correctedAt.toDate(), 'MMM d')} ${correction.correctedByName}: ${correction.reason} (${previous})`;
+    });
+
+    return (
+      <Tooltip title={<Box sx={{ whiteSpace: 'pre-line' }}>{history.join('\n')}</Box>}>
+        <Chip size="small" variant="outlined" color="info" label={entry.corrections.length === 1 ? 'Corrected' : `Corrected ×${entry.corrections.length}`} />
+      </Tooltip>
+    );
+  };
+
+  const renderDraftForm = () => draft && (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1.5 }}>
+        {draft.entryId ? 'Correct Shift' : 'Add Missed Shift'}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1.5 }}>
+        <DatePicker
+          label="Date"
+          value={draft.date}
+          onChange={(newValue) => newValue && setDraft({ ...draft, date: newValue })}
+          disabled={saving}
+          disableFuture
+          slotProps={{ textField: { size: 'small', sx: { width: 160 } } }}
+        />
+        <TimePicker
+          label="Clock In"
+          value={draft.clockIn}
+          onChange={(newValue) => newValue && setDraft({ ...draft, clockIn: newValue })}
+          disabled={saving}
+          slotProps={{ textField: { size: 'small', sx: { width: 140 } } }}
+        />
+        <TimePicker
+          label="Clock Out"
+          value={draft.clockOut}
+          onChange={(newValue) => setDraft({ ...draft, clockOut: newValue })}
+          disabled={saving}
+          slotProps={{ textField: { size: 'small', sx: { width: 140 } } }}
+        />
+      </Box>
+      <TextField
+        label="Reason"
+        size="small"
+        value={draft.reason}
+        onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+        disabled={saving}
+        placeholder="e.g. Forgot to clock out"
+        required
+        fullWidth
+        sx={{ mb: 1.5 }}
+      />
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button size="small" onClick={() => setDraft(null)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="small" variant="contained" onClick={handleSaveDraft} disabled={saving || !draft.reason.trim()}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Dialog
+        open={open}
+        onClose={() => !saving && onClose()}
+        fullWidth
+        maxWidth="md"
+        fullScreen={isMobile}
+      >
+        <DialogTitle>
+          <Typography variant="h6" component="div" fontWeight={600}>
+            Timesheet: {staffName}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {totalHours.toFixed(2)} hours in this period
+            {openCount > 0 && ` • ${openCount} shift${openCount === 1 ? '' : 's'} still clocked in`}
+          </Typography>
+        </DialogTitle>
+        <DialogContent sx={{ px: { xs: 2, sm: 3 } }}>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+            <DatePicker
+              label="From"
+              value={periodStart}
+              onChange={(newValue) => newValue && setPeriodStart(newValue)}
+              slotProps={{ textField: { size: 'small' } }}
+            />
+            <DatePicker
+              label="To"
+              value={periodEnd}
+              onChange={(newValue) => newValue && setPeriodEnd(newValue)}
+              slotProps={{ textField: { size: 'small' } }}
+            />
+            {canCorrect && !draft && (
+              <Button startIcon={<AddIcon />} size="small" onClick={startManualEntry}>
+                Add Shift
+              </Button>
+            )}
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {renderDraftForm()}
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : entries.length === 0 ? (
+            <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+              No shifts clocked in this period.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Date</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>In</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Out</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600 }}>Hours</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entries.map(entry => {
+                    const clockIn = entry.clockIn.toDate();
+                    const clockOut = entry.clockOut ? entry.clockOut.toDate() : null;
+                    return (
+                      <TableRow key={entry.id} hover>
+                        <TableCell>{format(clockIn, 'EEE, MMM d')}</TableCell>
+                        <TableCell>{format(clockIn, 'h:mm a')}</TableCell>
+                        <TableCell>
+                          {clockOut ? format(clockOut, 'h:mm a') : <Chip size="small" color="success" label="Clocked in" />}
+                        </TableCell>
+                        <TableCell align="right">{clockOut ? getEntryHours(clockIn, clockOut).toFixed(2) : '-'}</TableCell>
+                        <TableCell align="right">
+                          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', alignItems: 'center' }}>
+                            {renderCorrections(entry)}
+                            {canCorrect && (
+                              <IconButton
+                                size="small"
+                                onClick={() => startCorrection(entry)}
+                                disabled={saving}
+                                aria-label="Correct shift"
+                              >
+                                <EditIcon fontSize="small" />
+                              </IconButton>
+                            )}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => onClose()} disabled={saving}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </LocalizationProvider>
+  );
+};
+
+export default TimesheetDialog;
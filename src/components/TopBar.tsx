@@ -15,6 +15,7 @@ import PersonIcon from '@mui/icons-material/Person';
 import { auth } from '../services/firebase';
 import { signOut } from 'firebase/auth';
 import { useNavigate } from 'react-router-dom';
+import TimeClockButton from './TimeClockButton';
 
 interface TopbarProps {
   handleDrawerToggle: () => void;
@@ -109,6 +110,9 @@ const Topbar: React.FC<TopbarProps> = ({ handleDrawerToggle }) => {
         </Box>
         
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          {/* Time Clock */}
+          <TimeClockButton />
+
           {/* User Info */}
           <Box sx={{ 
             alignItems: 'center', 
@@ -1,8 +1,10 @@
 // src/hooks/usePermissions.ts
 import { useRoleControl, UserRole } from './useRoleControl';
+import { Permission } from '../types/permissions';
 
 interface UsePermissionsReturn {
   canAccess: (allowedRoles: UserRole[]) => boolean;
+  hasPermission: (permission: Permission) => boolean;
   canCreateClasses: boolean;
   canEditClasses: boolean;
   canDeleteClasses: boolean;
@@ -13,8 +15,9 @@ interface UsePermissionsReturn {
   canViewDashboard: boolean;
 }
 
+// Named shortcuts over the permissions resolved in useRoleControl
 export const usePermissions = (): UsePermissionsReturn => {
-  const { userData, isAdmin, isTrainer, isStaff } = useRoleControl();
+  const { userData, hasPermission } = useRoleControl();
 
   const canAccess = (allowedRoles: UserRole[]): boolean => {
     if (!userData) return false;
@@ -23,25 +26,26 @@ export const usePermissions = (): UsePermissionsReturn => {
 
   return {
     canAccess,
+    hasPermission,
     
     // Class permissions
-    canCreateClasses: isAdmin,
-    canEditClasses: isAdmin,
-    canDeleteClasses: isAdmin,
+    canCreateClasses: hasPermission('classes.manage'),
+    canEditClasses: hasPermission('classes.manage'),
+    canDeleteClasses: hasPermission('classes.manage'),
     
     // Staff permissions
-    canManageStaff: isAdmin,
+    canManageStaff: hasPermission('staff.manage'),
     
     // Discount permissions
-    canCreateDiscounts: isAdmin,
+    canCreateDiscounts: hasPermission('discounts.manage'),
     
     // Member permissions
-    canViewMembers: isAdmin,
+    canViewMembers: hasPermission('members.view'),
     
     // Schedule permissions
-    canViewMySchedule: isTrainer || isStaff || isAdmin,
+    canViewMySchedule: hasPermission('schedule.view'),
     
     // Dashboard permissions
-    canViewDashboard: isAdmin || isTrainer || isStaff,
+    canViewDashboard: hasPermission('dashboard.view'),
   };
-};
\ No newline at end of file
+};
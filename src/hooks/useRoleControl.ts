@@ -3,6 +3,9 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../services/firebase';
+import { getRolePermissions, normalizeOverrides } from '../services/permissionService';
+import { Permission, PermissionOverrides } from '../types/permissions';
+import { DEFAULT_ROLE_PERMISSIONS, resolvePermissions } from '../utils/permissions';
 
 export type UserRole = 'admin' | 'trainer' | 'staff';
 
@@ -12,25 +15,33 @@ interface UserData {
   role: UserRole;
   uid: string;
   isActive: boolean;
+  permissionOverrides: PermissionOverrides;
 }
 
 export const useRoleControl = () => {
   const { user } = useAuth();
   const [userData, setUserData] = useState<UserData | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchUserRole = async () => {
       if (!user) {
         setUserData(null);
+        setPermissions([]);
         setLoading(false);
         return;
       }
 
       try {
-        const userDoc = await getDoc(doc(db, 'staff', user.uid));
+        const [userDoc, roleMap] = await Promise.all([
+          getDoc(doc(db, 'staff', user.uid)),
+          // Fall back to the built-in mapping rather than locking everyone out
+          getRolePermissions().catch(() => DEFAULT_ROLE_PERMISSIONS),
+        ]);
         if (userDoc.exists()) {
           const data = userDoc.data();
+          const permissionOverrides = normalizeOverrides(data.permissionOverrides);
           
           setUserData({
             fullName: data.fullName,
@@ -38,13 +49,17 @@ export const useRoleControl = () => {
             role: data.role,
             uid: data.uid,
             isActive: data.isActive ?? true,
+            permissionOverrides,
           });
+          setPermissions(resolvePermissions(data.role, roleMap, permissionOverrides));
         } else {
           setUserData(null);
+          setPermissions([]);
         }
       } catch (error) {
         console.error('Error fetching user role:', error);
         setUserData(null);
+        setPermissions([]);
       } finally {
         setLoading(false);
       }
@@ -56,9 +71,10 @@ export const useRoleControl = () => {
   const isAdmin = userData?.role === 'admin';
   const isTrainer = userData?.role === 'trainer';
   const isStaff = userData?.role === 'staff';
-  const canCreateClasses = isAdmin; // Sadece admin class oluşturabilir
-  const canCreateDiscounts = isAdmin; // Sadece admin discount oluşturabilir
-  const canManageStaff = isAdmin; // Sadece admin staff yönetebilir
+  const hasPermission = (permission: Permission): boolean => permissions.includes(permission);
+  const canCreateClasses = hasPermission('classes.manage');
+  const canCreateDiscounts = hasPermission('discounts.manage');
+  const canManageStaff = hasPermission('staff.manage');
 
   return {
     userData,
@@ -66,6 +82,8 @@ export const useRoleControl = () => {
     isAdmin,
     isTrainer,
     isStaff,
+    permissions,
+    hasPermission,
     canCreateClasses,
     canCreateDiscounts,
     canManageStaff,
@@ -0,0 +1,208 @@
+// src/pages/AcceptInvitePage.tsx - Public page where invited staff choose their password
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Paper,
+  CircularProgress,
+  Container,
+  Alert,
+  Link,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { useNavigate, useParams, Link as RouterLink } from 'react-router-dom';
+import { StaffInvite, getStaffInvite, acceptStaffInvite } from '../services/staffInviteService';
+
+const AcceptInvitePage = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [invite, setInvite] = useState<StaffInvite | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  useEffect(() => {
+    getStaffInvite(token)
+      .then(setInvite)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await acceptStaffInvite(token, password);
+      navigate('/classes');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+
+    if (!invite) {
+      return (
+        <>
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+          <Box sx={{ textAlign: 'center' }}>
+            <Link component={RouterLink} to="/login">
+              Go to sign in
+            </Link>
+          </Box>
+        </>
+      );
+    }
+
+    return (
+      <Box component="form" onSubmit={handleSubmit}>
+        <Typography variant="body1" sx={{ mb: 3 }}>
+          Welcome, {invite.fullName}. Choose a password to finish setting up your account.
+        </Typography>
+        <TextField
+          label="Email"
+          fullWidth
+          value={invite.email}
+          InputProps={{ readOnly: true }}
+          sx={{ mb: { xs: 2, sm: 2.5 } }}
+          autoComplete="username"
+        />
+        <TextField
+          label="Password"
+          type="password"
+          fullWidth
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={submitting}
+          helperText="At least 6 characters"
+          sx={{ mb: { xs: 2, sm: 2.5 } }}
+          autoComplete="new-password"
+        />
+        <TextField
+          label="Confirm Password"
+          type="password"
+          fullWidth
+          required
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={submitting}
+          sx={{ mb: { xs: 2, sm: 2.5 } }}
+          autoComplete="new-password"
+        />
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          variant="contained"
+          color="primary"
+          fullWidth
+          disabled={submitting}
+          sx={{
+            py: { xs: 1.5, sm: 1.75 },
+            fontSize: { xs: '0.95rem', sm: '1rem' },
+            fontWeight: 600,
+            borderRadius: 1,
+          }}
+        >
+          {submitting ? (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <CircularProgress size={20} color="inherit" />
+              <span>Setting Up...</span>
+            </Box>
+          ) : (
+            'Create Account'
+          )}
+        </Button>
+      </Box>
+    );
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        backgroundColor: 'background.default',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        py: { xs: 2, sm: 4 },
+        px: { xs: 2, sm: 3 },
+      }}
+    >
+      <Container maxWidth="sm">
+        <Paper
+          elevation={isMobile ? 1 : 3}
+          sx={{
+            p: { xs: 3, sm: 4 },
+            width: '100%',
+            maxWidth: { xs: '100%', sm: 400 },
+            mx: 'auto',
+            borderRadius: { xs: 1, sm: 2 },
+          }}
+        >
+          <Box sx={{ textAlign: 'center', mb: { xs: 3, sm: 4 } }}>
+            <Typography
+              variant="h4"
+              sx={{
+                fontWeight: 600,
+                fontSize: { xs: '1.5rem', sm: '2rem' },
+                mb: 1,
+                color: 'primary.main'
+              }}
+            >
+              PACIFIC MMA
+            </Typography>
+            <Typography
+              variant="h6"
+              sx={{
+                fontWeight: 400,
+                fontSize: { xs: '1rem', sm: '1.25rem' },
+                color: 'text.secondary'
+              }}
+            >
+              Staff Invitation
+            </Typography>
+          </Box>
+
+          {renderContent()}
+        </Paper>
+      </Container>
+    </Box>
+  );
+};
+
+export default AcceptInvitePage;
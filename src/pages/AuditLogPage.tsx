@@ -0,0 +1,254 @@
+// src/pages/AuditLogPage.tsx - Administrative changes with who made them, filterable by entity, actor and date
+import React, { useEffect, useState } from 'react';
+import {
+  Typography,
+  Box,
+  Container,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Chip,
+  TextField,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Collapse,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import { DatePicker } from '@mui/x-date-pickers';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { format, subDays } from 'date-fns';
+import { AuditAction, AuditEntityType, AuditLogEntry } from '../types/audit';
+import { getAuditLog } from '../services/auditService';
+import { getAllStaff, StaffRecord } from '../services/staffService';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, formatAuditValue } from '../utils/audit';
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+};
+
+const AuditLogPage = () => {
+  const [periodStart, setPeriodStart] = useState<Date>(subDays(new Date(), 7));
+  const [periodEnd, setPeriodEnd] = useState<Date>(new Date());
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [staff, setStaff] = useState<StaffRecord[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  useEffect(() => {
+    getAllStaff(true) // Deleted staff still appear in past entries
+      .then(list => setStaff([...list].sort((a, b) => a.fullName.localeCompare(b.fullName))))
+      .catch(err => console.error('Error loading staff for audit filters:', err));
+  }, []);
+
+  useEffect(() => {
+    if (periodEnd < periodStart) {
+      setError('The period must end after it starts');
+      setEntries([]);
+      return;
+    }
+
+    setError(null);
+    setLoading(true);
+    getAuditLog({
+      periodStart,
+      periodEnd,
+      entityType: entityType || undefined,
+      actorId: actorId || undefined,
+    })
+      .then(setEntries)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [periodStart, periodEnd, entityType, actorId]);
+
+  const renderChanges = (entry: AuditLogEntry) => (
+    entry.changes.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">No field details recorded.</Typography>
+    ) : (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>Field</TableCell>
+            <TableCell sx={{ fontWeight: 600 }}>Before</TableCell>
+            <TableCell sx={{ fontWeight: 600 }}>After</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {entry.changes.map(change => (
+            <TableRow key={change.field}>
+              <TableCell sx={{ fontFamily: 'monospace' }}>{change.field}</TableCell>
+              <TableCell sx={{ color: 'text.secondary', wordBreak: 'break-word' }}>{formatAuditValue(change.before)}</TableCell>
+              <TableCell sx={{ wordBreak: 'break-word' }}>{formatAuditValue(change.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )
+  );
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Container maxWidth="xl" sx={{ py: { xs: 2, sm: 3, md: 4 }, px: { xs: 2, sm: 3 } }}>
+        {/* Header */}
+        <Box sx={{ mb: 3 }}>
+          <Typography
+            variant="h4"
+            sx={{
+              fontWeight: 700,
+              fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+              color: 'text.primary',
+              mb: 0.5
+            }}
+          >
+            Audit Log
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Changes to classes, discounts, packages, staff and belts
+          </Typography>
+        </Box>
+
+        {/* Filters */}
+        <Paper sx={{ p: 2, mb: 3, display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <DatePicker
+            label="From"
+            value={periodStart}
+            onChange={(newValue) => newValue && setPeriodStart(newValue)}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+          <DatePicker
+            label="To"
+            value={periodEnd}
+            onChange={(newValue) => newValue && setPeriodEnd(newValue)}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Entity"
+            value={entityType}
+            onChange={(e) => setEntityType(e.target.value as AuditEntityType | '')}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">All entities</MenuItem>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+              <MenuItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Changed By"
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">Anyone</MenuItem>
+            {staff.map(member => (
+              <MenuItem key={member.id} value={member.id}>{member.fullName}</MenuItem>
+            ))}
+          </TextField>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Paper sx={{ p: 4, textAlign: 'center' }}>
+            <Typography color="text.secondary">No changes match these filters.</Typography>
+          </Paper>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ width: 48 }} />
+                  <TableCell sx={{ fontWeight: 600 }}>When</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Changed By</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Action</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }}>Entity</TableCell>
+                  {!isMobile && <TableCell align="right" sx={{ fontWeight: 600 }}>Fields</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map(entry => {
+                  const expanded = expandedId === entry.id;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <TableRow hover sx={{ '& > td': { borderBottom: expanded ? 'none' : undefined } }}>
+                        <TableCell>
+                          <IconButton
+                            size="small"
+                            onClick={() => setExpandedId(expanded ? null : entry.id)}
+                            aria-label={expanded ? 'Hide changes' : 'Show changes'}
+                          >
+                            {expanded ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+                          </IconButton>
+                        </TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                          {format(entry.timestamp.toDate(), 'MMM d, yyyy h:mm a')}
+                        </TableCell>
+                        <TableCell>{entry.actorName}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            color={ACTION_COLORS[entry.action]}
+                            variant="outlined"
+                            label={AUDIT_ACTION_LABELS[entry.action]}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight={500}>
+                            {entry.entityName || entry.entityId}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType}
+                          </Typography>
+                        </TableCell>
+                        {!isMobile && <TableCell align="right">{entry.changes.length}</TableCell>}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={isMobile ? 5 : 6} sx={{ py: 0 }}>
+                          <Collapse in={expanded} timeout="auto" unmountOnExit>
+                            <Box sx={{ py: 2 }}>
+                              {renderChanges(entry)}
+                            </Box>
+                          </Collapse>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Container>
+    </LocalizationProvider>
+  );
+};
+
+export default AuditLogPage;
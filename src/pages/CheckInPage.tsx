@@ -0,0 +1,350 @@
+// src/pages/CheckInPage.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Typography,
+  Box,
+  Container,
+  Paper,
+  TextField,
+  InputAdornment,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  Chip,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  Snackbar,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import HowToRegIcon from '@mui/icons-material/HowToReg';
+import LogoutIcon from '@mui/icons-material/Logout';
+import { format, isToday } from 'date-fns';
+import { useRoleControl } from '../hooks/useRoleControl';
+import { getAllMembers, searchMembers } from '../services/memberService';
+import { getAllClasses, getAllPackages, ClassRecord } from '../services/classService';
+import {
+  checkInMember,
+  checkOutMember,
+  subscribeTodayCheckIns,
+  getCheckInBlockReason,
+} from '../services/checkInService';
+import { MemberCheckIn, MemberRecord } from '../types/members';
+
+const MAX_SEARCH_RESULTS = 8;
+
+const CheckInPage = () => {
+  const { userData } = useRoleControl();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<MemberRecord[]>([]);
+  const [todayClasses, setTodayClasses] = useState<ClassRecord[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState('');
+  const [checkIns, setCheckIns] = useState<MemberCheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Warm the member cache and load today's sessions
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [, classes, packages] = await Promise.all([
+          getAllMembers(true),
+          getAllClasses(),
+          getAllPackages(),
+        ]);
+
+        const packageSessions = packages.flatMap(pkg => pkg.sessions || []);
+        const sessionsToday = [...classes, ...packageSessions]
+          .filter(c => c.isActive && isToday(c.date.toDate()))
+          .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+        setTodayClasses(sessionsToday);
+      } catch (err: any) {
+        console.error('Error loading check-in data:', err);
+        setError(err.message || 'Failed to load check-in data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  // Live list of today's check-ins
+  useEffect(() => {
+    const unsubscribe = subscribeTodayCheckIns(
+      setCheckIns,
+      (err) => setError(err.message)
+    );
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    searchMembers(searchTerm)
+      .then(members => {
+        if (!cancelled) {
+          setResults(members.filter(m => m.isActive).slice(0, MAX_SEARCH_RESULTS));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm]);
+
+  const checkedInToday = useMemo(
+    () => new Set(checkIns.map(c => c.memberId)),
+    [checkIns]
+  );
+
+  const handleCheckIn = async (member: MemberRecord) => {
+    if (!userData) return;
+
+    try {
+      setSubmittingId(member.id);
+      const classRecord = todayClasses.find(c => c.id === selectedClassId);
+      await checkInMember(member.id, userData.uid, userData.fullName, { classRecord });
+      setSuccess(`${member.firstName} ${member.lastName} checked in`);
+      setSearchTerm('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to check in member');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const handleCheckOut = async (checkIn: MemberCheckIn) => {
+    try {
+      setSubmittingId(checkIn.id);
+      await checkOutMember(checkIn.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to check out member');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const getInitials = (name: string) =>
+    name.split(' ').map(part => part.charAt(0)).join('').slice(0, 2).toUpperCase();
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 2, sm: 3, md: 4 } }}>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography
+          variant="h4"
+          sx={{
+            fontWeight: 700,
+            fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+            color: 'text.primary',
+            mb: 0.5
+          }}
+        >
+          Check-In
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {format(new Date(), 'EEEE, MMM dd, yyyy')} · {checkIns.length} check-in{checkIns.length === 1 ? '' : 's'} today
+        </Typography>
+      </Box>
+
+      <Box sx={{
+        display: 'grid',
+        gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+        gap: 3,
+      }}>
+        {/* Member search */}
+        <Paper sx={{ p: { xs: 2, sm: 3 } }}>
+          <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+            Find Member
+          </Typography>
+
+          <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+            <InputLabel>Class (optional)</InputLabel>
+            <Select
+              value={selectedClassId}
+              label="Class (optional)"
+              onChange={(e) => setSelectedClassId(e.target.value)}
+            >
+              <MenuItem value="">Open mat / general visit</MenuItem>
+              {todayClasses.map(classItem => (
+                <MenuItem key={classItem.id} value={classItem.id}>
+                  {classItem.startTime} · {classItem.title}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            fullWidth
+            autoFocus
+            placeholder="Search by name, email or phone"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            disabled={loading}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon />
+                </InputAdornment>
+              ),
+            }}
+          />
+
+          {loading && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {!loading && searchTerm.trim() && results.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2, textAlign: 'center' }}>
+              No members found
+            </Typography>
+          )}
+
+          <List sx={{ mt: 1 }}>
+            {results.map(member => {
+              const blockReason = getCheckInBlockReason(member);
+              const alreadyIn = checkedInToday.has(member.id);
+              const membership = member.membership;
+
+              return (
+                <ListItem
+                  key={member.id}
+                  disablePadding
+                  secondaryAction={
+                    <Button
+                      variant="contained"
+                      size="small"
+                      startIcon={<HowToRegIcon />}
+                      disabled={!!blockReason || submittingId === member.id}
+                      onClick={() => handleCheckIn(member)}
+                    >
+                      Check In
+                    </Button>
+                  }
+                >
+                  <ListItemButton
+                    onClick={() => !blockReason && handleCheckIn(member)}
+                    disabled={submittingId === member.id}
+                    sx={{ pr: 16 }}
+                  >
+                    <ListItemAvatar>
+                      <Avatar>{getInitials(`${member.firstName} ${member.lastName}`)}</Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                          {member.firstName} {member.lastName}
+                          {alreadyIn && <Chip label="In today" size="small" color="info" />}
+                        </Box>
+                      }
+                      secondary={
+                        blockReason || (membership?.type === 'Prepaid'
+                          ? `Prepaid · ${membership.remainingCredits ?? 0} credits left`
+                          : `${membership?.type || 'No'} membership · ${membership?.status}`)
+                      }
+                      secondaryTypographyProps={{
+                        color: blockReason ? 'error' : 'text.secondary',
+                      }}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              );
+            })}
+          </List>
+        </Paper>
+
+        {/* Today's check-ins */}
+        <Paper sx={{ p: { xs: 2, sm: 3 } }}>
+          <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+            Today's Check-Ins
+          </Typography>
+
+          {checkIns.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+              No one has checked in yet today
+            </Typography>
+          ) : (
+            <List disablePadding>
+              {checkIns.map((checkIn, index) => (
+                <React.Fragment key={checkIn.id}>
+                  {index > 0 && <Divider component="li" />}
+                  <ListItem
+                    secondaryAction={
+                      checkIn.checkOutTime ? (
+                        <Chip
+                          label={`Out ${format(checkIn.checkOutTime.toDate(), 'h:mm a')}`}
+                          size="small"
+                          variant="outlined"
+                        />
+                      ) : (
+                        <Button
+                          size="small"
+                          startIcon={<LogoutIcon />}
+                          disabled={submittingId === checkIn.id}
+                          onClick={() => handleCheckOut(checkIn)}
+                        >
+                          Check Out
+                        </Button>
+                      )
+                    }
+                  >
+                    <ListItemText
+                      primary={checkIn.memberName}
+                      secondary={`${format(checkIn.checkInTime.toDate(), 'h:mm a')}${checkIn.className ? ` · ${checkIn.className}` : ''} · by ${checkIn.createdByName}`}
+                    />
+                  </ListItem>
+                </React.Fragment>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </Box>
+
+      <Snackbar
+        open={!!success}
+        autoHideDuration={3000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={6000}
+        onClose={() => setError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </Container>
+  );
+};
+
+export default CheckInPage;
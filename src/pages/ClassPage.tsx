@@ -32,7 +32,7 @@ const ClassesPage = () => {
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { canCreateClasses, isAdmin } = useRoleControl();
+  const { canCreateClasses } = useRoleControl();
 
   // Handle data loaded from ClassTable
   const handleDataLoaded = ({ classList, packageList }: { classList: ClassRecord[], packageList: PackageRecord[] }) => {
@@ -142,12 +142,12 @@ const ClassesPage = () => {
               Classes & Workshops
             </Typography>
             <Typography variant="body1" color="text.secondary">
-              {isAdmin ? 'Manage your fitness classes and special workshops' : 'View available classes and workshops'}
+              {canCreateClasses ? 'Manage your fitness classes and special workshops' : 'View available classes and workshops'}
             </Typography>
           </Box>
           
           {/* Desktop Add Button - Sadece admin için */}
-          <ProtectedComponent allowedRoles={['admin']}>
+          <ProtectedComponent permission="classes.manage">
             {!isMobile && (
               <Button 
                 variant="contained" 
@@ -208,7 +208,7 @@ const ClassesPage = () => {
         </Paper>
 
         {/* Real Stats Cards - Sadece admin için */}
-        <ProtectedComponent allowedRoles={['admin']}>
+        <ProtectedComponent permission="classes.manage">
           <Box sx={{ 
             display: 'grid', 
             gridTemplateColumns: { 
@@ -273,7 +273,7 @@ const ClassesPage = () => {
       </Container>
 
       {/* Mobile Floating Action Button - Sadece admin için */}
-      <ProtectedComponent allowedRoles={['admin']}>
+      <ProtectedComponent permission="classes.manage">
         {isMobile && (
           <Fab
             color="primary"
@@ -296,7 +296,7 @@ const ClassesPage = () => {
       </ProtectedComponent>
 
       {/* Class/Workshop Form Modal - Sadece admin için */}
-      <ProtectedComponent allowedRoles={['admin']}>
+      <ProtectedComponent permission="classes.manage">
         <ClassForm 
           open={openForm} 
           onClose={handleFormClose}
@@ -287,7 +287,7 @@ const DashboardPage = () => {
 
   return (
     <ProtectedComponent 
-      allowedRoles={['admin']}
+      permission="dashboard.view"
       showFallback={true}
       fallbackComponent={
         <Container maxWidth="xl" sx={{ py: 4, textAlign: 'center' }}>
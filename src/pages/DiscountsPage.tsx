@@ -30,7 +30,7 @@ const DiscountsPage = () => {
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { isAdmin } = useRoleControl();
+  const { canCreateDiscounts } = useRoleControl();
 
   // Calculate real stats from data
   const stats = useMemo(() => {
@@ -137,12 +137,12 @@ const DiscountsPage = () => {
               Discount Codes
             </Typography>
             <Typography variant="body1" color="text.secondary">
-              {isAdmin ? 'Create and manage discount codes for classes, workshops, and packages' : 'View available discount codes and their usage'}
+              {canCreateDiscounts ? 'Create and manage discount codes for classes, workshops, and packages' : 'View available discount codes and their usage'}
             </Typography>
           </Box>
 
           {/* Desktop Add Button - Sadece admin için */}
-          <ProtectedComponent allowedRoles={['admin']}>
+          <ProtectedComponent permission="discounts.manage">
             {!isMobile && (
               <Button
                 variant="contained"
@@ -168,7 +168,7 @@ const DiscountsPage = () => {
         </Box>
 
         {/* Stats Cards - Sadece admin için */}
-        <ProtectedComponent allowedRoles={['admin']}>
+        <ProtectedComponent permission="discounts.manage">
           <Box sx={{
             display: 'grid',
             gridTemplateColumns: {
@@ -302,7 +302,7 @@ const DiscountsPage = () => {
       </Container>
 
       {/* Mobile Floating Action Button - Sadece admin için */}
-      <ProtectedComponent allowedRoles={['admin']}>
+      <ProtectedComponent permission="discounts.manage">
         {isMobile && (
           <Fab
             color="primary"
@@ -325,7 +325,7 @@ const DiscountsPage = () => {
       </ProtectedComponent>
 
       {/* Discount Form Modal - Sadece admin için */}
-      <ProtectedComponent allowedRoles={['admin']}>
+      <ProtectedComponent permission="discounts.manage">
         <DiscountForm
           open={openForm}
           onClose={handleFormClose}
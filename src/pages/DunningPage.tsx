@@ -0,0 +1,561 @@
+// src/pages/DunningPage.tsx - Overdue recurring memberships and follow-up queue
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Typography,
+  Box,
+  Container,
+  Paper,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Checkbox,
+  Card,
+  CardContent,
+  Chip,
+  TextField,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Snackbar,
+  CircularProgress,
+  InputAdornment,
+  IconButton,
+  Tooltip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import EmailIcon from '@mui/icons-material/Email';
+import PhoneIcon from '@mui/icons-material/Phone';
+import PauseCircleIcon from '@mui/icons-material/PauseCircle';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import SaveIcon from '@mui/icons-material/Save';
+import { format } from 'date-fns';
+import { useRoleControl } from '../hooks/useRoleControl';
+import {
+  getBillingSettings,
+  updateBillingSettings,
+  evaluateOverdueMembers,
+  getDunningQueue,
+  recordFollowUps,
+} from '../services/dunningService';
+import { bulkUpdateMemberStatus } from '../services/memberService';
+import { DunningFollowUpType, DunningQueueItem } from '../types/billing';
+import { MemberRecord } from '../types/members';
+import MemberDetailDialog from '../components/MemberDetailDialog';
+
+const FOLLOW_UP_TYPES: { value: DunningFollowUpType; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone call' },
+  { value: 'sms', label: 'Text message' },
+  { value: 'in_person', label: 'In person' },
+];
+
+const getSeverityColor = (daysOverdue: number) => {
+  if (daysOverdue >= 30) return 'error';
+  if (daysOverdue >= 14) return 'warning';
+  return 'default';
+};
+
+const DunningPage = () => {
+  const [queue, setQueue] = useState<DunningQueueItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [gracePeriodDays, setGracePeriodDays] = useState('');
+  const [savedGracePeriod, setSavedGracePeriod] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [followUpOpen, setFollowUpOpen] = useState(false);
+  const [followUpType, setFollowUpType] = useState<DunningFollowUpType>('email');
+  const [followUpNote, setFollowUpNote] = useState('');
+  const [viewMember, setViewMember] = useState<MemberRecord | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { userData } = useRoleControl();
+
+  const loadQueue = useCallback(async (useCache = true) => {
+    const items = await getDunningQueue(useCache);
+    setQueue(items);
+    setSelectedIds(prev => new Set(items.filter(i => prev.has(i.member.id)).map(i => i.member.id)));
+  }, []);
+
+  // Run the overdue check on load so the queue reflects today's due dates
+  const runEvaluation = useCallback(async (graceDays?: number) => {
+    if (!userData) return;
+    const result = await evaluateOverdueMembers(userData.uid, userData.fullName, graceDays);
+    if (result.markedOverdue.length > 0) {
+      setSuccess(`${result.markedOverdue.length} member${result.markedOverdue.length === 1 ? '' : 's'} moved to Overdue`);
+    }
+    if (result.failed.length > 0) {
+      setError(`Failed to update ${result.failed.length} member(s)`);
+    }
+    await loadQueue(false);
+  }, [userData, loadQueue]);
+
+  useEffect(() => {
+    const init = async () => {
+      if (!userData) return;
+      try {
+        setLoading(true);
+        const settings = await getBillingSettings();
+        setGracePeriodDays(String(settings.gracePeriodDays));
+        setSavedGracePeriod(settings.gracePeriodDays);
+        await runEvaluation(settings.gracePeriodDays);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load dunning queue');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, [userData, runEvaluation]);
+
+  const selectedItems = useMemo(
+    () => queue.filter(item => selectedIds.has(item.member.id)),
+    [queue, selectedIds]
+  );
+
+  const totals = useMemo(() => ({
+    count: queue.length,
+    owed: queue.reduce((sum, item) => sum + item.amountOwed, 0),
+    avgDays: queue.length
+      ? Math.round(queue.reduce((sum, item) => sum + item.daysOverdue, 0) / queue.length)
+      : 0,
+  }), [queue]);
+
+  const handleRunCheck = async () => {
+    try {
+      setWorking(true);
+      await runEvaluation(savedGracePeriod ?? undefined);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSaveGracePeriod = async () => {
+    if (!userData) return;
+    const days = parseInt(gracePeriodDays, 10);
+    if (isNaN(days) || days < 0) {
+      setError('Grace period must be zero or more days');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      await updateBillingSettings({ gracePeriodDays: days }, userData.uid);
+      setSavedGracePeriod(days);
+      setSuccess('Grace period updated');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleSelected = (memberId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(memberId)) {
+        next.delete(memberId);
+      } else {
+        next.add(memberId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(prev =>
+      prev.size === queue.length ? new Set() : new Set(queue.map(item => item.member.id))
+    );
+  };
+
+  const handleEmailSelected = () => {
+    const emails = selectedItems.map(item => item.member.email).filter(Boolean);
+    if (emails.length === 0) return;
+    window.location.href = `mailto:?bcc=${encodeURIComponent(emails.join(','))}&subject=${encodeURIComponent('Your Pacific MMA membership payment is past due')}`;
+    setFollowUpType('email');
+    setFollowUpOpen(true);
+  };
+
+  const handleLogFollowUp = async () => {
+    if (!userData || selectedItems.length === 0) return;
+    try {
+      setWorking(true);
+      const count = await recordFollowUps(
+        selectedItems,
+        followUpType,
+        userData.uid,
+        userData.fullName,
+        followUpNote.trim() || undefined
+      );
+      setFollowUpOpen(false);
+      setFollowUpNote('');
+      setSelectedIds(new Set());
+      setSuccess(`Logged follow-up for ${count} member${count === 1 ? '' : 's'}`);
+      await loadQueue(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePauseSelected = async () => {
+    if (!userData || selectedItems.length === 0) return;
+    try {
+      setWorking(true);
+      const result = await bulkUpdateMemberStatus(
+        selectedItems.map(item => item.member.id),
+        'Paused',
+        userData.uid,
+        'Paused from dunning queue (unpaid balance)'
+      );
+      if (result.failed.length > 0) {
+        setError(`Failed to pause ${result.failed.length} member(s)`);
+      } else {
+        setSuccess(`Paused ${result.successful.length} member${result.successful.length === 1 ? '' : 's'}`);
+      }
+      setSelectedIds(new Set());
+      await loadQueue(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDetailClose = () => {
+    setViewMember(null);
+    loadQueue(false).catch(err => setError(err.message));
+  };
+
+  const formatFollowUp = (item: DunningQueueItem) =>
+    item.lastFollowUpDate
+      ? `${item.followUpCount}× · last ${format(item.lastFollowUpDate, 'MMM dd')}`
+      : 'None';
+
+  if (loading) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 200 }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: { xs: 2, sm: 3, md: 4 }, px: { xs: 2, sm: 3 } }}>
+      {/* Header */}
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', sm: 'row' },
+        justifyContent: 'space-between',
+        alignItems: { xs: 'flex-start', sm: 'center' },
+        gap: 2,
+        mb: 4,
+      }}>
+        <Box>
+          <Typography
+            variant="h4"
+            sx={{
+              fontWeight: 700,
+              fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+              color: 'text.primary',
+              mb: 0.5
+            }}
+          >
+            Dunning Queue
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Recurring members whose payment is past due
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            size="small"
+            type="number"
+            label="Grace period"
+            value={gracePeriodDays}
+            onChange={(e) => setGracePeriodDays(e.target.value)}
+            sx={{ width: 150 }}
+            InputProps={{
+              endAdornment: <InputAdornment position="end">days</InputAdornment>,
+            }}
+          />
+          <Tooltip title="Save grace period">
+            <span>
+              <IconButton
+                onClick={handleSaveGracePeriod}
+                disabled={working || String(savedGracePeriod) === gracePeriodDays}
+              >
+                <SaveIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Button
+            variant="outlined"
+            startIcon={working ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={handleRunCheck}
+            disabled={working}
+          >
+            Run Check
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Summary */}
+      <Box sx={{
+        display: 'grid',
+        gridTemplateColumns: { xs: 'repeat(3, 1fr)' },
+        gap: { xs: 1, sm: 2 },
+        mb: 3,
+      }}>
+        {[
+          { label: 'Overdue Members', value: totals.count, color: 'error.main' },
+          { label: 'Total Owed', value: `$${totals.owed.toLocaleString()}`, color: 'warning.main' },
+          { label: 'Avg. Days Overdue', value: totals.avgDays, color: 'text.primary' },
+        ].map(stat => (
+          <Paper key={stat.label} sx={{ p: { xs: 1.5, sm: 2 }, textAlign: 'center' }}>
+            <Typography variant="h5" fontWeight={700} color={stat.color}>
+              {stat.value}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {stat.label}
+            </Typography>
+          </Paper>
+        ))}
+      </Box>
+
+      {/* Bulk actions */}
+      {selectedItems.length > 0 && (
+        <Paper sx={{ p: 1.5, mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="body2" sx={{ mr: 1 }}>
+            {selectedItems.length} selected
+          </Typography>
+          <Button size="small" startIcon={<EmailIcon />} onClick={handleEmailSelected} disabled={working}>
+            Email
+          </Button>
+          <Button size="small" startIcon={<NoteAddIcon />} onClick={() => setFollowUpOpen(true)} disabled={working}>
+            Log Follow-Up
+          </Button>
+          <Button size="small" color="warning" startIcon={<PauseCircleIcon />} onClick={handlePauseSelected} disabled={working}>
+            Pause Memberships
+          </Button>
+        </Paper>
+      )}
+
+      {queue.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography variant="h6" color="text.secondary">
+            No overdue members
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Everyone on a recurring plan is paid up.
+          </Typography>
+        </Paper>
+      ) : isMobile ? (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {queue.map(item => (
+            <Card key={item.member.id}>
+              <CardContent>
+                <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                  <Checkbox
+                    checked={selectedIds.has(item.member.id)}
+                    onChange={() => toggleSelected(item.member.id)}
+                    sx={{ p: 0.5 }}
+                  />
+                  <Box sx={{ flexGrow: 1 }}>
+                    <Typography fontWeight={600}>
+                      {item.member.firstName} {item.member.lastName}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {item.member.email} · {item.member.phone}
+                    </Typography>
+                    <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                      <Chip
+                        label={`${item.daysOverdue} days`}
+                        size="small"
+                        color={getSeverityColor(item.daysOverdue) as any}
+                      />
+                      <Chip label={`$${item.amountOwed.toFixed(2)} owed`} size="small" variant="outlined" />
+                    </Box>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                      Follow-ups: {formatFollowUp(item)}
+                    </Typography>
+                  </Box>
+                  <IconButton size="small" onClick={() => setViewMember(item.member)}>
+                    <VisibilityIcon />
+                  </IconButton>
+                </Box>
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selectedIds.size === queue.length}
+                    indeterminate={selectedIds.size > 0 && selectedIds.size < queue.length}
+                    onChange={toggleAll}
+                  />
+                </TableCell>
+                <TableCell>Member</TableCell>
+                <TableCell>Contact</TableCell>
+                <TableCell>Due Date</TableCell>
+                <TableCell>Days Overdue</TableCell>
+                <TableCell align="right">Amount Owed</TableCell>
+                <TableCell>Follow-Ups</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {queue.map(item => (
+                <TableRow key={item.member.id} hover selected={selectedIds.has(item.member.id)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={selectedIds.has(item.member.id)}
+                      onChange={() => toggleSelected(item.member.id)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography fontWeight={600}>
+                      {item.member.firstName} {item.member.lastName}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      ${item.member.membership.monthlyAmount || 0}/month
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <EmailIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                      <Typography variant="body2">{item.member.email}</Typography>
+                    </Box>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <PhoneIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                      <Typography variant="body2">{item.member.phone}</Typography>
+                    </Box>
+                  </TableCell>
+                  <TableCell>{item.dueDate ? format(item.dueDate, 'MMM dd, yyyy') : '—'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={`${item.daysOverdue} days`}
+                      size="small"
+                      color={getSeverityColor(item.daysOverdue) as any}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography fontWeight={600}>${item.amountOwed.toFixed(2)}</Typography>
+                    {item.periodsMissed > 1 && (
+                      <Typography variant="caption" color="text.secondary">
+                        {item.periodsMissed} months
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{formatFollowUp(item)}</Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="View member / record payment">
+                      <IconButton size="small" onClick={() => setViewMember(item.member)}>
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Follow-up dialog */}
+      <Dialog open={followUpOpen} onClose={() => !working && setFollowUpOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Log Follow-Up</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Record a follow-up for {selectedItems.length} member{selectedItems.length === 1 ? '' : 's'}.
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              select
+              label="Contact method"
+              value={followUpType}
+              onChange={(e) => setFollowUpType(e.target.value as DunningFollowUpType)}
+              fullWidth
+            >
+              {FOLLOW_UP_TYPES.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Note"
+              value={followUpNote}
+              onChange={(e) => setFollowUpNote(e.target.value)}
+              multiline
+              rows={3}
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFollowUpOpen(false)} disabled={working}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleLogFollowUp} disabled={working}>
+            {working ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <MemberDetailDialog
+        open={!!viewMember}
+        member={viewMember}
+        onClose={handleDetailClose}
+      />
+
+      <Snackbar
+        open={!!success}
+        autoHideDuration={4000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={6000}
+        onClose={() => setError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </Container>
+  );
+};
+
+export default DunningPage;
@@ -0,0 +1,33 @@
+// src/pages/ForbiddenPage.tsx - 403 shown when a signed-in user opens a page their role can't use
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Box, Button, Container, Paper, Typography } from '@mui/material';
+import BlockIcon from '@mui/icons-material/Block';
+
+const ForbiddenPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Container maxWidth="sm" sx={{ py: { xs: 4, md: 8 } }}>
+      <Paper sx={{ p: { xs: 3, sm: 4 }, textAlign: 'center' }}>
+        <BlockIcon color="error" sx={{ fontSize: 56, mb: 1 }} />
+        <Typography variant="h4" sx={{ fontWeight: 700, mb: 1 }}>
+          403
+        </Typography>
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          You don't have access to this page
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Your role doesn't include this section. If you think you should have access, ask an administrator.
+        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+          <Button variant="contained" onClick={() => navigate('/classes', { replace: true })}>
+            Go to Classes
+          </Button>
+        </Box>
+      </Paper>
+    </Container>
+  );
+};
+
+export default ForbiddenPage;
@@ -0,0 +1,595 @@
+// src/pages/LeadsPage.tsx - Package inquiry pipeline with follow-ups and conversion
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Typography,
+  Box,
+  Container,
+  Paper,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  TextField,
+  MenuItem,
+  Menu,
+  ListItemIcon,
+  ListItemText,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Snackbar,
+  CircularProgress,
+  IconButton,
+  Tabs,
+  Tab,
+  Badge,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import EditIcon from '@mui/icons-material/Edit';
+import PersonAddIcon from '@mui/icons-material/PersonAdd';
+import AssignmentIndIcon from '@mui/icons-material/AssignmentInd';
+import CancelIcon from '@mui/icons-material/Cancel';
+import EmailIcon from '@mui/icons-material/Email';
+import PhoneIcon from '@mui/icons-material/Phone';
+import EventIcon from '@mui/icons-material/Event';
+import { format, isBefore, startOfDay } from 'date-fns';
+import {
+  InquiryStatus,
+  MembershipPackageRecord,
+  PackageInquiry,
+} from '../types/membershipPackages';
+import {
+  getAllInquiries,
+  updateInquiryStatus,
+  assignInquiry,
+  getFollowUpsDue,
+  INQUIRY_STATUSES,
+} from '../services/leadService';
+import { getAllMembershipPackages } from '../services/membershipPackageService';
+import { getActiveStaff, StaffRecord } from '../services/staffService';
+import LeadForm, { INQUIRY_SOURCES } from '../components/LeadForm';
+import LeadConvertDialog from '../components/LeadConvertDialog';
+
+const STATUS_COLORS: Record<InquiryStatus, string> = {
+  New: 'info.main',
+  Contacted: 'primary.main',
+  Scheduled: 'warning.main',
+  Converted: 'success.main',
+  Lost: 'text.disabled',
+};
+
+const getSourceLabel = (source: string) =>
+  INQUIRY_SOURCES.find(s => s.value === source)?.label || source;
+
+const LeadsPage = () => {
+  const [inquiries, setInquiries] = useState<PackageInquiry[]>([]);
+  const [packages, setPackages] = useState<MembershipPackageRecord[]>([]);
+  const [staff, setStaff] = useState<StaffRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [tabValue, setTabValue] = useState(0);
+  const [mobileStatus, setMobileStatus] = useState<InquiryStatus>('New');
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editLead, setEditLead] = useState<PackageInquiry | undefined>(undefined);
+  const [convertLead, setConvertLead] = useState<PackageInquiry | null>(null);
+  const [lostLead, setLostLead] = useState<PackageInquiry | null>(null);
+  const [lostReason, setLostReason] = useState('');
+  const [assignLead, setAssignLead] = useState<PackageInquiry | null>(null);
+  const [assignStaffId, setAssignStaffId] = useState('');
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [menuLead, setMenuLead] = useState<PackageInquiry | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dragOverStatus, setDragOverStatus] = useState<InquiryStatus | null>(null);
+
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+
+  const loadInquiries = useCallback(async () => {
+    setInquiries(await getAllInquiries());
+  }, []);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        setLoading(true);
+        const [, packageList, staffList] = await Promise.all([
+          loadInquiries(),
+          getAllMembershipPackages(),
+          getActiveStaff(),
+        ]);
+        setPackages(packageList);
+        setStaff(staffList);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load leads');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    init();
+  }, [loadInquiries]);
+
+  const columns = useMemo(() => {
+    const grouped = {} as Record<InquiryStatus, PackageInquiry[]>;
+    INQUIRY_STATUSES.forEach(status => {
+      grouped[status] = inquiries.filter(inq => inq.status === status);
+    });
+    return grouped;
+  }, [inquiries]);
+
+  const followUpsDue = useMemo(() => getFollowUpsDue(inquiries), [inquiries]);
+
+  const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, lead: PackageInquiry) => {
+    setMenuAnchor(event.currentTarget);
+    setMenuLead(lead);
+  };
+
+  const handleMenuClose = () => {
+    setMenuAnchor(null);
+    setMenuLead(null);
+  };
+
+  const openEdit = (lead?: PackageInquiry) => {
+    setEditLead(lead);
+    setFormOpen(true);
+  };
+
+  const openLost = (lead: PackageInquiry) => {
+    setLostReason('');
+    setLostLead(lead);
+  };
+
+  const openAssign = (lead: PackageInquiry) => {
+    setAssignStaffId(lead.assignedTo || '');
+    setAssignLead(lead);
+  };
+
+  const handleStatusChange = async (lead: PackageInquiry, status: InquiryStatus) => {
+    if (lead.status === status || lead.status === 'Converted') return;
+    if (status === 'Converted') {
+      setConvertLead(lead);
+      return;
+    }
+    if (status === 'Lost') {
+      openLost(lead);
+      return;
+    }
+
+    try {
+      setWorking(true);
+      await updateInquiryStatus(lead.id, status);
+      await loadInquiries();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDrop = (status: InquiryStatus) => {
+    const lead = inquiries.find(inq => inq.id === draggedId);
+    setDraggedId(null);
+    setDragOverStatus(null);
+    if (lead) handleStatusChange(lead, status);
+  };
+
+  const handleMarkLost = async () => {
+    if (!lostLead) return;
+    try {
+      setWorking(true);
+      await updateInquiryStatus(lostLead.id, 'Lost', lostReason.trim() || undefined);
+      setLostLead(null);
+      setSuccess(`${lostLead.name} marked as lost`);
+      await loadInquiries();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    if (!assignLead) return;
+    const member = staff.find(s => s.id === assignStaffId);
+    try {
+      setWorking(true);
+      await assignInquiry(assignLead.id, member ? { id: member.id, name: member.fullName } : null);
+      setAssignLead(null);
+      setSuccess(member ? `Assigned to ${member.fullName}` : 'Lead unassigned');
+      await loadInquiries();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFormClose = async (saved: boolean) => {
+    setFormOpen(false);
+    setEditLead(undefined);
+    if (saved) {
+      setSuccess('Lead saved');
+      await loadInquiries().catch(err => setError(err.message));
+    }
+  };
+
+  const handleConvertClose = async (converted: boolean) => {
+    setConvertLead(null);
+    if (converted) {
+      await loadInquiries().catch(err => setError(err.message));
+    }
+  };
+
+  const renderLeadCard = (lead: PackageInquiry) => {
+    const isOverdue = lead.followUpDate && isBefore(lead.followUpDate, startOfDay(new Date()));
+    const isClosed = lead.status === 'Converted' || lead.status === 'Lost';
+
+    return (
+      <Card
+        key={lead.id}
+        draggable={!isMobile && lead.status !== 'Converted'}
+        onDragStart={() => setDraggedId(lead.id)}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDragOverStatus(null);
+        }}
+        sx={{
+          cursor: !isMobile && lead.status !== 'Converted' ? 'grab' : 'default',
+          opacity: draggedId === lead.id ? 0.5 : 1,
+        }}
+      >
+        <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <Typography fontWeight={600} noWrap>
+                {lead.name}
+              </Typography>
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {lead.packageName}
+              </Typography>
+            </Box>
+            {lead.status !== 'Converted' && (
+              <IconButton size="small" onClick={(e) => handleMenuOpen(e, lead)}>
+                <MoreVertIcon fontSize="small" />
+              </IconButton>
+            )}
+          </Box>
+
+          <Box sx={{ mt: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <EmailIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+              <Typography variant="caption" noWrap>{lead.email}</Typography>
+            </Box>
+            {lead.phone && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <PhoneIcon sx={{ fontSize: 14, color: 'text.secondary' }} />
+                <Typography variant="caption">{lead.phone}</Typography>
+              </Box>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
+            <Chip label={getSourceLabel(lead.source)} size="small" variant="outlined" />
+            {lead.assignedToName && (
+              <Chip label={lead.assignedToName} size="small" color="primary" variant="outlined" />
+            )}
+            {lead.followUpDate && !isClosed && (
+              <Chip
+                icon={<EventIcon />}
+                label={format(lead.followUpDate, 'MMM dd')}
+                size="small"
+                color={isOverdue ? 'error' : 'default'}
+              />
+            )}
+          </Box>
+
+          {lead.status === 'Lost' && lead.lostReason && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Lost: {lead.lostReason}
+            </Typography>
+          )}
+          {lead.status === 'Converted' && lead.convertedAt && (
+            <Typography variant="caption" color="success.main" sx={{ display: 'block', mt: 1 }}>
+              Converted {format(lead.convertedAt, 'MMM dd, yyyy')}
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 200 }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: { xs: 2, sm: 3, md: 4 }, px: { xs: 2, sm: 3 } }}>
+      {/* Header */}
+      <Box sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', sm: 'row' },
+        justifyContent: 'space-between',
+        alignItems: { xs: 'flex-start', sm: 'center' },
+        gap: 2,
+        mb: 3,
+      }}>
+        <Box>
+          <Typography
+            variant="h4"
+            sx={{
+              fontWeight: 700,
+              fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+              color: 'text.primary',
+              mb: 0.5
+            }}
+          >
+            Leads
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Track package inquiries from first contact to membership
+          </Typography>
+        </Box>
+
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => openEdit()}
+          fullWidth={isMobile}
+        >
+          Add Lead
+        </Button>
+      </Box>
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+        <Tabs value={tabValue} onChange={(_, value) => setTabValue(value)}>
+          <Tab label="Pipeline" />
+          <Tab
+            label={
+              <Badge badgeContent={followUpsDue.length} color="error" sx={{ pr: 1.5 }}>
+                Follow-ups Due
+              </Badge>
+            }
+          />
+        </Tabs>
+      </Box>
+
+      {tabValue === 0 && isMobile && (
+        <>
+          <TextField
+            select
+            size="small"
+            label="Stage"
+            value={mobileStatus}
+            onChange={(e) => setMobileStatus(e.target.value as InquiryStatus)}
+            fullWidth
+            sx={{ mb: 2 }}
+          >
+            {INQUIRY_STATUSES.map(status => (
+              <MenuItem key={status} value={status}>
+                {status} ({columns[status].length})
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            {columns[mobileStatus].length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                No leads in this stage
+              </Typography>
+            ) : (
+              columns[mobileStatus].map(renderLeadCard)
+            )}
+          </Box>
+        </>
+      )}
+
+      {tabValue === 0 && !isMobile && (
+        <Box sx={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${INQUIRY_STATUSES.length}, minmax(220px, 1fr))`,
+          gap: 2,
+          overflowX: 'auto',
+          pb: 1,
+        }}>
+          {INQUIRY_STATUSES.map(status => (
+            <Paper
+              key={status}
+              variant="outlined"
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverStatus(status);
+              }}
+              onDragLeave={() => setDragOverStatus(prev => (prev === status ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status);
+              }}
+              sx={{
+                p: 1.5,
+                minHeight: 400,
+                bgcolor: dragOverStatus === status ? 'action.hover' : 'background.default',
+                borderTop: 3,
+                borderTopColor: STATUS_COLORS[status],
+              }}
+            >
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+                <Typography variant="subtitle2" fontWeight={700}>
+                  {status}
+                </Typography>
+                <Chip label={columns[status].length} size="small" />
+              </Box>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                {columns[status].map(renderLeadCard)}
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      {tabValue === 1 && (
+        followUpsDue.length === 0 ? (
+          <Paper sx={{ p: 4, textAlign: 'center' }}>
+            <Typography variant="h6" color="text.secondary">
+              No follow-ups due
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Set a follow-up date on a lead to see it here when it comes due.
+            </Typography>
+          </Paper>
+        ) : (
+          <Box sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(3, 1fr)' },
+            gap: 2,
+          }}>
+            {followUpsDue.map(renderLeadCard)}
+          </Box>
+        )
+      )}
+
+      {/* Lead actions */}
+      <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={handleMenuClose}>
+        {menuLead && [
+          <MenuItem key="edit" onClick={() => { openEdit(menuLead); handleMenuClose(); }}>
+            <ListItemIcon><EditIcon fontSize="small" /></ListItemIcon>
+            <ListItemText>Edit</ListItemText>
+          </MenuItem>,
+          <MenuItem key="assign" onClick={() => { openAssign(menuLead); handleMenuClose(); }}>
+            <ListItemIcon><AssignmentIndIcon fontSize="small" /></ListItemIcon>
+            <ListItemText>Assign</ListItemText>
+          </MenuItem>,
+          ...(isMobile
+            ? INQUIRY_STATUSES
+                .filter(status => status !== menuLead.status && status !== 'Converted' && status !== 'Lost')
+                .map(status => (
+                  <MenuItem
+                    key={status}
+                    onClick={() => { handleStatusChange(menuLead, status); handleMenuClose(); }}
+                    disabled={working}
+                  >
+                    <ListItemText inset>Move to {status}</ListItemText>
+                  </MenuItem>
+                ))
+            : []),
+          <MenuItem key="convert" onClick={() => { setConvertLead(menuLead); handleMenuClose(); }}>
+            <ListItemIcon><PersonAddIcon fontSize="small" color="success" /></ListItemIcon>
+            <ListItemText>Convert to Member</ListItemText>
+          </MenuItem>,
+          menuLead.status !== 'Lost' && (
+            <MenuItem key="lost" onClick={() => { openLost(menuLead); handleMenuClose(); }} sx={{ color: 'error.main' }}>
+              <ListItemIcon><CancelIcon fontSize="small" color="error" /></ListItemIcon>
+              <ListItemText>Mark Lost</ListItemText>
+            </MenuItem>
+          ),
+        ]}
+      </Menu>
+
+      {/* Mark lost dialog */}
+      <Dialog open={!!lostLead} onClose={() => !working && setLostLead(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Mark Lead as Lost</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Why didn't {lostLead?.name} sign up?
+          </Typography>
+          <TextField
+            label="Reason"
+            value={lostReason}
+            onChange={(e) => setLostReason(e.target.value)}
+            placeholder="e.g. Price, schedule, joined another gym"
+            multiline
+            rows={2}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setLostLead(null)} disabled={working}>
+            Cancel
+          </Button>
+          <Button variant="contained" color="error" onClick={handleMarkLost} disabled={working}>
+            {working ? 'Saving...' : 'Mark Lost'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Assign dialog */}
+      <Dialog open={!!assignLead} onClose={() => !working && setAssignLead(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Assign Lead</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            label="Staff member"
+            value={assignStaffId}
+            onChange={(e) => setAssignStaffId(e.target.value)}
+            fullWidth
+            sx={{ mt: 1 }}
+          >
+            <MenuItem value="">Unassigned</MenuItem>
+            {staff.map(member => (
+              <MenuItem key={member.id} value={member.id}>{member.fullName}</MenuItem>
+            ))}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAssignLead(null)} disabled={working}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleAssign} disabled={working}>
+            {working ? 'Saving...' : 'Assign'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <LeadForm
+        open={formOpen}
+        onClose={handleFormClose}
+        packages={packages}
+        staff={staff}
+        editData={editLead}
+      />
+
+      <LeadConvertDialog
+        open={!!convertLead}
+        inquiry={convertLead}
+        pkg={packages.find(p => p.id === convertLead?.packageId)}
+        onClose={handleConvertClose}
+      />
+
+      <Snackbar
+        open={!!success}
+        autoHideDuration={4000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={6000}
+        onClose={() => setError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </Container>
+  );
+};
+
+export default LeadsPage;
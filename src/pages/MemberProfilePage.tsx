@@ -0,0 +1,344 @@
+// src/pages/MemberProfilePage.tsx - Full member profile at /members/:id, kept live from the member document
+import React, { useEffect, useState } from 'react';
+import {
+  Typography,
+  Box,
+  Container,
+  Paper,
+  Avatar,
+  Chip,
+  Button,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import {
+  ClassEnrollment,
+  MemberBeltAward,
+  MemberCheckIn,
+  MemberRecord,
+  MemberStudentLevelAward,
+} from '../types/members';
+import {
+  subscribeMemberById,
+  getMemberBeltAwards,
+  getMemberStudentLevelAwards,
+} from '../services/memberService';
+import { getMemberCheckIns } from '../services/checkInService';
+import { getMemberEnrollments } from '../services/enrollmentService';
+import MemberOverviewPanel, { getMemberStatusColor } from '../components/MemberOverviewPanel';
+import MemberSubscriptionPanel from '../components/MemberSubscriptionPanel';
+import MemberPaymentsPanel from '../components/MemberPaymentsPanel';
+import MemberHouseholdPanel from '../components/MemberHouseholdPanel';
+import MemberActivityPanel from '../components/MemberActivityPanel';
+
+const TABS = ['Overview', 'Subscription', 'Payments', 'Check-ins', 'Bookings', 'Rank History', 'Household', 'Activity & Notes'];
+
+const ATTENDANCE_LABELS: Record<string, string> = {
+  present: 'Present',
+  late: 'Late',
+  no_show: 'No-show',
+};
+
+const formatDateTime = (date?: Timestamp) => (date ? format(date.toDate(), 'MMM d, yyyy h:mm a') : '—');
+
+const EmptyState: React.FC<{ message: string }> = ({ message }) => (
+  <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
+    <Typography color="text.secondary">{message}</Typography>
+  </Paper>
+);
+
+const MemberProfilePage = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [member, setMember] = useState<MemberRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tabValue, setTabValue] = useState(0);
+  const [checkIns, setCheckIns] = useState<MemberCheckIn[]>([]);
+  const [enrollments, setEnrollments] = useState<ClassEnrollment[]>([]);
+  const [beltAwards, setBeltAwards] = useState<MemberBeltAward[]>([]);
+  const [levelAwards, setLevelAwards] = useState<MemberStudentLevelAward[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setTabValue(0);
+    return subscribeMemberById(
+      id,
+      (updated) => {
+        setMember(updated);
+        setLoading(false);
+      },
+      (err) => {
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+  }, [id]);
+
+  // History lists only change when something new is recorded, so load them
+  // with the tab rather than on every live member update
+  const memberLoaded = !!member;
+  useEffect(() => {
+    if (!memberLoaded) return;
+
+    const load = async () => {
+      try {
+        setError(null);
+        if (tabValue === 3) {
+          setCheckIns(await getMemberCheckIns(id));
+        } else if (tabValue === 4) {
+          setEnrollments(await getMemberEnrollments(id));
+        } else if (tabValue === 5) {
+          const [belts, levels] = await Promise.all([
+            getMemberBeltAwards(id),
+            getMemberStudentLevelAwards(id),
+          ]);
+          setBeltAwards(belts);
+          setLevelAwards(levels);
+        }
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+    load();
+  }, [id, tabValue, memberLoaded]);
+
+  const renderCheckIns = () => (
+    checkIns.length === 0 ? (
+      <EmptyState message="No check-ins yet." />
+    ) : (
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Checked In</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Class</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Credits</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>By</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {checkIns.map(checkIn => (
+              <TableRow key={checkIn.id}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateTime(checkIn.checkInTime)}</TableCell>
+                <TableCell>{checkIn.className || 'Open mat'}</TableCell>
+                <TableCell align="right">{checkIn.creditsUsed || 0}</TableCell>
+                <TableCell>{checkIn.createdByName}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    )
+  );
+
+  const renderBookings = () => (
+    enrollments.length === 0 ? (
+      <EmptyState message="No class bookings yet." />
+    ) : (
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Class</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Date</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Attendance</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {enrollments.map(enrollment => (
+              <TableRow key={enrollment.id}>
+                <TableCell>
+                  {enrollment.classTitle}
+                  {enrollment.walkIn && <Chip label="Walk-in" size="small" variant="outlined" sx={{ ml: 1 }} />}
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateTime(enrollment.classDate)}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={enrollment.status}
+                    size="small"
+                    color={enrollment.status === 'Enrolled' ? 'success' : 'default'}
+                    variant="outlined"
+                  />
+                </TableCell>
+                <TableCell>
+                  {enrollment.attendance ? ATTENDANCE_LABELS[enrollment.attendance] : '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    )
+  );
+
+  const renderAwardTable = (
+    title: string,
+    rows: { id: string; name: string; dateAwarded: Timestamp; awardedByName: string; notes?: string }[]
+  ) => (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>
+        {title}
+      </Typography>
+      {rows.length === 0 ? (
+        <EmptyState message={`No ${title.toLowerCase()} recorded.`} />
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Awarded</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Date</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>By</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Notes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>{format(row.dateAwarded.toDate(), 'MMM d, yyyy')}</TableCell>
+                  <TableCell>{row.awardedByName}</TableCell>
+                  <TableCell>{row.notes || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+
+  const renderTab = (current: MemberRecord) => {
+    switch (tabValue) {
+      case 0:
+        return <MemberOverviewPanel member={current} />;
+      case 1:
+        return <MemberSubscriptionPanel member={current} />;
+      case 2:
+        return <MemberPaymentsPanel member={current} />;
+      case 3:
+        return renderCheckIns();
+      case 4:
+        return renderBookings();
+      case 5:
+        return (
+          <>
+            {renderAwardTable('Belt History', beltAwards.map(award => ({
+              ...award,
+              name: `${award.beltLevelName} (${award.style})`,
+            })))}
+            {renderAwardTable('Student Level History', levelAwards.map(award => ({
+              ...award,
+              name: award.studentLevelName,
+            })))}
+          </>
+        );
+      case 6:
+        return <MemberHouseholdPanel member={current} />;
+      default:
+        return <MemberActivityPanel member={current} />;
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!member) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || 'This member could not be found. They may have been deleted.'}
+        </Alert>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/members')}>
+          Back to Members
+        </Button>
+      </Container>
+    );
+  }
+
+  const fullName = `${member.firstName || ''} ${member.lastName || ''}`.trim();
+  const initials = `${member.firstName?.charAt(0) || ''}${member.lastName?.charAt(0) || ''}`.toUpperCase();
+  const status = member.membership?.status || 'No Membership';
+
+  return (
+    <Container maxWidth="xl" sx={{ py: { xs: 2, sm: 3, md: 4 }, px: { xs: 2, sm: 3 } }}>
+      <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/members')} sx={{ mb: 2 }}>
+        Members
+      </Button>
+
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+        <Avatar sx={{ bgcolor: 'primary.main', width: 56, height: 56 }}>{initials || '?'}</Avatar>
+        <Box sx={{ flexGrow: 1 }}>
+          <Typography
+            variant="h4"
+            sx={{
+              fontWeight: 700,
+              fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+              color: 'text.primary',
+            }}
+          >
+            {fullName || 'Unknown Member'}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            {member.email}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Chip label={status} color={getMemberStatusColor(status) as any} />
+          {member.membership?.type === 'Prepaid' && (
+            <Chip
+              label={`${member.membership.remainingCredits ?? 0} credits`}
+              variant="outlined"
+              color="primary"
+            />
+          )}
+          {member.currentBeltLevel && (
+            <Chip label={member.currentBeltLevel.name} variant="outlined" />
+          )}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
+        <Tabs
+          value={tabValue}
+          onChange={(_, value) => setTabValue(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+        >
+          {TABS.map(label => <Tab key={label} label={label} />)}
+        </Tabs>
+      </Box>
+
+      {renderTab(member)}
+    </Container>
+  );
+};
+
+export default MemberProfilePage;
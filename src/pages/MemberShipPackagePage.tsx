@@ -79,9 +79,9 @@ const MembershipPackagesPage = () => {
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { isAdmin } = useRoleControl();
   const { user } = useAuth();
-  const { userData } = useRoleControl();
+  const { userData, hasPermission } = useRoleControl();
+  const canManagePackages = hasPermission('packages.manage');
 
   useEffect(() => {
     loadPackages();
@@ -279,6 +279,36 @@ const MembershipPackagesPage = () => {
     return `${categoryNames.slice(0, 2).join(', ')} +${categoryNames.length - 2} more`;
   };
 
+  // Rating, conversion and churn are only shown when backed by enough records
+  const getComputedMetrics = (stats: PackageUsageStats) => {
+    const isAvailable = (key: keyof NonNullable<PackageUsageStats['metricStatus']>) =>
+      stats.metricStatus?.[key] === 'available';
+
+    return [
+      {
+        label: 'Rating',
+        value: isAvailable('averageRating') && stats.averageRating !== undefined
+          ? stats.averageRating.toFixed(1)
+          : null,
+        hint: `${stats.totalReviews || 0} review${stats.totalReviews === 1 ? '' : 's'}`,
+      },
+      {
+        label: 'Conversion',
+        value: isAvailable('conversionRate') && stats.conversionRate !== undefined
+          ? `${stats.conversionRate.toFixed(1)}%`
+          : null,
+        hint: `Converted vs. lost inquiries (${stats.totalInquiries || 0} total inquiries)`,
+      },
+      {
+        label: 'Churn',
+        value: isAvailable('churnRate') && stats.churnRate !== undefined
+          ? `${stats.churnRate.toFixed(1)}%`
+          : null,
+        hint: `Cancellations over the last ${stats.churnPeriodDays || 90} days`,
+      },
+    ];
+  };
+
   const renderPackageCard = (pkg: MembershipPackageRecord) => {
     const stats = packageStats[pkg.id];
     
@@ -424,14 +454,34 @@ const MembershipPackagesPage = () => {
                 </Box>
               </Box>
               
-              {stats.averageRating && (
-                <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 0.5 }}>
-                  <StarIcon sx={{ fontSize: 14, color: 'warning.main' }} />
-                  <Typography variant="caption" color="text.secondary">
-                    {stats.averageRating.toFixed(1)} ({stats.totalReviews} reviews)
-                  </Typography>
-                </Box>
-              )}
+              <Divider sx={{ my: 1 }} />
+
+              <Box sx={{ 
+                display: 'grid', 
+                gridTemplateColumns: 'repeat(3, 1fr)', 
+                gap: 1 
+              }}>
+                {getComputedMetrics(stats).map(metric => (
+                  <Tooltip key={metric.label} title={metric.hint}>
+                    <Box sx={{ textAlign: 'center' }}>
+                      <Typography
+                        variant="body2"
+                        fontWeight={600}
+                        color={metric.value ? 'text.primary' : 'text.disabled'}
+                        sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 0.25 }}
+                      >
+                        {metric.label === 'Rating' && metric.value && (
+                          <StarIcon sx={{ fontSize: 14, color: 'warning.main' }} />
+                        )}
+                        {metric.value || 'Not enough data'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {metric.label}
+                      </Typography>
+                    </Box>
+                  </Tooltip>
+                ))}
+              </Box>
             </Paper>
           )}
         </CardContent>
@@ -442,7 +492,7 @@ const MembershipPackagesPage = () => {
             variant="outlined"
             startIcon={<EditIcon />}
             onClick={() => handleEdit(pkg)}
-            disabled={!isAdmin}
+            disabled={!canManagePackages}
           >
             Edit Package
           </Button>
@@ -27,8 +27,13 @@ import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import EmojiEventsIcon from '@mui/icons-material/EmojiEvents';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import RefreshIcon from '@mui/icons-material/Refresh';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import MergeIcon from '@mui/icons-material/MergeType';
 import MemberTable from '../components/MemberTable';
 import MemberForm from '../components/MemberForm';
+import MemberDetailDialog from '../components/MemberDetailDialog';
+import MemberImportDialog from '../components/MemberImportDialog';
+import MemberDuplicatesDialog from '../components/MemberDuplicatesDialog';
 import BeltLevelManagement from '../components/BeltLevelManagement';
 import ProtectedComponent from '../components/ProtectedComponent';
 import { useRoleControl } from '../hooks/useRoleControl';
@@ -49,8 +54,11 @@ interface MemberStats {
 const MembersPage = () => {
     const [openForm, setOpenForm] = useState(false);
     const [openBeltManagement, setOpenBeltManagement] = useState(false);
+    const [openImport, setOpenImport] = useState(false);
+    const [openDuplicates, setOpenDuplicates] = useState(false);
     const [refreshTrigger, setRefreshTrigger] = useState(0);
     const [editData, setEditData] = useState<MemberRecord | undefined>(undefined);
+    const [viewMember, setViewMember] = useState<MemberRecord | null>(null);
     const [memberList, setMemberList] = useState<MemberRecord[]>([]);
     const [speedDialOpen, setSpeedDialOpen] = useState(false);
     const [stats, setStats] = useState<MemberStats>({
@@ -69,7 +77,8 @@ const MembersPage = () => {
 
     const theme = useTheme();
     const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-    const { isAdmin } = useRoleControl();
+    const { hasPermission } = useRoleControl();
+    const canEditMembers = hasPermission('members.edit');
 
     // Load stats efficiently
     const loadStats = useCallback(async (useCache = true) => {
@@ -175,6 +184,17 @@ const MembersPage = () => {
         setOpenForm(true);
     }, []);
 
+    const handleView = useCallback((memberData: MemberRecord) => {
+        setViewMember(memberData);
+    }, []);
+
+    const handleDetailClose = useCallback(() => {
+        setViewMember(null);
+        // Payments may have changed credits or status
+        setRefreshTrigger(prev => prev + 1);
+        loadStats(false);
+    }, [loadStats]);
+
     const handleAddNew = useCallback(() => {
         setEditData(undefined);
         setOpenForm(true);
@@ -186,6 +206,21 @@ const MembersPage = () => {
         setSpeedDialOpen(false);
     }, []);
 
+    const handleOpenImport = useCallback(() => {
+        setOpenImport(true);
+        setSpeedDialOpen(false);
+    }, []);
+
+    const handleOpenDuplicates = useCallback(() => {
+        setOpenDuplicates(true);
+        setSpeedDialOpen(false);
+    }, []);
+
+    const handleMembersChanged = useCallback(() => {
+        setRefreshTrigger(prev => prev + 1);
+        loadStats(false);
+    }, [loadStats]);
+
     const handleClearCache = useCallback(() => {
         clearMemberCache();
         setCacheInfo(getCacheStats());
@@ -199,12 +234,22 @@ const MembersPage = () => {
             name: 'Add Member',
             onClick: handleAddNew,
         },
+        {
+            icon: <UploadFileIcon />,
+            name: 'Import Members',
+            onClick: handleOpenImport,
+        },
+        {
+            icon: <MergeIcon />,
+            name: 'Find Duplicates',
+            onClick: handleOpenDuplicates,
+        },
         {
             icon: <EmojiEventsIcon />,
             name: 'Manage Belts & Levels',
             onClick: handleOpenBeltManagement,
         },
-        ...(isAdmin ? [{
+        ...(canEditMembers ? [{
             icon: <RefreshIcon />,
             name: 'Clear Cache',
             onClick: handleClearCache,
@@ -262,19 +307,19 @@ const MembersPage = () => {
                             Members & Leads
                         </Typography>
                         <Typography variant="body1" color="text.secondary">
-                            {isAdmin ? 'Manage your gym members, leads, and guest registrations' : 'View member information and statistics'}
+                            {canEditMembers ? 'Manage your gym members, leads, and guest registrations' : 'View member information and statistics'}
                         </Typography>
                         
-                        {/* Cache Info for Admin */}
-                        {isAdmin && cacheInfo && (
+                        {/* Cache Info for member managers */}
+                        {canEditMembers && cacheInfo && (
                             <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
                                 Cache: {cacheInfo.size} items • {cacheInfo.activeListeners} active listeners
                             </Typography>
                         )}
                     </Box>
 
-                    {/* Desktop Buttons - Admin only */}
-                    <ProtectedComponent allowedRoles={['admin']}>
+                    {/* Desktop Buttons */}
+                    <ProtectedComponent permission="members.edit">
                         {!isMobile && (
                             <Box sx={{ display: 'flex', gap: 1 }}>
                                 <Button
@@ -292,6 +337,36 @@ const MembersPage = () => {
                                 >
                                     Belts & Levels
                                 </Button>
+                                <Button
+                                    variant="outlined"
+                                    startIcon={<UploadFileIcon />}
+                                    onClick={handleOpenImport}
+                                    size="large"
+                                    sx={{
+                                        px: 2,
+                                        py: 1.5,
+                                        fontSize: '0.95rem',
+                                        fontWeight: 600,
+                                        borderRadius: 2,
+                                    }}
+                                >
+                                    Import
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    startIcon={<MergeIcon />}
+                                    onClick={handleOpenDuplicates}
+                                    size="large"
+                                    sx={{
+                                        px: 2,
+                                        py: 1.5,
+                                        fontSize: '0.95rem',
+                                        fontWeight: 600,
+                                        borderRadius: 2,
+                                    }}
+                                >
+                                    Duplicates
+                                </Button>
                                 <Button
                                     variant="contained"
                                     startIcon={<AddIcon />}
@@ -316,8 +391,8 @@ const MembersPage = () => {
                     </ProtectedComponent>
                 </Box>
 
-                {/* Stats Cards - Admin only */}
-                <ProtectedComponent allowedRoles={['admin']}>
+                {/* Stats Cards */}
+                <ProtectedComponent permission="members.view">
                     <Box sx={{
                         display: 'grid',
                         gridTemplateColumns: {
@@ -475,13 +550,14 @@ const MembersPage = () => {
                         key={refreshTrigger}
                         refreshTrigger={refreshTrigger}
                         onEdit={handleEdit}
+                        onView={handleView}
                         onDataLoaded={handleDataLoaded}
                     />
                 </Box>
             </Container>
 
-            {/* Mobile Speed Dial - Admin only */}
-            <ProtectedComponent allowedRoles={['admin']}>
+            {/* Mobile Speed Dial */}
+            <ProtectedComponent permission="members.edit">
                 {isMobile && (
                     <SpeedDial
                         ariaLabel="Member actions"
@@ -508,8 +584,8 @@ const MembersPage = () => {
                 )}
             </ProtectedComponent>
 
-            {/* Member Form Modal - Admin only */}
-            <ProtectedComponent allowedRoles={['admin']}>
+            {/* Member Form Modal */}
+            <ProtectedComponent permission="members.edit">
                 <MemberForm
                     open={openForm}
                     onClose={handleFormClose}
@@ -517,8 +593,35 @@ const MembersPage = () => {
                 />
             </ProtectedComponent>
 
-            {/* Belt & Level Management Modal - Admin only */}
-            <ProtectedComponent allowedRoles={['admin']}>
+            {/* Member Import Wizard */}
+            <ProtectedComponent permission="members.edit">
+                <MemberImportDialog
+                    open={openImport}
+                    onClose={() => setOpenImport(false)}
+                    onImported={handleMembersChanged}
+                />
+            </ProtectedComponent>
+
+            {/* Duplicate Finder */}
+            <ProtectedComponent permission="members.edit">
+                <MemberDuplicatesDialog
+                    open={openDuplicates}
+                    onClose={() => setOpenDuplicates(false)}
+                    onMerged={handleMembersChanged}
+                />
+            </ProtectedComponent>
+
+            {/* Member Detail Modal */}
+            <ProtectedComponent permission="members.view">
+                <MemberDetailDialog
+                    open={!!viewMember}
+                    member={viewMember}
+                    onClose={handleDetailClose}
+                />
+            </ProtectedComponent>
+
+            {/* Belt & Level Management Modal */}
+            <ProtectedComponent permission="members.edit">
                 <BeltLevelManagement
                     open={openBeltManagement}
                     onClose={handleBeltManagementClose}
@@ -15,6 +15,7 @@ import {
   Accordion,
   AccordionSummary,
   AccordionDetails,
+  Button,
 } from '@mui/material';
 import EventIcon from '@mui/icons-material/Event';
 import LocationOnIcon from '@mui/icons-material/LocationOn';
@@ -22,15 +23,28 @@ import GroupIcon from '@mui/icons-material/Group';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
 import PackageIcon from '@mui/icons-material/Inventory';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import EventAvailableIcon from '@mui/icons-material/EventAvailable';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
 import { useRoleControl } from '../hooks/useRoleControl';
 import { getAllClasses, getAllPackages, ClassRecord, PackageRecord } from '../services/classService';
-import { format, isToday, isTomorrow, addDays, startOfWeek, endOfWeek } from 'date-fns';
+import { format, isToday, isTomorrow, addDays, startOfWeek, endOfWeek, startOfDay, endOfDay } from 'date-fns';
+import ClassAttendanceDialog from '../components/ClassAttendanceDialog';
+import AvailabilityDialog from '../components/AvailabilityDialog';
+import SubstituteRequestDialog from '../components/SubstituteRequestDialog';
+import SubstituteRequestsPanel from '../components/SubstituteRequestsPanel';
+import { getPendingSubstituteRequests, SubstituteRequest } from '../services/substituteService';
 
 const MySchedulePage = () => {
   const [myClasses, setMyClasses] = useState<ClassRecord[]>([]);
   const [myPackages, setMyPackages] = useState<PackageRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [attendanceClass, setAttendanceClass] = useState<ClassRecord | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [availabilityOpen, setAvailabilityOpen] = useState(false);
+  const [subRequests, setSubRequests] = useState<SubstituteRequest[]>([]);
+  const [subRequestClass, setSubRequestClass] = useState<ClassRecord | null>(null);
   const { userData, isAdmin } = useRoleControl();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -43,9 +57,10 @@ const MySchedulePage = () => {
         setLoading(true);
         console.log('Fetching instructor schedule for:', userData.fullName);
         
-        const [allClasses, allPackages] = await Promise.all([
+        const [allClasses, allPackages, pendingSubRequests] = await Promise.all([
           getAllClasses(),
-          getAllPackages()
+          getAllPackages(),
+          getPendingSubstituteRequests()
         ]);
         
         // Filter classes where user is the instructor (individual classes only)
@@ -53,10 +68,16 @@ const MySchedulePage = () => {
           classItem => classItem.instructorId === userData.uid
         );
         
-        // Filter packages where user is the instructor
-        const myInstructorPackages = allPackages.filter(
-          packageItem => packageItem.instructorId === userData.uid
-        );
+        // Packages with sessions this user teaches. A substitute only sees the
+        // sessions they cover; the rostered instructor no longer sees those.
+        const myInstructorPackages = allPackages
+          .map(packageItem => ({
+            ...packageItem,
+            sessions: packageItem.sessions.filter(session => session.instructorId === userData.uid),
+          }))
+          .filter(packageItem =>
+            packageItem.instructorId === userData.uid || packageItem.sessions.length > 0
+          );
         
         // Sort by date
         myInstructorClasses.sort((a, b) => {
@@ -73,6 +94,7 @@ const MySchedulePage = () => {
         
         setMyClasses(myInstructorClasses);
         setMyPackages(myInstructorPackages);
+        setSubRequests(pendingSubRequests);
         setError(null);
         
         console.log(`Found ${myInstructorClasses.length} individual classes and ${myInstructorPackages.length} packages`);
@@ -85,7 +107,54 @@ const MySchedulePage = () => {
     };
 
     fetchMySchedule();
-  }, [userData]);
+  }, [userData, refreshKey]);
+
+  const handleSubRequestClose = (requested: boolean) => {
+    setSubRequestClass(null);
+    if (requested) setRefreshKey(prev => prev + 1);
+  };
+
+  const getSubRequest = (classId: string) => subRequests.find(request => request.classId === classId);
+
+  // Sub requests are for upcoming sessions this user is still teaching
+  const canRequestSub = (classItem: ClassRecord) =>
+    classItem.date.toDate() >= startOfDay(new Date()) && !getSubRequest(classItem.id);
+
+  const renderSubStatus = (classItem: ClassRecord) => {
+    const request = getSubRequest(classItem.id);
+    if (request) {
+      return (
+        <Chip
+          size="small"
+          variant="outlined"
+          color={request.status === 'claimed' ? 'info' : 'warning'}
+          label={request.status === 'claimed' ? `Sub: ${request.claimedByName} (pending)` : 'Sub requested'}
+          sx={{ mt: 1 }}
+        />
+      );
+    }
+    if (classItem.originalInstructorId && classItem.originalInstructorId !== userData?.uid) {
+      return (
+        <Chip
+          size="small"
+          variant="outlined"
+          color="secondary"
+          label={`Covering for ${classItem.originalInstructorName}`}
+          sx={{ mt: 1 }}
+        />
+      );
+    }
+    return null;
+  };
+
+  const handleAttendanceClose = (changed: boolean) => {
+    setAttendanceClass(null);
+    if (changed) setRefreshKey(prev => prev + 1); // Walk-ins change enrollment counts
+  };
+
+  // Attendance opens on the day of the class and stays open afterwards for corrections
+  const canTakeAttendance = (classItem: ClassRecord) =>
+    classItem.date.toDate() <= endOfDay(new Date());
 
   const getDateLabel = (date: Date) => {
     if (isToday(date)) return 'Today';
@@ -179,21 +248,38 @@ const MySchedulePage = () => {
   return (
     <Container maxWidth="lg" sx={{ py: { xs: 2, sm: 3, md: 4 } }}>
       {/* Header */}
-      <Box sx={{ mb: 4 }}>
-        <Typography 
-          variant="h4" 
-          sx={{ 
-            fontWeight: 700,
-            fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
-            color: 'text.primary',
-            mb: 0.5
-          }}
+      <Box sx={{
+        mb: 4,
+        display: 'flex',
+        flexDirection: { xs: 'column', sm: 'row' },
+        justifyContent: 'space-between',
+        alignItems: { xs: 'flex-start', sm: 'center' },
+        gap: 2
+      }}>
+        <Box>
+          <Typography 
+            variant="h4" 
+            sx={{ 
+              fontWeight: 700,
+              fontSize: { xs: '1.75rem', sm: '2rem', md: '2.125rem' },
+              color: 'text.primary',
+              mb: 0.5
+            }}
+          >
+            My Schedule
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Welcome back, {userData?.fullName}! Here are your upcoming classes and packages.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={<EventAvailableIcon />}
+          onClick={() => setAvailabilityOpen(true)}
+          disabled={!userData}
         >
-          My Schedule
-        </Typography>
-        <Typography variant="body1" color="text.secondary">
-          Welcome back, {userData?.fullName}! Here are your upcoming classes and packages.
-        </Typography>
+          My Availability
+        </Button>
       </Box>
 
       {/* Weekly Stats */}
@@ -231,6 +317,11 @@ const MySchedulePage = () => {
         </Paper>
       </Box>
 
+      <SubstituteRequestsPanel
+        requests={subRequests}
+        onChanged={() => setRefreshKey(prev => prev + 1)}
+      />
+
       {/* Packages Section */}
       {myPackages.length > 0 && (
         <Box sx={{ mb: 4 }}>
@@ -300,6 +391,27 @@ const MySchedulePage = () => {
                           <Typography variant="caption" color="text.secondary" display="block">
                             {session.currentEnrollment}/{session.capacity} enrolled
                           </Typography>
+                          {renderSubStatus(session)}
+                          {canTakeAttendance(session) && (
+                            <Button
+                              size="small"
+                              startIcon={<FactCheckIcon />}
+                              onClick={() => setAttendanceClass(session)}
+                              sx={{ mt: 0.5, fontSize: '0.75rem' }}
+                            >
+                              Attendance
+                            </Button>
+                          )}
+                          {canRequestSub(session) && (
+                            <Button
+                              size="small"
+                              startIcon={<SwapHorizIcon />}
+                              onClick={() => setSubRequestClass(session)}
+                              sx={{ mt: 0.5, fontSize: '0.75rem' }}
+                            >
+                              Request Sub
+                            </Button>
+                          )}
                         </Box>
                       ))}
                     </Box>
@@ -401,6 +513,34 @@ const MySchedulePage = () => {
                               )}
                             </Box>
                           </Box>
+
+                          {renderSubStatus(classItem)}
+
+                          {canTakeAttendance(classItem) && (
+                            <Button
+                              variant="outlined"
+                              size="small"
+                              fullWidth
+                              startIcon={<FactCheckIcon />}
+                              onClick={() => setAttendanceClass(classItem)}
+                              sx={{ mt: 2 }}
+                            >
+                              Take Attendance
+                            </Button>
+                          )}
+
+                          {canRequestSub(classItem) && (
+                            <Button
+                              variant="text"
+                              size="small"
+                              fullWidth
+                              startIcon={<SwapHorizIcon />}
+                              onClick={() => setSubRequestClass(classItem)}
+                              sx={{ mt: 1 }}
+                            >
+                              Request Sub
+                            </Button>
+                          )}
                         </CardContent>
                       </Card>
                     ))}
@@ -422,6 +562,27 @@ const MySchedulePage = () => {
           </Typography>
         </Paper>
       )}
+
+      <ClassAttendanceDialog
+        open={!!attendanceClass}
+        classRecord={attendanceClass}
+        onClose={handleAttendanceClose}
+      />
+
+      <SubstituteRequestDialog
+        open={!!subRequestClass}
+        classRecord={subRequestClass}
+        onClose={handleSubRequestClose}
+      />
+
+      {userData && (
+        <AvailabilityDialog
+          open={availabilityOpen}
+          staffId={userData.uid}
+          staffName={userData.fullName}
+          onClose={() => setAvailabilityOpen(false)}
+        />
+      )}
     </Container>
   );
 };
@@ -9,12 +9,19 @@ import {
   Fab,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
+import TuneIcon from '@mui/icons-material/Tune';
+import PaymentsIcon from '@mui/icons-material/Payments';
 import StaffTable from '../components/StaffTable';
 import StaffForm from '../components/StaffForm';
+import StaffInvitesPanel from '../components/StaffInvitesPanel';
 import ConditionalRender from '../components/ConditionalRender';
+import RolePermissionsDialog from '../components/RolePermissionsDialog';
+import PayrollReportDialog from '../components/PayrollReportDialog';
 
 const StaffPage = () => {
   const [openForm, setOpenForm] = useState(false);
+  const [openRolePermissions, setOpenRolePermissions] = useState(false);
+  const [openPayroll, setOpenPayroll] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -25,9 +32,16 @@ const StaffPage = () => {
     setRefreshTrigger(prev => prev + 1);
   };
 
+  const handleRolePermissionsClose = (changed: boolean) => {
+    setOpenRolePermissions(false);
+    if (changed) {
+      setRefreshTrigger(prev => prev + 1);
+    }
+  };
+
   return (
     <ConditionalRender 
-      allowedRoles={['admin']}
+      permission="staff.manage"
       fallback={
         <Container maxWidth="lg" sx={{ py: 4, textAlign: 'center' }}>
           <Typography variant="h5" color="text.secondary">
@@ -66,29 +80,54 @@ const StaffPage = () => {
             Staff Management
           </Typography>
           
-          {/* Desktop Add Button */}
-          {!isMobile && (
-            <Button 
-              variant="contained" 
-              startIcon={<AddIcon />}
-              onClick={() => setOpenForm(true)}
-              sx={{
-                px: 3,
-                py: 1,
-                fontSize: '0.95rem',
-                fontWeight: 600,
-                borderRadius: 2,
-                boxShadow: 2,
-                '&:hover': {
-                  boxShadow: 4,
-                },
-              }}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<TuneIcon />}
+              onClick={() => setOpenRolePermissions(true)}
+              sx={{ borderRadius: 2, fontWeight: 600 }}
             >
-              Add New Staff
+              Role Permissions
             </Button>
-          )}
+
+            <ConditionalRender permission="payroll.manage">
+              <Button
+                variant="outlined"
+                startIcon={<PaymentsIcon />}
+                onClick={() => setOpenPayroll(true)}
+                sx={{ borderRadius: 2, fontWeight: 600 }}
+              >
+                Payroll
+              </Button>
+            </ConditionalRender>
+
+            {/* Desktop Add Button */}
+            {!isMobile && (
+              <Button 
+                variant="contained" 
+                startIcon={<AddIcon />}
+                onClick={() => setOpenForm(true)}
+                sx={{
+                  px: 3,
+                  py: 1,
+                  fontSize: '0.95rem',
+                  fontWeight: 600,
+                  borderRadius: 2,
+                  boxShadow: 2,
+                  '&:hover': {
+                    boxShadow: 4,
+                  },
+                }}
+              >
+                Invite Staff
+              </Button>
+            )}
+          </Box>
         </Box>
 
+        {/* Invites waiting to be accepted */}
+        <StaffInvitesPanel key={`invites-${refreshTrigger}`} />
+
         {/* Staff Table/Cards */}
         <Box sx={{ 
           width: '100%',
@@ -121,6 +160,12 @@ const StaffPage = () => {
 
       {/* Staff Form Modal */}
       <StaffForm open={openForm} onClose={handleFormClose} />
+
+      {/* Role Permissions Modal */}
+      <RolePermissionsDialog open={openRolePermissions} onClose={handleRolePermissionsClose} />
+
+      {/* Payroll Report Modal */}
+      <PayrollReportDialog open={openPayroll} onClose={() => setOpenPayroll(false)} />
     </ConditionalRender>
   );
 };
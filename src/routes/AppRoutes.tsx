@@ -1,3 +1,4 @@
+import { ComponentType } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import AdminLayout from '../layouts/AdminLayout';
 import StaffPage from '../pages/StaffPage';
@@ -5,31 +6,46 @@ import ClassesPage from '../pages/ClassPage';
 import MySchedulePage from '../pages/MySchedulePage';
 import DashboardPage from '../pages/DashboardPage';
 import MembersPage from '../pages/MembersPage';
+import MemberProfilePage from '../pages/MemberProfilePage';
 import DiscountsPage from '../pages/DiscountsPage';
 import MembershipPackagesPage from '../pages/MemberShipPackagePage';
+import CheckInPage from '../pages/CheckInPage';
+import DunningPage from '../pages/DunningPage';
+import LeadsPage from '../pages/LeadsPage';
+import AuditLogPage from '../pages/AuditLogPage';
+import RoleGuard from './RoleGuard';
+import { APP_ROUTES, AppRoutePath } from './appRoutePermissions';
+
+export { APP_ROUTES } from './appRoutePermissions';
+
+// Every path in APP_ROUTES must have a page here
+const PAGES: Record<AppRoutePath, ComponentType> = {
+  '/classes': ClassesPage,
+  '/my-schedule': MySchedulePage,
+  '/check-in': CheckInPage,
+  '/dashboard': DashboardPage,
+  '/members': MembersPage,
+  '/members/:id': MemberProfilePage,
+  '/dunning': DunningPage,
+  '/leads': LeadsPage,
+  '/discounts': DiscountsPage,
+  '/staff': StaffPage,
+  '/memberships': MembershipPackagesPage,
+  '/audit-log': AuditLogPage,
+};
 
 const AppRoutes = () => (
   <Routes>
     <Route element={<AdminLayout />}>
       {/* Default route - redirect to classes for all users */}
       <Route path="/" element={<Navigate to="/classes" replace />} />
-      
-      {/* Classes - accessible to all users */}
-      <Route path="/classes" element={<ClassesPage />} />
-      
-      {/* My Schedule - for trainers and staff */}
-      <Route path="/my-schedule" element={<MySchedulePage />} />
-      
-      {/* Dashboard - admin only */}
-      <Route path="/dashboard" element={<DashboardPage />} />
-      
-      {/* Admin only routes */}
-      <Route path="/members" element={<MembersPage />} />
-      <Route path="/discounts" element={<DiscountsPage />} />
-      <Route path="/staff" element={<StaffPage />} />
-      <Route path="/memberships" element={<MembershipPackagesPage />} />
-      
-      
+
+      {/* Each page needs its named permission; see appRoutePermissions */}
+      {APP_ROUTES.map(({ path, permission }) => {
+        const Page = PAGES[path];
+        return <Route key={path} path={path} element={<RoleGuard permission={permission}><Page /></RoleGuard>} />;
+      })}
+
       {/* Catch all - redirect to classes */}
       <Route path="*" element={<Navigate to="/classes" replace />} />
     </Route>
@@ -0,0 +1,139 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import RoleGuard from './RoleGuard';
+import { APP_ROUTES } from './appRoutePermissions';
+import { useRoleControl, UserRole } from '../hooks/useRoleControl';
+import { Permission, PermissionOverrides } from '../types/permissions';
+import { DEFAULT_ROLE_PERMISSIONS, resolvePermissions } from '../utils/permissions';
+
+jest.mock('../hooks/useRoleControl', () => ({
+  useRoleControl: jest.fn(),
+}));
+
+const mockUseRoleControl = useRoleControl as jest.Mock;
+
+const mockRole = (role: UserRole | null, loading = false, overrides?: PermissionOverrides) => {
+  const permissions = resolvePermissions(role ?? undefined, DEFAULT_ROLE_PERMISSIONS, overrides);
+  mockUseRoleControl.mockReturnValue({
+    loading,
+    userData: role
+      ? { uid: 'user-1', fullName: 'Test User', email: 'test@example.com', role, isActive: true }
+      : null,
+    hasPermission: (permission: Permission) => permissions.includes(permission),
+  });
+};
+
+const renderGuarded = (guard: { allowedRoles?: UserRole[]; permission?: Permission }) =>
+  render(
+    <MemoryRouter initialEntries={['/guarded']}>
+      <Routes>
+        <Route element={<RoleGuard {...guard} />}>
+          <Route path="/guarded" element={<div>Protected content</div>} />
+        </Route>
+      </Routes>
+    </MemoryRouter>
+  );
+
+// The permission AppRoutes requires for each page
+const ROUTE_PERMISSIONS: Record<string, Permission> = Object.fromEntries(
+  APP_ROUTES.map(route => [route.path, route.permission])
+);
+
+// Pages each role reaches with the default mapping. Written out rather than
+// derived so a change to the defaults has to be made here on purpose.
+const EXPECTED_PAGES: Record<UserRole, string[]> = {
+  admin: Object.keys(ROUTE_PERMISSIONS),
+  trainer: ['/classes', '/my-schedule'],
+  staff: ['/classes', '/my-schedule', '/check-in', '/members', '/members/:id'],
+};
+
+const accessCases = (Object.keys(EXPECTED_PAGES) as UserRole[]).flatMap(role =>
+  Object.keys(ROUTE_PERMISSIONS).map(path => [role, path, EXPECTED_PAGES[role].includes(path)] as const)
+);
+const allowedCases = accessCases.filter(([, , allowed]) => allowed).map(([role, path]) => [role, path] as [UserRole, string]);
+const blockedCases = accessCases.filter(([, , allowed]) => !allowed).map(([role, path]) => [role, path] as [UserRole, string]);
+
+describe('RoleGuard', () => {
+  afterEach(() => {
+    mockUseRoleControl.mockReset();
+  });
+
+  test.each(allowedCases)('%s can open %s', (role, path) => {
+    mockRole(role);
+    renderGuarded({ permission: ROUTE_PERMISSIONS[path] });
+
+    expect(screen.getByText('Protected content')).toBeInTheDocument();
+    expect(screen.queryByText('403')).not.toBeInTheDocument();
+  });
+
+  test.each(blockedCases)('%s gets a 403 on %s', (role, path) => {
+    mockRole(role);
+    renderGuarded({ permission: ROUTE_PERMISSIONS[path] });
+
+    expect(screen.queryByText('Protected content')).not.toBeInTheDocument();
+    expect(screen.getByText('403')).toBeInTheDocument();
+  });
+
+  test.each([
+    ['admin', true],
+    ['trainer', false],
+    ['staff', false],
+  ] as [UserRole, boolean][])('allowedRoles admits %s: %s', (role, allowed) => {
+    mockRole(role);
+    renderGuarded({ allowedRoles: ['admin'] });
+
+    expect(screen.queryByText('Protected content') !== null).toBe(allowed);
+    expect(screen.queryByText('403') !== null).toBe(!allowed);
+  });
+
+  test('applies per-staff grants', () => {
+    mockRole('trainer', false, { granted: ['checkins.manage'], revoked: [] });
+    renderGuarded({ permission: 'checkins.manage' });
+
+    expect(screen.getByText('Protected content')).toBeInTheDocument();
+  });
+
+  test('applies per-staff revocations', () => {
+    mockRole('staff', false, { granted: [], revoked: ['members.view'] });
+    renderGuarded({ permission: 'members.view' });
+
+    expect(screen.getByText('403')).toBeInTheDocument();
+  });
+
+  test('admins keep every permission regardless of overrides', () => {
+    mockRole('admin', false, { granted: [], revoked: ['staff.manage'] });
+    renderGuarded({ permission: 'staff.manage' });
+
+    expect(screen.getByText('Protected content')).toBeInTheDocument();
+  });
+
+  test('shows a spinner while the role is loading', () => {
+    mockRole(null, true);
+    renderGuarded({ permission: 'classes.view' });
+
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+    expect(screen.queryByText('Protected content')).not.toBeInTheDocument();
+    expect(screen.queryByText('403')).not.toBeInTheDocument();
+  });
+
+  test('blocks users without a staff record', () => {
+    mockRole(null);
+    renderGuarded({ permission: 'classes.view' });
+
+    expect(screen.getByText('403')).toBeInTheDocument();
+  });
+
+  test('renders children instead of nested routes when given', () => {
+    mockRole('trainer');
+    render(
+      <MemoryRouter>
+        <RoleGuard permission="classes.view">
+          <div>Inline content</div>
+        </RoleGuard>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('Inline content')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,38 @@
+// src/routes/RoleGuard.tsx - Route-level role and permission enforcement
+import React from 'react';
+import { Outlet } from 'react-router-dom';
+import { Box, CircularProgress } from '@mui/material';
+import { useRoleControl, UserRole } from '../hooks/useRoleControl';
+import { Permission } from '../types/permissions';
+import ForbiddenPage from '../pages/ForbiddenPage';
+
+interface RoleGuardProps {
+  // Either or both; a user must satisfy every check given
+  allowedRoles?: UserRole[];
+  permission?: Permission;
+  // Without children the guard wraps nested routes through <Outlet />
+  children?: React.ReactNode;
+}
+
+const RoleGuard: React.FC<RoleGuardProps> = ({ allowedRoles, permission, children }) => {
+  const { userData, loading, hasPermission } = useRoleControl();
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const roleAllowed = !allowedRoles || (!!userData && allowedRoles.includes(userData.role));
+  const permissionAllowed = !permission || hasPermission(permission);
+
+  if (!userData || !roleAllowed || !permissionAllowed) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default RoleGuard;
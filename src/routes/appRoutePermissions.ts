@@ -0,0 +1,39 @@
+// src/routes/appRoutePermissions.ts - The permission each page needs. AppRoutes
+// renders one guarded route per entry; kept apart from the page imports so tests
+// can check it without loading every page.
+import { Permission } from '../types/permissions';
+
+export type AppRoutePath =
+  | '/classes'
+  | '/my-schedule'
+  | '/check-in'
+  | '/dashboard'
+  | '/members'
+  | '/members/:id'
+  | '/dunning'
+  | '/leads'
+  | '/discounts'
+  | '/staff'
+  | '/memberships'
+  | '/audit-log';
+
+export interface AppRoutePermission {
+  path: AppRoutePath;
+  permission: Permission;
+}
+
+// See utils/permissions for role defaults
+export const APP_ROUTES: AppRoutePermission[] = [
+  { path: '/classes', permission: 'classes.view' },
+  { path: '/my-schedule', permission: 'schedule.view' },
+  { path: '/check-in', permission: 'checkins.manage' },
+  { path: '/dashboard', permission: 'dashboard.view' },
+  { path: '/members', permission: 'members.view' },
+  { path: '/members/:id', permission: 'members.view' },
+  { path: '/dunning', permission: 'billing.manage' },
+  { path: '/leads', permission: 'leads.manage' },
+  { path: '/discounts', permission: 'discounts.manage' },
+  { path: '/staff', permission: 'staff.manage' },
+  { path: '/memberships', permission: 'packages.manage' },
+  { path: '/audit-log', permission: 'audit.view' },
+];
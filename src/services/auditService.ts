@@ -0,0 +1,85 @@
+// src/services/auditService.ts - Who changed what across classes, discounts, packages, staff and belts
+
+import { db, auth } from './firebase';
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  QueryConstraint,
+} from 'firebase/firestore';
+
+import { AuditAction, AuditEntityType, AuditLogEntry, AuditLogFilters } from '../types/audit';
+import { diffRecords } from '../utils/audit';
+
+const AUDIT_COLLECTION = 'auditLogs';
+const MAX_RESULTS = 500;
+
+export interface AuditEvent {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+// LOG AUDIT EVENT
+// Called by every mutating service function after its write succeeds. The
+// actor is whoever is signed in. Like logMemberActivity, a failure here is
+// logged and swallowed so it never undoes the change it describes.
+export const logAuditEvent = async (event: AuditEvent): Promise<void> => {
+  try {
+    const actor = auth.currentUser;
+    const changes = diffRecords(event.before || null, event.after || null);
+    if (event.action === 'update' && changes.length === 0) return;
+
+    await addDoc(collection(db, AUDIT_COLLECTION), {
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      entityName: event.entityName || '',
+      changes,
+      actorId: actor?.uid || '',
+      actorName: actor?.displayName || actor?.email || 'Unknown',
+      timestamp: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+};
+
+// GET AUDIT LOG
+// Entity and actor filters are part of the query so the cap applies to
+// matching entries only; each combination needs its composite index (see
+// firestore.indexes.json). Newest first, capped at MAX_RESULTS.
+export const getAuditLog = async (filters: AuditLogFilters): Promise<AuditLogEntry[]> => {
+  try {
+    const start = new Date(filters.periodStart);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(filters.periodEnd);
+    end.setHours(23, 59, 59, 999);
+
+    const constraints: QueryConstraint[] = [];
+    if (filters.entityType) constraints.push(where('entityType', '==', filters.entityType));
+    if (filters.actorId) constraints.push(where('actorId', '==', filters.actorId));
+
+    const snapshot = await getDocs(query(
+      collection(db, AUDIT_COLLECTION),
+      ...constraints,
+      where('timestamp', '>=', Timestamp.fromDate(start)),
+      where('timestamp', '<=', Timestamp.fromDate(end)),
+      orderBy('timestamp', 'desc'),
+      limit(MAX_RESULTS)
+    ));
+
+    return snapshot.docs.map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() } as AuditLogEntry));
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    throw new Error('Failed to load the audit log. Please try again.');
+  }
+};
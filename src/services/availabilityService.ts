@@ -0,0 +1,147 @@
+// src/services/availabilityService.ts - Trainer weekly availability, time off and schedule conflict checks
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  Timestamp,
+} from 'firebase/firestore';
+
+import { AvailabilityWindow, StaffAvailability, TimeOffPeriod } from '../types/staff';
+import { ScheduleConflict, ScheduleSlot, findScheduleConflicts, toMinutes } from '../utils/scheduleConflicts';
+
+const AVAILABILITY_COLLECTION = 'staffAvailability';
+
+// HELPER FUNCTIONS
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const endOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+};
+
+const validateAvailability = (weekly: AvailabilityWindow[], timeOff: TimeOffPeriod[]) => {
+  weekly.forEach(window => {
+    if (toMinutes(window.startTime) >= toMinutes(window.endTime)) {
+      throw new Error('Each availability window must end after it starts');
+    }
+  });
+  timeOff.forEach(period => {
+    if (startOfDay(period.endDate) < startOfDay(period.startDate)) {
+      throw new Error('Time off must end on or after its start date');
+    }
+  });
+};
+
+// GET AVAILABILITY
+export const getStaffAvailability = async (staffId: string): Promise<StaffAvailability> => {
+  try {
+    const availabilityDoc = await getDoc(doc(db, AVAILABILITY_COLLECTION, staffId));
+    if (!availabilityDoc.exists()) {
+      return { staffId, weekly: [], timeOff: [] };
+    }
+
+    const data = availabilityDoc.data();
+    return {
+      staffId,
+      weekly: data.weekly || [],
+      timeOff: (data.timeOff || []).map((period: any) => ({
+        id: period.id,
+        startDate: period.startDate.toDate(),
+        endDate: period.endDate.toDate(),
+        reason: period.reason || '',
+      })),
+    };
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    throw new Error('Failed to load availability. Please try again.');
+  }
+};
+
+// UPDATE AVAILABILITY
+export const updateStaffAvailability = async (
+  staffId: string,
+  weekly: AvailabilityWindow[],
+  timeOff: TimeOffPeriod[],
+  updatedBy: string
+): Promise<StaffAvailability> => {
+  try {
+    validateAvailability(weekly, timeOff);
+
+    const sortedWeekly = [...weekly].sort((a, b) =>
+      a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime)
+    );
+    const sortedTimeOff = [...timeOff].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    await setDoc(doc(db, AVAILABILITY_COLLECTION, staffId), {
+      weekly: sortedWeekly,
+      timeOff: sortedTimeOff.map(period => ({
+        id: period.id,
+        startDate: Timestamp.fromDate(startOfDay(period.startDate)),
+        endDate: Timestamp.fromDate(startOfDay(period.endDate)),
+        reason: period.reason?.trim() || '',
+      })),
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    });
+
+    console.log('Availability updated for', staffId);
+    return { staffId, weekly: sortedWeekly, timeOff: sortedTimeOff };
+  } catch (error: any) {
+    console.error('Error updating availability:', error);
+    throw new Error(error?.message || 'Failed to save availability. Please try again.');
+  }
+};
+
+// CHECK SCHEDULE CONFLICTS
+// Loads every active session on the proposed days plus the instructor's
+// availability. All proposed slots are expected to share one instructor.
+export const checkScheduleConflicts = async (proposed: ScheduleSlot[]): Promise<ScheduleConflict[]> => {
+  try {
+    if (proposed.length === 0) return [];
+
+    const times = proposed.map(slot => slot.date.getTime());
+    const rangeStart = startOfDay(new Date(Math.min(...times)));
+    const rangeEnd = endOfDay(new Date(Math.max(...times)));
+
+    const [classesSnapshot, availability] = await Promise.all([
+      getDocs(query(
+        collection(db, 'classes'),
+        where('date', '>=', Timestamp.fromDate(rangeStart)),
+        where('date', '<=', Timestamp.fromDate(rangeEnd))
+      )),
+      getStaffAvailability(proposed[0].instructorId),
+    ]);
+
+    const existing: ScheduleSlot[] = classesSnapshot.docs
+      .filter(d => d.data().isActive !== false)
+      .map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          title: data.title,
+          date: data.date.toDate(),
+          startTime: data.startTime,
+          endTime: data.endTime,
+          location: data.location || '',
+          instructorId: data.instructorId,
+          instructorName: data.instructorName,
+        };
+      });
+
+    return findScheduleConflicts(proposed, existing, availability);
+  } catch (error) {
+    console.error('Error checking schedule conflicts:', error);
+    throw new Error('Failed to check the schedule for conflicts. Please try again.');
+  }
+};
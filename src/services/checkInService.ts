@@ -0,0 +1,255 @@
+// src/services/checkInService.ts - Front-desk check-ins backed by MemberCheckIn
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  increment,
+  Timestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+
+import { MemberCheckIn, MemberRecord } from '../types/members';
+import { ClassRecord } from './classService';
+import { logMemberActivity, invalidateMemberCache } from './memberService';
+
+const CHECKINS_COLLECTION = 'memberCheckIns';
+
+export interface CheckInOptions {
+  classRecord?: Pick<ClassRecord, 'id' | 'title'>; // Check in against a specific class/session
+  notes?: string;
+}
+
+// HELPER FUNCTIONS
+const getStartOfToday = (): Timestamp => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Timestamp.fromDate(today);
+};
+
+const convertDocToCheckIn = (id: string, data: any): MemberCheckIn => ({
+  id,
+  ...data,
+} as MemberCheckIn);
+
+// Returns a reason the member can't be checked in, or null if they can
+export const getCheckInBlockReason = (member: MemberRecord): string | null => {
+  if (!member.isActive) {
+    return 'This member account has been deactivated.';
+  }
+
+  const membership = member.membership;
+  if (!membership || membership.status === 'No Membership') {
+    return 'Member does not have a membership.';
+  }
+
+  if (membership.status === 'Paused') {
+    return 'Membership is paused.';
+  }
+
+  if (membership.type === 'Prepaid' && (membership.remainingCredits ?? 0) <= 0) {
+    return 'Member has no remaining credits.';
+  }
+
+  return null;
+};
+
+// CHECK IN MEMBER
+export const checkInMember = async (
+  memberId: string,
+  checkedInBy: string,
+  checkedInByName: string,
+  options: CheckInOptions = {}
+): Promise<MemberCheckIn> => {
+  try {
+    console.log(`Checking in member ${memberId}`);
+
+    const memberRef = doc(db, 'users', memberId);
+    const checkInRef = doc(collection(db, CHECKINS_COLLECTION));
+
+    // Credits are read and spent in one transaction so that two desks
+    // checking in the same member at once cannot both use the last credit
+    const checkInData = await runTransaction(db, async (transaction) => {
+      const memberSnap = await transaction.get(memberRef);
+      if (!memberSnap.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const member = { id: memberSnap.id, ...memberSnap.data() } as MemberRecord;
+      const blockReason = getCheckInBlockReason(member);
+      if (blockReason) {
+        throw new Error(blockReason);
+      }
+
+      const isPrepaid = member.membership.type === 'Prepaid';
+      const now = Timestamp.now();
+      const memberName = `${member.firstName} ${member.lastName}`.trim();
+
+      const data: Omit<MemberCheckIn, 'id'> = {
+        memberId,
+        memberName,
+        checkInTime: now,
+        createdBy: checkedInBy,
+        createdByName: checkedInByName,
+      };
+
+      if (options.classRecord) {
+        data.classId = options.classRecord.id;
+        data.className = options.classRecord.title;
+      }
+      if (isPrepaid) data.creditsUsed = 1;
+      if (options.notes) data.notes = options.notes;
+
+      transaction.set(checkInRef, data);
+
+      const memberUpdate: any = {
+        totalVisits: increment(1),
+        lastVisit: now,
+        updatedAt: now,
+      };
+      if (isPrepaid) {
+        memberUpdate['membership.remainingCredits'] = (member.membership.remainingCredits ?? 0) - 1;
+        memberUpdate['membership.updatedAt'] = now;
+      }
+      transaction.update(memberRef, memberUpdate);
+
+      // Class check-ins count towards the member's package usage
+      if (options.classRecord && member.activeSubscriptionId) {
+        transaction.update(doc(db, 'membershipSubscriptions', member.activeSubscriptionId), {
+          classesAttended: increment(1),
+          updatedAt: now,
+        });
+      }
+
+      return data;
+    });
+
+    invalidateMemberCache(memberId);
+
+    await logMemberActivity({
+      memberId,
+      type: 'check_in',
+      description: options.classRecord
+        ? `Checked in for ${options.classRecord.title}`
+        : 'Checked in at front desk',
+      details: {
+        checkInId: checkInRef.id,
+        classId: options.classRecord?.id || null,
+        creditsUsed: checkInData.creditsUsed || 0,
+      },
+      performedBy: checkedInBy,
+      performedByName: checkedInByName,
+    });
+
+    console.log('Member checked in successfully:', checkInRef.id);
+    return {
+      id: checkInRef.id,
+      ...checkInData,
+    };
+  } catch (error: any) {
+    console.error('Error checking in member:', error);
+    throw new Error(error?.message || 'Failed to check in member. Please try again.');
+  }
+};
+
+// FIND CLASS CHECK-IN
+// Used to avoid checking a member into the same class twice (front desk and instructor)
+export const findClassCheckIn = async (memberId: string, classId: string): Promise<MemberCheckIn | null> => {
+  try {
+    const q = query(
+      collection(db, CHECKINS_COLLECTION),
+      where('memberId', '==', memberId),
+      where('classId', '==', classId),
+      limit(1)
+    );
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) return null;
+    return convertDocToCheckIn(snapshot.docs[0].id, snapshot.docs[0].data());
+  } catch (error) {
+    console.error('Error finding class check-in:', error);
+    throw new Error('Failed to look up check-in');
+  }
+};
+
+// CHECK OUT MEMBER
+export const checkOutMember = async (checkInId: string): Promise<boolean> => {
+  try {
+    const checkInRef = doc(db, CHECKINS_COLLECTION, checkInId);
+    const checkInDoc = await getDoc(checkInRef);
+
+    if (!checkInDoc.exists()) {
+      throw new Error('Check-in not found');
+    }
+
+    await updateDoc(checkInRef, { checkOutTime: Timestamp.now() });
+    return true;
+  } catch (error) {
+    console.error('Error checking out member:', error);
+    throw new Error('Failed to check out member. Please try again.');
+  }
+};
+
+// GET TODAY'S CHECK-INS
+export const getTodayCheckIns = async (): Promise<MemberCheckIn[]> => {
+  try {
+    const q = query(
+      collection(db, CHECKINS_COLLECTION),
+      where('checkInTime', '>=', getStartOfToday()),
+      orderBy('checkInTime', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(docSnap => convertDocToCheckIn(docSnap.id, docSnap.data()));
+  } catch (error) {
+    console.error('Error fetching today\'s check-ins:', error);
+    throw new Error('Failed to load today\'s check-ins');
+  }
+};
+
+// Subscribe to today's check-ins (live front-desk list)
+export const subscribeTodayCheckIns = (
+  callback: (checkIns: MemberCheckIn[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, CHECKINS_COLLECTION),
+    where('checkInTime', '>=', getStartOfToday()),
+    orderBy('checkInTime', 'desc')
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map(docSnap => convertDocToCheckIn(docSnap.id, docSnap.data())));
+    },
+    (error) => {
+      console.error('Check-in subscription error:', error);
+      onError?.(new Error('Lost connection to live check-ins'));
+    }
+  );
+};
+
+// GET MEMBER CHECK-IN HISTORY
+export const getMemberCheckIns = async (memberId: string, maxResults = 50): Promise<MemberCheckIn[]> => {
+  try {
+    const q = query(
+      collection(db, CHECKINS_COLLECTION),
+      where('memberId', '==', memberId),
+      orderBy('checkInTime', 'desc'),
+      limit(maxResults)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(docSnap => convertDocToCheckIn(docSnap.id, docSnap.data()));
+  } catch (error) {
+    console.error('Error fetching member check-ins:', error);
+    throw new Error('Failed to load check-in history');
+  }
+};
@@ -1,10 +1,10 @@
-import { db, storage } from './firebase';
+import { db, storage, auth } from './firebase';
 import {
   collection,
   addDoc,
   getDocs,
   doc,
-  updateDoc,
+  getDoc,
   deleteDoc,
   Timestamp,
   DocumentData,
@@ -19,6 +19,9 @@ import {
   getDownloadURL,
   deleteObject,
 } from 'firebase/storage';
+import { SportCategory } from '../types/membershipPackages';
+import { logAuditEvent } from './auditService';
+import { cancelClassBookings } from './enrollmentService';
 
 export interface ClassData {
   title: string;
@@ -34,6 +37,10 @@ export interface ClassData {
   price: number;
   imageUrl?: string;
   isActive: boolean;
+  sportCategory?: SportCategory; // Empty means open to every membership package
+  // Substitute cover: instructorId is whoever teaches, these keep the rostered instructor
+  originalInstructorId?: string;
+  originalInstructorName?: string;
   // Package fields
   isPackage?: boolean;
   packageId?: string;
@@ -57,6 +64,7 @@ export interface PackageData {
   totalSessions: number;
   imageUrl?: string;
   isActive: boolean;
+  sportCategory?: SportCategory;
   daysOfWeek: number[];
   startDate: Date;
   endDate: Date;
@@ -70,6 +78,7 @@ export interface ClassRecord extends Omit<ClassData, 'date'> {
   createdAt: Timestamp;
   updatedAt: Timestamp;
   currentEnrollment: number;
+  waitlistCount?: number;
 }
 
 export interface PackageRecord extends Omit<PackageData, 'startDate' | 'endDate'> {
@@ -100,6 +109,19 @@ const deleteImageIfExists = async (imageUrl?: string): Promise<void> => {
   }
 };
 
+// Deleting a class calls it off first: bookings are cancelled and the
+// waitlist cleared so they stop counting against members' package limits
+const cancelBookingsForDeletion = async (classIds: string[]): Promise<number> => {
+  if (classIds.length === 0) return 0;
+  const actor = auth.currentUser;
+  return cancelClassBookings(
+    classIds,
+    actor?.uid || '',
+    actor?.displayName || actor?.email || 'Unknown',
+    'Class cancelled: removed from the schedule'
+  );
+};
+
 // Create new single class
 export const createClass = async (data: ClassData, imageFile?: File): Promise<ClassRecord> => {
   try {
@@ -117,6 +139,13 @@ export const createClass = async (data: ClassData, imageFile?: File): Promise<Cl
 
     console.log('Creating single class:', classData.title);
     const docRef = await addDoc(collection(db, 'classes'), classData);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'class',
+      entityId: docRef.id,
+      entityName: classData.title,
+      after: classData,
+    });
     
     return {
       id: docRef.id,
@@ -173,6 +202,7 @@ export const createPackage = async (
         price: 0, // Individual sessions are free, package is paid
         imageUrl,
         isActive: packageData.isActive,
+        sportCategory: packageData.sportCategory || '',
         currentEnrollment: 0,
         // Package relation fields
         isPackage: true,
@@ -191,6 +221,13 @@ export const createPackage = async (
     console.log(`Committing batch with ${classDates.length + 1} operations`);
     await batch.commit();
     console.log('Package and sessions created successfully');
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'package',
+      entityId: packageRef.id,
+      entityName: packageData.title,
+      after: { ...packageDocData, sessionsCreated: classDates.length },
+    });
     
     return {
       packageId: packageRef.id,
@@ -228,10 +265,14 @@ export const getAllClasses = async (): Promise<ClassRecord[]> => {
           capacity: docData.capacity,
           instructorId: docData.instructorId,
           instructorName: docData.instructorName,
+          originalInstructorId: docData.originalInstructorId || '',
+          originalInstructorName: docData.originalInstructorName || '',
           price: docData.price || 0,
           imageUrl: docData.imageUrl || '',
           isActive: docData.isActive ?? true,
+          sportCategory: docData.sportCategory || '',
           currentEnrollment: docData.currentEnrollment || 0,
+          waitlistCount: docData.waitlistCount || 0,
           createdAt: docData.createdAt,
           updatedAt: docData.updatedAt,
           // Package fields
@@ -293,10 +334,14 @@ export const getAllPackages = async (): Promise<PackageRecord[]> => {
         capacity: sessionData.capacity,
         instructorId: sessionData.instructorId,
         instructorName: sessionData.instructorName,
+        originalInstructorId: sessionData.originalInstructorId || '',
+        originalInstructorName: sessionData.originalInstructorName || '',
         price: sessionData.price || 0,
         imageUrl: sessionData.imageUrl || '',
         isActive: sessionData.isActive ?? true,
+        sportCategory: sessionData.sportCategory || '',
         currentEnrollment: sessionData.currentEnrollment || 0,
+        waitlistCount: sessionData.waitlistCount || 0,
         createdAt: sessionData.createdAt,
         updatedAt: sessionData.updatedAt,
         isPackage: true,
@@ -329,6 +374,7 @@ export const getAllPackages = async (): Promise<PackageRecord[]> => {
         totalSessions: packageData.totalSessions,
         imageUrl: packageData.imageUrl || '',
         isActive: packageData.isActive ?? true,
+        sportCategory: packageData.sportCategory || '',
         daysOfWeek: packageData.daysOfWeek || [],
         startDate: packageData.startDate,
         endDate: packageData.endDate,
@@ -351,8 +397,11 @@ export const updateClass = async (id: string, data: Partial<ClassData>, imageFil
   try {
     console.log(`Updating class ${id}`);
     const classRef = doc(db, 'classes', id);
+    // Booking counters are owned by enrollmentService; an edit form holding a
+    // stale copy must not overwrite them
+    const { currentEnrollment, waitlistCount, ...editableData } = data as Partial<ClassRecord>;
     let updateData: any = {
-      ...data,
+      ...editableData,
       updatedAt: Timestamp.now(),
     };
 
@@ -366,8 +415,34 @@ export const updateClass = async (id: string, data: Partial<ClassData>, imageFil
       updateData.imageUrl = await uploadImageIfProvided(imageFile, 'classes');
     }
 
-    await updateDoc(classRef, updateData);
+    const previous = await getDoc(classRef);
+    const batch = writeBatch(db);
+    batch.update(classRef, updateData);
+
+    // Bookings keep their own copy of the class date and title, which usage
+    // limits and payroll query on, so move them with the class
+    const enrollmentUpdate: DocumentData = {};
+    if (updateData.date) enrollmentUpdate.classDate = updateData.date;
+    if (updateData.title) enrollmentUpdate.classTitle = updateData.title;
+    if (Object.keys(enrollmentUpdate).length > 0) {
+      const enrollmentsSnapshot = await getDocs(
+        query(collection(db, 'classEnrollments'), where('classId', '==', id))
+      );
+      enrollmentsSnapshot.forEach(enrollmentDoc => batch.update(enrollmentDoc.ref, enrollmentUpdate));
+    }
+
+    await batch.commit();
     console.log('Class updated successfully');
+
+    const before = previous.data() || null;
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'class',
+      entityId: id,
+      entityName: updateData.title || before?.title || '',
+      before,
+      after: { ...before, ...updateData },
+    });
     return true;
   } catch (error) {
     console.error('Error updating class:', error);
@@ -379,13 +454,24 @@ export const updateClass = async (id: string, data: Partial<ClassData>, imageFil
 export const deleteClass = async (id: string, imageUrl?: string): Promise<boolean> => {
   try {
     console.log(`Deleting class ${id}`);
-    
+
+    // Delete class document
+    const classRef = doc(db, 'classes', id);
+    const previous = await getDoc(classRef);
+    const bookingsCancelled = previous.exists() ? await cancelBookingsForDeletion([id]) : 0;
+    await deleteDoc(classRef);
+    console.log(`Class deleted successfully, ${bookingsCancelled} bookings cancelled`);
+
     // Delete image from storage if exists
     await deleteImageIfExists(imageUrl);
 
-    // Delete class document
-    await deleteDoc(doc(db, 'classes', id));
-    console.log('Class deleted successfully');
+    await logAuditEvent({
+      action: 'delete',
+      entityType: 'class',
+      entityId: id,
+      entityName: previous.data()?.title || '',
+      before: previous.data() || null,
+    });
     return true;
   } catch (error) {
     console.error('Error deleting class:', error);
@@ -406,6 +492,9 @@ export const deletePackage = async (packageId: string, imageUrl?: string): Promi
     const sessionsSnapshot = await getDocs(sessionsQuery);
     
     console.log(`Found ${sessionsSnapshot.size} sessions to delete`);
+
+    const bookingsCancelled = await cancelBookingsForDeletion(sessionsSnapshot.docs.map(sessionDoc => sessionDoc.id));
+    console.log(`Cancelled ${bookingsCancelled} bookings on the package sessions`);
     
     // Delete all sessions in batch
     sessionsSnapshot.forEach((sessionDoc) => {
@@ -414,10 +503,18 @@ export const deletePackage = async (packageId: string, imageUrl?: string): Promi
     
     // Delete package
     const packageRef = doc(db, 'packages', packageId);
+    const previous = await getDoc(packageRef);
     batch.delete(packageRef);
     
     await batch.commit();
     console.log('Package and sessions deleted from database');
+    await logAuditEvent({
+      action: 'delete',
+      entityType: 'package',
+      entityId: packageId,
+      entityName: previous.data()?.title || '',
+      before: previous.exists() ? { ...previous.data(), sessionsDeleted: sessionsSnapshot.size } : null,
+    });
     
     // Delete image from storage if exists
     await deleteImageIfExists(imageUrl);
@@ -515,10 +612,14 @@ export const getPackageSessions = async (packageId: string): Promise<ClassRecord
         capacity: data.capacity,
         instructorId: data.instructorId,
         instructorName: data.instructorName,
+        originalInstructorId: data.originalInstructorId || '',
+        originalInstructorName: data.originalInstructorName || '',
         price: data.price || 0,
         imageUrl: data.imageUrl || '',
         isActive: data.isActive ?? true,
+        sportCategory: data.sportCategory || '',
         currentEnrollment: data.currentEnrollment || 0,
+        waitlistCount: data.waitlistCount || 0,
         createdAt: data.createdAt,
         updatedAt: data.updatedAt,
         isPackage: true,
@@ -28,6 +28,7 @@ import {
   DiscountStats,
   DiscountStatus,
 } from '../types/discount';
+import { logAuditEvent } from './auditService';
 
 // CREATE DISCOUNT
 export const createDiscount = async (
@@ -95,6 +96,13 @@ export const createDiscount = async (
       const docRef = await addDoc(collection(db, 'discounts'), discountData);
       
       console.log('Discount created successfully with ID:', docRef.id);
+      await logAuditEvent({
+        action: 'create',
+        entityType: 'discount',
+        entityId: docRef.id,
+        entityName: discountData.code,
+        after: discountData,
+      });
       
       return {
         id: docRef.id,
@@ -210,9 +218,20 @@ export const updateDiscount = async (
       }
     }
 
-    await updateDoc(doc(db, 'discounts', discountId), updateData);
+    const discountRef = doc(db, 'discounts', discountId);
+    const previous = await getDoc(discountRef);
+    await updateDoc(discountRef, updateData);
 
     console.log('Discount updated successfully');
+    const before = previous.data() || null;
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'discount',
+      entityId: discountId,
+      entityName: updateData.code || before?.code || '',
+      before,
+      after: { ...before, ...updateData },
+    });
     return true;
   } catch (error) {
     console.error('Error updating discount:', error);
@@ -225,20 +244,40 @@ export const deleteDiscount = async (discountId: string): Promise<boolean> => {
   try {
     console.log(`Deleting discount ${discountId}`);
     
+    const discountRef = doc(db, 'discounts', discountId);
+    const previous = await getDoc(discountRef);
+    const before = previous.data() || null;
+
     // Check if discount has been used
     const usages = await getDiscountUsages(discountId, 1);
     if (usages.length > 0) {
       // Don't delete if it has been used, just disable it
-      await updateDoc(doc(db, 'discounts', discountId), {
+      const disabled = {
         isActive: false,
         status: 'Disabled',
         updatedAt: Timestamp.now(),
-      });
+      };
+      await updateDoc(discountRef, disabled);
       console.log('Discount disabled instead of deleted (has usage history)');
+      await logAuditEvent({
+        action: 'update',
+        entityType: 'discount',
+        entityId: discountId,
+        entityName: before?.code || '',
+        before,
+        after: { ...before, ...disabled },
+      });
     } else {
       // Safe to delete if never used
-      await deleteDoc(doc(db, 'discounts', discountId));
+      await deleteDoc(discountRef);
       console.log('Discount deleted successfully');
+      await logAuditEvent({
+        action: 'delete',
+        entityType: 'discount',
+        entityId: discountId,
+        entityName: before?.code || '',
+        before,
+      });
     }
     
     return true;
@@ -0,0 +1,257 @@
+// src/services/dunningService.ts - Overdue detection and dunning queue for recurring memberships
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  writeBatch,
+  increment,
+  Timestamp,
+} from 'firebase/firestore';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+
+import { MemberRecord } from '../types/members';
+import {
+  BillingSettings,
+  DunningFollowUp,
+  DunningFollowUpType,
+  DunningQueueItem,
+  OverdueEvaluationResult,
+} from '../types/billing';
+import { countMissedDueDates } from '../utils/billingCycle';
+import { getAllMembers, logMemberActivity, invalidateMemberCache } from './memberService';
+
+const SETTINGS_DOC = doc(db, 'settings', 'billing');
+const FOLLOW_UPS_COLLECTION = 'dunningFollowUps';
+const BATCH_LIMIT = 400; // Stay under Firestore's 500 writes per batch
+
+export const DEFAULT_GRACE_PERIOD_DAYS = 3;
+
+// BILLING SETTINGS
+export const getBillingSettings = async (): Promise<BillingSettings> => {
+  try {
+    const settingsDoc = await getDoc(SETTINGS_DOC);
+    if (!settingsDoc.exists()) {
+      return { gracePeriodDays: DEFAULT_GRACE_PERIOD_DAYS };
+    }
+    const data = settingsDoc.data() as BillingSettings;
+    return {
+      ...data,
+      gracePeriodDays: data.gracePeriodDays ?? DEFAULT_GRACE_PERIOD_DAYS,
+    };
+  } catch (error) {
+    console.error('Error loading billing settings:', error);
+    throw new Error('Failed to load billing settings');
+  }
+};
+
+export const updateBillingSettings = async (
+  settings: Pick<BillingSettings, 'gracePeriodDays'>,
+  updatedBy: string
+): Promise<boolean> => {
+  if (settings.gracePeriodDays < 0) {
+    throw new Error('Grace period cannot be negative.');
+  }
+
+  try {
+    await setDoc(SETTINGS_DOC, {
+      gracePeriodDays: settings.gracePeriodDays,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    }, { merge: true });
+    return true;
+  } catch (error) {
+    console.error('Error updating billing settings:', error);
+    throw new Error('Failed to update billing settings. Please try again.');
+  }
+};
+
+// HELPER FUNCTIONS
+const isPastGracePeriod = (member: MemberRecord, gracePeriodDays: number, now: Date): boolean => {
+  const nextPaymentDate = member.membership?.nextPaymentDate?.toDate();
+  if (!nextPaymentDate) return false;
+  return addDays(nextPaymentDate, gracePeriodDays) < now;
+};
+
+export const buildDunningQueueItem = (member: MemberRecord, now: Date = new Date()): DunningQueueItem => {
+  const membership = member.membership;
+  const dueDate = membership?.nextPaymentDate?.toDate() || membership?.overdueDate?.toDate() || null;
+  const daysOverdue = dueDate ? Math.max(0, differenceInCalendarDays(now, dueDate)) : 0;
+
+  // Every monthly due date that has passed since the missed one is owed too;
+  // recordPayment settles them one dues payment at a time
+  const periodsMissed = dueDate ? Math.max(1, countMissedDueDates(dueDate, now)) : 1;
+  const amountOwed = (membership?.monthlyAmount || 0) * periodsMissed;
+
+  return {
+    member,
+    dueDate,
+    daysOverdue,
+    periodsMissed,
+    amountOwed,
+    lastFollowUpDate: membership?.lastFollowUpDate?.toDate(),
+    followUpCount: membership?.followUpCount || 0,
+  };
+};
+
+// EVALUATE OVERDUE MEMBERS
+// Scans Recurring members and moves anyone whose nextPaymentDate (plus grace
+// period) has passed from Active to Overdue.
+export const evaluateOverdueMembers = async (
+  performedBy: string,
+  performedByName: string,
+  gracePeriodDays?: number
+): Promise<OverdueEvaluationResult> => {
+  try {
+    const graceDays = gracePeriodDays ?? (await getBillingSettings()).gracePeriodDays;
+    const now = new Date();
+
+    const members = await getAllMembers(false);
+    const recurring = members.filter(m => m.isActive && m.membership?.type === 'Recurring');
+    const toFlag = recurring.filter(m =>
+      m.membership.status === 'Active' && isPastGracePeriod(m, graceDays, now)
+    );
+
+    console.log(`Overdue check: ${toFlag.length} of ${recurring.length} recurring members past due`);
+
+    const result: OverdueEvaluationResult = {
+      checked: recurring.length,
+      markedOverdue: [],
+      failed: [],
+    };
+
+    for (let i = 0; i < toFlag.length; i += BATCH_LIMIT) {
+      const chunk = toFlag.slice(i, i + BATCH_LIMIT);
+      const batch = writeBatch(db);
+      const timestamp = Timestamp.now();
+
+      chunk.forEach(member => {
+        const overdueDate = addDays(member.membership.nextPaymentDate!.toDate(), graceDays);
+        batch.update(doc(db, 'users', member.id), {
+          'membership.status': 'Overdue',
+          'membership.overdueDate': Timestamp.fromDate(overdueDate),
+          'membership.updatedAt': timestamp,
+          updatedAt: timestamp,
+        });
+      });
+
+      try {
+        await batch.commit();
+        result.markedOverdue.push(...chunk);
+      } catch (error: any) {
+        console.error('Error committing overdue batch:', error);
+        chunk.forEach(member => result.failed.push({
+          id: member.id,
+          error: error.message || 'Unknown error',
+        }));
+      }
+    }
+
+    await Promise.allSettled(result.markedOverdue.map(member =>
+      logMemberActivity({
+        memberId: member.id,
+        type: 'membership_change',
+        description: 'Membership marked Overdue (payment not received)',
+        details: {
+          from: 'Active',
+          to: 'Overdue',
+          nextPaymentDate: member.membership.nextPaymentDate?.toDate().toISOString(),
+          gracePeriodDays: graceDays,
+        },
+        performedBy,
+        performedByName,
+      })
+    ));
+
+    if (result.markedOverdue.length > 0) {
+      invalidateMemberCache();
+      result.markedOverdue.forEach(member => invalidateMemberCache(member.id));
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error evaluating overdue members:', error);
+    throw new Error('Failed to evaluate overdue memberships. Please try again.');
+  }
+};
+
+// GET DUNNING QUEUE
+export const getDunningQueue = async (useCache = true): Promise<DunningQueueItem[]> => {
+  try {
+    const members = await getAllMembers(useCache);
+    const now = new Date();
+
+    return members
+      .filter(m => m.isActive && m.membership?.type === 'Recurring' && m.membership.status === 'Overdue')
+      .map(m => buildDunningQueueItem(m, now))
+      .sort((a, b) => b.daysOverdue - a.daysOverdue);
+  } catch (error) {
+    console.error('Error building dunning queue:', error);
+    throw new Error('Failed to load dunning queue');
+  }
+};
+
+// RECORD FOLLOW-UPS (bulk)
+export const recordFollowUps = async (
+  items: DunningQueueItem[],
+  type: DunningFollowUpType,
+  performedBy: string,
+  performedByName: string,
+  note?: string
+): Promise<number> => {
+  try {
+    const timestamp = Timestamp.now();
+
+    for (let i = 0; i < items.length; i += BATCH_LIMIT / 2) {
+      const batch = writeBatch(db);
+
+      items.slice(i, i + BATCH_LIMIT / 2).forEach(item => {
+        const followUp: Omit<DunningFollowUp, 'id'> = {
+          memberId: item.member.id,
+          memberName: `${item.member.firstName} ${item.member.lastName}`.trim(),
+          type,
+          daysOverdue: item.daysOverdue,
+          amountOwed: item.amountOwed,
+          performedBy,
+          performedByName,
+          createdAt: timestamp,
+        };
+        if (note) followUp.note = note;
+
+        batch.set(doc(collection(db, FOLLOW_UPS_COLLECTION)), followUp);
+        batch.update(doc(db, 'users', item.member.id), {
+          'membership.lastFollowUpDate': timestamp,
+          'membership.followUpCount': increment(1),
+          updatedAt: timestamp,
+        });
+      });
+
+      await batch.commit();
+    }
+
+    await Promise.allSettled(items.map(item =>
+      logMemberActivity({
+        memberId: item.member.id,
+        type: 'note_added',
+        description: `Payment follow-up (${type.replace('_', ' ')})${note ? `: ${note}` : ''}`,
+        details: {
+          followUpType: type,
+          daysOverdue: item.daysOverdue,
+          amountOwed: item.amountOwed,
+        },
+        performedBy,
+        performedByName,
+      })
+    ));
+
+    invalidateMemberCache();
+    items.forEach(item => invalidateMemberCache(item.member.id));
+
+    return items.length;
+  } catch (error) {
+    console.error('Error recording follow-ups:', error);
+    throw new Error('Failed to record follow-ups. Please try again.');
+  }
+};
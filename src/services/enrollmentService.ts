@@ -0,0 +1,700 @@
+// src/services/enrollmentService.ts - Class bookings and rosters behind ClassRecord.currentEnrollment
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+} from 'firebase/firestore';
+
+import { AttendanceStatus, ClassEnrollment, ClassWaitlistEntry, MemberRecord } from '../types/members';
+import { checkClassEntitlement, getBookingBlockReason } from './entitlementService';
+import { logMemberActivity } from './memberService';
+import { checkInMember, findClassCheckIn } from './checkInService';
+
+const ENROLLMENTS_COLLECTION = 'classEnrollments';
+const WAITLIST_COLLECTION = 'classWaitlists';
+
+// HELPER FUNCTIONS
+const getEnrollmentId = (classId: string, memberId: string) => `${classId}_${memberId}`;
+
+const convertDocToEnrollment = (id: string, data: any): ClassEnrollment => ({
+  id,
+  ...data,
+} as ClassEnrollment);
+
+const convertDocToWaitlistEntry = (id: string, data: any): ClassWaitlistEntry => ({
+  id,
+  ...data,
+} as ClassWaitlistEntry);
+
+const getMemberName = (memberData: any) =>
+  `${memberData.firstName || ''} ${memberData.lastName || ''}`.trim();
+
+// Package rules (sport access, weekly/monthly limits) need the subscription
+// and past bookings, so they run before the transaction. The transaction
+// still re-checks membership status and credits.
+const getEntitlementDenial = async (classId: string, memberId: string): Promise<string | null> => {
+  const [classSnap, memberSnap] = await Promise.all([
+    getDoc(doc(db, 'classes', classId)),
+    getDoc(doc(db, 'users', memberId)),
+  ]);
+  // Missing records are reported by the transaction
+  if (!classSnap.exists() || !memberSnap.exists()) return null;
+
+  const classData = classSnap.data();
+  const result = await checkClassEntitlement(
+    { id: memberSnap.id, ...memberSnap.data() } as MemberRecord,
+    { id: classId, date: classData.date, sportCategory: classData.sportCategory || undefined }
+  );
+  return result.allowed ? null : result.reason || 'Member is not eligible to book this class.';
+};
+
+const buildEnrollmentData = (
+  classId: string,
+  classData: any,
+  memberId: string,
+  memberData: any,
+  enrolledBy: string,
+  enrolledByName: string,
+  now: Timestamp
+): Omit<ClassEnrollment, 'id'> => {
+  const enrollmentData: Omit<ClassEnrollment, 'id'> = {
+    classId,
+    classTitle: classData.title,
+    classDate: classData.date,
+    memberId,
+    memberName: getMemberName(memberData),
+    memberEmail: memberData.email || '',
+    status: 'Enrolled',
+    enrolledAt: now,
+    enrolledBy,
+    enrolledByName,
+  };
+  if (classData.packageId) enrollmentData.packageId = classData.packageId;
+  return enrollmentData;
+};
+
+// GET CLASS ROSTER
+export const getClassRoster = async (classId: string): Promise<ClassEnrollment[]> => {
+  try {
+    const rosterQuery = query(
+      collection(db, ENROLLMENTS_COLLECTION),
+      where('classId', '==', classId)
+    );
+    const snapshot = await getDocs(rosterQuery);
+
+    // Enrolled first, then by booking time
+    return snapshot.docs
+      .map(d => convertDocToEnrollment(d.id, d.data()))
+      .sort((a, b) => {
+        if (a.status !== b.status) return a.status === 'Enrolled' ? -1 : 1;
+        return a.enrolledAt.toMillis() - b.enrolledAt.toMillis();
+      });
+  } catch (error) {
+    console.error('Error fetching class roster:', error);
+    throw new Error('Failed to load class roster. Please try again.');
+  }
+};
+
+// GET MEMBER ENROLLMENTS
+export const getMemberEnrollments = async (memberId: string): Promise<ClassEnrollment[]> => {
+  try {
+    const enrollmentsQuery = query(
+      collection(db, ENROLLMENTS_COLLECTION),
+      where('memberId', '==', memberId)
+    );
+    const snapshot = await getDocs(enrollmentsQuery);
+
+    return snapshot.docs
+      .map(d => convertDocToEnrollment(d.id, d.data()))
+      .sort((a, b) => b.classDate.toMillis() - a.classDate.toMillis());
+  } catch (error) {
+    console.error('Error fetching member enrollments:', error);
+    throw new Error('Failed to load class bookings. Please try again.');
+  }
+};
+
+// ENROLL MEMBER
+// Capacity, duplicate bookings and eligibility are all checked inside the
+// transaction so two desks booking the last spot can't both succeed.
+// Prepaid credits are not spent here; they are deducted at check-in.
+export const enrollMember = async (
+  classId: string,
+  memberId: string,
+  enrolledBy: string,
+  enrolledByName: string
+): Promise<ClassEnrollment> => {
+  try {
+    console.log(`Enrolling member ${memberId} in class ${classId}`);
+
+    const denial = await getEntitlementDenial(classId, memberId);
+    if (denial) {
+      throw new Error(denial);
+    }
+
+    const enrollmentId = getEnrollmentId(classId, memberId);
+    const classRef = doc(db, 'classes', classId);
+    const memberRef = doc(db, 'users', memberId);
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, enrollmentId);
+
+    const enrollment = await runTransaction(db, async (transaction) => {
+      const [classSnap, memberSnap, enrollmentSnap] = await Promise.all([
+        transaction.get(classRef),
+        transaction.get(memberRef),
+        transaction.get(enrollmentRef),
+      ]);
+
+      if (!classSnap.exists()) {
+        throw new Error('Class not found');
+      }
+      if (!memberSnap.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const classData = classSnap.data();
+      const memberData = memberSnap.data();
+
+      if (classData.isActive === false) {
+        throw new Error('This class is inactive and cannot be booked.');
+      }
+      if (enrollmentSnap.exists() && enrollmentSnap.data().status === 'Enrolled') {
+        throw new Error('Member is already enrolled in this class.');
+      }
+
+      const blockReason = getBookingBlockReason(memberData as MemberRecord);
+      if (blockReason) {
+        throw new Error(blockReason);
+      }
+
+      const currentEnrollment = classData.currentEnrollment || 0;
+      if (currentEnrollment >= classData.capacity) {
+        throw new Error('This class is full.');
+      }
+
+      const now = Timestamp.now();
+      const enrollmentData = buildEnrollmentData(
+        classId, classData, memberId, memberData, enrolledBy, enrolledByName, now
+      );
+
+      // set() without merge drops the cancellation fields of a previous booking
+      transaction.set(enrollmentRef, enrollmentData);
+      transaction.update(classRef, {
+        currentEnrollment: currentEnrollment + 1,
+        updatedAt: now,
+      });
+
+      return convertDocToEnrollment(enrollmentId, enrollmentData);
+    });
+
+    await logMemberActivity({
+      memberId,
+      type: 'class_booking',
+      description: `Booked into ${enrollment.classTitle}`,
+      details: { classId, enrollmentId },
+      performedBy: enrolledBy,
+      performedByName: enrolledByName,
+    });
+
+    console.log('Member enrolled successfully:', enrollmentId);
+    return enrollment;
+  } catch (error: any) {
+    console.error('Error enrolling member:', error);
+    throw new Error(error?.message || 'Failed to book class. Please try again.');
+  }
+};
+
+// CANCEL ENROLLMENT
+// Frees the spot and promotes the first eligible waitlisted member into it.
+// Returns the promoted booking, if any.
+export const cancelEnrollment = async (
+  enrollmentId: string,
+  cancelledBy: string,
+  cancelledByName: string,
+  reason?: string
+): Promise<ClassEnrollment | null> => {
+  try {
+    console.log(`Cancelling enrollment ${enrollmentId}`);
+
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, enrollmentId);
+
+    const enrollment = await runTransaction(db, async (transaction) => {
+      const enrollmentSnap = await transaction.get(enrollmentRef);
+      if (!enrollmentSnap.exists()) {
+        throw new Error('Booking not found');
+      }
+
+      const data = convertDocToEnrollment(enrollmentSnap.id, enrollmentSnap.data());
+      if (data.status !== 'Enrolled') {
+        throw new Error('This booking has already been cancelled.');
+      }
+
+      const classRef = doc(db, 'classes', data.classId);
+      const classSnap = await transaction.get(classRef);
+
+      const now = Timestamp.now();
+      const cancelData: any = {
+        status: 'Cancelled',
+        cancelledAt: now,
+        cancelledBy,
+        cancelledByName,
+      };
+      if (reason) cancelData.cancelReason = reason;
+      transaction.update(enrollmentRef, cancelData);
+
+      // The class may have been deleted since the booking was made
+      if (classSnap.exists()) {
+        transaction.update(classRef, {
+          currentEnrollment: Math.max(0, (classSnap.data().currentEnrollment || 0) - 1),
+          updatedAt: now,
+        });
+      }
+
+      return data;
+    });
+
+    await logMemberActivity({
+      memberId: enrollment.memberId,
+      type: 'class_booking',
+      description: `Booking cancelled for ${enrollment.classTitle}`,
+      details: { classId: enrollment.classId, enrollmentId, reason: reason || null },
+      performedBy: cancelledBy,
+      performedByName: cancelledByName,
+    });
+
+    console.log('Enrollment cancelled successfully');
+
+    // The cancellation stands even if promotion fails; staff can retry from the roster
+    try {
+      const promoted = await promoteFromWaitlist(enrollment.classId, cancelledBy, cancelledByName);
+      return promoted[0] || null;
+    } catch (promoteError) {
+      console.error('Error promoting from waitlist:', promoteError);
+      return null;
+    }
+  } catch (error: any) {
+    console.error('Error cancelling enrollment:', error);
+    throw new Error(error?.message || 'Failed to cancel booking. Please try again.');
+  }
+};
+
+// MARK ATTENDANCE
+// Present and late create a MemberCheckIn (visits, credits, package usage) the
+// first time; a member already checked in at the front desk is linked instead.
+export const markAttendance = async (
+  enrollmentId: string,
+  attendance: AttendanceStatus,
+  markedBy: string,
+  markedByName: string
+): Promise<ClassEnrollment> => {
+  try {
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, enrollmentId);
+    const enrollmentSnap = await getDoc(enrollmentRef);
+    if (!enrollmentSnap.exists()) {
+      throw new Error('Booking not found');
+    }
+
+    const enrollment = convertDocToEnrollment(enrollmentSnap.id, enrollmentSnap.data());
+    if (enrollment.status !== 'Enrolled') {
+      throw new Error('This booking has been cancelled.');
+    }
+    if (attendance === 'no_show' && enrollment.checkInId) {
+      throw new Error('This member has already been checked in and cannot be marked as a no-show.');
+    }
+
+    const updateData: any = {
+      attendance,
+      attendanceMarkedAt: Timestamp.now(),
+      attendanceMarkedBy: markedBy,
+      attendanceMarkedByName: markedByName,
+    };
+
+    if (attendance !== 'no_show' && !enrollment.checkInId) {
+      const existing = await findClassCheckIn(enrollment.memberId, enrollment.classId);
+      const checkIn = existing || await checkInMember(enrollment.memberId, markedBy, markedByName, {
+        classRecord: { id: enrollment.classId, title: enrollment.classTitle },
+        notes: attendance === 'late' ? 'Arrived late' : undefined,
+      });
+      updateData.checkInId = checkIn.id;
+    }
+
+    await updateDoc(enrollmentRef, updateData);
+    return { ...enrollment, ...updateData };
+  } catch (error: any) {
+    console.error('Error marking attendance:', error);
+    throw new Error(error?.message || 'Failed to mark attendance. Please try again.');
+  }
+};
+
+// ADD WALK-IN
+// Walk-ins are already in the room, so capacity is not enforced; eligibility still is.
+export const addWalkIn = async (
+  classId: string,
+  memberId: string,
+  attendance: Exclude<AttendanceStatus, 'no_show'>,
+  addedBy: string,
+  addedByName: string
+): Promise<ClassEnrollment> => {
+  try {
+    const denial = await getEntitlementDenial(classId, memberId);
+    if (denial) {
+      throw new Error(denial);
+    }
+
+    const enrollmentId = getEnrollmentId(classId, memberId);
+    const classRef = doc(db, 'classes', classId);
+    const memberRef = doc(db, 'users', memberId);
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, enrollmentId);
+
+    await runTransaction(db, async (transaction) => {
+      const [classSnap, memberSnap, enrollmentSnap] = await Promise.all([
+        transaction.get(classRef),
+        transaction.get(memberRef),
+        transaction.get(enrollmentRef),
+      ]);
+
+      if (!classSnap.exists()) {
+        throw new Error('Class not found');
+      }
+      if (!memberSnap.exists()) {
+        throw new Error('Member not found');
+      }
+      if (enrollmentSnap.exists() && enrollmentSnap.data().status === 'Enrolled') {
+        throw new Error('Member is already on the roster. Mark their attendance instead.');
+      }
+
+      const memberData = memberSnap.data();
+      const blockReason = getBookingBlockReason(memberData as MemberRecord);
+      if (blockReason) {
+        throw new Error(blockReason);
+      }
+
+      const classData = classSnap.data();
+      const now = Timestamp.now();
+      transaction.set(enrollmentRef, {
+        ...buildEnrollmentData(classId, classData, memberId, memberData, addedBy, addedByName, now),
+        walkIn: true,
+      });
+      transaction.update(classRef, {
+        currentEnrollment: (classData.currentEnrollment || 0) + 1,
+        updatedAt: now,
+      });
+    });
+
+    return await markAttendance(enrollmentId, attendance, addedBy, addedByName);
+  } catch (error: any) {
+    console.error('Error adding walk-in:', error);
+    throw new Error(error?.message || 'Failed to add walk-in. Please try again.');
+  }
+};
+
+// GET CLASS WAITLIST
+export const getClassWaitlist = async (classId: string): Promise<ClassWaitlistEntry[]> => {
+  try {
+    const waitlistQuery = query(
+      collection(db, WAITLIST_COLLECTION),
+      where('classId', '==', classId)
+    );
+    const snapshot = await getDocs(waitlistQuery);
+
+    return snapshot.docs
+      .map(d => convertDocToWaitlistEntry(d.id, d.data()))
+      .sort((a, b) => a.position - b.position);
+  } catch (error) {
+    console.error('Error fetching class waitlist:', error);
+    throw new Error('Failed to load waitlist. Please try again.');
+  }
+};
+
+// JOIN WAITLIST
+export const joinWaitlist = async (
+  classId: string,
+  memberId: string,
+  addedBy: string,
+  addedByName: string
+): Promise<ClassWaitlistEntry> => {
+  try {
+    console.log(`Adding member ${memberId} to waitlist for class ${classId}`);
+
+    const denial = await getEntitlementDenial(classId, memberId);
+    if (denial) {
+      throw new Error(denial);
+    }
+
+    const entryId = getEnrollmentId(classId, memberId);
+    const classRef = doc(db, 'classes', classId);
+    const memberRef = doc(db, 'users', memberId);
+    const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, entryId);
+    const entryRef = doc(db, WAITLIST_COLLECTION, entryId);
+
+    const entry = await runTransaction(db, async (transaction) => {
+      const [classSnap, memberSnap, enrollmentSnap, entrySnap] = await Promise.all([
+        transaction.get(classRef),
+        transaction.get(memberRef),
+        transaction.get(enrollmentRef),
+        transaction.get(entryRef),
+      ]);
+
+      if (!classSnap.exists()) {
+        throw new Error('Class not found');
+      }
+      if (!memberSnap.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const classData = classSnap.data();
+      const memberData = memberSnap.data();
+
+      if (enrollmentSnap.exists() && enrollmentSnap.data().status === 'Enrolled') {
+        throw new Error('Member is already enrolled in this class.');
+      }
+      if (entrySnap.exists()) {
+        throw new Error('Member is already on the waitlist.');
+      }
+      if ((classData.currentEnrollment || 0) < classData.capacity) {
+        throw new Error('This class still has open spots. Book the member directly.');
+      }
+
+      const blockReason = getBookingBlockReason(memberData as MemberRecord);
+      if (blockReason) {
+        throw new Error(blockReason);
+      }
+
+      const now = Timestamp.now();
+      const entryData: Omit<ClassWaitlistEntry, 'id'> = {
+        classId,
+        memberId,
+        memberName: getMemberName(memberData),
+        memberEmail: memberData.email || '',
+        position: now.toMillis(),
+        joinedAt: now,
+        addedBy,
+        addedByName,
+      };
+
+      transaction.set(entryRef, entryData);
+      transaction.update(classRef, {
+        waitlistCount: (classData.waitlistCount || 0) + 1,
+        updatedAt: now,
+      });
+
+      return convertDocToWaitlistEntry(entryId, entryData);
+    });
+
+    console.log('Member added to waitlist:', entryId);
+    return entry;
+  } catch (error: any) {
+    console.error('Error joining waitlist:', error);
+    throw new Error(error?.message || 'Failed to add member to waitlist. Please try again.');
+  }
+};
+
+// REMOVE FROM WAITLIST
+export const removeFromWaitlist = async (entryId: string): Promise<void> => {
+  try {
+    const entryRef = doc(db, WAITLIST_COLLECTION, entryId);
+
+    await runTransaction(db, async (transaction) => {
+      const entrySnap = await transaction.get(entryRef);
+      if (!entrySnap.exists()) return;
+
+      const classRef = doc(db, 'classes', entrySnap.data().classId);
+      const classSnap = await transaction.get(classRef);
+
+      transaction.delete(entryRef);
+      if (classSnap.exists()) {
+        transaction.update(classRef, {
+          waitlistCount: Math.max(0, (classSnap.data().waitlistCount || 0) - 1),
+          updatedAt: Timestamp.now(),
+        });
+      }
+    });
+
+    console.log('Waitlist entry removed:', entryId);
+  } catch (error) {
+    console.error('Error removing waitlist entry:', error);
+    throw new Error('Failed to remove member from waitlist. Please try again.');
+  }
+};
+
+// MOVE WAITLIST ENTRY
+// Swaps positions with the neighbouring entry
+export const moveWaitlistEntry = async (
+  classId: string,
+  entryId: string,
+  direction: 'up' | 'down'
+): Promise<void> => {
+  try {
+    const waitlist = await getClassWaitlist(classId);
+    const index = waitlist.findIndex(entry => entry.id === entryId);
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || targetIndex < 0 || targetIndex >= waitlist.length) return;
+
+    const current = waitlist[index];
+    const target = waitlist[targetIndex];
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, WAITLIST_COLLECTION, current.id), { position: target.position });
+    batch.update(doc(db, WAITLIST_COLLECTION, target.id), { position: current.position });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error reordering waitlist:', error);
+    throw new Error('Failed to reorder waitlist. Please try again.');
+  }
+};
+
+// PROMOTE FROM WAITLIST
+// Fills open spots from the front of the queue. Members who are no longer
+// eligible to book (membership or package limits) are skipped but keep their place. Returns the bookings made.
+export const promoteFromWaitlist = async (
+  classId: string,
+  promotedBy: string,
+  promotedByName: string
+): Promise<ClassEnrollment[]> => {
+  try {
+    const waitlist = await getClassWaitlist(classId);
+    const classRef = doc(db, 'classes', classId);
+    const promoted: ClassEnrollment[] = [];
+
+    for (const candidate of waitlist) {
+      const entryRef = doc(db, WAITLIST_COLLECTION, candidate.id);
+      const memberRef = doc(db, 'users', candidate.memberId);
+      const enrollmentRef = doc(db, ENROLLMENTS_COLLECTION, getEnrollmentId(classId, candidate.memberId));
+
+      // Out of package classes or no longer covered; they keep their place
+      if (await getEntitlementDenial(classId, candidate.memberId)) continue;
+
+      const result = await runTransaction(db, async (transaction) => {
+        const [classSnap, entrySnap, memberSnap, enrollmentSnap] = await Promise.all([
+          transaction.get(classRef),
+          transaction.get(entryRef),
+          transaction.get(memberRef),
+          transaction.get(enrollmentRef),
+        ]);
+
+        if (!classSnap.exists()) return 'full' as const;
+        if (!entrySnap.exists()) return 'skipped' as const; // Removed in the meantime
+
+        const classData = classSnap.data();
+        const currentEnrollment = classData.currentEnrollment || 0;
+        if (currentEnrollment >= classData.capacity) return 'full' as const;
+
+        const now = Timestamp.now();
+        const waitlistCount = Math.max(0, (classData.waitlistCount || 0) - 1);
+
+        // Booked some other way while waiting; just clear the entry
+        if (enrollmentSnap.exists() && enrollmentSnap.data().status === 'Enrolled') {
+          transaction.delete(entryRef);
+          transaction.update(classRef, { waitlistCount, updatedAt: now });
+          return 'skipped' as const;
+        }
+
+        if (!memberSnap.exists() || getBookingBlockReason(memberSnap.data() as MemberRecord)) {
+          return 'skipped' as const;
+        }
+
+        const enrollmentData = buildEnrollmentData(
+          classId, classData, candidate.memberId, memberSnap.data(), promotedBy, promotedByName, now
+        );
+        transaction.set(enrollmentRef, enrollmentData);
+        transaction.delete(entryRef);
+        transaction.update(classRef, {
+          currentEnrollment: currentEnrollment + 1,
+          waitlistCount,
+          updatedAt: now,
+        });
+
+        return convertDocToEnrollment(enrollmentRef.id, enrollmentData);
+      });
+
+      if (result === 'full') break;
+      if (result === 'skipped') continue;
+
+      await logMemberActivity({
+        memberId: result.memberId,
+        type: 'class_booking',
+        description: `Promoted from waitlist into ${result.classTitle}`,
+        details: { classId, enrollmentId: result.id },
+        performedBy: promotedBy,
+        performedByName: promotedByName,
+      });
+
+      console.log('Promoted from waitlist:', result.id);
+      promoted.push(result);
+    }
+
+    return promoted;
+  } catch (error) {
+    console.error('Error promoting from waitlist:', error);
+    throw new Error('Failed to promote from waitlist. Please try again.');
+  }
+};
+
+// CANCEL CLASS BOOKINGS
+// Used when a class itself is called off: every active booking is cancelled
+// and the waitlist cleared, without promoting anyone. Returns bookings cancelled.
+export const cancelClassBookings = async (
+  classIds: string[],
+  cancelledBy: string,
+  cancelledByName: string,
+  reason: string
+): Promise<number> => {
+  try {
+    const cancelled: ClassEnrollment[] = [];
+
+    for (const classId of classIds) {
+      const [enrollmentsSnapshot, waitlistSnapshot] = await Promise.all([
+        getDocs(query(collection(db, ENROLLMENTS_COLLECTION), where('classId', '==', classId))),
+        getDocs(query(collection(db, WAITLIST_COLLECTION), where('classId', '==', classId))),
+      ]);
+
+      const active = enrollmentsSnapshot.docs
+        .map(d => convertDocToEnrollment(d.id, d.data()))
+        .filter(enrollment => enrollment.status === 'Enrolled');
+
+      const now = Timestamp.now();
+      const batch = writeBatch(db);
+      active.forEach(enrollment => {
+        batch.update(doc(db, ENROLLMENTS_COLLECTION, enrollment.id), {
+          status: 'Cancelled',
+          cancelledAt: now,
+          cancelledBy,
+          cancelledByName,
+          cancelReason: reason,
+        });
+      });
+      waitlistSnapshot.docs.forEach(entry => batch.delete(entry.ref));
+      batch.update(doc(db, 'classes', classId), {
+        currentEnrollment: 0,
+        waitlistCount: 0,
+        updatedAt: now,
+      });
+      await batch.commit();
+
+      cancelled.push(...active);
+    }
+
+    await Promise.all(cancelled.map(enrollment => logMemberActivity({
+      memberId: enrollment.memberId,
+      type: 'class_booking',
+      description: `Booking cancelled for ${enrollment.classTitle}`,
+      details: { classId: enrollment.classId, enrollmentId: enrollment.id, reason },
+      performedBy: cancelledBy,
+      performedByName: cancelledByName,
+    })));
+
+    console.log(`Cancelled ${cancelled.length} bookings across ${classIds.length} classes`);
+    return cancelled.length;
+  } catch (error) {
+    console.error('Error cancelling class bookings:', error);
+    throw new Error('Failed to cancel class bookings. Please try again.');
+  }
+};
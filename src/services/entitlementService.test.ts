@@ -0,0 +1,103 @@
+import { Timestamp } from 'firebase/firestore';
+import { MemberRecord } from '../types/members';
+import { MembershipPackageRecord, MembershipSubscription } from '../types/membershipPackages';
+import { EntitlementInput, evaluateEntitlement } from './entitlementService';
+
+// evaluateEntitlement never touches Firestore; keep the app from initializing
+jest.mock('./firebase', () => ({ db: {}, auth: {}, storage: {}, functions: {} }));
+
+const CLASS_DATE = new Date(2025, 5, 4);
+
+const member: Pick<MemberRecord, 'isActive' | 'membership'> = {
+  isActive: true,
+  membership: {
+    type: 'Recurring',
+    status: 'Active',
+    autoRenew: true,
+    createdAt: Timestamp.fromMillis(0),
+    updatedAt: Timestamp.fromMillis(0),
+  },
+};
+
+const pkg = (overrides: Partial<MembershipPackageRecord> = {}): MembershipPackageRecord => ({
+  id: 'pkg-1',
+  name: 'BJJ Basic',
+  duration: 1,
+  durationType: 'months',
+  price: 120,
+  sportCategories: ['bjj'],
+  isFullAccess: false,
+  isUnlimited: false,
+  allowFreeze: true,
+  autoRenewal: true,
+  status: 'Active',
+  isPopular: false,
+  displayOrder: 1,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+  createdBy: 'admin',
+  createdByName: 'Admin',
+  ...overrides,
+});
+
+const subscription = {
+  id: 'sub-1',
+  userId: 'member-1',
+  userName: 'Jane Doe',
+  userEmail: 'jane@example.com',
+  packageId: 'pkg-1',
+  packageName: 'BJJ Basic',
+  startDate: new Date(2025, 5, 1),
+  endDate: new Date(2025, 6, 1),
+  status: 'Active',
+  amountPaid: 120,
+  paymentDate: new Date(2025, 5, 1),
+  classesAttended: 0,
+  guestPassesUsed: 0,
+  guestPassesRemaining: 0,
+  isAutoRenewal: true,
+  createdAt: new Date(2025, 5, 1),
+  updatedAt: new Date(2025, 5, 1),
+} as MembershipSubscription;
+
+const input = (overrides: Partial<EntitlementInput> = {}): EntitlementInput => ({
+  member,
+  classDate: CLASS_DATE,
+  sportCategory: 'bjj',
+  subscription,
+  pkg: pkg(),
+  usage: { thisWeek: 0, thisMonth: 0 },
+  ...overrides,
+});
+
+describe('evaluateEntitlement', () => {
+  test('enforces weekly and monthly class limits', () => {
+    const limited = pkg({ classLimitPerWeek: 2, classLimitPerMonth: 8 });
+
+    expect(evaluateEntitlement(input({ pkg: limited, usage: { thisWeek: 1, thisMonth: 1 } })).allowed).toBe(true);
+    expect(evaluateEntitlement(input({ pkg: limited, usage: { thisWeek: 2, thisMonth: 2 } })).code).toBe('weekly_limit');
+    expect(evaluateEntitlement(input({ pkg: limited, usage: { thisWeek: 0, thisMonth: 8 } })).code).toBe('monthly_limit');
+  });
+
+  test('treats a limit of 0 as a real limit', () => {
+    const result = evaluateEntitlement(input({ pkg: pkg({ classLimitPerWeek: 0 }) }));
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe('weekly_limit');
+  });
+
+  test('ignores limits on unlimited packages', () => {
+    const unlimited = pkg({ isUnlimited: true, classLimitPerWeek: 2 });
+
+    expect(evaluateEntitlement(input({ pkg: unlimited, usage: { thisWeek: 10, thisMonth: 40 } })).allowed).toBe(true);
+  });
+
+  test('blocks sports the package does not include', () => {
+    expect(evaluateEntitlement(input({ sportCategory: 'muay_thai' })).code).toBe('sport_not_included');
+    expect(evaluateEntitlement(input({ sportCategory: 'muay_thai', pkg: pkg({ isFullAccess: true }) })).allowed).toBe(true);
+  });
+
+  test('blocks class dates outside the subscription term', () => {
+    expect(evaluateEntitlement(input({ classDate: new Date(2025, 6, 15) })).code).toBe('subscription_expired');
+  });
+});
@@ -0,0 +1,202 @@
+// src/services/entitlementService.ts
+import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { endOfMonth, endOfWeek, startOfMonth, startOfWeek } from 'date-fns';
+import { db } from './firebase';
+import { ClassEnrollment, MemberRecord } from '../types/members';
+import {
+  MembershipPackageRecord,
+  MembershipSubscription,
+  SportCategory,
+} from '../types/membershipPackages';
+import { getMembershipPackage, SPORT_CATEGORIES } from './membershipPackageService';
+import { getCurrentSubscription } from './subscriptionService';
+import { canBookClasses } from '../utils/customerAccessControl';
+
+// Bookings live in the enrollments collection; see enrollmentService
+const ENROLLMENTS_COLLECTION = 'classEnrollments';
+
+export type EntitlementDenialCode =
+  | 'membership'
+  | 'subscription_inactive'
+  | 'subscription_expired'
+  | 'sport_not_included'
+  | 'weekly_limit'
+  | 'monthly_limit';
+
+export interface EntitlementUsage {
+  thisWeek: number;
+  thisMonth: number;
+  weekLimit?: number;
+  monthLimit?: number;
+}
+
+export interface EntitlementResult {
+  allowed: boolean;
+  reason?: string;
+  code?: EntitlementDenialCode;
+  usage?: EntitlementUsage;
+}
+
+// The parts of a class the engine looks at
+export interface EntitlementClass {
+  id: string;
+  date: Timestamp;
+  sportCategory?: SportCategory;
+}
+
+export interface EntitlementInput {
+  member: Pick<MemberRecord, 'isActive' | 'membership'>;
+  classDate: Date;
+  sportCategory?: SportCategory;
+  subscription: MembershipSubscription | null;
+  pkg: MembershipPackageRecord | null;
+  usage: { thisWeek: number; thisMonth: number };
+}
+
+/**
+ * Status and credit check shared by booking, waitlists and walk-ins.
+ * Returns a reason the member can't book classes, or null if they can.
+ */
+export const getBookingBlockReason = (member: Pick<MemberRecord, 'isActive' | 'membership'>): string | null => {
+  if (member.isActive === false) {
+    return 'This member account has been deactivated.';
+  }
+  if (!canBookClasses(member)) {
+    const membership = member.membership;
+    if (!membership || membership.status === 'No Membership') {
+      return 'Member does not have a membership.';
+    }
+    if (membership.status !== 'Active') {
+      return `Membership is ${membership.status.toLowerCase()}.`;
+    }
+    if (membership.type === 'Prepaid') {
+      return 'Member has no remaining credits.';
+    }
+    return 'Member is not eligible to book classes.';
+  }
+  return null;
+};
+
+const getSportCategoryName = (categoryId: string) =>
+  SPORT_CATEGORIES.find(cat => cat.id === categoryId)?.name || categoryId;
+
+const deny = (code: EntitlementDenialCode, reason: string, usage?: EntitlementUsage): EntitlementResult => ({
+  allowed: false,
+  code,
+  reason,
+  usage,
+});
+
+/**
+ * Decide whether a member may book a class. Pure so it can be reused by the
+ * customer app and tested without Firestore.
+ *
+ * Members without a package subscription fall back to the status/credit
+ * check in canBookClasses. Classes without a sport category are open to
+ * every package.
+ */
+export const evaluateEntitlement = ({
+  member,
+  classDate,
+  sportCategory,
+  subscription,
+  pkg,
+  usage,
+}: EntitlementInput): EntitlementResult => {
+  const blockReason = getBookingBlockReason(member);
+  if (blockReason) {
+    return deny('membership', blockReason);
+  }
+
+  if (!subscription || !pkg) {
+    return { allowed: true };
+  }
+
+  if (subscription.status !== 'Active') {
+    return deny('subscription_inactive', `The ${subscription.packageName} subscription is ${subscription.status.toLowerCase()}.`);
+  }
+  if (classDate < subscription.startDate || classDate > subscription.endDate) {
+    return deny('subscription_expired', `The ${subscription.packageName} subscription does not cover this class date.`);
+  }
+
+  const hasFullAccess = pkg.isFullAccess || pkg.sportCategories.includes('all');
+  if (sportCategory && !hasFullAccess && !pkg.sportCategories.includes(sportCategory)) {
+    return deny('sport_not_included', `${pkg.name} does not include ${getSportCategoryName(sportCategory)} classes.`);
+  }
+
+  const usageSummary: EntitlementUsage = {
+    ...usage,
+    weekLimit: pkg.isUnlimited ? undefined : pkg.classLimitPerWeek,
+    monthLimit: pkg.isUnlimited ? undefined : pkg.classLimitPerMonth,
+  };
+
+  if (usageSummary.weekLimit !== undefined && usage.thisWeek >= usageSummary.weekLimit) {
+    return deny('weekly_limit', `Weekly limit reached (${usage.thisWeek}/${usageSummary.weekLimit} classes).`, usageSummary);
+  }
+  if (usageSummary.monthLimit !== undefined && usage.thisMonth >= usageSummary.monthLimit) {
+    return deny('monthly_limit', `Monthly limit reached (${usage.thisMonth}/${usageSummary.monthLimit} classes).`, usageSummary);
+  }
+
+  return { allowed: true, usage: usageSummary };
+};
+
+/**
+ * Count the member's bookings in the week and month of the given date.
+ * Cancelled bookings don't count; no-shows do because they held a spot.
+ */
+export const getClassUsage = async (
+  memberId: string,
+  referenceDate: Date,
+  excludeClassId?: string
+): Promise<{ thisWeek: number; thisMonth: number }> => {
+  const snapshot = await getDocs(query(
+    collection(db, ENROLLMENTS_COLLECTION),
+    where('memberId', '==', memberId)
+  ));
+  const enrollments = snapshot.docs.map(d => d.data() as ClassEnrollment);
+  const weekStart = startOfWeek(referenceDate);
+  const weekEnd = endOfWeek(referenceDate);
+  const monthStart = startOfMonth(referenceDate);
+  const monthEnd = endOfMonth(referenceDate);
+
+  return enrollments.reduce((usage, enrollment) => {
+    if (enrollment.status !== 'Enrolled' || enrollment.classId === excludeClassId) return usage;
+    const date = enrollment.classDate.toDate();
+    if (date >= weekStart && date <= weekEnd) usage.thisWeek += 1;
+    if (date >= monthStart && date <= monthEnd) usage.thisMonth += 1;
+    return usage;
+  }, { thisWeek: 0, thisMonth: 0 });
+};
+
+/**
+ * Load the member's subscription, package and usage, then evaluate
+ */
+export const checkClassEntitlement = async (
+  member: MemberRecord,
+  classRecord: EntitlementClass
+): Promise<EntitlementResult> => {
+  try {
+    const classDate = classRecord.date.toDate();
+    const subscription = await getCurrentSubscription(member.id);
+    const pkg = subscription ? await getMembershipPackage(subscription.packageId) : null;
+
+    // Usage only matters when the package has limits
+    const needsUsage = !!pkg && !pkg.isUnlimited &&
+      (pkg.classLimitPerWeek !== undefined || pkg.classLimitPerMonth !== undefined);
+    const usage = needsUsage
+      ? await getClassUsage(member.id, classDate, classRecord.id)
+      : { thisWeek: 0, thisMonth: 0 };
+
+    return evaluateEntitlement({
+      member,
+      classDate,
+      sportCategory: classRecord.sportCategory,
+      subscription,
+      pkg,
+      usage,
+    });
+  } catch (error) {
+    console.error('Error checking class entitlement:', error);
+    throw new Error('Failed to check booking eligibility');
+  }
+};
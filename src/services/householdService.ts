@@ -0,0 +1,258 @@
+// src/services/householdService.ts - Family accounts: linked members, primary billing contact and family pricing
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  runTransaction,
+  deleteField,
+  Timestamp,
+} from 'firebase/firestore';
+
+import { Household, MemberData, MemberRecord } from '../types/members';
+import { MembershipPackageRecord } from '../types/membershipPackages';
+import { applyFamilyDiscount, getHouseholdRemovalError, isFamilyPricingEligible } from '../utils/household';
+import { invalidateMemberCache } from './memberService';
+import { logAuditEvent } from './auditService';
+
+const HOUSEHOLDS_COLLECTION = 'households';
+
+const memberName = (member: Pick<MemberData, 'firstName' | 'lastName'>) =>
+  `${member.firstName} ${member.lastName}`.trim();
+
+// GET HOUSEHOLDS
+export const getHousehold = async (householdId: string): Promise<Household | null> => {
+  try {
+    const householdDoc = await getDoc(doc(db, HOUSEHOLDS_COLLECTION, householdId));
+    return householdDoc.exists() ? ({ id: householdDoc.id, ...householdDoc.data() } as Household) : null;
+  } catch (error) {
+    console.error('Error fetching household:', error);
+    throw new Error('Failed to load the household. Please try again.');
+  }
+};
+
+export const getAllHouseholds = async (): Promise<Household[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, HOUSEHOLDS_COLLECTION));
+    return snapshot.docs
+      .map(householdDoc => ({ id: householdDoc.id, ...householdDoc.data() } as Household))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching households:', error);
+    throw new Error('Failed to load households. Please try again.');
+  }
+};
+
+export const getHouseholdMembers = async (householdId: string): Promise<MemberRecord[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'users'), where('householdId', '==', householdId)));
+    return snapshot.docs.map(memberDoc => ({ id: memberDoc.id, ...memberDoc.data() } as MemberRecord));
+  } catch (error) {
+    console.error('Error fetching household members:', error);
+    throw new Error('Failed to load household members. Please try again.');
+  }
+};
+
+// CREATE HOUSEHOLD
+// The member it is created from becomes the primary billing contact
+export const createHousehold = async (
+  name: string,
+  primaryMemberId: string,
+  createdBy: string
+): Promise<Household> => {
+  try {
+    if (!name.trim()) {
+      throw new Error('Please enter a household name');
+    }
+
+    const householdRef = doc(collection(db, HOUSEHOLDS_COLLECTION));
+    const household = await runTransaction(db, async (transaction) => {
+      const memberRef = doc(db, 'users', primaryMemberId);
+      const memberDoc = await transaction.get(memberRef);
+      if (!memberDoc.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const member = memberDoc.data() as MemberData;
+      if (member.householdId) {
+        throw new Error(`${memberName(member)} already belongs to a household`);
+      }
+
+      const now = Timestamp.now();
+      const householdData: Omit<Household, 'id'> = {
+        name: name.trim(),
+        primaryMemberId,
+        primaryMemberName: memberName(member),
+        memberIds: [primaryMemberId],
+        createdAt: now,
+        updatedAt: now,
+        createdBy,
+      };
+      transaction.set(householdRef, householdData);
+      transaction.update(memberRef, { householdId: householdRef.id, updatedAt: now });
+      return { id: householdRef.id, ...householdData };
+    });
+
+    invalidateMemberCache(primaryMemberId);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'household',
+      entityId: household.id,
+      entityName: household.name,
+      after: { name: household.name, primaryMemberName: household.primaryMemberName },
+    });
+    console.log('Household created:', household.id);
+    return household;
+  } catch (error: any) {
+    console.error('Error creating household:', error);
+    throw new Error(error?.message || 'Failed to create the household. Please try again.');
+  }
+};
+
+// MANAGE MEMBERS
+export const addHouseholdMember = async (householdId: string, memberId: string): Promise<void> => {
+  try {
+    const householdRef = doc(db, HOUSEHOLDS_COLLECTION, householdId);
+    const { household, name } = await runTransaction(db, async (transaction) => {
+      const memberRef = doc(db, 'users', memberId);
+      const [householdDoc, memberDoc] = await Promise.all([
+        transaction.get(householdRef),
+        transaction.get(memberRef),
+      ]);
+      if (!householdDoc.exists()) {
+        throw new Error('Household not found');
+      }
+      if (!memberDoc.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const member = memberDoc.data() as MemberData;
+      if (member.householdId) {
+        throw new Error(`${memberName(member)} already belongs to a household`);
+      }
+
+      const current = householdDoc.data() as Omit<Household, 'id'>;
+      const now = Timestamp.now();
+      transaction.update(householdRef, { memberIds: [...current.memberIds, memberId], updatedAt: now });
+      transaction.update(memberRef, { householdId, updatedAt: now });
+      return { household: current, name: memberName(member) };
+    });
+
+    invalidateMemberCache(memberId);
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'household',
+      entityId: householdId,
+      entityName: household.name,
+      before: { memberAdded: null },
+      after: { memberAdded: name },
+    });
+    console.log(`Added ${memberId} to household ${householdId}`);
+  } catch (error: any) {
+    console.error('Error adding household member:', error);
+    throw new Error(error?.message || 'Failed to add the member. Please try again.');
+  }
+};
+
+// Removing the last member deletes the household
+export const removeHouseholdMember = async (householdId: string, memberId: string): Promise<void> => {
+  try {
+    const householdRef = doc(db, HOUSEHOLDS_COLLECTION, householdId);
+    const { household, name } = await runTransaction(db, async (transaction) => {
+      const memberRef = doc(db, 'users', memberId);
+      const [householdDoc, memberDoc] = await Promise.all([
+        transaction.get(householdRef),
+        transaction.get(memberRef),
+      ]);
+      if (!householdDoc.exists()) {
+        throw new Error('Household not found');
+      }
+
+      const current = householdDoc.data() as Omit<Household, 'id'>;
+      const removalError = getHouseholdRemovalError(current, memberId);
+      if (removalError) {
+        throw new Error(removalError);
+      }
+
+      const now = Timestamp.now();
+      const remaining = current.memberIds.filter(id => id !== memberId);
+      if (remaining.length === 0) {
+        transaction.delete(householdRef);
+      } else {
+        transaction.update(householdRef, { memberIds: remaining, updatedAt: now });
+      }
+      if (memberDoc.exists()) {
+        transaction.update(memberRef, { householdId: deleteField(), updatedAt: now });
+      }
+      return { household: current, name: memberDoc.exists() ? memberName(memberDoc.data() as MemberData) : memberId };
+    });
+
+    invalidateMemberCache(memberId);
+    await logAuditEvent({
+      action: household.memberIds.length === 1 ? 'delete' : 'update',
+      entityType: 'household',
+      entityId: householdId,
+      entityName: household.name,
+      before: { memberRemoved: null },
+      after: { memberRemoved: name },
+    });
+    console.log(`Removed ${memberId} from household ${householdId}`);
+  } catch (error: any) {
+    console.error('Error removing household member:', error);
+    throw new Error(error?.message || 'Failed to remove the member. Please try again.');
+  }
+};
+
+export const setHouseholdPrimary = async (householdId: string, member: MemberRecord): Promise<void> => {
+  try {
+    const household = await getHousehold(householdId);
+    if (!household) {
+      throw new Error('Household not found');
+    }
+    if (!household.memberIds.includes(member.id)) {
+      throw new Error('Only household members can be the primary contact');
+    }
+    if (household.primaryMemberId === member.id) return;
+
+    const primaryMemberName = memberName(member);
+    await updateDoc(doc(db, HOUSEHOLDS_COLLECTION, householdId), {
+      primaryMemberId: member.id,
+      primaryMemberName,
+      updatedAt: Timestamp.now(),
+    });
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'household',
+      entityId: householdId,
+      entityName: household.name,
+      before: { primaryMemberName: household.primaryMemberName },
+      after: { primaryMemberName },
+    });
+    console.log(`Household ${householdId} primary contact is now ${member.id}`);
+  } catch (error: any) {
+    console.error('Error changing household primary contact:', error);
+    throw new Error(error?.message || 'Failed to change the primary contact. Please try again.');
+  }
+};
+
+// FAMILY PRICING
+// Price a package for this member, applying the package's family discount when
+// another household member already holds a current membership
+export const getPackagePriceForMember = async (
+  member: MemberRecord,
+  pkg: Pick<MembershipPackageRecord, 'price' | 'familyDiscountPercent'>
+): Promise<{ price: number; familyDiscountPercent: number }> => {
+  if (!member.householdId || !pkg.familyDiscountPercent) {
+    return { price: pkg.price, familyDiscountPercent: 0 };
+  }
+
+  const householdMembers = await getHouseholdMembers(member.householdId);
+  return isFamilyPricingEligible(member.id, householdMembers)
+    ? { price: applyFamilyDiscount(pkg.price, pkg.familyDiscountPercent), familyDiscountPercent: pkg.familyDiscountPercent }
+    : { price: pkg.price, familyDiscountPercent: 0 };
+};
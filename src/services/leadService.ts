@@ -0,0 +1,247 @@
+// src/services/leadService.ts
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteField,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  InquiryStatus,
+  MembershipSubscription,
+  PackageInquiry,
+  PackageInquiryFormData,
+} from '../types/membershipPackages';
+import { MemberFormData, MemberRecord } from '../types/members';
+import { createMember } from './memberService';
+import { subscribeToPackage } from './subscriptionService';
+
+// Collection names
+const INQUIRIES_COLLECTION = 'packageInquiries';
+
+export const INQUIRY_STATUSES: InquiryStatus[] = ['New', 'Contacted', 'Scheduled', 'Converted', 'Lost'];
+
+export interface LeadConversionResult {
+  memberRecord: MemberRecord;
+  password: string;
+  subscription: MembershipSubscription | null;
+  subscriptionError?: string;
+  inquiryUpdateError?: string; // The lead is still open; retry with markInquiryConverted
+}
+
+// Helper function to convert Firestore timestamp to Date
+const timestampToDate = (timestamp: any): Date | undefined => {
+  if (!timestamp) return undefined;
+  if (timestamp.toDate) return timestamp.toDate();
+  if (timestamp.seconds) return new Date(timestamp.seconds * 1000);
+  return new Date(timestamp);
+};
+
+const convertDocToInquiry = (docSnap: any): PackageInquiry => {
+  const data = docSnap.data();
+  return {
+    ...data,
+    id: docSnap.id,
+    inquiryDate: timestampToDate(data.inquiryDate)!,
+    followUpDate: timestampToDate(data.followUpDate),
+    convertedAt: timestampToDate(data.convertedAt),
+    createdAt: timestampToDate(data.createdAt)!,
+    updatedAt: timestampToDate(data.updatedAt)!,
+  } as PackageInquiry;
+};
+
+// Firestore rejects undefined values, so optional fields are only written when set
+const buildInquiryFields = (data: Partial<PackageInquiryFormData>): Record<string, any> => {
+  const fields: Record<string, any> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    fields[key] = value instanceof Date ? Timestamp.fromDate(value) : value;
+  });
+  return fields;
+};
+
+/**
+ * Get all inquiries, newest first
+ */
+export const getAllInquiries = async (): Promise<PackageInquiry[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, INQUIRIES_COLLECTION));
+    return snapshot.docs
+      .map(convertDocToInquiry)
+      .sort((a, b) => b.inquiryDate.getTime() - a.inquiryDate.getTime());
+  } catch (error) {
+    console.error('Error getting inquiries:', error);
+    throw new Error('Failed to load leads');
+  }
+};
+
+/**
+ * Create a new lead
+ */
+export const createInquiry = async (data: PackageInquiryFormData): Promise<string> => {
+  try {
+    const now = Timestamp.now();
+    const docRef = await addDoc(collection(db, INQUIRIES_COLLECTION), {
+      ...buildInquiryFields(data),
+      status: 'New',
+      inquiryDate: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating inquiry:', error);
+    throw new Error('Failed to create lead');
+  }
+};
+
+/**
+ * Update lead details
+ */
+export const updateInquiry = async (
+  inquiryId: string,
+  updates: Partial<PackageInquiryFormData>
+): Promise<void> => {
+  try {
+    const updateData: Record<string, any> = {
+      ...buildInquiryFields(updates),
+      updatedAt: Timestamp.now(),
+    };
+
+    // Explicitly clearing these removes them from the document
+    if ('followUpDate' in updates && !updates.followUpDate) updateData.followUpDate = deleteField();
+    if ('assignedTo' in updates && !updates.assignedTo) {
+      updateData.assignedTo = deleteField();
+      updateData.assignedToName = deleteField();
+    }
+
+    await updateDoc(doc(db, INQUIRIES_COLLECTION, inquiryId), updateData);
+  } catch (error) {
+    console.error('Error updating inquiry:', error);
+    throw new Error('Failed to update lead');
+  }
+};
+
+/**
+ * Move a lead through the pipeline. Use convertInquiry for conversions.
+ */
+export const updateInquiryStatus = async (
+  inquiryId: string,
+  status: Exclude<InquiryStatus, 'Converted'>,
+  lostReason?: string
+): Promise<void> => {
+  try {
+    const updateData: Record<string, any> = {
+      status,
+      updatedAt: Timestamp.now(),
+    };
+    if (status === 'Lost') {
+      updateData.lostReason = lostReason || 'Not specified';
+    } else {
+      updateData.lostReason = deleteField();
+    }
+
+    await updateDoc(doc(db, INQUIRIES_COLLECTION, inquiryId), updateData);
+  } catch (error) {
+    console.error('Error updating inquiry status:', error);
+    throw new Error('Failed to update lead status');
+  }
+};
+
+/**
+ * Assign a lead to a staff member (or unassign with null)
+ */
+export const assignInquiry = async (
+  inquiryId: string,
+  staff: { id: string; name: string } | null
+): Promise<void> => {
+  await updateInquiry(inquiryId, {
+    assignedTo: staff?.id,
+    assignedToName: staff?.name,
+  });
+};
+
+/**
+ * Leads with a follow-up due on or before the given day that are still open
+ */
+export const getFollowUpsDue = (inquiries: PackageInquiry[], asOf: Date = new Date()): PackageInquiry[] => {
+  const endOfDay = new Date(asOf);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  return inquiries
+    .filter(inq =>
+      inq.followUpDate &&
+      inq.followUpDate <= endOfDay &&
+      inq.status !== 'Converted' &&
+      inq.status !== 'Lost'
+    )
+    .sort((a, b) => a.followUpDate!.getTime() - b.followUpDate!.getTime());
+};
+
+/**
+ * Mark a lead converted and link it to the member (and subscription) it
+ * became. Also used to retry the link when convertInquiry could not write it.
+ */
+export const markInquiryConverted = async (
+  inquiryId: string,
+  memberId: string,
+  subscriptionId?: string
+): Promise<void> => {
+  try {
+    const now = Timestamp.now();
+    const updateData: Record<string, any> = {
+      status: 'Converted',
+      userId: memberId,
+      convertedAt: now,
+      lostReason: deleteField(),
+      updatedAt: now,
+    };
+    if (subscriptionId) updateData.subscriptionId = subscriptionId;
+
+    await updateDoc(doc(db, INQUIRIES_COLLECTION, inquiryId), updateData);
+  } catch (error) {
+    console.error('Error marking inquiry converted:', error);
+    throw new Error('The lead could not be marked converted.');
+  }
+};
+
+/**
+ * Convert a lead: create the member account, subscribe them to the inquired
+ * package and link both back to the inquiry.
+ */
+export const convertInquiry = async (
+  inquiry: PackageInquiry,
+  memberFormData: MemberFormData,
+  userId: string,
+  userName: string
+): Promise<LeadConversionResult> => {
+  if (inquiry.status === 'Converted') {
+    throw new Error('This lead has already been converted.');
+  }
+
+  const { memberRecord, password } = await createMember(memberFormData, userId);
+
+  // The member exists at this point; a failed subscription or lead update is
+  // reported rather than thrown so the generated password is not lost.
+  // Throwing would also invite a retry that creates a second member.
+  let subscription: MembershipSubscription | null = null;
+  let subscriptionError: string | undefined;
+  try {
+    subscription = await subscribeToPackage(memberRecord.id, inquiry.packageId, {}, userId, userName);
+  } catch (error: any) {
+    console.error('Error subscribing converted lead:', error);
+    subscriptionError = error.message;
+  }
+
+  let inquiryUpdateError: string | undefined;
+  try {
+    await markInquiryConverted(inquiry.id, memberRecord.id, subscription?.id);
+  } catch (error: any) {
+    inquiryUpdateError = error.message;
+  }
+
+  return { memberRecord, password, subscription, subscriptionError, inquiryUpdateError };
+};
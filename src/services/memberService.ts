@@ -35,6 +35,8 @@ import {
   MemberData,
   MemberRecord,
   MemberFormData,
+  MemberImportResult,
+  MemberImportRow,
   MemberStats,
   MemberActivity,
   MemberCheckIn,
@@ -47,6 +49,8 @@ import {
   MemberStatus,
   PaymentMethod,
 } from '../types/members';
+import { logAuditEvent } from './auditService';
+import { getMergeBlockReason, mergeMemberRecords } from '../utils/memberDuplicates';
 
 // Cache system for optimized requests
 interface CacheItem<T> {
@@ -381,6 +385,7 @@ export const getAllMembers = async (useCache = true, useRealtime = false): Promi
             updatedAt: docData.updatedAt,
             createdBy: docData.createdBy,
             authUid: docData.authUid,
+            householdId: docData.householdId,
           });
         }
       });
@@ -490,11 +495,29 @@ export const subscribeMemberUpdates = (
 };
 
 // Subscribe to single member updates
+// Listens to the member document itself so changes made from another desk show
+// up straight away; each snapshot also refreshes the cached copy.
 export const subscribeMemberById = (
   memberId: string,
-  callback: (member: MemberRecord | null) => void
+  callback: (member: MemberRecord | null) => void,
+  onError?: (error: Error) => void
 ): () => void => {
-  return memberCache.subscribe(`member-${memberId}`, callback);
+  return onSnapshot(
+    doc(db, 'users', memberId),
+    (snapshot) => {
+      const member = snapshot.exists()
+        ? ({ id: snapshot.id, ...snapshot.data() } as MemberRecord)
+        : null;
+      if (member) {
+        memberCache.set(`member-${memberId}`, member);
+      }
+      callback(member);
+    },
+    (error) => {
+      console.error('Member subscription error:', error);
+      onError?.(new Error('Lost connection to this member'));
+    }
+  );
 };
 
 // CREATE MEMBER - Optimized with better error handling
@@ -903,6 +926,13 @@ export const createBeltLevel = async (beltData: Omit<BeltLevel, 'id' | 'createdA
     };
 
     const docRef = await addDoc(collection(db, 'beltLevels'), data);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'belt_level',
+      entityId: docRef.id,
+      entityName: `${data.style} ${data.name}`,
+      after: data,
+    });
     
     // Invalidate cache
     memberCache.delete('belt-levels');
@@ -937,6 +967,13 @@ export const createStudentLevel = async (levelData: Omit<StudentLevel, 'id' | 'c
     };
 
     const docRef = await addDoc(collection(db, 'studentLevels'), data);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'student_level',
+      entityId: docRef.id,
+      entityName: data.name,
+      after: data,
+    });
     
     // Invalidate cache
     memberCache.delete('student-levels');
@@ -998,6 +1035,22 @@ export const awardBeltToMember = async (
     });
 
     await batch.commit();
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'rank_award',
+      entityId: memberId,
+      entityName: `${member.firstName} ${member.lastName}`,
+      before: { currentBeltLevel: member.currentBeltLevel?.name || null },
+      after: { currentBeltLevel: beltData.name, notes: notes || null },
+    });
+    await logMemberActivity({
+      memberId,
+      type: 'belt_award',
+      description: `Awarded ${beltData.name} (${beltData.style})`,
+      details: { beltLevelId, notes: notes || null },
+      performedBy: awardedBy,
+      performedByName: awardData.awardedByName,
+    });
 
     // Invalidate cache
     memberCache.delete(`member-${memberId}`);
@@ -1056,6 +1109,22 @@ export const awardStudentLevelToMember = async (
     });
 
     await batch.commit();
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'rank_award',
+      entityId: memberId,
+      entityName: `${member.firstName} ${member.lastName}`,
+      before: { currentStudentLevel: member.currentStudentLevel?.name || null },
+      after: { currentStudentLevel: levelData.name, notes: notes || null },
+    });
+    await logMemberActivity({
+      memberId,
+      type: 'level_award',
+      description: `Awarded ${levelData.name}`,
+      details: { studentLevelId, notes: notes || null },
+      performedBy: awardedBy,
+      performedByName: awardData.awardedByName,
+    });
 
     // Invalidate cache
     memberCache.delete(`member-${memberId}`);
@@ -1071,6 +1140,38 @@ export const awardStudentLevelToMember = async (
   }
 };
 
+// GET RANK HISTORY
+// Filtered by member only so no composite index is needed; newest award first
+export const getMemberBeltAwards = async (memberId: string): Promise<MemberBeltAward[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'memberBeltAwards'),
+      where('memberId', '==', memberId)
+    ));
+    return snapshot.docs
+      .map(awardDoc => ({ id: awardDoc.id, ...awardDoc.data() } as MemberBeltAward))
+      .sort((a, b) => b.dateAwarded.toMillis() - a.dateAwarded.toMillis());
+  } catch (error) {
+    console.error('Error fetching belt awards:', error);
+    throw new Error('Failed to load belt history');
+  }
+};
+
+export const getMemberStudentLevelAwards = async (memberId: string): Promise<MemberStudentLevelAward[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'memberStudentLevelAwards'),
+      where('memberId', '==', memberId)
+    ));
+    return snapshot.docs
+      .map(awardDoc => ({ id: awardDoc.id, ...awardDoc.data() } as MemberStudentLevelAward))
+      .sort((a, b) => b.dateAwarded.toMillis() - a.dateAwarded.toMillis());
+  } catch (error) {
+    console.error('Error fetching student level awards:', error);
+    throw new Error('Failed to load student level history');
+  }
+};
+
 // LOG MEMBER ACTIVITY
 export const logMemberActivity = async (activity: Omit<MemberActivity, 'id' | 'timestamp'>): Promise<string> => {
   try {
@@ -1087,6 +1188,83 @@ export const logMemberActivity = async (activity: Omit<MemberActivity, 'id' | 't
   }
 };
 
+// GET MEMBER ACTIVITIES
+// Newest first, one page at a time. Pass the returned lastDoc back in to load
+// the next page; an empty types list means every activity type.
+export const getMemberActivities = async (
+  memberId: string,
+  types: MemberActivity['type'][] = [],
+  pageSize = 20,
+  lastDoc?: QueryDocumentSnapshot
+): Promise<{
+  activities: MemberActivity[];
+  lastDoc?: QueryDocumentSnapshot;
+  hasMore: boolean;
+}> => {
+  try {
+    let q = query(
+      collection(db, 'memberActivities'),
+      where('memberId', '==', memberId),
+      orderBy('timestamp', 'desc'),
+      limit(pageSize + 1) // Get one extra to check if there's more
+    );
+
+    if (types.length > 0) {
+      q = query(q, where('type', 'in', types));
+    }
+    if (lastDoc) {
+      q = query(q, startAfter(lastDoc));
+    }
+
+    const snapshot = await getDocs(q);
+    const pageDocs = snapshot.docs.slice(0, pageSize);
+
+    return {
+      activities: pageDocs.map(activityDoc => ({
+        id: activityDoc.id,
+        ...activityDoc.data(),
+      } as MemberActivity)),
+      lastDoc: pageDocs[pageDocs.length - 1],
+      hasMore: snapshot.docs.length > pageSize,
+    };
+  } catch (error) {
+    console.error('Error fetching member activities:', error);
+    throw new Error('Failed to load member activity');
+  }
+};
+
+// ADD MEMBER NOTE
+// Written directly rather than through logMemberActivity so a failed save is
+// reported to the person typing the note instead of being swallowed.
+export const addMemberNote = async (
+  memberId: string,
+  note: string,
+  performedBy: string,
+  performedByName: string
+): Promise<MemberActivity> => {
+  try {
+    if (!note.trim()) {
+      throw new Error('Please enter a note');
+    }
+
+    const activityData: Omit<MemberActivity, 'id'> = {
+      memberId,
+      type: 'note_added',
+      description: note.trim(),
+      performedBy,
+      performedByName,
+      timestamp: Timestamp.now(),
+    };
+
+    const docRef = await addDoc(collection(db, 'memberActivities'), activityData);
+    console.log('Member note added:', docRef.id);
+    return { id: docRef.id, ...activityData };
+  } catch (error: any) {
+    console.error('Error adding member note:', error);
+    throw new Error(error?.message || 'Failed to save the note. Please try again.');
+  }
+};
+
 // GET MEMBER STATISTICS - Optimized
 export const getMemberStats = async (useCache = true): Promise<MemberStats> => {
   const cacheKey = 'member-stats';
@@ -1274,6 +1452,184 @@ export const bulkUpdateMemberStatus = async (
   return results;
 };
 
+// MERGE DUPLICATE MEMBERS
+// Records that belong to a member, and the field holding the member ID.
+// Class bookings are left alone: their IDs embed the member ID, so they stay
+// with the deactivated record as history.
+const MERGE_COLLECTIONS = [
+  { name: 'memberActivities', field: 'memberId' },
+  { name: 'memberBeltAwards', field: 'memberId' },
+  { name: 'memberStudentLevelAwards', field: 'memberId' },
+  { name: 'memberPayments', field: 'memberId' },
+  { name: 'memberCheckIns', field: 'memberId' },
+  { name: 'membershipSubscriptions', field: 'userId' },
+];
+const MERGE_BATCH_SIZE = 400; // Below Firestore's 500 writes per batch
+
+// Package name of the member's active or paused subscription, if any
+const getCurrentPackageName = async (memberId: string): Promise<string | null> => {
+  const snapshot = await getDocs(query(collection(db, 'membershipSubscriptions'), where('userId', '==', memberId)));
+  const current = snapshot.docs.find(subscriptionDoc => ['Active', 'Paused'].includes(subscriptionDoc.data().status));
+  return current ? current.data().packageName || 'Unnamed package' : null;
+};
+
+// Moves everything from the duplicate onto the survivor, fills gaps in the
+// survivor's profile (see mergeMemberRecords) and deactivates the duplicate.
+// Returns how many related records were moved.
+export const mergeMembers = async (
+  survivorId: string,
+  duplicateId: string,
+  mergedBy: string,
+  mergedByName: string
+): Promise<number> => {
+  try {
+    if (survivorId === duplicateId) {
+      throw new Error('Choose two different members to merge');
+    }
+
+    const [survivorDoc, duplicateDoc] = await Promise.all([
+      getDoc(doc(db, 'users', survivorId)),
+      getDoc(doc(db, 'users', duplicateId)),
+    ]);
+    if (!survivorDoc.exists() || !duplicateDoc.exists()) {
+      throw new Error('One of these members no longer exists');
+    }
+
+    const survivor = { id: survivorDoc.id, ...survivorDoc.data() } as MemberRecord;
+    const duplicate = { id: duplicateDoc.id, ...duplicateDoc.data() } as MemberRecord;
+    if (duplicate.mergedInto || survivor.mergedInto) {
+      throw new Error('One of these members has already been merged');
+    }
+    // Households list their members, so the duplicate has to leave before it's deactivated
+    if (duplicate.householdId) {
+      throw new Error(`Remove ${duplicate.firstName} ${duplicate.lastName} from their household before merging`);
+    }
+
+    const [survivorPackageName, duplicatePackageName, duplicateProfile] = await Promise.all([
+      getCurrentPackageName(survivorId),
+      getCurrentPackageName(duplicateId),
+      getDoc(doc(db, 'memberProfiles', duplicateId)),
+    ]);
+    const blockReason = getMergeBlockReason(survivor, duplicate, survivorPackageName, duplicatePackageName);
+    if (blockReason) {
+      throw new Error(blockReason);
+    }
+
+    const survivorName = `${survivor.firstName} ${survivor.lastName}`;
+    let moved = 0;
+    for (const related of MERGE_COLLECTIONS) {
+      const snapshot = await getDocs(query(collection(db, related.name), where(related.field, '==', duplicateId)));
+      for (let i = 0; i < snapshot.docs.length; i += MERGE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        snapshot.docs.slice(i, i + MERGE_BATCH_SIZE).forEach(relatedDoc => {
+          batch.update(relatedDoc.ref, {
+            [related.field]: survivorId,
+            ...(relatedDoc.data().memberName !== undefined ? { memberName: survivorName } : {}),
+          });
+        });
+        await batch.commit();
+      }
+      moved += snapshot.size;
+    }
+
+    const updates = mergeMemberRecords(survivor, duplicate);
+    const now = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', survivorId), { ...updates, updatedAt: now });
+    batch.update(doc(db, 'users', duplicateId), {
+      isActive: false,
+      mergedInto: survivorId,
+      deactivatedAt: now,
+      deactivatedBy: mergedBy,
+      updatedAt: now,
+    });
+    if (duplicateProfile.exists()) {
+      batch.update(duplicateProfile.ref, {
+        isActive: false,
+        deactivatedAt: now,
+        deactivatedBy: mergedBy,
+        updatedAt: now,
+      });
+    }
+    await batch.commit();
+
+    await logMemberActivity({
+      memberId: survivorId,
+      type: 'note_added',
+      description: `Merged duplicate record ${duplicate.firstName} ${duplicate.lastName} (${duplicate.email})`,
+      details: { duplicateId, recordsMoved: moved },
+      performedBy: mergedBy,
+      performedByName: mergedByName,
+    });
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'member',
+      entityId: survivorId,
+      entityName: survivorName,
+      before: {
+        mergedFrom: null,
+        ...Object.fromEntries((Object.keys(updates) as (keyof MemberData)[]).map(key => [key, survivor[key] ?? null])),
+      },
+      after: { mergedFrom: duplicate.email, ...updates },
+    });
+
+    memberCache.delete(`member-${survivorId}`);
+    memberCache.delete(`member-${duplicateId}`);
+    memberCache.delete('all-members');
+    memberCache.delete('member-stats');
+
+    console.log(`Merged member ${duplicateId} into ${survivorId}`);
+    return moved;
+  } catch (error: any) {
+    console.error('Error merging members:', error);
+    throw new Error(error?.message || 'Failed to merge members. Please try again.');
+  }
+};
+
+// IMPORT MEMBERS
+// Rows with validation errors are skipped. The rest are created in batches of
+// 10, one at a time within each batch because createMember signs in and out of
+// the shared secondary auth app. onProgress is called after every batch.
+export const importMembers = async (
+  rows: MemberImportRow[],
+  createdBy: string,
+  onProgress?: (processed: number, total: number) => void
+): Promise<MemberImportResult[]> => {
+  const results: MemberImportResult[] = [];
+  const batchSize = 10;
+
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize);
+
+    for (const row of batch) {
+      const summary = {
+        rowNumber: row.rowNumber,
+        name: `${row.data.firstName} ${row.data.lastName}`.trim(),
+        email: row.data.email,
+      };
+
+      if (row.errors.length > 0) {
+        results.push({ ...summary, status: 'skipped', message: row.errors.join('; ') });
+        continue;
+      }
+
+      try {
+        const { memberRecord, password } = await createMember(row.data, createdBy);
+        results.push({ ...summary, status: 'created', memberId: memberRecord.id, password });
+      } catch (error: any) {
+        results.push({ ...summary, status: 'failed', message: error.message || 'Unknown error' });
+      }
+    }
+
+    onProgress?.(Math.min(i + batchSize, rows.length), rows.length);
+  }
+
+  memberCache.delete('all-members');
+  memberCache.delete('member-stats');
+  console.log(`Member import finished: ${results.filter(r => r.status === 'created').length} created`);
+  return results;
+};
+
 // EXPORT MEMBERS DATA
 export const exportMembersData = async (format: 'json' | 'csv' = 'json'): Promise<string> => {
   try {
@@ -1346,6 +1702,8 @@ export default {
   
   // Bulk operations
   bulkUpdateMemberStatus,
+  mergeMembers,
+  importMembers,
   exportMembersData,
   
   // Cache management
@@ -1353,6 +1711,12 @@ export default {
   invalidateMemberCache,
   getCacheStats,
   
+  // Rank history
+  getMemberBeltAwards,
+  getMemberStudentLevelAwards,
+  
   // Activity logging
   logMemberActivity,
+  getMemberActivities,
+  addMemberNote,
 };
\ No newline at end of file
@@ -15,12 +15,15 @@ import {
   writeBatch,
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { logAuditEvent } from './auditService';
 import {
   MembershipPackageFormData,
   MembershipPackageRecord,
   PackageUsageStats,
   SportCategoryDefinition,
   MembershipSubscription,
+  PackageInquiry,
+  PackageReview,
   PackageFilterOptions,
   PackageSortOptions,
   PackageSearchParams,
@@ -31,6 +34,13 @@ import {
 const PACKAGES_COLLECTION = 'membershipPackages';
 const SUBSCRIPTIONS_COLLECTION = 'membershipSubscriptions';
 const SPORT_CATEGORIES_COLLECTION = 'sportCategories';
+const INQUIRIES_COLLECTION = 'packageInquiries';
+const REVIEWS_COLLECTION = 'packageReviews';
+
+// Minimum records before a computed metric is shown
+const MIN_REVIEWS_FOR_RATING = 3;
+const MIN_SAMPLE_FOR_RATE = 5;
+const DEFAULT_CHURN_PERIOD_DAYS = 90;
 
 // Default sport categories
 export const SPORT_CATEGORIES: SportCategoryDefinition[] = [
@@ -131,9 +141,9 @@ const convertDocToPackageRecord = (doc: any): MembershipPackageRecord => {
     price: data.price,
     sportCategories: data.sportCategories || [],
     isFullAccess: data.isFullAccess || false,
-    isUnlimited: data.isUnlimited || true,
-    classLimitPerWeek: data.classLimitPerWeek,
-    classLimitPerMonth: data.classLimitPerMonth,
+    isUnlimited: data.isUnlimited ?? true,
+    classLimitPerWeek: data.classLimitPerWeek ?? undefined,
+    classLimitPerMonth: data.classLimitPerMonth ?? undefined,
     allowFreeze: data.allowFreeze ?? true,
     maxFreezeMonths: data.maxFreezeMonths,
     minFreezeWeeks: data.minFreezeWeeks,
@@ -142,6 +152,7 @@ const convertDocToPackageRecord = (doc: any): MembershipPackageRecord => {
     renewalDiscountPercent: data.renewalDiscountPercent,
     earlyTerminationFee: data.earlyTerminationFee,
     minimumCommitmentMonths: data.minimumCommitmentMonths,
+    familyDiscountPercent: data.familyDiscountPercent,
     status: data.status || 'Active',
     isPopular: data.isPopular || false,
     displayOrder: data.displayOrder || 1,
@@ -174,6 +185,13 @@ export const createMembershipPackage = async (
     };
 
     const docRef = await addDoc(collection(db, PACKAGES_COLLECTION), docData);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'membership_package',
+      entityId: docRef.id,
+      entityName: packageData.name,
+      after: docData,
+    });
     return docRef.id;
   } catch (error) {
     console.error('Error creating membership package:', error);
@@ -203,7 +221,18 @@ export const updateMembershipPackage = async (
       updateData.lastModifiedByName = userName;
     }
 
+    const previous = await getDoc(packageRef);
     await updateDoc(packageRef, updateData);
+
+    const before = previous.data() || null;
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'membership_package',
+      entityId: packageId,
+      entityName: updateData.name || before?.name || '',
+      before,
+      after: { ...before, ...updateData },
+    });
   } catch (error) {
     console.error('Error updating membership package:', error);
     throw new Error('Failed to update membership package');
@@ -229,7 +258,15 @@ export const deleteMembershipPackage = async (packageId: string): Promise<void>
     }
 
     const packageRef = doc(db, PACKAGES_COLLECTION, packageId);
+    const previous = await getDoc(packageRef);
     await deleteDoc(packageRef);
+    await logAuditEvent({
+      action: 'delete',
+      entityType: 'membership_package',
+      entityId: packageId,
+      entityName: previous.data()?.name || '',
+      before: previous.data() || null,
+    });
   } catch (error) {
     console.error('Error deleting membership package:', error);
     throw error;
@@ -400,21 +437,29 @@ export const searchMembershipPackages = async (
 };
 
 /**
- * Get package usage statistics
+ * Get package usage statistics.
+ * Rating, conversion and churn are only reported once there are enough
+ * underlying records; otherwise they are left undefined and flagged in metricStatus.
  */
-export const getPackageUsageStats = async (packageId: string): Promise<PackageUsageStats> => {
+export const getPackageUsageStats = async (
+  packageId: string,
+  churnPeriodDays: number = DEFAULT_CHURN_PERIOD_DAYS
+): Promise<PackageUsageStats> => {
   try {
-    // Get all subscriptions for this package
-    const subscriptionsQuery = query(
-      collection(db, SUBSCRIPTIONS_COLLECTION),
-      where('packageId', '==', packageId)
-    );
-    
-    const subscriptionsSnapshot = await getDocs(subscriptionsQuery);
+    const [subscriptionsSnapshot, inquiriesSnapshot, reviewsSnapshot] = await Promise.all([
+      getDocs(query(collection(db, SUBSCRIPTIONS_COLLECTION), where('packageId', '==', packageId))),
+      getDocs(query(collection(db, INQUIRIES_COLLECTION), where('packageId', '==', packageId))),
+      getDocs(query(collection(db, REVIEWS_COLLECTION), where('packageId', '==', packageId))),
+    ]);
+
     const subscriptions = subscriptionsSnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     })) as MembershipSubscription[];
+    const inquiries = inquiriesSnapshot.docs.map(doc => doc.data() as PackageInquiry);
+    const reviews = reviewsSnapshot.docs
+      .map(doc => doc.data() as PackageReview)
+      .filter(review => review.isPublic !== false && review.rating >= 1 && review.rating <= 5);
 
     // Calculate statistics
     const totalSubscriptions = subscriptions.length;
@@ -423,11 +468,40 @@ export const getPackageUsageStats = async (packageId: string): Promise<PackageUs
     const cancelledSubscriptions = subscriptions.filter(sub => sub.status === 'Cancelled').length;
     
     const totalRevenue = subscriptions.reduce((sum, sub) => sum + (sub.amountPaid || 0), 0);
-    
-    // Mock data for ratings and reviews (would come from a reviews collection)
-    const averageRating = 4.2 + Math.random() * 0.6; // Mock: 4.2-4.8
-    const totalReviews = Math.floor(totalSubscriptions * 0.3); // Mock: 30% review rate
-    
+
+    // Rating from real reviews
+    const totalReviews = reviews.length;
+    const hasRatingData = totalReviews >= MIN_REVIEWS_FOR_RATING;
+    const averageRating = hasRatingData
+      ? reviews.reduce((sum, review) => sum + review.rating, 0) / totalReviews
+      : undefined;
+
+    // Conversion from resolved inquiries (leads still in progress are not counted either way)
+    const convertedInquiries = inquiries.filter(inq => inq.status === 'Converted').length;
+    const resolvedInquiries = convertedInquiries + inquiries.filter(inq => inq.status === 'Lost').length;
+    const hasConversionData = resolvedInquiries >= MIN_SAMPLE_FOR_RATE;
+    const conversionRate = hasConversionData
+      ? (convertedInquiries / resolvedInquiries) * 100
+      : undefined;
+
+    // Churn: cancellations in the period over subscriptions that were live at any point in it
+    const now = new Date();
+    const periodStart = new Date(now.getTime() - churnPeriodDays * 24 * 60 * 60 * 1000);
+    const liveDuringPeriod = subscriptions.filter(sub => {
+      const startDate = timestampToDate(sub.startDate);
+      if (startDate > now) return false;
+      if (sub.status === 'Active' || sub.status === 'Paused') return true;
+      const endedAt = timestampToDate(sub.status === 'Cancelled' && sub.cancelledAt ? sub.cancelledAt : sub.endDate);
+      return endedAt >= periodStart;
+    });
+    const churned = liveDuringPeriod.filter(sub =>
+      sub.status === 'Cancelled' && sub.cancelledAt && timestampToDate(sub.cancelledAt) >= periodStart
+    ).length;
+    const hasChurnData = liveDuringPeriod.length >= MIN_SAMPLE_FOR_RATE;
+    const churnRate = hasChurnData ? (churned / liveDuringPeriod.length) * 100 : undefined;
+
+    const round1 = (value?: number) => value === undefined ? undefined : parseFloat(value.toFixed(1));
+
     const stats: PackageUsageStats = {
       packageId,
       totalSubscriptions,
@@ -435,11 +509,18 @@ export const getPackageUsageStats = async (packageId: string): Promise<PackageUs
       pausedSubscriptions,
       cancelledSubscriptions,
       totalRevenue,
-      averageRating: parseFloat(averageRating.toFixed(1)),
+      averageRating: round1(averageRating),
       totalReviews,
-      conversionRate: totalSubscriptions > 0 ? 65 + Math.random() * 20 : 0, // Mock: 65-85%
-      churnRate: totalSubscriptions > 0 ? Math.random() * 15 : 0, // Mock: 0-15%
+      totalInquiries: inquiries.length,
+      conversionRate: round1(conversionRate),
+      churnRate: round1(churnRate),
+      churnPeriodDays,
       averageLifetimeValue: totalSubscriptions > 0 ? totalRevenue / totalSubscriptions : 0,
+      metricStatus: {
+        averageRating: hasRatingData ? 'available' : 'insufficient_data',
+        conversionRate: hasConversionData ? 'available' : 'insufficient_data',
+        churnRate: hasChurnData ? 'available' : 'insufficient_data',
+      },
     };
 
     return stats;
@@ -452,6 +533,11 @@ export const getPackageUsageStats = async (packageId: string): Promise<PackageUs
       pausedSubscriptions: 0,
       cancelledSubscriptions: 0,
       totalRevenue: 0,
+      metricStatus: {
+        averageRating: 'insufficient_data',
+        conversionRate: 'insufficient_data',
+        churnRate: 'insufficient_data',
+      },
     };
   }
 };
@@ -492,6 +578,9 @@ export const updatePackageDisplayOrders = async (
 ): Promise<void> => {
   try {
     const batch = writeBatch(db);
+    const previous = await Promise.all(
+      updates.map(({ packageId }) => getDoc(doc(db, PACKAGES_COLLECTION, packageId)))
+    );
     
     updates.forEach(({ packageId, displayOrder }) => {
       const packageRef = doc(db, PACKAGES_COLLECTION, packageId);
@@ -502,6 +591,15 @@ export const updatePackageDisplayOrders = async (
     });
 
     await batch.commit();
+    // Unchanged orders produce no diff and are skipped by logAuditEvent
+    await Promise.all(updates.map(({ packageId, displayOrder }, index) => logAuditEvent({
+      action: 'update',
+      entityType: 'membership_package',
+      entityId: packageId,
+      entityName: previous[index].data()?.name || '',
+      before: { displayOrder: previous[index].data()?.displayOrder },
+      after: { displayOrder },
+    })));
   } catch (error) {
     console.error('Error updating package display orders:', error);
     throw new Error('Failed to update package display orders');
@@ -601,6 +699,10 @@ export const validatePackageData = (data: MembershipPackageFormData): string[] =
     errors.push('Renewal discount must be between 0 and 100 percent');
   }
   
+  if (data.familyDiscountPercent && (data.familyDiscountPercent < 0 || data.familyDiscountPercent > 100)) {
+    errors.push('Family discount must be between 0 and 100 percent');
+  }
+  
   if (data.maxFreezeMonths && data.maxFreezeMonths < 1) {
     errors.push('Maximum freeze months must be at least 1');
   }
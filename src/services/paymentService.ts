@@ -0,0 +1,196 @@
+// src/services/paymentService.ts - Payment ledger backed by MemberPayment
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  Timestamp,
+  deleteField,
+} from 'firebase/firestore';
+
+import { MemberData, MemberPayment, PaymentMethod } from '../types/members';
+import { logMemberActivity, invalidateMemberCache } from './memberService';
+import { getNextDueDate } from '../utils/billingCycle';
+
+const PAYMENTS_COLLECTION = 'memberPayments';
+const RECEIPT_COUNTER_DOC = doc(db, 'counters', 'receipts');
+const RECEIPT_PREFIX = 'PMMA';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'Check', 'ACH', 'Credit Card'];
+
+export interface PaymentInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  description: string;
+  paymentDate?: Date; // Defaults to now
+  creditsAdded?: number; // Prepaid credit purchase
+  isDues?: boolean; // Monthly dues for a Recurring member; only these move nextPaymentDate
+  notes?: string;
+}
+
+// HELPER FUNCTIONS
+export const formatReceiptNumber = (sequence: number): string =>
+  `${RECEIPT_PREFIX}-${String(sequence).padStart(6, '0')}`;
+
+// RECORD PAYMENT
+export const recordPayment = async (
+  memberId: string,
+  input: PaymentInput,
+  processedBy: string,
+  processedByName: string
+): Promise<MemberPayment> => {
+  if (!input.amount || input.amount <= 0) {
+    throw new Error('Payment amount must be greater than zero.');
+  }
+  if (input.creditsAdded !== undefined && input.creditsAdded < 0) {
+    throw new Error('Credits added cannot be negative.');
+  }
+
+  try {
+    console.log(`Recording ${input.paymentMethod} payment of ${input.amount} for member ${memberId}`);
+
+    const paymentRef = doc(collection(db, PAYMENTS_COLLECTION));
+    const paymentDate = input.paymentDate || new Date();
+
+    // Receipt numbers are allocated inside a transaction so that two desks
+    // recording payments at the same time never share a number.
+    const payment = await runTransaction(db, async (transaction) => {
+      const memberRef = doc(db, 'users', memberId);
+      const [memberDoc, counterDoc] = await Promise.all([
+        transaction.get(memberRef),
+        transaction.get(RECEIPT_COUNTER_DOC),
+      ]);
+
+      if (!memberDoc.exists()) {
+        throw new Error('Member not found');
+      }
+
+      const member = memberDoc.data() as MemberData;
+      const sequence = (counterDoc.exists() ? counterDoc.data().lastNumber || 0 : 0) + 1;
+      const now = Timestamp.now();
+
+      const paymentData: Omit<MemberPayment, 'id'> = {
+        memberId,
+        memberName: `${member.firstName} ${member.lastName}`.trim(),
+        amount: input.amount,
+        paymentMethod: input.paymentMethod,
+        paymentDate: Timestamp.fromDate(paymentDate),
+        description: input.description,
+        processedBy,
+        processedByName,
+        receiptNumber: formatReceiptNumber(sequence),
+        createdAt: now,
+      };
+      if (member.membership?.type) paymentData.membershipType = member.membership.type;
+      if (input.creditsAdded) paymentData.creditsAdded = input.creditsAdded;
+      if (input.notes) paymentData.notes = input.notes;
+
+      const memberUpdate: any = {
+        'membership.lastPaymentDate': paymentData.paymentDate,
+        'membership.paymentMethod': input.paymentMethod,
+        'membership.updatedAt': now,
+        updatedAt: now,
+      };
+
+      if (input.isDues && member.membership?.type === 'Recurring') {
+        const monthlyAmount = member.membership.monthlyAmount || 0;
+        if (input.amount < monthlyAmount) {
+          throw new Error(`A dues payment must cover the monthly amount of $${monthlyAmount.toFixed(2)}.`);
+        }
+
+        // Settles the oldest missed period, matching the dunning queue's amount owed
+        const nextPaymentDate = getNextDueDate(member.membership.nextPaymentDate?.toDate(), paymentDate);
+        memberUpdate['membership.nextPaymentDate'] = Timestamp.fromDate(nextPaymentDate);
+
+        // Paying off the balance brings an overdue member back to Active
+        if (member.membership.status === 'Overdue' && nextPaymentDate > new Date()) {
+          memberUpdate['membership.status'] = 'Active';
+          memberUpdate['membership.overdueDate'] = deleteField();
+        }
+      }
+
+      if (input.creditsAdded) {
+        memberUpdate['membership.remainingCredits'] = (member.membership?.remainingCredits || 0) + input.creditsAdded;
+        memberUpdate['membership.totalCredits'] = (member.membership?.totalCredits || 0) + input.creditsAdded;
+      }
+
+      transaction.set(paymentRef, paymentData);
+      transaction.update(memberRef, memberUpdate);
+      transaction.set(RECEIPT_COUNTER_DOC, { lastNumber: sequence, updatedAt: now }, { merge: true });
+
+      return { id: paymentRef.id, ...paymentData } as MemberPayment;
+    });
+
+    invalidateMemberCache(memberId);
+
+    await logMemberActivity({
+      memberId,
+      type: 'payment',
+      description: `${input.paymentMethod} payment of $${input.amount.toFixed(2)} (${payment.receiptNumber})`,
+      details: {
+        paymentId: payment.id,
+        receiptNumber: payment.receiptNumber,
+        amount: input.amount,
+        creditsAdded: input.creditsAdded || 0,
+      },
+      performedBy: processedBy,
+      performedByName: processedByName,
+    });
+
+    console.log('Payment recorded successfully:', payment.receiptNumber);
+    return payment;
+  } catch (error: any) {
+    console.error('Error recording payment:', error);
+    throw new Error(error?.message || 'Failed to record payment. Please try again.');
+  }
+};
+
+// GET MEMBER PAYMENTS
+export const getMemberPayments = async (memberId: string): Promise<MemberPayment[]> => {
+  try {
+    const q = query(
+      collection(db, PAYMENTS_COLLECTION),
+      where('memberId', '==', memberId),
+      orderBy('paymentDate', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(docSnap => ({
+      id: docSnap.id,
+      ...docSnap.data(),
+    } as MemberPayment));
+  } catch (error) {
+    console.error('Error fetching member payments:', error);
+    throw new Error('Failed to load payment history');
+  }
+};
+
+// GET HOUSEHOLD PAYMENTS
+// Every payment by the household's current members, including ones made before
+// they joined; someone who leaves takes their payments with them
+export const getHouseholdPayments = async (memberIds: string[]): Promise<MemberPayment[]> => {
+  try {
+    const snapshots = [];
+    // 'in' queries take at most 30 values
+    for (let i = 0; i < memberIds.length; i += 30) {
+      snapshots.push(await getDocs(query(
+        collection(db, PAYMENTS_COLLECTION),
+        where('memberId', 'in', memberIds.slice(i, i + 30)),
+        orderBy('paymentDate', 'desc')
+      )));
+    }
+    return snapshots
+      .flatMap(snapshot => snapshot.docs.map(docSnap => ({
+        id: docSnap.id,
+        ...docSnap.data(),
+      } as MemberPayment)))
+      .sort((a, b) => b.paymentDate.toMillis() - a.paymentDate.toMillis());
+  } catch (error) {
+    console.error('Error fetching household payments:', error);
+    throw new Error('Failed to load household payments');
+  }
+};
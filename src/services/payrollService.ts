@@ -0,0 +1,147 @@
+// src/services/payrollService.ts - Staff pay rates and payroll period reports
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+} from 'firebase/firestore';
+
+import { PayRate, PayRule, PayrollReport, PayrollSession } from '../types/payroll';
+import { buildPayrollReport, getSessionRevenue } from '../utils/payroll';
+import { getTimesheetSummaries } from './timeClockService';
+import { logAuditEvent } from './auditService';
+
+const PAY_RATES_COLLECTION = 'payRates';
+
+// GET PAY RATES
+// Keyed by staff id
+export const getPayRates = async (): Promise<Record<string, PayRate>> => {
+  try {
+    const snapshot = await getDocs(collection(db, PAY_RATES_COLLECTION));
+    const rates: Record<string, PayRate> = {};
+    snapshot.forEach(rateDoc => {
+      const data = rateDoc.data();
+      rates[rateDoc.id] = {
+        staffId: rateDoc.id,
+        type: data.type,
+        amount: data.amount || 0,
+        updatedAt: data.updatedAt,
+        updatedBy: data.updatedBy,
+      };
+    });
+    return rates;
+  } catch (error) {
+    console.error('Error fetching pay rates:', error);
+    throw new Error('Failed to load pay rates. Please try again.');
+  }
+};
+
+// UPDATE PAY RATE
+// Passing null clears the rate
+export const updatePayRate = async (
+  staffId: string,
+  rule: PayRule | null,
+  updatedBy: string
+): Promise<void> => {
+  try {
+    const rateRef = doc(db, PAY_RATES_COLLECTION, staffId);
+    const [previous, staffDoc] = await Promise.all([getDoc(rateRef), getDoc(doc(db, 'staff', staffId))]);
+    const auditEvent = {
+      entityType: 'pay_rate' as const,
+      entityId: staffId,
+      entityName: staffDoc.data()?.fullName || '',
+      before: previous.data() || null,
+    };
+
+    if (!rule) {
+      await deleteDoc(rateRef);
+      await logAuditEvent({ ...auditEvent, action: 'delete' });
+      return;
+    }
+
+    if (!(rule.amount >= 0)) {
+      throw new Error('Pay amount cannot be negative');
+    }
+    if (rule.type === 'percentage' && rule.amount > 100) {
+      throw new Error('A percentage rate cannot be more than 100%');
+    }
+
+    const rate = {
+      type: rule.type,
+      amount: rule.amount,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    };
+    await setDoc(rateRef, rate);
+    await logAuditEvent({ ...auditEvent, action: previous.exists() ? 'update' : 'create', after: rate });
+    console.log('Pay rate updated for', staffId);
+  } catch (error: any) {
+    console.error('Error updating pay rate:', error);
+    throw new Error(error?.message || 'Failed to save pay rate. Please try again.');
+  }
+};
+
+// PAYROLL REPORT
+// Sessions are credited to instructorId, which is the substitute when a class
+// was covered. Attendees are bookings that weren't marked as no-shows.
+// Hours for hourly pay come from the time clock.
+export const getPayrollReport = async (periodStart: Date, periodEnd: Date): Promise<PayrollReport> => {
+  try {
+    const start = new Date(periodStart);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(periodEnd);
+    end.setHours(23, 59, 59, 999);
+
+    const [classesSnapshot, enrollmentsSnapshot, rates, timesheets] = await Promise.all([
+      getDocs(query(
+        collection(db, 'classes'),
+        where('date', '>=', Timestamp.fromDate(start)),
+        where('date', '<=', Timestamp.fromDate(end))
+      )),
+      getDocs(query(
+        collection(db, 'classEnrollments'),
+        where('classDate', '>=', Timestamp.fromDate(start)),
+        where('classDate', '<=', Timestamp.fromDate(end))
+      )),
+      getPayRates(),
+      getTimesheetSummaries(start, end),
+    ]);
+
+    const attendeesByClass: Record<string, number> = {};
+    enrollmentsSnapshot.forEach(enrollmentDoc => {
+      const enrollment = enrollmentDoc.data();
+      if (enrollment.status !== 'Enrolled' || enrollment.attendance === 'no_show') return;
+      attendeesByClass[enrollment.classId] = (attendeesByClass[enrollment.classId] || 0) + 1;
+    });
+
+    const sessions: PayrollSession[] = classesSnapshot.docs
+      // Only sessions that have happened; a period can run into the future
+      .filter(classDoc => classDoc.data().date.toMillis() <= Date.now())
+      .filter(classDoc => classDoc.data().isActive !== false && classDoc.data().instructorId)
+      .map(classDoc => {
+        const data = classDoc.data();
+        const attendees = attendeesByClass[classDoc.id] || 0;
+        return {
+          classId: classDoc.id,
+          title: data.title,
+          date: data.date.toDate(),
+          instructorId: data.instructorId,
+          instructorName: data.instructorName,
+          attendees,
+          revenue: getSessionRevenue(data, attendees),
+        };
+      });
+
+    return buildPayrollReport(sessions, rates, start, end, timesheets);
+  } catch (error) {
+    console.error('Error building payroll report:', error);
+    throw new Error('Failed to build the payroll report. Please try again.');
+  }
+};
@@ -0,0 +1,111 @@
+// src/services/permissionService.ts - Role-to-permission mapping and per-staff overrides
+
+import { db } from './firebase';
+import { doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+
+import { StaffRole } from '../types/staff';
+import { Permission, PermissionOverrides, RolePermissionMap } from '../types/permissions';
+import { DEFAULT_ROLE_PERMISSIONS, EMPTY_OVERRIDES, isPermission } from '../utils/permissions';
+import { logAuditEvent } from './auditService';
+
+const ROLE_PERMISSIONS_DOC = doc(db, 'settings', 'rolePermissions');
+const EDITABLE_ROLES: StaffRole[] = ['trainer', 'staff'];
+
+// HELPER FUNCTIONS
+const sanitizePermissions = (permissions: unknown): Permission[] =>
+  Array.isArray(permissions) ? Array.from(new Set(permissions.filter(isPermission))) : [];
+
+export const normalizeOverrides = (overrides: any): PermissionOverrides => {
+  if (!overrides) return EMPTY_OVERRIDES;
+  return {
+    granted: sanitizePermissions(overrides.granted),
+    revoked: sanitizePermissions(overrides.revoked),
+  };
+};
+
+// ROLE PERMISSIONS
+export const getRolePermissions = async (): Promise<RolePermissionMap> => {
+  try {
+    const settingsDoc = await getDoc(ROLE_PERMISSIONS_DOC);
+    const roles = settingsDoc.exists() ? settingsDoc.data().roles || {} : {};
+
+    return {
+      admin: DEFAULT_ROLE_PERMISSIONS.admin,
+      trainer: roles.trainer ? sanitizePermissions(roles.trainer) : DEFAULT_ROLE_PERMISSIONS.trainer,
+      staff: roles.staff ? sanitizePermissions(roles.staff) : DEFAULT_ROLE_PERMISSIONS.staff,
+    };
+  } catch (error) {
+    console.error('Error loading role permissions:', error);
+    throw new Error('Failed to load role permissions');
+  }
+};
+
+// Admin permissions are fixed; only trainer and staff mappings are stored
+export const updateRolePermissions = async (
+  roles: Partial<RolePermissionMap>,
+  updatedBy: string
+): Promise<boolean> => {
+  try {
+    const stored: Partial<RolePermissionMap> = {};
+    EDITABLE_ROLES.forEach(role => {
+      if (roles[role]) {
+        stored[role] = sanitizePermissions(roles[role]);
+      }
+    });
+
+    const previous = await getDoc(ROLE_PERMISSIONS_DOC);
+    await setDoc(ROLE_PERMISSIONS_DOC, {
+      roles: stored,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    }, { merge: true });
+
+    const before = previous.exists() ? previous.data().roles || {} : {};
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'permissions',
+      entityId: 'rolePermissions',
+      entityName: 'Role permissions',
+      before,
+      after: { ...before, ...stored },
+    });
+    return true;
+  } catch (error) {
+    console.error('Error updating role permissions:', error);
+    throw new Error('Failed to update role permissions. Please try again.');
+  }
+};
+
+// STAFF OVERRIDES
+export const updateStaffPermissionOverrides = async (
+  staffId: string,
+  overrides: PermissionOverrides,
+  updatedBy: string
+): Promise<PermissionOverrides> => {
+  try {
+    const normalized = normalizeOverrides(overrides);
+    // A permission can't be both granted and revoked; the revoke wins
+    normalized.granted = normalized.granted.filter(p => !normalized.revoked.includes(p));
+
+    const staffRef = doc(db, 'staff', staffId);
+    const previous = await getDoc(staffRef);
+    await updateDoc(staffRef, {
+      permissionOverrides: normalized,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    });
+
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'permissions',
+      entityId: staffId,
+      entityName: previous.data()?.fullName || '',
+      before: { permissionOverrides: normalizeOverrides(previous.data()?.permissionOverrides) },
+      after: { permissionOverrides: normalized },
+    });
+    return normalized;
+  } catch (error) {
+    console.error('Error updating staff permissions:', error);
+    throw new Error('Failed to update staff permissions. Please try again.');
+  }
+};
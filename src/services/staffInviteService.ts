@@ -0,0 +1,327 @@
+// src/services/staffInviteService.ts - Pending staff invites that new staff accept with their own password
+
+import { db, auth } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import {
+  User,
+  createUserWithEmailAndPassword,
+  deleteUser,
+  signInWithEmailAndPassword,
+  updateProfile,
+} from 'firebase/auth';
+
+import { StaffData } from './staffService';
+import { logAuditEvent } from './auditService';
+
+const INVITES_COLLECTION = 'staffInvites';
+const INVITE_TTL_DAYS = 7;
+
+export type StaffInviteStatus = 'pending' | 'accepted' | 'revoked';
+
+// The document id is the one-time token, so only someone holding the link can read it
+export interface StaffInvite extends StaffData {
+  id: string;
+  status: StaffInviteStatus;
+  createdAt: Timestamp;
+  createdBy: string;
+  createdByName: string;
+  expiresAt: Timestamp;
+  acceptedAt?: Timestamp;
+  uid?: string; // Set once accepted
+}
+
+// HELPER FUNCTIONS
+const generateInviteToken = () => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getExpiry = () => Timestamp.fromMillis(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const mapInvite = (id: string, data: DocumentData): StaffInvite => ({
+  id,
+  fullName: data.fullName,
+  email: data.email,
+  role: data.role,
+  phone: data.phone || '',
+  bio: data.bio || '',
+  sports: data.sports || [],
+  status: data.status,
+  createdAt: data.createdAt,
+  createdBy: data.createdBy,
+  createdByName: data.createdByName || '',
+  expiresAt: data.expiresAt,
+  acceptedAt: data.acceptedAt,
+  uid: data.uid,
+});
+
+export const isInviteExpired = (invite: StaffInvite) => invite.expiresAt.toMillis() < Date.now();
+
+export const getInviteLink = (inviteId: string) => `${window.location.origin}/accept-invite/${inviteId}`;
+
+// Opens the admin's mail client with the link filled in
+export const getInviteMailto = (invite: StaffInvite) => {
+  const subject = 'Your Pacific MMA staff account';
+  const body = [
+    `Hi ${invite.fullName},`,
+    '',
+    'You have been invited to the Pacific MMA admin panel. Open this link to choose your password:',
+    getInviteLink(invite.id),
+    '',
+    `The link expires on ${invite.expiresAt.toDate().toLocaleDateString()}.`,
+  ].join('\n');
+  return `mailto:${invite.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// GET PENDING INVITES
+// Newest first; expired invites stay listed so they can be resent
+export const getPendingStaffInvites = async (): Promise<StaffInvite[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, INVITES_COLLECTION), where('status', '==', 'pending')));
+    return snapshot.docs
+      .map(inviteDoc => mapInvite(inviteDoc.id, inviteDoc.data()))
+      .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+  } catch (error) {
+    console.error('Error fetching staff invites:', error);
+    throw new Error('Failed to load pending invites. Please try again.');
+  }
+};
+
+// CREATE INVITE
+export const createStaffInvite = async (
+  data: StaffData,
+  createdBy: string,
+  createdByName: string
+): Promise<StaffInvite> => {
+  try {
+    const email = data.email.trim().toLowerCase();
+
+    const [staffSnapshot, inviteSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'staff'), where('email', '==', email))),
+      getDocs(query(collection(db, INVITES_COLLECTION), where('email', '==', email))),
+    ]);
+    if (!staffSnapshot.empty) {
+      throw new Error('A staff member with this email already exists');
+    }
+    if (inviteSnapshot.docs.some(inviteDoc => inviteDoc.data().status === 'pending')) {
+      throw new Error('This email already has a pending invite. Resend it from the pending invites list.');
+    }
+
+    const inviteData = {
+      fullName: data.fullName.trim(),
+      email,
+      role: data.role,
+      phone: data.phone || '',
+      bio: data.bio || '',
+      sports: data.sports || [],
+      status: 'pending' as StaffInviteStatus,
+      createdAt: Timestamp.now(),
+      createdBy,
+      createdByName,
+      expiresAt: getExpiry(),
+    };
+
+    const inviteId = generateInviteToken();
+    await setDoc(doc(db, INVITES_COLLECTION, inviteId), inviteData);
+    console.log('Staff invite created for', email);
+    // Keyed by email: the token must not be readable from the log
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'staff_invite',
+      entityId: email,
+      entityName: inviteData.fullName,
+      after: { email, role: inviteData.role, expiresAt: inviteData.expiresAt },
+    });
+
+    return { id: inviteId, ...inviteData };
+  } catch (error: any) {
+    console.error('Error creating staff invite:', error);
+    throw new Error(error?.message || 'Failed to create the invite. Please try again.');
+  }
+};
+
+// RESEND INVITE
+// Issues a fresh token and expiry; the previous link stops working
+export const resendStaffInvite = async (
+  inviteId: string,
+  resentBy: string,
+  resentByName: string
+): Promise<StaffInvite> => {
+  try {
+    const inviteRef = doc(db, INVITES_COLLECTION, inviteId);
+    const inviteDoc = await getDoc(inviteRef);
+    if (!inviteDoc.exists() || inviteDoc.data().status !== 'pending') {
+      throw new Error('This invite is no longer pending');
+    }
+
+    const { id, ...previous } = mapInvite(inviteId, inviteDoc.data());
+    const resent = {
+      ...previous,
+      createdAt: Timestamp.now(),
+      createdBy: resentBy,
+      createdByName: resentByName,
+      expiresAt: getExpiry(),
+    };
+
+    const newInviteId = generateInviteToken();
+    const batch = writeBatch(db);
+    batch.set(doc(db, INVITES_COLLECTION, newInviteId), resent);
+    batch.delete(inviteRef);
+    await batch.commit();
+    console.log('Staff invite resent for', resent.email);
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'staff_invite',
+      entityId: resent.email,
+      entityName: resent.fullName,
+      before: { expiresAt: previous.expiresAt },
+      after: { expiresAt: resent.expiresAt },
+    });
+
+    return { id: newInviteId, ...resent };
+  } catch (error: any) {
+    console.error('Error resending staff invite:', error);
+    throw new Error(error?.message || 'Failed to resend the invite. Please try again.');
+  }
+};
+
+// REVOKE INVITE
+export const revokeStaffInvite = async (inviteId: string, revokedBy: string): Promise<void> => {
+  try {
+    const inviteRef = doc(db, INVITES_COLLECTION, inviteId);
+    const previous = await getDoc(inviteRef);
+    await updateDoc(inviteRef, {
+      status: 'revoked',
+      revokedAt: Timestamp.now(),
+      revokedBy,
+    });
+    console.log('Staff invite revoked:', inviteId);
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'staff_invite',
+      entityId: previous.data()?.email || '',
+      entityName: previous.data()?.fullName || '',
+      before: { status: previous.data()?.status },
+      after: { status: 'revoked' },
+    });
+  } catch (error) {
+    console.error('Error revoking staff invite:', error);
+    throw new Error('Failed to revoke the invite. Please try again.');
+  }
+};
+
+// ACCEPT INVITE
+// Used by the public accept page, before the new staff member has signed in
+export const getStaffInvite = async (inviteId: string): Promise<StaffInvite> => {
+  let inviteDoc;
+  try {
+    inviteDoc = await getDoc(doc(db, INVITES_COLLECTION, inviteId));
+  } catch (error) {
+    console.error('Error fetching staff invite:', error);
+    throw new Error('Failed to load the invite. Please try again.');
+  }
+
+  if (!inviteDoc.exists()) {
+    throw new Error('This invite link is not valid. Ask your administrator for a new one.');
+  }
+
+  const invite = mapInvite(inviteDoc.id, inviteDoc.data());
+  if (invite.status === 'accepted') {
+    throw new Error('This invite has already been used. Sign in with your email and password.');
+  }
+  if (invite.status === 'revoked') {
+    throw new Error('This invite has been revoked. Ask your administrator for a new one.');
+  }
+  if (isInviteExpired(invite)) {
+    throw new Error('This invite has expired. Ask your administrator to resend it.');
+  }
+  return invite;
+};
+
+// The staff record and the accepted invite are written together. Firestore
+// rules (see firestore.rules) only let the invitee create staff/{uid} with the
+// email and role of the pending invite named by inviteId.
+const writeAcceptedInvite = async (invite: StaffInvite, uid: string) => {
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'staff', uid), {
+    fullName: invite.fullName,
+    email: invite.email,
+    role: invite.role,
+    phone: invite.phone || '',
+    bio: invite.bio || '',
+    sports: invite.sports || [],
+    createdAt: now,
+    uid,
+    isActive: true,
+    invitedBy: invite.createdBy,
+    inviteId: invite.id,
+  });
+  batch.update(doc(db, INVITES_COLLECTION, invite.id), {
+    status: 'accepted',
+    acceptedAt: now,
+    uid,
+  });
+  await batch.commit();
+};
+
+// Creates the sign-in with the password the staff member chose and signs them in.
+// Safe to retry: if an earlier attempt created the sign-in but not the staff
+// record, signing in with the same password finishes the job.
+export const acceptStaffInvite = async (inviteId: string, password: string): Promise<void> => {
+  const invite = await getStaffInvite(inviteId);
+
+  let user: User;
+  let createdNow = false;
+  try {
+    ({ user } = await createUserWithEmailAndPassword(auth, invite.email, password));
+    createdNow = true;
+  } catch (error: any) {
+    if (error.code === 'auth/weak-password') {
+      throw new Error('Password is too weak. Must be at least 6 characters');
+    }
+    if (error.code !== 'auth/email-already-in-use') {
+      console.error('Error accepting staff invite:', error);
+      throw new Error(error?.message || 'Failed to set up your account. Please try again.');
+    }
+
+    try {
+      ({ user } = await signInWithEmailAndPassword(auth, invite.email, password));
+    } catch (signInError) {
+      console.error('Error accepting staff invite:', signInError);
+      throw new Error('An account with this email already exists. Ask your administrator for help.');
+    }
+    const existing = await getDoc(doc(db, 'staff', user.uid));
+    if (existing.exists()) {
+      throw new Error('An account with this email already exists. Ask your administrator for help.');
+    }
+  }
+
+  try {
+    await updateProfile(user, { displayName: invite.fullName });
+    await writeAcceptedInvite(invite, user.uid);
+    console.log('Staff invite accepted:', user.uid);
+  } catch (error: any) {
+    console.error('Error accepting staff invite:', error);
+    // Don't leave a sign-in behind that has no staff record
+    if (createdNow) {
+      await deleteUser(user).catch(deleteError => {
+        console.error('Error removing incomplete staff sign-in:', deleteError);
+      });
+    }
+    throw new Error(error?.message || 'Failed to set up your account. Please try again.');
+  }
+};
@@ -1,31 +1,43 @@
 // src/services/staffService.ts
-import { db, auth } from './firebase';
+import { db, storage } from './firebase';
 import {
   collection,
   getDocs,
   Timestamp,
   DocumentData,
+  DocumentReference,
   doc,
-  setDoc,
   updateDoc,
   getDoc,
+  query,
+  where,
+  writeBatch,
 } from 'firebase/firestore';
-import {
-  createUserWithEmailAndPassword,
-  updateProfile,
-  getAuth,
-  signOut,
-} from 'firebase/auth';
-import { initializeApp } from 'firebase/app';
-
-export interface StaffData {
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { PermissionOverrides } from '../types/permissions';
+import { SportCategory } from '../types/membershipPackages';
+import { normalizeOverrides } from './permissionService';
+import { clearInstructorsCache } from './classService';
+import { cancelClassBookings } from './enrollmentService';
+import { logAuditEvent } from './auditService';
+
+const BATCH_LIMIT = 400; // Stay under Firestore's 500 writes per batch
+
+// Optional profile details shown on class listings and the staff page
+export interface StaffProfileData {
+  phone?: string;
+  bio?: string;
+  photoUrl?: string;
+  sports?: SportCategory[]; // Sport categories a trainer teaches
+}
+
+export interface StaffData extends StaffProfileData {
   fullName: string;
   email: string;
-  password: string;
   role: 'admin' | 'trainer' | 'staff';
 }
 
-export interface StaffRecord {
+export interface StaffRecord extends StaffProfileData {
   id: string;
   fullName: string;
   email: string;
@@ -34,126 +46,36 @@ export interface StaffRecord {
   uid: string;
   isActive: boolean;
   deletedAt?: Timestamp;
+  permissionOverrides: PermissionOverrides;
 }
 
-// İkincil Firebase App instance
-let secondaryApp: any = null;
-let secondaryAuth: any = null;
-
-const initializeSecondaryApp = () => {
-  if (!secondaryApp) {
-    // Ana firebase config'inizi buraya kopyalayın
-    const firebaseConfig = {
-      apiKey: process.env.REACT_APP_FIREBASE_API_KEY,
-      authDomain: process.env.REACT_APP_FIREBASE_AUTH_DOMAIN,
-      projectId: process.env.REACT_APP_FIREBASE_PROJECT_ID,
-      storageBucket: process.env.REACT_APP_FIREBASE_STORAGE_BUCKET,
-      messagingSenderId: process.env.REACT_APP_FIREBASE_MESSAGING_SENDER_ID,
-      appId: process.env.REACT_APP_FIREBASE_APP_ID,
-      measurementId: process.env.REACT_APP_FIREBASE_MEASUREMENT_ID,
-    };
-    
-    try {
-      secondaryApp = initializeApp(firebaseConfig, 'SecondaryApp');
-      secondaryAuth = getAuth(secondaryApp);
-      console.log('Secondary Firebase app initialized successfully');
-    } catch (error) {
-      console.error('Error initializing secondary app:', error);
-      throw new Error('Could not initialize secondary authentication');
-    }
-  }
-  return secondaryAuth;
-};
-
-// Ana staff oluşturma fonksiyonu - Admin oturumunu koruyarak
-export const createStaffSecure = async (data: StaffData) => {
-  try {
-    // Ana kullanıcının bilgilerini sakla
-    const currentUser = auth.currentUser;
-    if (!currentUser) {
-      throw new Error('No authenticated admin user found');
-    }
-
-    console.log('Starting secure staff creation...');
-    console.log('Current admin user:', currentUser.uid, currentUser.email);
-
-    // İkincil auth instance'ını başlat
-    const secondAuth = initializeSecondaryApp();
-    
-    console.log('Creating new user with secondary auth...');
-    
-    // İkincil auth ile yeni kullanıcı oluştur
-    const userCredential = await createUserWithEmailAndPassword(
-      secondAuth,
-      data.email,
-      data.password
-    );
-    
-    const newUser = userCredential.user;
-    console.log('New user created:', newUser.uid, newUser.email);
-
-    // Yeni kullanıcının display name'ini güncelle
-    await updateProfile(newUser, {
-      displayName: data.fullName,
-    });
-
-    // Firestore'da staff kaydını oluştur
-    const staffData = {
-      fullName: data.fullName,
-      email: data.email,
-      role: data.role,
-      createdAt: Timestamp.now(),
-      uid: newUser.uid,
-      isActive: true,
-    };
-
-    await setDoc(doc(db, 'staff', newUser.uid), staffData);
-    console.log('Staff record created in Firestore');
-
-    // İkincil auth'dan çıkış yap (çok önemli!)
-    await signOut(secondAuth);
-    console.log('Signed out from secondary auth');
-
-    // Ana kullanıcının hala oturum açık olduğunu doğrula
-    const stillLoggedIn = auth.currentUser;
-    if (!stillLoggedIn || stillLoggedIn.uid !== currentUser.uid) {
-      console.error('Admin session was lost!');
-      throw new Error('Admin session was compromised during staff creation');
-    }
+// Upcoming work that still points at a staff member as instructor
+export interface StaffClassAssignment {
+  id: string;
+  title: string;
+  date: Timestamp;
+  startTime: string;
+  endTime: string;
+  currentEnrollment: number;
+  packageId?: string; // Set for package sessions
+  packageTitle?: string;
+}
 
-    console.log('Admin session preserved successfully');
+export interface StaffPackageAssignment {
+  id: string;
+  title: string;
+  endDate: Timestamp;
+  remainingSessions: number;
+}
 
-    return {
-      id: newUser.uid,
-      ...staffData,
-    };
-  } catch (error: any) {
-    console.error('Error creating staff:', error);
-    
-    // Hata durumunda da ikincil auth'dan çık
-    if (secondaryAuth) {
-      try {
-        await signOut(secondaryAuth);
-      } catch (signOutError) {
-        console.error('Error signing out from secondary auth:', signOutError);
-      }
-    }
-    
-    // Convert Firebase errors to user-friendly messages
-    if (error.code === 'auth/email-already-in-use') {
-      throw new Error('This email address is already in use');
-    } else if (error.code === 'auth/weak-password') {
-      throw new Error('Password is too weak. Must be at least 6 characters');
-    } else if (error.code === 'auth/invalid-email') {
-      throw new Error('Invalid email address');
-    }
-    
-    throw error;
-  }
-};
+export interface StaffAssignments {
+  classes: StaffClassAssignment[]; // Individual classes and package sessions from today on
+  packages: StaffPackageAssignment[];
+}
 
 // Other functions
-export const getAllStaff = async (): Promise<StaffRecord[]> => {
+// Deleted staff are left out unless asked for, e.g. to name them in past records
+export const getAllStaff = async (includeDeleted: boolean = false): Promise<StaffRecord[]> => {
   try {
     const staffRef = collection(db, 'staff');
     const snapshot = await getDocs(staffRef);
@@ -163,6 +85,8 @@ export const getAllStaff = async (): Promise<StaffRecord[]> => {
       const docData = doc.data() as DocumentData;
       
       // Only get non-deleted records
+      if (docData.deletedAt && !includeDeleted) return;
+
       staffList.push({
         id: doc.id,
         fullName: docData.fullName,
@@ -172,6 +96,11 @@ export const getAllStaff = async (): Promise<StaffRecord[]> => {
         uid: docData.uid,
         isActive: docData.isActive ?? true,
         deletedAt: docData.deletedAt,
+        permissionOverrides: normalizeOverrides(docData.permissionOverrides),
+        phone: docData.phone || '',
+        bio: docData.bio || '',
+        photoUrl: docData.photoUrl || '',
+        sports: docData.sports || [],
       });
     });
 
@@ -183,6 +112,163 @@ export const getAllStaff = async (): Promise<StaffRecord[]> => {
   }
 };
 
+const getStartOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Timestamp.fromDate(today);
+};
+
+// Future classes and unfinished packages taught by this staff member
+export const getStaffAssignments = async (staffId: string): Promise<StaffAssignments> => {
+  try {
+    const [classesSnapshot, packagesSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'classes'), where('instructorId', '==', staffId))),
+      getDocs(query(collection(db, 'packages'), where('instructorId', '==', staffId))),
+    ]);
+    const startOfToday = getStartOfToday();
+
+    const classes: StaffClassAssignment[] = classesSnapshot.docs
+      .map(d => ({ id: d.id, data: d.data() }))
+      .filter(({ data }) => data.isActive !== false && data.date.toMillis() >= startOfToday.toMillis())
+      .map(({ id, data }) => ({
+        id,
+        title: data.title,
+        date: data.date,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        currentEnrollment: data.currentEnrollment || 0,
+        packageId: data.packageId || undefined,
+        packageTitle: data.packageTitle || undefined,
+      }))
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis());
+
+    const packages: StaffPackageAssignment[] = packagesSnapshot.docs
+      .filter(d => d.data().isActive !== false && d.data().endDate.toMillis() >= startOfToday.toMillis())
+      .map(d => ({
+        id: d.id,
+        title: d.data().title,
+        endDate: d.data().endDate,
+        remainingSessions: classes.filter(c => c.packageId === d.id).length,
+      }));
+
+    return { classes, packages };
+  } catch (error) {
+    console.error('Error fetching staff assignments:', error);
+    throw new Error('Failed to load classes taught by this staff member. Please try again.');
+  }
+};
+
+const assertNoAssignments = async (staffId: string, action: string) => {
+  const { classes, packages } = await getStaffAssignments(staffId);
+  if (classes.length > 0 || packages.length > 0) {
+    throw new Error(
+      `Reassign or cancel their ${classes.length} upcoming classes and ${packages.length} packages before you ${action} this staff member`
+    );
+  }
+};
+
+const commitInBatches = async (refs: DocumentReference[], data: DocumentData) => {
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + BATCH_LIMIT).forEach(docRef => batch.update(docRef, data));
+    await batch.commit();
+  }
+};
+
+// One audit entry per class and package touched by a bulk change
+const logAssignmentChanges = async (
+  { classes, packages }: StaffAssignments,
+  before: Record<string, any>,
+  after: Record<string, any>
+) => {
+  await Promise.all([
+    ...classes.map(c => logAuditEvent({ action: 'update', entityType: 'class', entityId: c.id, entityName: c.title, before, after })),
+    ...packages.map(p => logAuditEvent({ action: 'update', entityType: 'package', entityId: p.id, entityName: p.title, before, after })),
+  ]);
+};
+
+// Moves every upcoming class and package over to another instructor
+export const reassignStaffAssignments = async (
+  staffId: string,
+  newInstructorId: string,
+  updatedBy: string
+): Promise<number> => {
+  try {
+    if (newInstructorId === staffId) {
+      throw new Error('Choose a different instructor');
+    }
+
+    const [instructorDoc, staffDoc] = await Promise.all([
+      getDoc(doc(db, 'staff', newInstructorId)),
+      getDoc(doc(db, 'staff', staffId)),
+    ]);
+    if (!instructorDoc.exists() || instructorDoc.data().isActive === false) {
+      throw new Error('The selected instructor is not an active staff member');
+    }
+
+    const assignments = await getStaffAssignments(staffId);
+    const { classes, packages } = assignments;
+    const refs = [
+      ...classes.map(c => doc(db, 'classes', c.id)),
+      ...packages.map(p => doc(db, 'packages', p.id)),
+    ];
+
+    await commitInBatches(refs, {
+      instructorId: newInstructorId,
+      instructorName: instructorDoc.data().fullName,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    });
+
+    await logAssignmentChanges(
+      assignments,
+      { instructorId: staffId, instructorName: staffDoc.data()?.fullName || '' },
+      { instructorId: newInstructorId, instructorName: instructorDoc.data().fullName }
+    );
+
+    console.log(`Reassigned ${refs.length} classes and packages from ${staffId} to ${newInstructorId}`);
+    return classes.length;
+  } catch (error: any) {
+    console.error('Error reassigning classes:', error);
+    throw new Error(error?.message || 'Failed to reassign classes. Please try again.');
+  }
+};
+
+// Calls off every upcoming class and package, cancelling the bookings on them
+export const cancelStaffAssignments = async (
+  staffId: string,
+  cancelledBy: string,
+  cancelledByName: string
+): Promise<{ classesCancelled: number; bookingsCancelled: number }> => {
+  try {
+    const assignments = await getStaffAssignments(staffId);
+    const { classes, packages } = assignments;
+
+    const bookingsCancelled = await cancelClassBookings(
+      classes.map(c => c.id),
+      cancelledBy,
+      cancelledByName,
+      'Class cancelled: instructor no longer available'
+    );
+
+    await commitInBatches(
+      [
+        ...classes.map(c => doc(db, 'classes', c.id)),
+        ...packages.map(p => doc(db, 'packages', p.id)),
+      ],
+      { isActive: false, updatedAt: Timestamp.now(), updatedBy: cancelledBy }
+    );
+
+    await logAssignmentChanges(assignments, { isActive: true }, { isActive: false });
+
+    console.log(`Cancelled ${classes.length} classes and ${bookingsCancelled} bookings for ${staffId}`);
+    return { classesCancelled: classes.length, bookingsCancelled };
+  } catch (error: any) {
+    console.error('Error cancelling classes:', error);
+    throw new Error(error?.message || 'Failed to cancel classes. Please try again.');
+  }
+};
+
 export const setStaffActiveStatus = async (
   staffId: string, 
   isActive: boolean, 
@@ -194,6 +280,11 @@ export const setStaffActiveStatus = async (
       throw new Error('You cannot deactivate your own account');
     }
 
+    // Classes must not be left on the schedule under someone who can't teach them
+    if (!isActive) {
+      await assertNoAssignments(staffId, 'deactivate');
+    }
+
     const updateData: any = {
       isActive: isActive,
       updatedAt: Timestamp.now(),
@@ -203,11 +294,26 @@ export const setStaffActiveStatus = async (
     if (!isActive) {
       updateData.deactivatedAt = Timestamp.now();
     } else {
-      // Clear deactivatedAt when reactivating
+      // Clear deactivatedAt (and any deletion) when reactivating
       updateData.deactivatedAt = null;
+      updateData.deletedAt = null;
     }
 
-    await updateDoc(doc(db, 'staff', staffId), updateData);
+    const staffRef = doc(db, 'staff', staffId);
+    const previous = await getDoc(staffRef);
+    await updateDoc(staffRef, updateData);
+    // Inactive staff drop out of the instructor dropdowns
+    clearInstructorsCache();
+
+    const before = previous.data() || null;
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'staff',
+      entityId: staffId,
+      entityName: before?.fullName || '',
+      before,
+      after: { ...before, ...updateData },
+    });
 
     console.log(`Staff ${isActive ? 'activated' : 'deactivated'} successfully`);
     return true;
@@ -217,6 +323,94 @@ export const setStaffActiveStatus = async (
   }
 };
 
+// Rewrites the denormalized instructorName on classes and packages they teach,
+// and originalInstructorName on classes someone else covered for them
+const syncInstructorName = async (staffId: string, fullName: string): Promise<number> => {
+  const [classesSnapshot, packagesSnapshot, coveredSnapshot] = await Promise.all([
+    getDocs(query(collection(db, 'classes'), where('instructorId', '==', staffId))),
+    getDocs(query(collection(db, 'packages'), where('instructorId', '==', staffId))),
+    getDocs(query(collection(db, 'classes'), where('originalInstructorId', '==', staffId))),
+  ]);
+  const refs = [...classesSnapshot.docs, ...packagesSnapshot.docs]
+    .filter(d => d.data().instructorName !== fullName)
+    .map(d => d.ref);
+  const coveredRefs = coveredSnapshot.docs
+    .filter(d => d.data().originalInstructorName !== fullName)
+    .map(d => d.ref);
+
+  await commitInBatches(refs, { instructorName: fullName, updatedAt: Timestamp.now() });
+  await commitInBatches(coveredRefs, { originalInstructorName: fullName, updatedAt: Timestamp.now() });
+  return refs.length;
+};
+
+// Updates the staff profile and role. The sign-in email lives in Firebase
+// Auth and is not changed here; only the contact email on the record is.
+export const updateStaff = async (
+  staffId: string,
+  data: StaffData,
+  updatedBy: string,
+  photoFile?: File
+): Promise<{ staff: StaffData; classesUpdated: number }> => {
+  try {
+    const staffRef = doc(db, 'staff', staffId);
+    const staffDoc = await getDoc(staffRef);
+    if (!staffDoc.exists()) {
+      throw new Error('Staff member not found');
+    }
+
+    const current = staffDoc.data();
+    if (staffId === updatedBy && current.role === 'admin' && data.role !== 'admin') {
+      throw new Error('You cannot remove your own admin role');
+    }
+
+    let photoUrl = data.photoUrl || current.photoUrl || '';
+    if (photoFile) {
+      const photoRef = ref(storage, `staff/${staffId}_${Date.now()}_${photoFile.name}`);
+      const snapshot = await uploadBytes(photoRef, photoFile);
+      photoUrl = await getDownloadURL(snapshot.ref);
+    }
+
+    const fullName = data.fullName.trim();
+    const updated: StaffData = {
+      fullName,
+      email: data.email.trim(),
+      role: data.role,
+      phone: data.phone?.trim() || '',
+      bio: data.bio?.trim() || '',
+      sports: data.sports || [],
+      photoUrl,
+    };
+
+    await updateDoc(staffRef, {
+      ...updated,
+      updatedAt: Timestamp.now(),
+      updatedBy,
+    });
+
+    const classesUpdated = current.fullName !== fullName
+      ? await syncInstructorName(staffId, fullName)
+      : 0;
+
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'staff',
+      entityId: staffId,
+      entityName: fullName,
+      before: current,
+      after: { ...current, ...updated },
+    });
+
+    // Name and role both feed the instructor dropdowns
+    clearInstructorsCache();
+
+    console.log(`Staff ${staffId} updated, ${classesUpdated} classes renamed`);
+    return { staff: updated, classesUpdated };
+  } catch (error: any) {
+    console.error('Error updating staff:', error);
+    throw new Error(error?.message || 'Failed to update staff member. Please try again.');
+  }
+};
+
 export const checkUserStatus = async (uid: string) => {
   try {
     const userDocRef = doc(db, 'staff', uid);
@@ -248,14 +442,42 @@ export const getActiveStaff = async (): Promise<StaffRecord[]> => {
   }
 };
 
-// Backward compatibility için
-export const createStaff = createStaffSecure;
-export const deleteStaff = async (staffId: string) => {
+// Deletes by deactivating: past classes, time entries and payroll history keep
+// pointing at a real record. Upcoming classes must be reassigned or cancelled first.
+export const deleteStaff = async (staffId: string, deletedBy: string) => {
   try {
-    await setStaffActiveStatus(staffId, false, 'system');
+    if (staffId === deletedBy) {
+      throw new Error('You cannot delete your own account');
+    }
+
+    await assertNoAssignments(staffId, 'delete');
+    const staffRef = doc(db, 'staff', staffId);
+    const previous = await getDoc(staffRef);
+    const now = Timestamp.now();
+    const updateData = {
+      isActive: false,
+      deactivatedAt: now,
+      deletedAt: now,
+      updatedAt: now,
+      updatedBy: deletedBy,
+    };
+    await updateDoc(staffRef, updateData);
+    clearInstructorsCache();
+
+    const before = previous.data() || null;
+    await logAuditEvent({
+      action: 'delete',
+      entityType: 'staff',
+      entityId: staffId,
+      entityName: before?.fullName || '',
+      before,
+      after: { ...before, ...updateData },
+    });
+
+    console.log(`Staff ${staffId} deleted (deactivated)`);
     return true;
   } catch (error) {
-    console.error('Error deactivating staff:', error);
+    console.error('Error deleting staff:', error);
     throw error;
   }
 };
\ No newline at end of file
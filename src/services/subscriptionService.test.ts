@@ -0,0 +1,59 @@
+import { MembershipPackageRecord, MembershipSubscription } from '../types/membershipPackages';
+import { getCancellationQuote } from './subscriptionService';
+
+// getCancellationQuote never touches Firestore; keep the app from initializing
+jest.mock('./firebase', () => ({ db: {}, auth: {}, storage: {}, functions: {} }));
+
+const pkg = { minimumCommitmentMonths: 0, earlyTerminationFee: 0 } as MembershipPackageRecord;
+
+const subscription = (overrides: Partial<MembershipSubscription> = {}): MembershipSubscription => ({
+  id: 'sub-1',
+  userId: 'member-1',
+  userName: 'Jane Doe',
+  userEmail: 'jane@example.com',
+  packageId: 'pkg-1',
+  packageName: 'BJJ Basic',
+  startDate: new Date(2025, 0, 1),
+  endDate: new Date(2025, 0, 31),
+  status: 'Active',
+  amountPaid: 120,
+  currentTermAmountPaid: 120,
+  paymentDate: new Date(2025, 0, 1),
+  classesAttended: 0,
+  guestPassesUsed: 0,
+  guestPassesRemaining: 0,
+  isAutoRenewal: true,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+  ...overrides,
+});
+
+describe('getCancellationQuote', () => {
+  test('prorates what was paid for the current term', () => {
+    const quote = getCancellationQuote(subscription(), pkg, new Date(2025, 0, 16));
+
+    expect(quote.totalDays).toBe(30);
+    expect(quote.unusedDays).toBe(15);
+    expect(quote.refundAmount).toBe(60);
+  });
+
+  test('does not refund earlier terms after a renewal', () => {
+    const renewed = subscription({
+      endDate: new Date(2025, 2, 2),
+      lastRenewedAt: new Date(2025, 0, 31),
+      renewalCount: 1,
+      amountPaid: 228,
+      currentTermAmountPaid: 108,
+    });
+
+    expect(getCancellationQuote(renewed, pkg, new Date(2025, 0, 31)).refundAmount).toBe(108);
+  });
+
+  test('charges the early termination fee inside the commitment period', () => {
+    const committed = { ...pkg, minimumCommitmentMonths: 3, earlyTerminationFee: 50 };
+    const quote = getCancellationQuote(subscription(), committed, new Date(2025, 0, 16));
+
+    expect(quote.withinCommitment).toBe(true);
+    expect(quote.refundAmount).toBe(10);
+  });
+});
@@ -0,0 +1,549 @@
+// src/services/subscriptionService.ts
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  deleteField,
+  Timestamp,
+} from 'firebase/firestore';
+import { addDays, addMonths, addWeeks, differenceInCalendarDays } from 'date-fns';
+import { db } from './firebase';
+import {
+  DurationType,
+  MembershipPackageRecord,
+  MembershipSubscription,
+} from '../types/membershipPackages';
+import { MemberRecord } from '../types/members';
+import { getMembershipPackage } from './membershipPackageService';
+import { getMemberById, logMemberActivity, invalidateMemberCache } from './memberService';
+import { getPackagePriceForMember } from './householdService';
+
+// Collection names
+const SUBSCRIPTIONS_COLLECTION = 'membershipSubscriptions';
+
+// Freeze allowances are tracked in days
+const DAYS_PER_MONTH = 30;
+
+export interface SubscribeOptions {
+  startDate?: Date;
+  amountPaid?: number; // Defaults to the package price, less any family discount
+  paymentMethod?: string;
+  paymentId?: string;
+  notes?: string;
+}
+
+export interface RenewOptions {
+  amountPaid?: number; // Defaults to getRenewalPricing
+  paymentMethod?: string;
+  paymentId?: string;
+}
+
+export interface CancellationQuote {
+  unusedDays: number;
+  totalDays: number;
+  proratedRefund: number;
+  earlyTerminationFee: number;
+  refundAmount: number;
+  withinCommitment: boolean;
+}
+
+// Helper function to convert Firestore timestamp to Date
+const timestampToDate = (timestamp: any): Date | undefined => {
+  if (!timestamp) return undefined;
+  if (timestamp.toDate) return timestamp.toDate();
+  if (timestamp.seconds) return new Date(timestamp.seconds * 1000);
+  return new Date(timestamp);
+};
+
+const convertDocToSubscription = (docSnap: any): MembershipSubscription => {
+  const data = docSnap.data();
+  return {
+    ...data,
+    id: docSnap.id,
+    startDate: timestampToDate(data.startDate)!,
+    endDate: timestampToDate(data.endDate)!,
+    paymentDate: timestampToDate(data.paymentDate)!,
+    pausedAt: timestampToDate(data.pausedAt),
+    nextRenewalDate: timestampToDate(data.nextRenewalDate),
+    lastRenewedAt: timestampToDate(data.lastRenewedAt),
+    cancelledAt: timestampToDate(data.cancelledAt),
+    createdAt: timestampToDate(data.createdAt)!,
+    updatedAt: timestampToDate(data.updatedAt)!,
+  } as MembershipSubscription;
+};
+
+const getSubscriptionOrThrow = async (subscriptionId: string): Promise<MembershipSubscription> => {
+  const snap = await getDoc(doc(db, SUBSCRIPTIONS_COLLECTION, subscriptionId));
+  if (!snap.exists()) {
+    throw new Error('Subscription not found');
+  }
+  return convertDocToSubscription(snap);
+};
+
+const getPackageOrThrow = async (packageId: string): Promise<MembershipPackageRecord> => {
+  const pkg = await getMembershipPackage(packageId);
+  if (!pkg) {
+    throw new Error('Membership package not found');
+  }
+  return pkg;
+};
+
+/**
+ * Calculate the end of a subscription term from the package duration
+ */
+export const calculateEndDate = (startDate: Date, duration: number, durationType: DurationType): Date => {
+  switch (durationType) {
+    case 'months':
+      return addMonths(startDate, duration);
+    case 'weeks':
+      return addWeeks(startDate, duration);
+    case 'days':
+    default:
+      return addDays(startDate, duration);
+  }
+};
+
+/**
+ * Days of freeze still available on a subscription (Infinity when the package has no cap)
+ */
+export const getRemainingFreezeDays = (
+  subscription: MembershipSubscription,
+  pkg: MembershipPackageRecord
+): number => {
+  if (!pkg.allowFreeze) return 0;
+  if (!pkg.maxFreezeMonths) return Infinity;
+  return Math.max(0, pkg.maxFreezeMonths * DAYS_PER_MONTH - (subscription.pauseDuration || 0));
+};
+
+/**
+ * Work out the refund and early termination fee for cancelling on a given date
+ */
+export const getCancellationQuote = (
+  subscription: MembershipSubscription,
+  pkg: MembershipPackageRecord,
+  cancelDate: Date = new Date()
+): CancellationQuote => {
+  const termStart = subscription.lastRenewedAt || subscription.startDate;
+  const totalDays = Math.max(1, differenceInCalendarDays(subscription.endDate, termStart));
+  const unusedDays = Math.min(
+    totalDays,
+    Math.max(0, differenceInCalendarDays(subscription.endDate, cancelDate > termStart ? cancelDate : termStart))
+  );
+
+  // Older subscriptions only recorded the running total, so fall back to the
+  // average paid per term rather than refunding earlier terms too
+  const termAmountPaid = subscription.currentTermAmountPaid ??
+    (subscription.amountPaid || 0) / ((subscription.renewalCount || 0) + 1);
+  const proratedRefund = termAmountPaid * (unusedDays / totalDays);
+
+  const commitmentEnd = pkg.minimumCommitmentMonths
+    ? addMonths(subscription.startDate, pkg.minimumCommitmentMonths)
+    : null;
+  const withinCommitment = !!commitmentEnd && cancelDate < commitmentEnd;
+  const earlyTerminationFee = withinCommitment ? pkg.earlyTerminationFee || 0 : 0;
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    unusedDays,
+    totalDays,
+    proratedRefund: round(proratedRefund),
+    earlyTerminationFee: round(earlyTerminationFee),
+    refundAmount: round(Math.max(0, proratedRefund - earlyTerminationFee)),
+    withinCommitment,
+  };
+};
+
+/**
+ * Get all subscriptions for a member, newest first
+ */
+export const getMemberSubscriptions = async (memberId: string): Promise<MembershipSubscription[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, SUBSCRIPTIONS_COLLECTION),
+      where('userId', '==', memberId)
+    ));
+    return snapshot.docs
+      .map(convertDocToSubscription)
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+  } catch (error) {
+    console.error('Error getting member subscriptions:', error);
+    throw new Error('Failed to load member subscriptions');
+  }
+};
+
+/**
+ * Get the member's current (Active or Paused) subscription, if any
+ */
+export const getCurrentSubscription = async (memberId: string): Promise<MembershipSubscription | null> => {
+  const subscriptions = await getMemberSubscriptions(memberId);
+  return subscriptions.find(sub => sub.status === 'Active' || sub.status === 'Paused') || null;
+};
+
+/**
+ * Subscribe a member to a membership package
+ */
+export const subscribeToPackage = async (
+  memberId: string,
+  packageId: string,
+  options: SubscribeOptions,
+  userId: string,
+  userName: string
+): Promise<MembershipSubscription> => {
+  try {
+    const [member, pkg, current] = await Promise.all([
+      getMemberById(memberId, false),
+      getPackageOrThrow(packageId),
+      getCurrentSubscription(memberId),
+    ]);
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+    if (pkg.status !== 'Active') {
+      throw new Error('This package is not available for new subscriptions.');
+    }
+    if (current) {
+      throw new Error(`Member already has a current subscription to ${current.packageName}. Renew or cancel it first.`);
+    }
+
+    const startDate = options.startDate || new Date();
+    const endDate = calculateEndDate(startDate, pkg.duration, pkg.durationType);
+    const now = Timestamp.now();
+    const amountPaid = options.amountPaid ?? (await getPackagePriceForMember(member, pkg)).price;
+
+    const subscriptionRef = doc(collection(db, SUBSCRIPTIONS_COLLECTION));
+    const subscriptionData: any = {
+      userId: memberId,
+      userName: `${member.firstName} ${member.lastName}`.trim(),
+      userEmail: member.email,
+      packageId,
+      packageName: pkg.name,
+      startDate: Timestamp.fromDate(startDate),
+      endDate: Timestamp.fromDate(endDate),
+      status: 'Active',
+      amountPaid,
+      currentTermAmountPaid: amountPaid,
+      paymentDate: now,
+      classesAttended: 0,
+      guestPassesUsed: 0,
+      guestPassesRemaining: pkg.guestPassesIncluded || 0,
+      isAutoRenewal: pkg.autoRenewal,
+      pauseDuration: 0,
+      renewalCount: 0,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: userId,
+    };
+    if (pkg.autoRenewal) subscriptionData.nextRenewalDate = Timestamp.fromDate(endDate);
+    if (options.paymentMethod) subscriptionData.paymentMethod = options.paymentMethod;
+    if (options.paymentId) subscriptionData.paymentId = options.paymentId;
+    if (options.notes) subscriptionData.notes = options.notes;
+
+    const batch = writeBatch(db);
+    batch.set(subscriptionRef, subscriptionData);
+    batch.update(doc(db, 'users', memberId), {
+      activeSubscriptionId: subscriptionRef.id,
+      activePackageId: packageId,
+      activePackageName: pkg.name,
+      'membership.status': 'Active',
+      'membership.startDate': Timestamp.fromDate(startDate),
+      'membership.endDate': Timestamp.fromDate(endDate),
+      'membership.autoRenew': pkg.autoRenewal,
+      'membership.updatedAt': now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    invalidateMemberCache(memberId);
+    await logMemberActivity({
+      memberId,
+      type: 'membership_change',
+      description: `Subscribed to ${pkg.name}`,
+      details: { subscriptionId: subscriptionRef.id, packageId, endDate: endDate.toISOString() },
+      performedBy: userId,
+      performedByName: userName,
+    });
+
+    return convertDocToSubscription({ id: subscriptionRef.id, data: () => subscriptionData });
+  } catch (error: any) {
+    console.error('Error subscribing member to package:', error);
+    throw new Error(error?.message || 'Failed to create subscription');
+  }
+};
+
+/**
+ * Freeze a subscription, subject to the package's freeze policy
+ */
+export const pauseSubscription = async (
+  subscriptionId: string,
+  reason: string,
+  userId: string,
+  userName: string
+): Promise<void> => {
+  try {
+    const subscription = await getSubscriptionOrThrow(subscriptionId);
+    if (subscription.status !== 'Active') {
+      throw new Error('Only active subscriptions can be paused.');
+    }
+
+    const pkg = await getPackageOrThrow(subscription.packageId);
+    if (!pkg.allowFreeze) {
+      throw new Error(`${pkg.name} does not allow freezing.`);
+    }
+    if (getRemainingFreezeDays(subscription, pkg) <= 0) {
+      throw new Error(`The maximum freeze of ${pkg.maxFreezeMonths} month(s) has already been used.`);
+    }
+
+    const now = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.update(doc(db, SUBSCRIPTIONS_COLLECTION, subscriptionId), {
+      status: 'Paused',
+      pausedAt: now,
+      pauseReason: reason,
+      updatedAt: now,
+    });
+    batch.update(doc(db, 'users', subscription.userId), {
+      'membership.status': 'Paused',
+      'membership.pausedDate': now,
+      'membership.pauseReason': reason,
+      'membership.updatedAt': now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    invalidateMemberCache(subscription.userId);
+    await logMemberActivity({
+      memberId: subscription.userId,
+      type: 'membership_change',
+      description: `Paused ${subscription.packageName}${reason ? `: ${reason}` : ''}`,
+      details: { subscriptionId },
+      performedBy: userId,
+      performedByName: userName,
+    });
+  } catch (error: any) {
+    console.error('Error pausing subscription:', error);
+    throw new Error(error?.message || 'Failed to pause subscription');
+  }
+};
+
+/**
+ * Resume a frozen subscription, extending its end date by the time frozen.
+ * Freezes shorter than the package minimum are counted as the minimum, and the
+ * extension is capped at the remaining freeze allowance.
+ */
+export const resumeSubscription = async (
+  subscriptionId: string,
+  userId: string,
+  userName: string
+): Promise<{ frozenDays: number; newEndDate: Date }> => {
+  try {
+    const subscription = await getSubscriptionOrThrow(subscriptionId);
+    if (subscription.status !== 'Paused' || !subscription.pausedAt) {
+      throw new Error('Only paused subscriptions can be resumed.');
+    }
+
+    const pkg = await getPackageOrThrow(subscription.packageId);
+    const actualDays = Math.max(0, differenceInCalendarDays(new Date(), subscription.pausedAt));
+    const minimumDays = (pkg.minFreezeWeeks || 0) * 7;
+    const frozenDays = Math.min(Math.max(actualDays, minimumDays), getRemainingFreezeDays(subscription, pkg));
+    const newEndDate = addDays(subscription.endDate, frozenDays);
+
+    const now = Timestamp.now();
+    const subscriptionUpdate: any = {
+      status: 'Active',
+      pausedAt: deleteField(),
+      pauseDuration: (subscription.pauseDuration || 0) + frozenDays,
+      endDate: Timestamp.fromDate(newEndDate),
+      updatedAt: now,
+    };
+    if (subscription.isAutoRenewal) {
+      subscriptionUpdate.nextRenewalDate = Timestamp.fromDate(newEndDate);
+    }
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, SUBSCRIPTIONS_COLLECTION, subscriptionId), subscriptionUpdate);
+    batch.update(doc(db, 'users', subscription.userId), {
+      'membership.status': 'Active',
+      'membership.endDate': Timestamp.fromDate(newEndDate),
+      'membership.pausedDate': deleteField(),
+      'membership.pauseReason': deleteField(),
+      'membership.updatedAt': now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    invalidateMemberCache(subscription.userId);
+    await logMemberActivity({
+      memberId: subscription.userId,
+      type: 'membership_change',
+      description: `Resumed ${subscription.packageName} (frozen ${frozenDays} days)`,
+      details: { subscriptionId, frozenDays, newEndDate: newEndDate.toISOString() },
+      performedBy: userId,
+      performedByName: userName,
+    });
+
+    return { frozenDays, newEndDate };
+  } catch (error: any) {
+    console.error('Error resuming subscription:', error);
+    throw new Error(error?.message || 'Failed to resume subscription');
+  }
+};
+
+/**
+ * Cancel a subscription, applying the early termination fee and computing the refund
+ */
+export const cancelSubscription = async (
+  subscriptionId: string,
+  reason: string,
+  userId: string,
+  userName: string
+): Promise<CancellationQuote> => {
+  try {
+    const subscription = await getSubscriptionOrThrow(subscriptionId);
+    if (subscription.status === 'Cancelled' || subscription.status === 'Expired') {
+      throw new Error('This subscription has already ended.');
+    }
+
+    const pkg = await getPackageOrThrow(subscription.packageId);
+    const quote = getCancellationQuote(subscription, pkg);
+    const now = Timestamp.now();
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, SUBSCRIPTIONS_COLLECTION, subscriptionId), {
+      status: 'Cancelled',
+      cancelledAt: now,
+      cancellationReason: reason,
+      refundAmount: quote.refundAmount,
+      earlyTerminationFee: quote.earlyTerminationFee,
+      isAutoRenewal: false,
+      nextRenewalDate: deleteField(),
+      updatedAt: now,
+    });
+    batch.update(doc(db, 'users', subscription.userId), {
+      activeSubscriptionId: deleteField(),
+      activePackageId: deleteField(),
+      activePackageName: deleteField(),
+      'membership.status': 'No Membership',
+      'membership.endDate': now,
+      'membership.autoRenew': false,
+      'membership.updatedAt': now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    invalidateMemberCache(subscription.userId);
+    await logMemberActivity({
+      memberId: subscription.userId,
+      type: 'membership_change',
+      description: `Cancelled ${subscription.packageName} (refund $${quote.refundAmount.toFixed(2)})`,
+      details: { subscriptionId, reason, ...quote },
+      performedBy: userId,
+      performedByName: userName,
+    });
+
+    return quote;
+  } catch (error: any) {
+    console.error('Error cancelling subscription:', error);
+    throw new Error(error?.message || 'Failed to cancel subscription');
+  }
+};
+
+/**
+ * Default price for the member's next term: the family discount when it
+ * applies (see getPackagePriceForMember), then the package's renewal discount
+ */
+export const getRenewalPricing = async (
+  member: MemberRecord,
+  pkg: MembershipPackageRecord
+): Promise<{ price: number; familyDiscountPercent: number; renewalDiscountPercent: number }> => {
+  const familyPricing = await getPackagePriceForMember(member, pkg);
+  const renewalDiscountPercent = pkg.renewalDiscountPercent || 0;
+  return {
+    price: Math.round(familyPricing.price * (1 - renewalDiscountPercent / 100) * 100) / 100,
+    familyDiscountPercent: familyPricing.familyDiscountPercent,
+    renewalDiscountPercent,
+  };
+};
+
+/**
+ * Renew a subscription for another term. The new term starts when the current
+ * one ends, or today if it has already lapsed.
+ */
+export const renewSubscription = async (
+  subscriptionId: string,
+  options: RenewOptions,
+  userId: string,
+  userName: string
+): Promise<Date> => {
+  try {
+    const subscription = await getSubscriptionOrThrow(subscriptionId);
+    if (subscription.status === 'Cancelled') {
+      throw new Error('Cancelled subscriptions cannot be renewed. Create a new subscription instead.');
+    }
+    if (subscription.status === 'Paused') {
+      throw new Error('Resume the subscription before renewing it.');
+    }
+
+    const [pkg, member] = await Promise.all([
+      getPackageOrThrow(subscription.packageId),
+      getMemberById(subscription.userId, false),
+    ]);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+    const today = new Date();
+    const termStart = subscription.endDate > today ? subscription.endDate : today;
+    const newEndDate = calculateEndDate(termStart, pkg.duration, pkg.durationType);
+    const amountPaid = options.amountPaid ?? (await getRenewalPricing(member, pkg)).price;
+
+    const now = Timestamp.now();
+    const subscriptionUpdate: any = {
+      status: 'Active',
+      endDate: Timestamp.fromDate(newEndDate),
+      amountPaid: (subscription.amountPaid || 0) + amountPaid,
+      currentTermAmountPaid: amountPaid,
+      paymentDate: now,
+      renewalCount: (subscription.renewalCount || 0) + 1,
+      lastRenewedAt: Timestamp.fromDate(termStart),
+      renewalNotificationSent: false,
+      guestPassesRemaining: subscription.guestPassesRemaining + (pkg.guestPassesIncluded || 0),
+      updatedAt: now,
+    };
+    if (subscription.isAutoRenewal) subscriptionUpdate.nextRenewalDate = Timestamp.fromDate(newEndDate);
+    if (options.paymentMethod) subscriptionUpdate.paymentMethod = options.paymentMethod;
+    if (options.paymentId) subscriptionUpdate.paymentId = options.paymentId;
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, SUBSCRIPTIONS_COLLECTION, subscriptionId), subscriptionUpdate);
+    batch.update(doc(db, 'users', subscription.userId), {
+      activeSubscriptionId: subscriptionId,
+      activePackageId: subscription.packageId,
+      activePackageName: subscription.packageName,
+      'membership.status': 'Active',
+      'membership.endDate': Timestamp.fromDate(newEndDate),
+      'membership.updatedAt': now,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    invalidateMemberCache(subscription.userId);
+    await logMemberActivity({
+      memberId: subscription.userId,
+      type: 'membership_change',
+      description: `Renewed ${subscription.packageName} until ${newEndDate.toLocaleDateString()}`,
+      details: { subscriptionId, amountPaid, newEndDate: newEndDate.toISOString() },
+      performedBy: userId,
+      performedByName: userName,
+    });
+
+    return newEndDate;
+  } catch (error: any) {
+    console.error('Error renewing subscription:', error);
+    throw new Error(error?.message || 'Failed to renew subscription');
+  }
+};
@@ -0,0 +1,279 @@
+// src/services/substituteService.ts - Sub requests: a trainer asks for cover, another claims it, an admin approves
+
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  query,
+  where,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+
+import { logAuditEvent } from './auditService';
+
+const SUBSTITUTE_COLLECTION = 'substituteRequests';
+
+export type SubstituteRequestStatus = 'open' | 'claimed' | 'approved' | 'withdrawn';
+
+export interface SubstituteRequest {
+  id: string;
+  classId: string;
+  classTitle: string;
+  classDate: Timestamp;
+  startTime: string;
+  endTime: string;
+  location: string;
+  requestedBy: string;
+  requestedByName: string;
+  reason: string;
+  status: SubstituteRequestStatus;
+  claimedBy?: string;
+  claimedByName?: string;
+  claimedAt?: Timestamp;
+  approvedBy?: string;
+  approvedByName?: string;
+  approvedAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+// Requests still waiting on someone: unclaimed, or claimed and awaiting approval
+const PENDING_STATUSES: SubstituteRequestStatus[] = ['open', 'claimed'];
+
+// HELPER FUNCTIONS
+const convertDocToRequest = (id: string, data: any): SubstituteRequest => ({
+  id,
+  ...data,
+} as SubstituteRequest);
+
+const getClassStart = (date: Timestamp, startTime: string) => {
+  const start = date.toDate();
+  const [hours, minutes] = (startTime || '00:00').split(':').map(Number);
+  start.setHours(hours, minutes || 0, 0, 0);
+  return start;
+};
+
+// GET PENDING REQUESTS
+export const getPendingSubstituteRequests = async (): Promise<SubstituteRequest[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, SUBSTITUTE_COLLECTION),
+      where('status', 'in', PENDING_STATUSES)
+    ));
+
+    return snapshot.docs
+      .map(d => convertDocToRequest(d.id, d.data()))
+      .sort((a, b) => a.classDate.toMillis() - b.classDate.toMillis());
+  } catch (error) {
+    console.error('Error fetching substitute requests:', error);
+    throw new Error('Failed to load substitute requests. Please try again.');
+  }
+};
+
+// REQUEST SUBSTITUTE
+// Only the instructor currently teaching the class can ask for cover
+export const requestSubstitute = async (
+  classId: string,
+  requestedBy: string,
+  requestedByName: string,
+  reason: string
+): Promise<string> => {
+  try {
+    const existing = await getDocs(query(
+      collection(db, SUBSTITUTE_COLLECTION),
+      where('classId', '==', classId)
+    ));
+    if (existing.docs.some(d => PENDING_STATUSES.includes(d.data().status))) {
+      throw new Error('A substitute has already been requested for this class');
+    }
+
+    const classSnap = await getDoc(doc(db, 'classes', classId));
+    if (!classSnap.exists()) {
+      throw new Error('Class not found');
+    }
+
+    const classData = classSnap.data();
+    if (classData.instructorId !== requestedBy) {
+      throw new Error('Only the instructor teaching this class can request a substitute');
+    }
+    if (getClassStart(classData.date, classData.startTime) < new Date()) {
+      throw new Error('This class has already started');
+    }
+
+    const docRef = await addDoc(collection(db, SUBSTITUTE_COLLECTION), {
+      classId,
+      classTitle: classData.title,
+      classDate: classData.date,
+      startTime: classData.startTime,
+      endTime: classData.endTime,
+      location: classData.location || '',
+      requestedBy,
+      requestedByName,
+      reason: reason.trim(),
+      status: 'open',
+      createdAt: Timestamp.now(),
+    });
+
+    console.log('Substitute requested:', docRef.id);
+    return docRef.id;
+  } catch (error: any) {
+    console.error('Error requesting substitute:', error);
+    throw new Error(error?.message || 'Failed to request a substitute. Please try again.');
+  }
+};
+
+// CLAIM REQUEST
+export const claimSubstituteRequest = async (
+  requestId: string,
+  claimedBy: string,
+  claimedByName: string
+): Promise<void> => {
+  try {
+    const requestRef = doc(db, SUBSTITUTE_COLLECTION, requestId);
+
+    await runTransaction(db, async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Substitute request not found');
+      }
+
+      const request = requestSnap.data();
+      if (request.status !== 'open') {
+        throw new Error('This request has already been claimed');
+      }
+      if (request.requestedBy === claimedBy) {
+        throw new Error('You cannot cover your own class');
+      }
+
+      transaction.update(requestRef, {
+        status: 'claimed',
+        claimedBy,
+        claimedByName,
+        claimedAt: Timestamp.now(),
+      });
+    });
+
+    console.log('Substitute request claimed:', requestId);
+  } catch (error: any) {
+    console.error('Error claiming substitute request:', error);
+    throw new Error(error?.message || 'Failed to claim this class. Please try again.');
+  }
+};
+
+// RELEASE CLAIM
+// The claimer backs out, or an admin turns the claim down; the request reopens
+export const releaseSubstituteClaim = async (requestId: string): Promise<void> => {
+  try {
+    const requestRef = doc(db, SUBSTITUTE_COLLECTION, requestId);
+
+    await runTransaction(db, async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists() || requestSnap.data().status !== 'claimed') {
+        throw new Error('This request is no longer waiting for approval');
+      }
+
+      transaction.update(requestRef, {
+        status: 'open',
+        claimedBy: null,
+        claimedByName: null,
+        claimedAt: null,
+      });
+    });
+
+    console.log('Substitute claim released:', requestId);
+  } catch (error: any) {
+    console.error('Error releasing substitute claim:', error);
+    throw new Error(error?.message || 'Failed to release the claim. Please try again.');
+  }
+};
+
+// WITHDRAW REQUEST
+export const withdrawSubstituteRequest = async (requestId: string): Promise<void> => {
+  try {
+    const requestRef = doc(db, SUBSTITUTE_COLLECTION, requestId);
+
+    await runTransaction(db, async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists() || !PENDING_STATUSES.includes(requestSnap.data().status)) {
+        throw new Error('This request can no longer be withdrawn');
+      }
+
+      transaction.update(requestRef, { status: 'withdrawn' });
+    });
+
+    console.log('Substitute request withdrawn:', requestId);
+  } catch (error: any) {
+    console.error('Error withdrawing substitute request:', error);
+    throw new Error(error?.message || 'Failed to withdraw the request. Please try again.');
+  }
+};
+
+// APPROVE REQUEST
+// Hands the class to the substitute. The rostered instructor is kept in
+// originalInstructorId; a class covered twice still points at the first one.
+export const approveSubstituteRequest = async (
+  requestId: string,
+  approvedBy: string,
+  approvedByName: string
+): Promise<void> => {
+  try {
+    const requestRef = doc(db, SUBSTITUTE_COLLECTION, requestId);
+
+    const auditEvent = await runTransaction(db, async (transaction) => {
+      const requestSnap = await transaction.get(requestRef);
+      if (!requestSnap.exists()) {
+        throw new Error('Substitute request not found');
+      }
+
+      const request = requestSnap.data();
+      if (request.status !== 'claimed') {
+        throw new Error('Only claimed requests can be approved');
+      }
+
+      const classRef = doc(db, 'classes', request.classId);
+      const classSnap = await transaction.get(classRef);
+      if (!classSnap.exists()) {
+        throw new Error('The class for this request no longer exists');
+      }
+
+      const classData = classSnap.data();
+      if (classData.instructorId !== request.requestedBy) {
+        throw new Error('The class has been reassigned since this request was made');
+      }
+
+      const now = Timestamp.now();
+      const cover = {
+        instructorId: request.claimedBy,
+        instructorName: request.claimedByName,
+        originalInstructorId: classData.originalInstructorId || classData.instructorId,
+        originalInstructorName: classData.originalInstructorName || classData.instructorName,
+        updatedAt: now,
+      };
+      transaction.update(classRef, cover);
+      transaction.update(requestRef, {
+        status: 'approved',
+        approvedBy,
+        approvedByName,
+        approvedAt: now,
+      });
+
+      return {
+        action: 'update' as const,
+        entityType: 'class' as const,
+        entityId: request.classId,
+        entityName: classData.title,
+        before: classData,
+        after: { ...classData, ...cover },
+      };
+    });
+    await logAuditEvent(auditEvent);
+
+    console.log('Substitute request approved:', requestId);
+  } catch (error: any) {
+    console.error('Error approving substitute request:', error);
+    throw new Error(error?.message || 'Failed to approve the substitute. Please try again.');
+  }
+};
@@ -0,0 +1,266 @@
+// src/services/timeClockService.ts - Staff clock in/out, timesheets and admin corrections
+
+import { db } from './firebase';
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+
+import { TimeEntry, TimeEntryCorrection, TimesheetSummary } from '../types/payroll';
+import { summarizeTimeEntries } from '../utils/payroll';
+import { logAuditEvent } from './auditService';
+
+// Entries live under each staff document: staff/{staffId}/timeEntries
+const timeEntriesRef = (staffId: string) => collection(db, 'staff', staffId, 'timeEntries');
+
+// HELPER FUNCTIONS
+const mapTimeEntry = (entryDoc: QueryDocumentSnapshot<DocumentData>, staffId: string): TimeEntry => {
+  const data = entryDoc.data();
+  return {
+    id: entryDoc.id,
+    staffId,
+    staffName: data.staffName || '',
+    clockIn: data.clockIn,
+    clockOut: data.clockOut || null,
+    corrections: data.corrections || [],
+  };
+};
+
+const validateTimes = (clockIn: Date, clockOut: Date | null) => {
+  if (clockIn.getTime() > Date.now()) {
+    throw new Error('Clock-in time cannot be in the future');
+  }
+  if (clockOut && clockOut <= clockIn) {
+    throw new Error('Clock-out must be after clock-in');
+  }
+};
+
+const requireReason = (reason: string) => {
+  if (!reason.trim()) {
+    throw new Error('Please give a reason for the change');
+  }
+};
+
+// CLOCK IN / OUT
+export const getOpenTimeEntry = async (staffId: string): Promise<TimeEntry | null> => {
+  try {
+    const snapshot = await getDocs(query(timeEntriesRef(staffId), where('clockOut', '==', null)));
+    return snapshot.empty ? null : mapTimeEntry(snapshot.docs[0], staffId);
+  } catch (error) {
+    console.error('Error fetching open time entry:', error);
+    throw new Error('Failed to load your time clock. Please try again.');
+  }
+};
+
+export const clockIn = async (staffId: string, staffName: string): Promise<TimeEntry> => {
+  try {
+    if (await getOpenTimeEntry(staffId)) {
+      throw new Error('You are already clocked in');
+    }
+
+    const entry = {
+      staffName,
+      clockIn: Timestamp.now(),
+      clockOut: null,
+      corrections: [],
+    };
+    const entryRef = await addDoc(timeEntriesRef(staffId), entry);
+    console.log('Clocked in:', staffId);
+    return { id: entryRef.id, staffId, ...entry };
+  } catch (error: any) {
+    console.error('Error clocking in:', error);
+    throw new Error(error?.message || 'Failed to clock in. Please try again.');
+  }
+};
+
+export const clockOut = async (staffId: string): Promise<void> => {
+  try {
+    const openEntry = await getOpenTimeEntry(staffId);
+    if (!openEntry) {
+      throw new Error('You are not clocked in');
+    }
+
+    await updateDoc(doc(timeEntriesRef(staffId), openEntry.id), {
+      clockOut: Timestamp.now(),
+    });
+    console.log('Clocked out:', staffId);
+  } catch (error: any) {
+    console.error('Error clocking out:', error);
+    throw new Error(error?.message || 'Failed to clock out. Please try again.');
+  }
+};
+
+// TIMESHEETS
+// Entries that started within the period, newest first
+export const getTimeEntries = async (
+  staffId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<TimeEntry[]> => {
+  try {
+    const start = new Date(periodStart);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(periodEnd);
+    end.setHours(23, 59, 59, 999);
+
+    const snapshot = await getDocs(query(
+      timeEntriesRef(staffId),
+      where('clockIn', '>=', Timestamp.fromDate(start)),
+      where('clockIn', '<=', Timestamp.fromDate(end)),
+      orderBy('clockIn', 'desc')
+    ));
+    return snapshot.docs.map(entryDoc => mapTimeEntry(entryDoc, staffId));
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    throw new Error('Failed to load the timesheet. Please try again.');
+  }
+};
+
+// Hours for everyone who clocked time in the period, as used by the payroll report.
+// Built from the entries themselves so staff whose role has changed, or who have
+// since been deleted, still get paid for the hours they worked.
+// Needs a collection group index on timeEntries.clockIn.
+export const getTimesheetSummaries = async (periodStart: Date, periodEnd: Date): Promise<TimesheetSummary[]> => {
+  try {
+    const start = new Date(periodStart);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(periodEnd);
+    end.setHours(23, 59, 59, 999);
+
+    const snapshot = await getDocs(query(
+      collectionGroup(db, 'timeEntries'),
+      where('clockIn', '>=', Timestamp.fromDate(start)),
+      where('clockIn', '<=', Timestamp.fromDate(end))
+    ));
+
+    const entriesByStaff = new Map<string, TimeEntry[]>();
+    snapshot.docs.forEach(entryDoc => {
+      const staffId = entryDoc.ref.parent.parent?.id;
+      if (!staffId) return;
+      entriesByStaff.set(staffId, [...(entriesByStaff.get(staffId) || []), mapTimeEntry(entryDoc, staffId)]);
+    });
+
+    return Array.from(entriesByStaff.entries()).map(([staffId, entries]) =>
+      summarizeTimeEntries(
+        staffId,
+        entries.find(entry => entry.staffName)?.staffName || '',
+        entries.map(entry => ({
+          clockIn: entry.clockIn.toDate(),
+          clockOut: entry.clockOut ? entry.clockOut.toDate() : null,
+        }))
+      )
+    );
+  } catch (error) {
+    console.error('Error summarizing timesheets:', error);
+    throw new Error('Failed to load timesheets. Please try again.');
+  }
+};
+
+// ADMIN CORRECTIONS
+// The previous times are kept on the entry so every change can be traced
+export const correctTimeEntry = async (
+  staffId: string,
+  entryId: string,
+  clockIn: Date,
+  clockOut: Date | null,
+  reason: string,
+  correctedBy: string,
+  correctedByName: string
+): Promise<void> => {
+  try {
+    requireReason(reason);
+    validateTimes(clockIn, clockOut);
+
+    const entryRef = doc(timeEntriesRef(staffId), entryId);
+    const entryDoc = await getDoc(entryRef);
+    if (!entryDoc.exists()) {
+      throw new Error('Time entry not found');
+    }
+
+    const data = entryDoc.data();
+    const correction: TimeEntryCorrection = {
+      reason: reason.trim(),
+      previousClockIn: data.clockIn,
+      previousClockOut: data.clockOut || null,
+      correctedAt: Timestamp.now(),
+      correctedBy,
+      correctedByName,
+    };
+
+    const corrected = {
+      clockIn: Timestamp.fromDate(clockIn),
+      clockOut: clockOut ? Timestamp.fromDate(clockOut) : null,
+    };
+    await updateDoc(entryRef, {
+      ...corrected,
+      corrections: [...(data.corrections || []), correction],
+    });
+    await logAuditEvent({
+      action: 'update',
+      entityType: 'time_entry',
+      entityId: entryId,
+      entityName: data.staffName || '',
+      before: { clockIn: data.clockIn, clockOut: data.clockOut || null },
+      after: { ...corrected, reason: correction.reason },
+    });
+    console.log('Time entry corrected:', entryId);
+  } catch (error: any) {
+    console.error('Error correcting time entry:', error);
+    throw new Error(error?.message || 'Failed to correct the time entry. Please try again.');
+  }
+};
+
+// For a shift the staff member forgot to clock
+export const addManualTimeEntry = async (
+  staffId: string,
+  staffName: string,
+  clockIn: Date,
+  clockOut: Date,
+  reason: string,
+  addedBy: string,
+  addedByName: string
+): Promise<void> => {
+  try {
+    requireReason(reason);
+    validateTimes(clockIn, clockOut);
+
+    const correction: TimeEntryCorrection = {
+      reason: reason.trim(),
+      previousClockIn: null,
+      previousClockOut: null,
+      correctedAt: Timestamp.now(),
+      correctedBy: addedBy,
+      correctedByName: addedByName,
+    };
+
+    const entry = {
+      staffName,
+      clockIn: Timestamp.fromDate(clockIn),
+      clockOut: Timestamp.fromDate(clockOut),
+      corrections: [correction],
+    };
+    const entryRef = await addDoc(timeEntriesRef(staffId), entry);
+    await logAuditEvent({
+      action: 'create',
+      entityType: 'time_entry',
+      entityId: entryRef.id,
+      entityName: staffName,
+      after: { clockIn: entry.clockIn, clockOut: entry.clockOut, reason: correction.reason },
+    });
+    console.log('Manual time entry added for', staffId);
+  } catch (error: any) {
+    console.error('Error adding time entry:', error);
+    throw new Error(error?.message || 'Failed to add the time entry. Please try again.');
+  }
+};
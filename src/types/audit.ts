@@ -0,0 +1,47 @@
+// src/types/audit.ts
+import { Timestamp } from 'firebase/firestore';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'class'
+  | 'package'
+  | 'discount'
+  | 'membership_package'
+  | 'staff'
+  | 'staff_invite'
+  | 'permissions'
+  | 'pay_rate'
+  | 'time_entry'
+  | 'belt_level'
+  | 'student_level'
+  | 'rank_award'
+  | 'member'
+  | 'household';
+
+// One changed field; values are normalized so they can be stored and compared
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Stored in auditLogs
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string;
+  changes: AuditChange[];
+  actorId: string;
+  actorName: string;
+  timestamp: Timestamp;
+}
+
+export interface AuditLogFilters {
+  periodStart: Date;
+  periodEnd: Date;
+  entityType?: AuditEntityType;
+  actorId?: string;
+}
@@ -0,0 +1,46 @@
+// src/types/billing.ts - Overdue detection and dunning
+
+import { Timestamp } from 'firebase/firestore';
+import { MemberRecord } from './members';
+
+// Billing settings (stored in settings/billing)
+export interface BillingSettings {
+  gracePeriodDays: number; // Days after nextPaymentDate before a member is marked Overdue
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+// Follow-up channels for the dunning queue
+export type DunningFollowUpType = 'email' | 'phone' | 'sms' | 'in_person';
+
+// Follow-up log entry
+export interface DunningFollowUp {
+  id: string;
+  memberId: string;
+  memberName: string;
+  type: DunningFollowUpType;
+  note?: string;
+  daysOverdue: number;
+  amountOwed: number;
+  performedBy: string;
+  performedByName: string;
+  createdAt: Timestamp;
+}
+
+// A member in the dunning queue with computed balance info
+export interface DunningQueueItem {
+  member: MemberRecord;
+  dueDate: Date | null; // Missed nextPaymentDate
+  daysOverdue: number;
+  periodsMissed: number;
+  amountOwed: number;
+  lastFollowUpDate?: Date;
+  followUpCount: number;
+}
+
+// Result of an overdue evaluation run
+export interface OverdueEvaluationResult {
+  checked: number;
+  markedOverdue: MemberRecord[];
+  failed: { id: string; error: string }[];
+}
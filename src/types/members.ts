@@ -98,6 +98,10 @@ export interface MembershipDetails {
   pauseReason?: string;
   overdueDate?: Timestamp;
   
+  // Dunning follow-up tracking
+  lastFollowUpDate?: Timestamp;
+  followUpCount?: number;
+  
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -132,6 +136,14 @@ export interface MemberData {
   // Membership info
   membership: MembershipDetails;
   
+  // Current package subscription (membershipSubscriptions)
+  activeSubscriptionId?: string;
+  activePackageId?: string;
+  activePackageName?: string;
+  
+  // Family account (households)
+  householdId?: string;
+  
   // Health/waiver info
   waiverSigned: boolean;
   waiverDate?: Timestamp;
@@ -160,6 +172,7 @@ export interface MemberData {
   // Deactivation tracking
   deactivatedAt?: Timestamp;
   deactivatedBy?: string;
+  mergedInto?: string; // Surviving member ID when this record was merged as a duplicate
 }
 
 // Full member record (includes ID)
@@ -194,6 +207,68 @@ export interface MemberCreationResult {
   password: string; // Generated password for customer portal
 }
 
+// Family account: members share a household with one primary billing contact
+export interface Household {
+  id: string;
+  name: string;
+  primaryMemberId: string;
+  primaryMemberName: string;
+  memberIds: string[]; // Includes the primary member
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  createdBy: string;
+}
+
+// Duplicate detection
+export type DuplicateMatchReason = 'name' | 'phone' | 'dateOfBirth';
+
+export interface DuplicateMemberPair {
+  members: [MemberRecord, MemberRecord]; // Older record first
+  reasons: DuplicateMatchReason[];
+}
+
+// CSV import
+export type MemberImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'dateOfBirth'
+  | 'emergencyContactName'
+  | 'emergencyContactRelationship'
+  | 'emergencyContactPhone'
+  | 'membershipType'
+  | 'monthlyAmount'
+  | 'totalAmount'
+  | 'totalCredits'
+  | 'paymentMethod'
+  | 'waiverSigned'
+  | 'medicalNotes'
+  | 'notes'
+  | 'tags';
+
+// Column index in the uploaded file for each field; unmapped fields are left out
+export type MemberImportMapping = Partial<Record<MemberImportField, number>>;
+
+export interface MemberImportRow {
+  rowNumber: number; // Line in the file, counting the header as line 1
+  data: MemberFormData;
+  errors: string[]; // Any error means the row is skipped
+  warnings: string[]; // Shown in the dry run but imported anyway
+}
+
+export type MemberImportStatus = 'created' | 'skipped' | 'failed';
+
+export interface MemberImportResult {
+  rowNumber: number;
+  name: string;
+  email: string;
+  status: MemberImportStatus;
+  memberId?: string;
+  password?: string; // Generated customer portal password
+  message?: string;
+}
+
 // Member profile for customer app access control
 export interface MemberProfile {
   id: string; // Same as authUid
@@ -226,7 +301,7 @@ export interface MemberStats {
 export interface MemberActivity {
   id: string;
   memberId: string;
-  type: 'check_in' | 'payment' | 'membership_change' | 'belt_award' | 'level_award' | 'note_added' | 'password_reset';
+  type: 'check_in' | 'payment' | 'membership_change' | 'belt_award' | 'level_award' | 'note_added' | 'password_reset' | 'class_booking';
   description: string;
   details?: any;
   performedBy: string;
@@ -249,6 +324,48 @@ export interface MemberCheckIn {
   createdByName: string;
 }
 
+// Class booking / roster entry
+export type EnrollmentStatus = 'Enrolled' | 'Cancelled';
+export type AttendanceStatus = 'present' | 'late' | 'no_show';
+
+export interface ClassEnrollment {
+  id: string; // `${classId}_${memberId}` so a member can only hold one booking per class
+  classId: string;
+  classTitle: string;
+  classDate: Timestamp;
+  packageId?: string; // Set for package sessions
+  memberId: string;
+  memberName: string;
+  memberEmail: string;
+  status: EnrollmentStatus;
+  enrolledAt: Timestamp;
+  enrolledBy: string;
+  enrolledByName: string;
+  cancelledAt?: Timestamp;
+  cancelledBy?: string;
+  cancelledByName?: string;
+  cancelReason?: string;
+  walkIn?: boolean; // Added by the instructor at class time rather than booked
+  attendance?: AttendanceStatus;
+  attendanceMarkedAt?: Timestamp;
+  attendanceMarkedBy?: string;
+  attendanceMarkedByName?: string;
+  checkInId?: string; // MemberCheckIn created when marked present or late
+}
+
+// Queue for a full class; lowest position is promoted first
+export interface ClassWaitlistEntry {
+  id: string; // `${classId}_${memberId}`
+  classId: string;
+  memberId: string;
+  memberName: string;
+  memberEmail: string;
+  position: number; // Join time in ms until staff reorder the queue
+  joinedAt: Timestamp;
+  addedBy: string;
+  addedByName: string;
+}
+
 // Payment record
 export interface MemberPayment {
   id: string;
@@ -32,6 +32,7 @@ export interface MembershipPackageFormData {
   renewalDiscountPercent?: number;
   earlyTerminationFee?: number;
   minimumCommitmentMonths?: number;
+  familyDiscountPercent?: number; // Off the price for each household member after the first subscriber
   
   // Status and display
   status: MembershipPackageStatus;
@@ -50,6 +51,15 @@ export interface MembershipPackageRecord extends MembershipPackageFormData {
   lastModifiedByName?: string;
 }
 
+// Whether a computed metric has enough underlying records to be meaningful
+export type MetricAvailability = 'available' | 'insufficient_data';
+
+export interface PackageMetricStatus {
+  averageRating: MetricAvailability;
+  conversionRate: MetricAvailability;
+  churnRate: MetricAvailability;
+}
+
 // Package usage statistics
 export interface PackageUsageStats {
   packageId: string;
@@ -64,6 +74,9 @@ export interface PackageUsageStats {
   churnRate?: number; // percentage of subscribers who cancel
   averageLifetimeValue?: number;
   popularityRank?: number;
+  totalInquiries?: number;
+  churnPeriodDays?: number; // window the churn rate was measured over
+  metricStatus?: PackageMetricStatus; // metrics marked insufficient_data are left undefined
 }
 
 // Sport category definition
@@ -92,7 +105,8 @@ export interface MembershipSubscription {
   status: 'Active' | 'Paused' | 'Cancelled' | 'Expired';
   
   // Payment info
-  amountPaid: number;
+  amountPaid: number; // Running total across all terms
+  currentTermAmountPaid?: number; // What was paid for the current term; refunds prorate this
   paymentMethod?: string;
   paymentDate: Date;
   paymentId?: string;
@@ -112,11 +126,14 @@ export interface MembershipSubscription {
   isAutoRenewal: boolean;
   nextRenewalDate?: Date;
   renewalNotificationSent?: boolean;
+  renewalCount?: number;
+  lastRenewedAt?: Date;
   
   // Cancellation info
   cancelledAt?: Date;
   cancellationReason?: string;
   refundAmount?: number;
+  earlyTerminationFee?: number; // Fee charged when cancelling inside the commitment period
   
   // Metadata
   createdAt: Date;
@@ -125,6 +142,10 @@ export interface MembershipSubscription {
   notes?: string;
 }
 
+// Lead pipeline
+export type InquirySource = 'website' | 'phone' | 'email' | 'walkin' | 'referral' | 'social';
+export type InquiryStatus = 'New' | 'Contacted' | 'Scheduled' | 'Converted' | 'Lost';
+
 // Package inquiry/lead tracking
 export interface PackageInquiry {
   id: string;
@@ -139,8 +160,8 @@ export interface PackageInquiry {
   
   // Inquiry details
   inquiryDate: Date;
-  source: 'website' | 'phone' | 'email' | 'walkin' | 'referral' | 'social';
-  status: 'New' | 'Contacted' | 'Scheduled' | 'Converted' | 'Lost';
+  source: InquirySource;
+  status: InquiryStatus;
   
   // Follow-up info
   followUpDate?: Date;
@@ -158,6 +179,20 @@ export interface PackageInquiry {
   updatedAt: Date;
 }
 
+// Data captured when creating or editing a lead
+export interface PackageInquiryFormData {
+  packageId: string;
+  packageName: string;
+  name: string;
+  email: string;
+  phone?: string;
+  source: InquirySource;
+  followUpDate?: Date;
+  assignedTo?: string;
+  assignedToName?: string;
+  notes?: string;
+}
+
 // Package review/feedback
 export interface PackageReview {
   id: string;
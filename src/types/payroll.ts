@@ -0,0 +1,77 @@
+// src/types/payroll.ts
+import { Timestamp } from 'firebase/firestore';
+
+// flat: fixed amount per session taught
+// per_attendee: amount for each member who attended
+// percentage: share of the session's revenue (amount is a percent, e.g. 40)
+// hourly: amount per hour on the time clock
+export type PayRuleType = 'flat' | 'per_attendee' | 'percentage' | 'hourly';
+
+export interface PayRule {
+  type: PayRuleType;
+  amount: number;
+}
+
+// Stored at payRates/{staffId}
+export interface PayRate extends PayRule {
+  staffId: string;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+// One taught session as the payroll report sees it
+export interface PayrollSession {
+  classId: string;
+  title: string;
+  date: Date;
+  instructorId: string;
+  instructorName: string;
+  attendees: number;
+  revenue: number;
+}
+
+export interface PayrollLine {
+  instructorId: string;
+  instructorName: string;
+  rule: PayRule | null; // null when no rate has been set; amount due is 0
+  sessions: number;
+  attendees: number;
+  revenue: number;
+  hours: number; // Clocked hours, rounded to 2 decimals
+  amountDue: number;
+}
+
+export interface PayrollReport {
+  periodStart: Date;
+  periodEnd: Date;
+  lines: PayrollLine[];
+  totalDue: number;
+}
+
+export interface TimeEntryCorrection {
+  reason: string;
+  previousClockIn: Timestamp | null; // null when the entry was added by hand
+  previousClockOut: Timestamp | null;
+  correctedAt: Timestamp;
+  correctedBy: string;
+  correctedByName: string;
+}
+
+// Stored at staff/{staffId}/timeEntries
+export interface TimeEntry {
+  id: string;
+  staffId: string;
+  staffName: string;
+  clockIn: Timestamp;
+  clockOut: Timestamp | null; // null while clocked in
+  corrections: TimeEntryCorrection[];
+}
+
+// Hours worked in a period, as fed into the payroll report
+export interface TimesheetSummary {
+  staffId: string;
+  staffName: string;
+  hours: number;
+  entries: number;
+  openEntries: number; // Still clocked in; not counted in hours
+}
@@ -0,0 +1,47 @@
+// src/types/permissions.ts
+import { Timestamp } from 'firebase/firestore';
+import { StaffRole } from './staff';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'classes.view'
+  | 'classes.manage'
+  | 'schedule.view'
+  | 'checkins.manage'
+  | 'members.view'
+  | 'members.edit'
+  | 'packages.sell'
+  | 'packages.manage'
+  | 'subscriptions.manage'
+  | 'payments.record'
+  | 'payments.refund'
+  | 'billing.manage'
+  | 'leads.manage'
+  | 'discounts.manage'
+  | 'staff.manage'
+  | 'payroll.manage'
+  | 'audit.view';
+
+export type PermissionGroup = 'General' | 'Classes' | 'Members' | 'Sales & Billing' | 'Administration';
+
+export interface PermissionDefinition {
+  id: Permission;
+  label: string;
+  description: string;
+  group: PermissionGroup;
+}
+
+export type RolePermissionMap = Record<StaffRole, Permission[]>;
+
+// Stored at settings/rolePermissions
+export interface RolePermissionSettings {
+  roles: Partial<RolePermissionMap>;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+// Per-staff adjustments on top of the role's permissions
+export interface PermissionOverrides {
+  granted: Permission[];
+  revoked: Permission[];
+}
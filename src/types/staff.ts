@@ -12,3 +12,24 @@ export interface StaffRecord extends StaffData {
   id: string;
   createdAt: Date;
 }
+
+// Recurring weekly window a trainer can teach in. Times are HH:mm.
+export interface AvailabilityWindow {
+  dayOfWeek: number; // 0=Sunday, 1=Monday, etc.
+  startTime: string;
+  endTime: string;
+}
+
+// Whole days off, inclusive of both ends
+export interface TimeOffPeriod {
+  id: string;
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+}
+
+export interface StaffAvailability {
+  staffId: string;
+  weekly: AvailabilityWindow[]; // Empty means availability hasn't been set
+  timeOff: TimeOffPeriod[];
+}
@@ -0,0 +1,54 @@
+import { Timestamp } from 'firebase/firestore';
+import { diffRecords, formatAuditValue, normalizeAuditValue } from './audit';
+
+describe('normalizeAuditValue', () => {
+  test('turns timestamps and dates into ISO strings', () => {
+    const date = new Date(Date.UTC(2025, 5, 2, 18, 0));
+    expect(normalizeAuditValue(Timestamp.fromDate(date))).toBe('2025-06-02T18:00:00.000Z');
+    expect(normalizeAuditValue({ when: date })).toEqual({ when: '2025-06-02T18:00:00.000Z' });
+  });
+
+  test('drops undefined fields and maps missing values to null', () => {
+    expect(normalizeAuditValue({ a: 1, b: undefined })).toEqual({ a: 1 });
+    expect(normalizeAuditValue(undefined)).toBeNull();
+  });
+});
+
+describe('diffRecords', () => {
+  test('lists only the fields that changed', () => {
+    const changes = diffRecords(
+      { title: 'Muay Thai', capacity: 20, updatedAt: 1, days: [1, 3] },
+      { title: 'Muay Thai', capacity: 24, updatedAt: 2, days: [1, 3] }
+    );
+
+    expect(changes).toEqual([{ field: 'capacity', before: 20, after: 24 }]);
+  });
+
+  test('records every field on create and delete', () => {
+    expect(diffRecords(null, { code: 'SUMMER', value: 10 })).toEqual([
+      { field: 'code', before: null, after: 'SUMMER' },
+      { field: 'value', before: null, after: 10 },
+    ]);
+    expect(diffRecords({ code: 'SUMMER' }, null)).toEqual([
+      { field: 'code', before: 'SUMMER', after: null },
+    ]);
+  });
+
+  test('treats equal timestamps as unchanged', () => {
+    const date = new Date(2025, 5, 2);
+    expect(diffRecords({ date: Timestamp.fromDate(date) }, { date })).toEqual([]);
+  });
+});
+
+describe('formatAuditValue', () => {
+  test.each([
+    [null, '—'],
+    ['', '—'],
+    [[], '—'],
+    [['bjj', 'muay_thai'], 'bjj, muay_thai'],
+    [false, 'false'],
+    [12.5, '12.5'],
+  ])('formats %p as %p', (value, expected) => {
+    expect(formatAuditValue(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,81 @@
+// src/utils/audit.ts - Field diffs and labels for the audit log, free of Firestore
+
+import { AuditAction, AuditChange, AuditEntityType } from '../types/audit';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  class: 'Class',
+  package: 'Class package',
+  discount: 'Discount',
+  membership_package: 'Membership package',
+  staff: 'Staff',
+  staff_invite: 'Staff invite',
+  permissions: 'Permissions',
+  pay_rate: 'Pay rate',
+  time_entry: 'Time entry',
+  belt_level: 'Belt level',
+  student_level: 'Student level',
+  rank_award: 'Belt/level award',
+  member: 'Member',
+  household: 'Household',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'updatedBy', 'lastModifiedBy', 'lastModifiedByName'];
+
+const isTimestampLike = (value: any): value is { toDate: () => Date } =>
+  !!value && typeof value === 'object' && typeof value.toDate === 'function';
+
+/**
+ * Turns Firestore timestamps and dates into ISO strings and drops undefined,
+ * so values can be stored in the log and compared by content.
+ */
+export const normalizeAuditValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (isTimestampLike(value)) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(normalizeAuditValue);
+  if (typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((normalized, key) => {
+        const item = (value as Record<string, unknown>)[key];
+        if (item !== undefined) normalized[key] = normalizeAuditValue(item);
+        return normalized;
+      }, {});
+  }
+  return value;
+};
+
+// Fields that differ between two versions of a record, sorted by name.
+// Pass null for `before` on create and for `after` on delete.
+export const diffRecords = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .sort()
+    .reduce<AuditChange[]>((changes, field) => {
+      const previous = normalizeAuditValue(before?.[field]);
+      const next = normalizeAuditValue(after?.[field]);
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes.push({ field, before: previous, after: next });
+      }
+      return changes;
+    }, []);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.map(formatAuditValue).join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
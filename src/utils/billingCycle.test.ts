@@ -0,0 +1,26 @@
+import { countMissedDueDates, getNextDueDate } from './billingCycle';
+
+describe('countMissedDueDates', () => {
+  test('counts due dates, not calendar months crossed', () => {
+    expect(countMissedDueDates(new Date(2025, 0, 31), new Date(2025, 1, 3))).toBe(1);
+  });
+
+  test('counts every monthly due date that has passed', () => {
+    expect(countMissedDueDates(new Date(2025, 0, 15), new Date(2025, 2, 14))).toBe(2);
+    expect(countMissedDueDates(new Date(2025, 0, 15), new Date(2025, 2, 15))).toBe(3);
+  });
+
+  test('is zero before the due date', () => {
+    expect(countMissedDueDates(new Date(2025, 0, 15), new Date(2025, 0, 14))).toBe(0);
+  });
+});
+
+describe('getNextDueDate', () => {
+  test('settles one period at a time, even when paid late', () => {
+    expect(getNextDueDate(new Date(2025, 0, 15), new Date(2025, 2, 20))).toEqual(new Date(2025, 1, 15));
+  });
+
+  test('starts the cycle from the payment when there is no due date', () => {
+    expect(getNextDueDate(undefined, new Date(2025, 2, 20))).toEqual(new Date(2025, 3, 20));
+  });
+});
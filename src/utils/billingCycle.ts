@@ -0,0 +1,18 @@
+// src/utils/billingCycle.ts - Monthly due dates for recurring memberships, free of Firestore
+import { addMonths } from 'date-fns';
+
+// Each dues payment settles the oldest unpaid period, so the due date moves
+// one month on from where it was, however late the payment is. Members
+// without a due date yet start their cycle from the payment.
+export const getNextDueDate = (currentDueDate: Date | null | undefined, paymentDate: Date): Date =>
+  addMonths(currentDueDate || paymentDate, 1);
+
+// Monthly due dates from dueDate up to now that have passed, i.e. how many
+// dues payments it takes to bring the member current again
+export const countMissedDueDates = (dueDate: Date, now: Date): number => {
+  let missed = 0;
+  while (addMonths(dueDate, missed) <= now) {
+    missed++;
+  }
+  return missed;
+};
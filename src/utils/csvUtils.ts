@@ -0,0 +1,25 @@
+// src/utils/csvUtils.ts - CSV building and browser download
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes fields containing commas, quotes or line breaks (RFC 4180)
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,38 @@
+import { MemberRecord } from '../types/members';
+import { applyFamilyDiscount, getHouseholdRemovalError, isFamilyPricingEligible, suggestHouseholdName } from './household';
+
+const withStatus = (id: string, status: MemberRecord['membership']['status']) =>
+  ({ id, membership: { status } } as Pick<MemberRecord, 'id' | 'membership'>);
+
+describe('applyFamilyDiscount', () => {
+  test('takes the percentage off and rounds to cents', () => {
+    expect(applyFamilyDiscount(149.99, 15)).toBe(127.49);
+    expect(applyFamilyDiscount(150)).toBe(150);
+  });
+});
+
+describe('isFamilyPricingEligible', () => {
+  test('needs another household member with a current membership', () => {
+    expect(isFamilyPricingEligible('a', [withStatus('a', 'Active'), withStatus('b', 'No Membership')])).toBe(false);
+    expect(isFamilyPricingEligible('a', [withStatus('a', 'No Membership'), withStatus('b', 'Paused')])).toBe(true);
+  });
+});
+
+describe('getHouseholdRemovalError', () => {
+  const household = { primaryMemberId: 'a', primaryMemberName: 'Kai Lee', memberIds: ['a', 'b'] };
+
+  test('keeps the primary contact while others remain', () => {
+    expect(getHouseholdRemovalError(household, 'a')).toBe('Make someone else the primary contact before removing Kai Lee');
+    expect(getHouseholdRemovalError(household, 'b')).toBeNull();
+  });
+
+  test('lets the last member leave', () => {
+    expect(getHouseholdRemovalError({ ...household, memberIds: ['a'] }, 'a')).toBeNull();
+  });
+});
+
+describe('suggestHouseholdName', () => {
+  test('uses the last name', () => {
+    expect(suggestHouseholdName({ lastName: 'Lee' })).toBe('Lee Family');
+  });
+});
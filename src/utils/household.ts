@@ -0,0 +1,35 @@
+// src/utils/household.ts - Family pricing and household membership rules, free of Firestore
+import { Household, MemberRecord } from '../types/members';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const suggestHouseholdName = (member: Pick<MemberRecord, 'lastName'>): string =>
+  member.lastName ? `${member.lastName} Family` : 'Family';
+
+export const applyFamilyDiscount = (price: number, familyDiscountPercent?: number): number =>
+  roundCents(price * (1 - (familyDiscountPercent || 0) / 100));
+
+// The first subscriber in a household pays full price; the family discount
+// applies once another member already has a current (active or frozen) membership
+export const isFamilyPricingEligible = (
+  memberId: string,
+  householdMembers: Pick<MemberRecord, 'id' | 'membership'>[]
+): boolean =>
+  householdMembers.some(member =>
+    member.id !== memberId &&
+    (member.membership?.status === 'Active' || member.membership?.status === 'Paused')
+  );
+
+// Returns why the member can't leave the household, or null if they can
+export const getHouseholdRemovalError = (
+  household: Pick<Household, 'primaryMemberId' | 'primaryMemberName' | 'memberIds'>,
+  memberId: string
+): string | null => {
+  if (!household.memberIds.includes(memberId)) {
+    return 'This member is not part of the household';
+  }
+  if (household.primaryMemberId === memberId && household.memberIds.length > 1) {
+    return `Make someone else the primary contact before removing ${household.primaryMemberName}`;
+  }
+  return null;
+};
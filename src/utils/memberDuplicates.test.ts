@@ -0,0 +1,123 @@
+import { Timestamp } from 'firebase/firestore';
+import { MemberRecord } from '../types/members';
+import { findDuplicateMembers, getMergeBlockReason, mergeMemberRecords } from './memberDuplicates';
+
+const member = (id: string, overrides: Partial<MemberRecord> = {}): MemberRecord => ({
+  id,
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: `${id}@example.com`,
+  phone: '',
+  emergencyContact: { name: '', relationship: '', phone: '' },
+  membership: {
+    type: 'Recurring',
+    status: 'No Membership',
+    autoRenew: false,
+    createdAt: Timestamp.fromMillis(0),
+    updatedAt: Timestamp.fromMillis(0),
+  },
+  waiverSigned: false,
+  joinDate: Timestamp.fromDate(new Date(2024, 0, 1)),
+  totalVisits: 0,
+  isActive: true,
+  tags: [],
+  createdAt: Timestamp.fromDate(new Date(2024, 0, 1)),
+  updatedAt: Timestamp.fromDate(new Date(2024, 0, 1)),
+  createdBy: 'admin',
+  ...overrides,
+});
+
+describe('findDuplicateMembers', () => {
+  test('pairs members matching on two or more of name, phone and date of birth', () => {
+    const older = member('a', { phone: '(808) 555-0100' });
+    const newer = member('b', {
+      firstName: 'JANE',
+      phone: '+1 808-555-0100',
+      createdAt: Timestamp.fromDate(new Date(2024, 5, 1)),
+    });
+
+    const pairs = findDuplicateMembers([newer, older]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].members.map(m => m.id)).toEqual(['a', 'b']);
+    expect(pairs[0].reasons).toEqual(['name', 'phone']);
+  });
+
+  test('ignores a shared name on its own and inactive records', () => {
+    expect(findDuplicateMembers([member('a'), member('b')])).toEqual([]);
+
+    const dob = Timestamp.fromDate(new Date(1990, 3, 12));
+    expect(findDuplicateMembers([
+      member('a', { dateOfBirth: dob }),
+      member('b', { dateOfBirth: dob, isActive: false }),
+    ])).toEqual([]);
+  });
+});
+
+describe('mergeMemberRecords', () => {
+  test('fills gaps and combines history without overwriting the survivor', () => {
+    const survivor = member('a', { phone: '8085550100', tags: ['bjj'], totalVisits: 4, notes: 'Prefers mornings' });
+    const duplicate = member('b', {
+      phone: '8085550199',
+      dateOfBirth: Timestamp.fromDate(new Date(1990, 3, 12)),
+      tags: ['bjj', 'kids'],
+      totalVisits: 3,
+      notes: 'Old gym transfer',
+      waiverSigned: true,
+      joinDate: Timestamp.fromDate(new Date(2023, 0, 1)),
+    });
+
+    const updates = mergeMemberRecords(survivor, duplicate);
+
+    expect(updates.phone).toBeUndefined();
+    expect(updates.dateOfBirth).toBe(duplicate.dateOfBirth);
+    expect(updates.tags).toEqual(['bjj', 'kids']);
+    expect(updates.totalVisits).toBe(7);
+    expect(updates.notes).toBe('Prefers mornings\n\nOld gym transfer');
+    expect(updates.waiverSigned).toBe(true);
+    expect(updates.joinDate).toBe(duplicate.joinDate);
+    expect(updates.membership).toBeUndefined();
+  });
+
+  test('moves the membership across when only the duplicate has one', () => {
+    const duplicate = member('b', {
+      membership: { ...member('b').membership, status: 'Active', monthlyAmount: 150 },
+      activeSubscriptionId: 'sub1',
+    });
+
+    const updates = mergeMemberRecords(member('a'), duplicate);
+
+    expect(updates.membership?.status).toBe('Active');
+    expect(updates.activeSubscriptionId).toBe('sub1');
+  });
+
+  test('adds up prepaid credits', () => {
+    const prepaid = (remainingCredits: number, totalCredits: number) =>
+      ({ ...member('x').membership, type: 'Prepaid' as const, status: 'Active' as const, remainingCredits, totalCredits });
+
+    const updates = mergeMemberRecords(
+      member('a', { membership: prepaid(3, 10) }),
+      member('b', { membership: prepaid(5, 5) })
+    );
+
+    expect(updates.membership?.remainingCredits).toBe(8);
+    expect(updates.membership?.totalCredits).toBe(15);
+  });
+});
+
+describe('getMergeBlockReason', () => {
+  const withMembership = (id: string, type: 'Recurring' | 'Prepaid') =>
+    member(id, { membership: { ...member(id).membership, type, status: 'Active' } });
+
+  test('blocks two current subscriptions or memberships', () => {
+    expect(getMergeBlockReason(member('a'), member('b'), 'BJJ Monthly', 'Kids Monthly'))
+      .toBe('Both records have a current subscription (BJJ Monthly and Kids Monthly). Cancel one before merging.');
+    expect(getMergeBlockReason(withMembership('a', 'Recurring'), withMembership('b', 'Prepaid'), 'BJJ Monthly', null))
+      .toBe('Both records have a current membership. Cancel one before merging.');
+  });
+
+  test('allows two prepaid memberships or a single membership', () => {
+    expect(getMergeBlockReason(withMembership('a', 'Prepaid'), withMembership('b', 'Prepaid'), null, null)).toBeNull();
+    expect(getMergeBlockReason(member('a'), withMembership('b', 'Recurring'), null, 'BJJ Monthly')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+// src/utils/memberDuplicates.ts - Duplicate member matching and field merging, free of Firestore writes
+import { DuplicateMatchReason, DuplicateMemberPair, MemberData, MemberRecord } from '../types/members';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  name: 'Same name',
+  phone: 'Same phone',
+  dateOfBirth: 'Same date of birth',
+};
+
+// A pair needs at least this many matching signals; name alone is too common
+const MIN_MATCHING_REASONS = 2;
+
+const nameKey = (member: MemberRecord) =>
+  `${member.firstName || ''} ${member.lastName || ''}`.toLowerCase().replace(/[^a-z]/g, '');
+
+const phoneKey = (member: MemberRecord) => {
+  const digits = (member.phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : '';
+};
+
+const dateOfBirthKey = (member: MemberRecord) => {
+  const date = member.dateOfBirth?.toDate();
+  return date ? `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}` : '';
+};
+
+const KEYS: Record<DuplicateMatchReason, (member: MemberRecord) => string> = {
+  name: nameKey,
+  phone: phoneKey,
+  dateOfBirth: dateOfBirthKey,
+};
+
+const createdMillis = (member: MemberRecord) => member.createdAt?.toMillis?.() ?? 0;
+
+// Buckets members by each key so only records sharing something are compared.
+// Inactive and already-merged records are ignored.
+export const findDuplicateMembers = (members: MemberRecord[]): DuplicateMemberPair[] => {
+  const active = members.filter(member => member.isActive !== false && !member.mergedInto);
+  const candidates = new Map<string, [MemberRecord, MemberRecord]>();
+
+  (Object.keys(KEYS) as DuplicateMatchReason[]).forEach(reason => {
+    const buckets = new Map<string, MemberRecord[]>();
+    active.forEach(member => {
+      const key = KEYS[reason](member);
+      if (!key) return;
+      buckets.set(key, [...(buckets.get(key) || []), member]);
+    });
+
+    buckets.forEach(bucket => {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const [first, second] = createdMillis(bucket[i]) <= createdMillis(bucket[j])
+            ? [bucket[i], bucket[j]]
+            : [bucket[j], bucket[i]];
+          candidates.set(`${first.id}|${second.id}`, [first, second]);
+        }
+      }
+    });
+  });
+
+  return Array.from(candidates.values())
+    .map(pair => ({
+      members: pair,
+      reasons: (Object.keys(KEYS) as DuplicateMatchReason[]).filter(reason => {
+        const key = KEYS[reason](pair[0]);
+        return key !== '' && key === KEYS[reason](pair[1]);
+      }),
+    }))
+    .filter(pair => pair.reasons.length >= MIN_MATCHING_REASONS)
+    .sort((a, b) =>
+      b.reasons.length - a.reasons.length ||
+      nameKey(a.members[0]).localeCompare(nameKey(b.members[0]))
+    );
+};
+
+const hasMembership = (member: MemberRecord) =>
+  !!member.membership && member.membership.status !== 'No Membership';
+
+const isPrepaid = (member: MemberRecord) => member.membership?.type === 'Prepaid';
+
+// Why the two records can't be merged as they stand, or null if they can. Two
+// live subscriptions or memberships can't be combined, except prepaid
+// memberships whose credits add up. Package names are for the current
+// (active or paused) subscription on each record, if any.
+export const getMergeBlockReason = (
+  survivor: MemberRecord,
+  duplicate: MemberRecord,
+  survivorPackageName: string | null,
+  duplicatePackageName: string | null
+): string | null => {
+  if (survivorPackageName && duplicatePackageName) {
+    return `Both records have a current subscription (${survivorPackageName} and ${duplicatePackageName}). Cancel one before merging.`;
+  }
+  if (hasMembership(survivor) && hasMembership(duplicate) && !(isPrepaid(survivor) && isPrepaid(duplicate))) {
+    return 'Both records have a current membership. Cancel one before merging.';
+  }
+  return null;
+};
+
+const copyField = <K extends keyof MemberData>(updates: Partial<MemberData>, source: MemberData, field: K) => {
+  updates[field] = source[field];
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' ||
+  (typeof value === 'object' && Object.values(value as object).every(item => !item));
+
+// Fields to write on the surviving record. The survivor's own values win; the
+// duplicate only fills gaps, except visit history, tags, notes and prepaid
+// credits which are combined, and membership which moves across when the
+// survivor has none. Check getMergeBlockReason first.
+export const mergeMemberRecords = (survivor: MemberRecord, duplicate: MemberRecord): Partial<MemberData> => {
+  const updates: Partial<MemberData> = {};
+
+  (['phone', 'dateOfBirth', 'address', 'emergencyContact', 'medicalNotes', 'currentBeltLevel', 'currentStudentLevel'] as const)
+    .forEach(field => {
+      if (isBlank(survivor[field]) && !isBlank(duplicate[field])) {
+        copyField(updates, duplicate, field);
+      }
+    });
+
+  if (!survivor.waiverSigned && duplicate.waiverSigned) {
+    updates.waiverSigned = true;
+    if (duplicate.waiverDate) updates.waiverDate = duplicate.waiverDate;
+  }
+
+  const notes = [survivor.notes, duplicate.notes].filter((note): note is string => !!note?.trim());
+  if (notes.length === 2 && notes[0] !== notes[1]) {
+    updates.notes = `${notes[0]}\n\n${notes[1]}`;
+  } else if (!survivor.notes && notes.length === 1) {
+    updates.notes = notes[0];
+  }
+
+  const tags = Array.from(new Set([...(survivor.tags || []), ...(duplicate.tags || [])]));
+  if (tags.length !== (survivor.tags || []).length) {
+    updates.tags = tags;
+  }
+
+  if (duplicate.totalVisits) {
+    updates.totalVisits = (survivor.totalVisits || 0) + duplicate.totalVisits;
+  }
+  if (duplicate.joinDate && (!survivor.joinDate || duplicate.joinDate.toMillis() < survivor.joinDate.toMillis())) {
+    updates.joinDate = duplicate.joinDate;
+  }
+  if (duplicate.lastVisit && (!survivor.lastVisit || duplicate.lastVisit.toMillis() > survivor.lastVisit.toMillis())) {
+    updates.lastVisit = duplicate.lastVisit;
+  }
+
+  if (!hasMembership(survivor) && hasMembership(duplicate)) {
+    updates.membership = duplicate.membership;
+  } else if (isPrepaid(survivor) && isPrepaid(duplicate)) {
+    const credits = (field: 'remainingCredits' | 'totalCredits') =>
+      (survivor.membership[field] || 0) + (duplicate.membership[field] || 0);
+    if (duplicate.membership.remainingCredits || duplicate.membership.totalCredits) {
+      updates.membership = {
+        ...survivor.membership,
+        remainingCredits: credits('remainingCredits'),
+        totalCredits: credits('totalCredits'),
+      };
+    }
+  }
+  if (!survivor.activeSubscriptionId && duplicate.activeSubscriptionId) {
+    updates.activeSubscriptionId = duplicate.activeSubscriptionId;
+    if (duplicate.activePackageId) updates.activePackageId = duplicate.activePackageId;
+    if (duplicate.activePackageName) updates.activePackageName = duplicate.activePackageName;
+  }
+
+  return updates;
+};
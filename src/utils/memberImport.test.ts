@@ -0,0 +1,99 @@
+import { buildImportResultsCsv, guessColumnMapping, parseCsv, parseImportDate, validateImportRows } from './memberImport';
+
+describe('parseCsv', () => {
+  test('handles quoted commas, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('Name,Notes\r\n"Doe, Jane","Said ""hi"""\r\n\r\nBob,\n');
+
+    expect(rows).toEqual([
+      ['Name', 'Notes'],
+      ['Doe, Jane', 'Said "hi"'],
+      ['Bob', ''],
+    ]);
+  });
+
+  test('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('a,b\n"line one\nline two",x')).toEqual([
+      ['a', 'b'],
+      ['line one\nline two', 'x'],
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  test('matches common header spellings', () => {
+    expect(guessColumnMapping(['First_Name', 'Surname', 'E-mail', 'Mobile', 'DOB', 'Shoe Size'])).toEqual({
+      firstName: 0,
+      lastName: 1,
+      email: 2,
+      phone: 3,
+      dateOfBirth: 4,
+    });
+  });
+});
+
+describe('parseImportDate', () => {
+  test('accepts ISO and US dates', () => {
+    expect(parseImportDate('1990-04-12')).toEqual(new Date(1990, 3, 12));
+    expect(parseImportDate('4/12/1990')).toEqual(new Date(1990, 3, 12));
+  });
+
+  test('rejects impossible or unrecognised dates', () => {
+    expect(parseImportDate('1990-02-30')).toBeNull();
+    expect(parseImportDate('12 April 1990')).toBeNull();
+  });
+});
+
+describe('validateImportRows', () => {
+  const mapping = { firstName: 0, lastName: 1, email: 2, phone: 3, dateOfBirth: 4 };
+  const existing = [{ firstName: 'Ana', lastName: 'Lee', email: 'ana@example.com', phone: '808-555-0199' }];
+
+  test('builds form data from a valid row', () => {
+    const [row] = validateImportRows([['Jane', 'Doe', 'Jane@Example.com', '(808) 555-0100', '1990-04-12']], mapping, existing);
+
+    expect(row.rowNumber).toBe(2);
+    expect(row.errors).toEqual([]);
+    expect(row.data.email).toBe('jane@example.com');
+    expect(row.data.dateOfBirth).toEqual(new Date(1990, 3, 12));
+    expect(row.data.membershipType).toBe('Recurring');
+  });
+
+  test('flags invalid emails, phones and dates', () => {
+    const [row] = validateImportRows([['Jane', 'Doe', 'not-an-email', '555', '13/45/1990']], mapping, existing);
+
+    expect(row.errors).toHaveLength(3);
+  });
+
+  test('rejects emails already on file or repeated in the file', () => {
+    const rows = validateImportRows([
+      ['Ana', 'Lee', 'ANA@example.com', '8085550100', ''],
+      ['Jo', 'Kim', 'jo@example.com', '8085550101', ''],
+      ['Jo', 'Kim', 'jo@example.com', '8085550102', ''],
+    ], mapping, existing);
+
+    expect(rows[0].errors).toEqual(['Email already belongs to Ana Lee']);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[2].errors).toEqual(['Email repeats row 3']);
+  });
+
+  test('only warns when a phone matches an existing member', () => {
+    const [row] = validateImportRows([['Sam', 'Lee', 'sam@example.com', '+1 808 555 0199', '']], mapping, existing);
+
+    expect(row.errors).toEqual([]);
+    expect(row.warnings).toContain('Phone matches existing member Ana Lee');
+  });
+});
+
+describe('buildImportResultsCsv', () => {
+  test('includes generated passwords for created members', () => {
+    const csv = buildImportResultsCsv([
+      { rowNumber: 2, name: 'Jane Doe', email: 'jane@example.com', status: 'created', memberId: 'u1', password: 'abc123XY' },
+      { rowNumber: 3, name: 'Jo Kim', email: 'jo@example.com', status: 'skipped', message: 'Email repeats row 2' },
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Row,Name,Email,Status,Member ID,Portal Password,Message',
+      '2,Jane Doe,jane@example.com,created,u1,abc123XY,',
+      '3,Jo Kim,jo@example.com,skipped,,,Email repeats row 2',
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+// src/utils/memberImport.ts - CSV parsing, column mapping and validation for the member import wizard
+import {
+  MemberFormData,
+  MemberImportField,
+  MemberImportMapping,
+  MemberImportResult,
+  MemberImportRow,
+  MemberRecord,
+  MembershipType,
+  PaymentMethod,
+} from '../types/members';
+import { toCsv } from './csvUtils';
+
+export interface MemberImportFieldDefinition {
+  field: MemberImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Lower-case header names recognised when guessing the mapping
+}
+
+export const MEMBER_IMPORT_FIELDS: MemberImportFieldDefinition[] = [
+  { field: 'firstName', label: 'First Name', required: true, aliases: ['first name', 'firstname', 'first', 'given name'] },
+  { field: 'lastName', label: 'Last Name', required: true, aliases: ['last name', 'lastname', 'last', 'surname', 'family name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail'] },
+  { field: 'phone', label: 'Phone', required: true, aliases: ['phone', 'phone number', 'mobile', 'cell'] },
+  { field: 'dateOfBirth', label: 'Date of Birth', aliases: ['date of birth', 'dob', 'birthday', 'birth date'] },
+  { field: 'emergencyContactName', label: 'Emergency Contact', aliases: ['emergency contact', 'emergency contact name', 'emergency name'] },
+  { field: 'emergencyContactRelationship', label: 'Emergency Relationship', aliases: ['emergency relationship', 'emergency contact relationship', 'relationship'] },
+  { field: 'emergencyContactPhone', label: 'Emergency Phone', aliases: ['emergency phone', 'emergency contact phone'] },
+  { field: 'membershipType', label: 'Membership Type', aliases: ['membership type', 'membership', 'type'] },
+  { field: 'monthlyAmount', label: 'Monthly Amount', aliases: ['monthly amount', 'monthly', 'monthly fee'] },
+  { field: 'totalAmount', label: 'Total Amount', aliases: ['total amount', 'prepaid amount'] },
+  { field: 'totalCredits', label: 'Credits', aliases: ['credits', 'total credits', 'classes'] },
+  { field: 'paymentMethod', label: 'Payment Method', aliases: ['payment method', 'payment'] },
+  { field: 'waiverSigned', label: 'Waiver Signed', aliases: ['waiver signed', 'waiver'] },
+  { field: 'medicalNotes', label: 'Medical Notes', aliases: ['medical notes', 'medical', 'injuries'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'comments'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags'] },
+];
+
+const PAYMENT_METHODS: PaymentMethod[] = ['ACH', 'Credit Card', 'Cash', 'Check'];
+const EMAIL_PATTERN = /\S+@\S+\.\S+/;
+
+// RFC 4180 parsing: quoted fields may contain commas, quotes and line breaks.
+// Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+export const guessColumnMapping = (headers: string[]): MemberImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: MemberImportMapping = {};
+
+  MEMBER_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.some(alias => normalizeHeader(alias) === header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+const isValidPhone = (value: string) => digitsOnly(value).length >= 10;
+
+// Accepts 2024-03-15 and 3/15/2024; anything else, or an impossible date, is null
+export const parseImportDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+const parseAmount = (value: string): number | null => {
+  const amount = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+const parseYesNo = (value: string) => ['yes', 'y', 'true', '1', 'signed'].includes(value.trim().toLowerCase());
+
+// Turns mapped rows into form data and flags anything that would stop a member
+// being created. Emails already on file, or repeated earlier in the file, are
+// errors because the portal account needs a unique email; a matching phone is
+// only a warning since families often share one.
+export const validateImportRows = (
+  rows: string[][],
+  mapping: MemberImportMapping,
+  existingMembers: Pick<MemberRecord, 'firstName' | 'lastName' | 'email' | 'phone'>[]
+): MemberImportRow[] => {
+  const existingByEmail = new Map(existingMembers.map(member => [member.email?.trim().toLowerCase(), member]));
+  const existingByPhone = new Map(
+    existingMembers
+      .filter(member => member.phone && isValidPhone(member.phone))
+      .map(member => [digitsOnly(member.phone).slice(-10), member])
+  );
+  const seenEmails = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const get = (field: MemberImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const data: MemberFormData = {
+      firstName: get('firstName'),
+      lastName: get('lastName'),
+      email: get('email').toLowerCase(),
+      phone: get('phone'),
+      emergencyContact: {
+        name: get('emergencyContactName'),
+        relationship: get('emergencyContactRelationship'),
+        phone: get('emergencyContactPhone'),
+      },
+      membershipType: 'Recurring',
+      autoRenew: false,
+      waiverSigned: parseYesNo(get('waiverSigned')),
+      medicalNotes: get('medicalNotes') || undefined,
+      notes: get('notes') || undefined,
+      tags: get('tags') ? get('tags').split(/[;|]/).map(tag => tag.trim()).filter(Boolean) : [],
+    };
+
+    MEMBER_IMPORT_FIELDS.filter(definition => definition.required).forEach(({ field, label }) => {
+      if (!get(field)) errors.push(`${label} is required`);
+    });
+
+    if (data.email) {
+      if (!EMAIL_PATTERN.test(data.email)) {
+        errors.push(`"${data.email}" is not a valid email`);
+      } else if (existingByEmail.has(data.email)) {
+        const existing = existingByEmail.get(data.email)!;
+        errors.push(`Email already belongs to ${existing.firstName} ${existing.lastName}`);
+      } else if (seenEmails.has(data.email)) {
+        errors.push(`Email repeats row ${seenEmails.get(data.email)}`);
+      }
+      if (!seenEmails.has(data.email)) seenEmails.set(data.email, rowNumber);
+    }
+
+    if (data.phone) {
+      if (!isValidPhone(data.phone)) {
+        errors.push(`"${data.phone}" is not a valid phone number`);
+      } else if (existingByPhone.has(digitsOnly(data.phone).slice(-10))) {
+        const existing = existingByPhone.get(digitsOnly(data.phone).slice(-10))!;
+        warnings.push(`Phone matches existing member ${existing.firstName} ${existing.lastName}`);
+      }
+    }
+
+    if (data.emergencyContact.phone && !isValidPhone(data.emergencyContact.phone)) {
+      errors.push(`"${data.emergencyContact.phone}" is not a valid emergency phone number`);
+    }
+    if (!data.emergencyContact.name) {
+      warnings.push('No emergency contact');
+    }
+
+    const dateOfBirth = get('dateOfBirth');
+    if (dateOfBirth) {
+      const parsed = parseImportDate(dateOfBirth);
+      if (!parsed) {
+        errors.push(`"${dateOfBirth}" is not a valid date (use YYYY-MM-DD or MM/DD/YYYY)`);
+      } else if (parsed > new Date()) {
+        errors.push('Date of birth is in the future');
+      } else {
+        data.dateOfBirth = parsed;
+      }
+    }
+
+    const membershipType = get('membershipType');
+    if (membershipType) {
+      const match = (['Recurring', 'Prepaid'] as MembershipType[])
+        .find(type => type.toLowerCase() === membershipType.toLowerCase());
+      if (match) {
+        data.membershipType = match;
+      } else {
+        errors.push(`Membership type must be Recurring or Prepaid, not "${membershipType}"`);
+      }
+    }
+
+    const paymentMethod = get('paymentMethod');
+    if (paymentMethod) {
+      const match = PAYMENT_METHODS.find(method => method.toLowerCase() === paymentMethod.toLowerCase());
+      if (match) {
+        data.paymentMethod = match;
+      } else {
+        errors.push(`Unknown payment method "${paymentMethod}"`);
+      }
+    }
+
+    (['monthlyAmount', 'totalAmount', 'totalCredits'] as const).forEach(field => {
+      const value = get(field);
+      if (!value) return;
+      const amount = parseAmount(value);
+      if (amount === null) {
+        errors.push(`${MEMBER_IMPORT_FIELDS.find(definition => definition.field === field)!.label} must be a number`);
+      } else {
+        data[field] = field === 'totalCredits' ? Math.round(amount) : amount;
+      }
+    });
+
+    return { rowNumber, data, errors, warnings };
+  });
+};
+
+export const buildImportResultsCsv = (results: MemberImportResult[]): string =>
+  toCsv(
+    ['Row', 'Name', 'Email', 'Status', 'Member ID', 'Portal Password', 'Message'],
+    results.map(result => [
+      result.rowNumber,
+      result.name,
+      result.email,
+      result.status,
+      result.memberId,
+      result.password,
+      result.message,
+    ])
+  );
@@ -0,0 +1,130 @@
+import {
+  buildPayrollReport,
+  calculateSessionPay,
+  getSessionRevenue,
+  payrollReportToCsv,
+  summarizeTimeEntries,
+} from './payroll';
+import { PayrollSession } from '../types/payroll';
+
+const session = (overrides: Partial<PayrollSession> = {}): PayrollSession => ({
+  classId: 'class-1',
+  title: 'Muay Thai',
+  date: new Date(2025, 5, 2),
+  instructorId: 'coach-1',
+  instructorName: 'Coach One',
+  attendees: 8,
+  revenue: 160,
+  ...overrides,
+});
+
+const PERIOD_START = new Date(2025, 5, 1);
+const PERIOD_END = new Date(2025, 5, 30);
+
+describe('calculateSessionPay', () => {
+  test.each([
+    ['flat', 50, 50],
+    ['per_attendee', 5, 40],
+    ['percentage', 25, 40],
+  ] as const)('%s rule of %s pays %s', (type, amount, expected) => {
+    expect(calculateSessionPay({ type, amount }, session())).toBe(expected);
+  });
+
+  test('pays nothing without a rule', () => {
+    expect(calculateSessionPay(null, session())).toBe(0);
+  });
+});
+
+describe('getSessionRevenue', () => {
+  test('uses the drop-in price for single classes', () => {
+    expect(getSessionRevenue({ price: 20 }, 3)).toBe(60);
+  });
+
+  test('spreads the package price across its sessions', () => {
+    expect(getSessionRevenue({ isPackage: true, packagePrice: 100, totalSessions: 8 }, 4)).toBe(50);
+  });
+});
+
+describe('buildPayrollReport', () => {
+  test('totals sessions, attendees and pay per instructor', () => {
+    const report = buildPayrollReport(
+      [
+        session(),
+        session({ classId: 'class-2', attendees: 4, revenue: 80 }),
+        session({ classId: 'class-3', instructorId: 'coach-2', instructorName: 'Alex Sub', attendees: 10, revenue: 0 }),
+      ],
+      {
+        'coach-1': { type: 'percentage', amount: 50 },
+        'coach-2': { type: 'flat', amount: 45 },
+      },
+      PERIOD_START,
+      PERIOD_END
+    );
+
+    expect(report.lines.map(line => [line.instructorName, line.sessions, line.attendees, line.amountDue])).toEqual([
+      ['Alex Sub', 1, 10, 45],
+      ['Coach One', 2, 12, 120],
+    ]);
+    expect(report.totalDue).toBe(165);
+  });
+
+  test('lists instructors without a rate at zero', () => {
+    const report = buildPayrollReport([session()], {}, PERIOD_START, PERIOD_END);
+
+    expect(report.lines[0].rule).toBeNull();
+    expect(report.lines[0].amountDue).toBe(0);
+  });
+
+  test('pays clocked hours to staff on an hourly rate', () => {
+    const report = buildPayrollReport(
+      [session()],
+      {
+        'coach-1': { type: 'flat', amount: 50 },
+        'desk-1': { type: 'hourly', amount: 18 },
+      },
+      PERIOD_START,
+      PERIOD_END,
+      [
+        { staffId: 'desk-1', staffName: 'Front Desk', hours: 12.5, entries: 3, openEntries: 0 },
+        { staffId: 'desk-2', staffName: 'Idle Desk', hours: 0, entries: 0, openEntries: 0 },
+      ]
+    );
+
+    expect(report.lines.map(line => [line.instructorName, line.hours, line.amountDue])).toEqual([
+      ['Coach One', 0, 50],
+      ['Front Desk', 12.5, 225],
+    ]);
+    expect(report.totalDue).toBe(275);
+  });
+});
+
+describe('summarizeTimeEntries', () => {
+  test('adds up finished shifts and counts open ones separately', () => {
+    const summary = summarizeTimeEntries('desk-1', 'Front Desk', [
+      { clockIn: new Date(2025, 5, 2, 9, 0), clockOut: new Date(2025, 5, 2, 13, 30) },
+      { clockIn: new Date(2025, 5, 3, 9, 0), clockOut: new Date(2025, 5, 3, 9, 20) },
+      { clockIn: new Date(2025, 5, 4, 9, 0), clockOut: null },
+    ]);
+
+    expect(summary.hours).toBe(4.83);
+    expect(summary.entries).toBe(3);
+    expect(summary.openEntries).toBe(1);
+  });
+});
+
+describe('payrollReportToCsv', () => {
+  test('writes a header, one row per instructor and a total, quoting names with commas', () => {
+    const report = buildPayrollReport(
+      [session({ instructorName: 'One, Coach' })],
+      { 'coach-1': { type: 'flat', amount: 50 } },
+      PERIOD_START,
+      PERIOD_END
+    );
+
+    expect(payrollReportToCsv(report).split('\r\n')).toEqual([
+      'Staff Member,Pay Rule,Sessions Taught,Attendees,Revenue,Hours,Amount Due',
+      '"One, Coach",$50.00 per class,1,8,160.00,0.00,50.00',
+      'Total,,,,,,50.00',
+    ]);
+  });
+});
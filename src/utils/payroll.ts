@@ -0,0 +1,137 @@
+// src/utils/payroll.ts - Instructor pay calculations, free of Firestore
+import { PayRule, PayrollLine, PayrollReport, PayrollSession, TimesheetSummary } from '../types/payroll';
+import { CsvValue, toCsv } from './csvUtils';
+
+export const PAY_RULE_LABELS: Record<PayRule['type'], string> = {
+  flat: 'Flat per class',
+  per_attendee: 'Per attendee',
+  percentage: 'Percentage of revenue',
+  hourly: 'Hourly (time clock)',
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const formatPayRule = (rule: PayRule | null): string => {
+  if (!rule) return 'Not set';
+  switch (rule.type) {
+    case 'flat':
+      return `$${rule.amount.toFixed(2)} per class`;
+    case 'per_attendee':
+      return `$${rule.amount.toFixed(2)} per attendee`;
+    case 'percentage':
+      return `${rule.amount}% of revenue`;
+    case 'hourly':
+      return `$${rule.amount.toFixed(2)} per hour`;
+  }
+};
+
+export const calculateSessionPay = (rule: PayRule | null, session: Pick<PayrollSession, 'attendees' | 'revenue'>): number => {
+  if (!rule) return 0;
+  switch (rule.type) {
+    case 'flat':
+      return rule.amount;
+    case 'per_attendee':
+      return rule.amount * session.attendees;
+    case 'percentage':
+      return (session.revenue * rule.amount) / 100;
+    case 'hourly':
+      return 0; // Paid from the time clock instead
+  }
+};
+
+// Completed entries only; an open shift has no hours yet
+export const getEntryHours = (clockIn: Date, clockOut: Date | null): number =>
+  clockOut ? Math.max(0, clockOut.getTime() - clockIn.getTime()) / 3600000 : 0;
+
+export const summarizeTimeEntries = (
+  staffId: string,
+  staffName: string,
+  entries: { clockIn: Date; clockOut: Date | null }[]
+): TimesheetSummary => ({
+  staffId,
+  staffName,
+  hours: roundCents(entries.reduce((sum, entry) => sum + getEntryHours(entry.clockIn, entry.clockOut), 0)),
+  entries: entries.length,
+  openEntries: entries.filter(entry => !entry.clockOut).length,
+});
+
+/**
+ * Revenue a session brought in: the drop-in price per attendee, or for
+ * package sessions the package price spread evenly over its sessions.
+ */
+export const getSessionRevenue = (
+  classData: { price?: number; packagePrice?: number; totalSessions?: number; isPackage?: boolean },
+  attendees: number
+): number => {
+  const perAttendee = classData.isPackage
+    ? (classData.packagePrice || 0) / Math.max(1, classData.totalSessions || 1)
+    : classData.price || 0;
+  return roundCents(perAttendee * attendees);
+};
+
+export const buildPayrollReport = (
+  sessions: PayrollSession[],
+  rules: Record<string, PayRule>,
+  periodStart: Date,
+  periodEnd: Date,
+  timesheets: TimesheetSummary[] = []
+): PayrollReport => {
+  const lines = new Map<string, PayrollLine>();
+
+  const getLine = (staffId: string, staffName: string): PayrollLine => lines.get(staffId) || {
+    instructorId: staffId,
+    instructorName: staffName,
+    rule: rules[staffId] || null,
+    sessions: 0,
+    attendees: 0,
+    revenue: 0,
+    hours: 0,
+    amountDue: 0,
+  };
+
+  sessions.forEach(session => {
+    const line = getLine(session.instructorId, session.instructorName);
+    const rule = line.rule;
+
+    line.sessions += 1;
+    line.attendees += session.attendees;
+    line.revenue = roundCents(line.revenue + session.revenue);
+    line.amountDue = roundCents(line.amountDue + calculateSessionPay(rule, session));
+    lines.set(session.instructorId, line);
+  });
+
+  timesheets.filter(summary => summary.hours > 0).forEach(summary => {
+    const line = getLine(summary.staffId, summary.staffName);
+    line.hours = roundCents(line.hours + summary.hours);
+    if (line.rule?.type === 'hourly') {
+      line.amountDue = roundCents(line.amountDue + summary.hours * line.rule.amount);
+    }
+    lines.set(summary.staffId, line);
+  });
+
+  const sortedLines = Array.from(lines.values()).sort((a, b) => a.instructorName.localeCompare(b.instructorName));
+  return {
+    periodStart,
+    periodEnd,
+    lines: sortedLines,
+    totalDue: roundCents(sortedLines.reduce((sum, line) => sum + line.amountDue, 0)),
+  };
+};
+
+export const payrollReportToCsv = (report: PayrollReport): string => {
+  const rows: CsvValue[][] = report.lines.map(line => [
+    line.instructorName,
+    formatPayRule(line.rule),
+    line.sessions,
+    line.attendees,
+    line.revenue.toFixed(2),
+    line.hours.toFixed(2),
+    line.amountDue.toFixed(2),
+  ]);
+  rows.push(['Total', '', '', '', '', '', report.totalDue.toFixed(2)]);
+
+  return toCsv(
+    ['Staff Member', 'Pay Rule', 'Sessions Taught', 'Attendees', 'Revenue', 'Hours', 'Amount Due'],
+    rows
+  );
+};
@@ -0,0 +1,71 @@
+// src/utils/permissions.ts - Permission catalogue and role defaults, free of Firestore
+
+import { StaffRole } from '../types/staff';
+import {
+  Permission,
+  PermissionDefinition,
+  PermissionOverrides,
+  RolePermissionMap,
+} from '../types/permissions';
+
+export const PERMISSIONS: PermissionDefinition[] = [
+  { id: 'dashboard.view', label: 'View dashboard', description: 'Business overview and statistics', group: 'General' },
+  { id: 'classes.view', label: 'View classes', description: 'Browse the class and workshop schedule', group: 'Classes' },
+  { id: 'classes.manage', label: 'Manage classes', description: 'Create, edit and delete classes and packages', group: 'Classes' },
+  { id: 'schedule.view', label: 'My schedule', description: 'See assigned classes and take attendance', group: 'Classes' },
+  { id: 'checkins.manage', label: 'Check members in', description: 'Use the front-desk check-in screen', group: 'Members' },
+  { id: 'members.view', label: 'View members', description: 'Open the member list and member details', group: 'Members' },
+  { id: 'members.edit', label: 'Edit members', description: 'Add, edit, change status and deactivate members', group: 'Members' },
+  { id: 'packages.sell', label: 'Sell packages', description: 'Subscribe members to packages and renew them', group: 'Sales & Billing' },
+  { id: 'packages.manage', label: 'Manage packages', description: 'Edit the membership package catalogue', group: 'Sales & Billing' },
+  { id: 'subscriptions.manage', label: 'Pause subscriptions', description: 'Pause and resume member subscriptions', group: 'Sales & Billing' },
+  { id: 'payments.record', label: 'Record payments', description: 'Record payments against a member', group: 'Sales & Billing' },
+  { id: 'payments.refund', label: 'Cancel with refund', description: 'Cancel subscriptions and issue prorated refunds', group: 'Sales & Billing' },
+  { id: 'billing.manage', label: 'Dunning', description: 'Work the overdue queue and billing settings', group: 'Sales & Billing' },
+  { id: 'leads.manage', label: 'Leads', description: 'Work the leads pipeline and convert leads', group: 'Sales & Billing' },
+  { id: 'discounts.manage', label: 'Discounts', description: 'Create and manage discount codes', group: 'Administration' },
+  { id: 'staff.manage', label: 'Staff', description: 'Add staff, change roles and permissions', group: 'Administration' },
+  { id: 'payroll.manage', label: 'Payroll', description: 'Set instructor pay rates and run payroll reports', group: 'Administration' },
+  { id: 'audit.view', label: 'Audit log', description: 'See who changed classes, discounts, packages, staff and belts', group: 'Administration' },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map(p => p.id);
+
+// Used until an admin saves their own mapping, and for any role it leaves out
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMap = {
+  admin: ALL_PERMISSIONS,
+  trainer: ['classes.view', 'schedule.view'],
+  staff: [
+    'classes.view',
+    'schedule.view',
+    'checkins.manage',
+    'members.view',
+    'packages.sell',
+    'payments.record',
+  ],
+};
+
+export const EMPTY_OVERRIDES: PermissionOverrides = { granted: [], revoked: [] };
+
+export const isPermission = (value: unknown): value is Permission =>
+  ALL_PERMISSIONS.includes(value as Permission);
+
+/**
+ * Effective permissions for a staff member: the role's set, plus grants,
+ * minus revocations. Admins always get everything so nobody can lock the
+ * panel out of staff management.
+ */
+export const resolvePermissions = (
+  role: StaffRole | undefined,
+  roleMap: RolePermissionMap,
+  overrides?: PermissionOverrides | null
+): Permission[] => {
+  if (!role) return [];
+  if (role === 'admin') return ALL_PERMISSIONS;
+
+  const effective = new Set<Permission>(roleMap[role] || []);
+  overrides?.granted.forEach(p => effective.add(p));
+  overrides?.revoked.forEach(p => effective.delete(p));
+
+  return ALL_PERMISSIONS.filter(p => effective.has(p));
+};
@@ -0,0 +1,74 @@
+// src/utils/receiptUtils.ts
+
+import { format } from 'date-fns';
+import { MemberPayment } from '../types/members';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Build a standalone HTML receipt for a recorded payment
+ */
+export const buildReceiptHtml = (payment: MemberPayment): string => {
+  const rows: [string, string][] = [
+    ['Receipt #', payment.receiptNumber || payment.id],
+    ['Date', format(payment.paymentDate.toDate(), 'MMM dd, yyyy h:mm a')],
+    ['Member', payment.memberName],
+    ['Description', payment.description],
+    ['Payment Method', payment.paymentMethod],
+  ];
+
+  if (payment.creditsAdded) {
+    rows.push(['Credits Added', String(payment.creditsAdded)]);
+  }
+  if (payment.notes) {
+    rows.push(['Notes', payment.notes]);
+  }
+  rows.push(['Processed By', payment.processedByName]);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Receipt ${escapeHtml(payment.receiptNumber || '')}</title>
+  <style>
+    body { font-family: Arial, sans-serif; max-width: 420px; margin: 32px auto; color: #222; }
+    h1 { font-size: 20px; text-align: center; margin-bottom: 4px; }
+    .subtitle { text-align: center; color: #666; font-size: 12px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    td { padding: 6px 0; border-bottom: 1px solid #eee; vertical-align: top; }
+    td:first-child { color: #666; width: 40%; }
+    .total { font-size: 18px; font-weight: bold; text-align: right; margin-top: 16px; }
+    .footer { text-align: center; color: #999; font-size: 11px; margin-top: 32px; }
+  </style>
+</head>
+<body>
+  <h1>PACIFIC MMA</h1>
+  <div class="subtitle">Payment Receipt</div>
+  <table>
+    ${rows.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('\n    ')}
+  </table>
+  <div class="total">Total Paid: $${payment.amount.toFixed(2)}</div>
+  <div class="footer">Thank you for training with us!</div>
+</body>
+</html>`;
+};
+
+/**
+ * Open the receipt in a new window and trigger the browser print dialog
+ */
+export const printReceipt = (payment: MemberPayment): boolean => {
+  const receiptWindow = window.open('', '_blank', 'width=480,height=640');
+  if (!receiptWindow) {
+    return false; // Blocked by the browser's popup blocker
+  }
+
+  receiptWindow.document.write(buildReceiptHtml(payment));
+  receiptWindow.document.close();
+  receiptWindow.focus();
+  receiptWindow.print();
+  return true;
+};
@@ -0,0 +1,96 @@
+import { ScheduleSlot, findScheduleConflicts, timesOverlap } from './scheduleConflicts';
+import { StaffAvailability } from '../types/staff';
+
+// Monday, 2 June 2025
+const MONDAY = new Date(2025, 5, 2);
+
+const slot = (overrides: Partial<ScheduleSlot> = {}): ScheduleSlot => ({
+  title: 'BJJ Fundamentals',
+  date: MONDAY,
+  startTime: '18:00',
+  endTime: '19:00',
+  location: 'Main Mat',
+  instructorId: 'coach-1',
+  instructorName: 'Coach One',
+  ...overrides,
+});
+
+const availability = (overrides: Partial<StaffAvailability> = {}): StaffAvailability => ({
+  staffId: 'coach-1',
+  weekly: [],
+  timeOff: [],
+  ...overrides,
+});
+
+describe('timesOverlap', () => {
+  test.each([
+    ['18:00', '19:00', '18:30', '19:30', true],
+    ['18:00', '19:00', '17:00', '20:00', true],
+    ['18:00', '19:00', '19:00', '20:00', false],
+    ['18:00', '19:00', '16:00', '18:00', false],
+  ])('%s-%s vs %s-%s overlaps: %s', (aStart, aEnd, bStart, bEnd, expected) => {
+    expect(timesOverlap(aStart, aEnd, bStart, bEnd)).toBe(expected);
+  });
+});
+
+describe('findScheduleConflicts', () => {
+  test('flags the same instructor at an overlapping time', () => {
+    const existing = slot({ id: 'class-1', title: 'Muay Thai', startTime: '18:30', endTime: '19:30', location: 'Ring' });
+
+    const conflicts = findScheduleConflicts([slot()], [existing]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe('instructor');
+    expect(conflicts[0].clash).toBe(existing);
+  });
+
+  test('flags a different instructor in the same location, ignoring case and spacing', () => {
+    const existing = slot({ id: 'class-1', instructorId: 'coach-2', instructorName: 'Coach Two', location: ' main mat ' });
+
+    const conflicts = findScheduleConflicts([slot()], [existing]);
+
+    expect(conflicts.map(c => c.kind)).toEqual(['location']);
+  });
+
+  test('does not treat two sessions without a location as a clash', () => {
+    const existing = slot({ id: 'class-1', instructorId: 'coach-2', instructorName: 'Coach Two', location: '  ' });
+    const missing = slot({ id: 'class-2', instructorId: 'coach-3', location: undefined });
+
+    expect(findScheduleConflicts([slot({ location: '' })], [existing, missing])).toEqual([]);
+  });
+
+  test('ignores sessions on other days, back-to-back sessions and the class being edited', () => {
+    const existing = [
+      slot({ id: 'other-day', date: new Date(2025, 5, 3) }),
+      slot({ id: 'back-to-back', startTime: '19:00', endTime: '20:00' }),
+      slot({ id: 'class-1' }),
+    ];
+
+    expect(findScheduleConflicts([slot({ id: 'class-1' })], existing)).toEqual([]);
+  });
+
+  test('flags sessions during time off', () => {
+    const conflicts = findScheduleConflicts([slot()], [], availability({
+      timeOff: [{ id: 'off-1', startDate: new Date(2025, 5, 1), endDate: new Date(2025, 5, 2), reason: 'Seminar' }],
+    }));
+
+    expect(conflicts.map(c => c.kind)).toEqual(['time_off']);
+    expect(conflicts[0].message).toContain('Seminar');
+  });
+
+  test('flags sessions outside weekly availability once it is set', () => {
+    const proposed = [slot(), slot({ date: new Date(2025, 5, 3) })];
+
+    const conflicts = findScheduleConflicts(proposed, [], availability({
+      weekly: [{ dayOfWeek: 1, startTime: '17:00', endTime: '21:00' }],
+    }));
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe('unavailable');
+    expect(conflicts[0].slot.date.getDay()).toBe(2);
+  });
+
+  test('does not enforce weekly hours when none are set', () => {
+    expect(findScheduleConflicts([slot()], [], availability())).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+// src/utils/scheduleConflicts.ts - Instructor, location and availability clashes for proposed sessions
+import { StaffAvailability } from '../types/staff';
+
+export interface ScheduleSlot {
+  id?: string; // Existing class id; a slot never clashes with itself
+  title: string;
+  date: Date;
+  startTime: string; // HH:mm
+  endTime: string;
+  location?: string; // Blank or missing never clashes
+  instructorId: string;
+  instructorName: string;
+}
+
+export type ScheduleConflictKind = 'instructor' | 'location' | 'unavailable' | 'time_off';
+
+export interface ScheduleConflict {
+  kind: ScheduleConflictKind;
+  slot: ScheduleSlot; // The proposed session
+  clash?: ScheduleSlot; // The existing session it overlaps, for instructor and location conflicts
+  message: string;
+}
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Back-to-back sessions (one ends as the next starts) don't overlap
+export const timesOverlap = (aStart: string, aEnd: string, bStart: string, bEnd: string): boolean =>
+  toMinutes(aStart) < toMinutes(bEnd) && toMinutes(bStart) < toMinutes(aEnd);
+
+const dayKey = (date: Date) => date.getFullYear() * 10000 + date.getMonth() * 100 + date.getDate();
+
+export const isSameDay = (a: Date, b: Date): boolean => dayKey(a) === dayKey(b);
+
+const normalizeLocation = (location?: string) => (location || '').trim().toLowerCase();
+
+const sameLocation = (a?: string, b?: string) => {
+  const location = normalizeLocation(a);
+  return location !== '' && location === normalizeLocation(b);
+};
+
+const describeSlot = (slot: ScheduleSlot) => `${slot.title} (${slot.startTime}-${slot.endTime})`;
+
+const isOnTimeOff = (slot: ScheduleSlot, availability: StaffAvailability) =>
+  availability.timeOff.find(period =>
+    dayKey(slot.date) >= dayKey(period.startDate) && dayKey(slot.date) <= dayKey(period.endDate)
+  );
+
+const fitsWeeklyAvailability = (slot: ScheduleSlot, availability: StaffAvailability) =>
+  availability.weekly.some(window =>
+    window.dayOfWeek === slot.date.getDay()
+    && toMinutes(window.startTime) <= toMinutes(slot.startTime)
+    && toMinutes(slot.endTime) <= toMinutes(window.endTime)
+  );
+
+// Compares each proposed slot with the sessions already on the schedule and
+// with the instructor's availability. Weekly hours are only enforced once the
+// instructor has set some.
+export const findScheduleConflicts = (
+  proposed: ScheduleSlot[],
+  existing: ScheduleSlot[],
+  availability?: StaffAvailability | null
+): ScheduleConflict[] => {
+  const conflicts: ScheduleConflict[] = [];
+
+  proposed.forEach(slot => {
+    existing
+      .filter(other => !slot.id || other.id !== slot.id)
+      .filter(other => isSameDay(other.date, slot.date))
+      .filter(other => timesOverlap(slot.startTime, slot.endTime, other.startTime, other.endTime))
+      .forEach(other => {
+        if (other.instructorId === slot.instructorId) {
+          conflicts.push({
+            kind: 'instructor',
+            slot,
+            clash: other,
+            message: `${slot.instructorName} is already teaching ${describeSlot(other)}`,
+          });
+        } else if (sameLocation(other.location, slot.location)) {
+          conflicts.push({
+            kind: 'location',
+            slot,
+            clash: other,
+            message: `${other.location} is booked for ${describeSlot(other)} with ${other.instructorName}`,
+          });
+        }
+      });
+
+    if (!availability || availability.staffId !== slot.instructorId) return;
+
+    const timeOff = isOnTimeOff(slot, availability);
+    if (timeOff) {
+      conflicts.push({
+        kind: 'time_off',
+        slot,
+        message: `${slot.instructorName} is off${timeOff.reason ? ` (${timeOff.reason})` : ''}`,
+      });
+    } else if (availability.weekly.length > 0 && !fitsWeeklyAvailability(slot, availability)) {
+      conflicts.push({
+        kind: 'unavailable',
+        slot,
+        message: `Outside ${slot.instructorName}'s weekly availability`,
+      });
+    }
+  });
+
+  return conflicts;
+};